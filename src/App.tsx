@@ -23,7 +23,11 @@ import NotFoundPage from "./pages/NotFoundPage";
 const DashboardPage = lazy(() => import("./pages/DashboardPage"));
 const MedicationsPage = lazy(() => import("./pages/MedicationsPage"));
 const LabsTrendsPage = lazy(() => import("./pages/LabsTrendsPage"));
+const ProceduresPage = lazy(() => import("./pages/ProceduresPage"));
+const DocumentsPage = lazy(() => import("./pages/DocumentsPage"));
 const PreVisitPage = lazy(() => import("./pages/PreVisitPage"));
+const ImportRecordsPage = lazy(() => import("./pages/ImportRecordsPage"));
+const PatientMatchReviewPage = lazy(() => import("./pages/PatientMatchReviewPage"));
 
 // -----------------------------------------------------------
 // Lazy-load fallback (lightweight skeleton for page transitions)
@@ -41,13 +45,13 @@ const PageFallback = () => (
 // AppRoutes — Routing logic based on auth state
 // -----------------------------------------------------------
 const AppRoutes = () => {
-  const { client, setClient } = useFhirClient();
+  const { client, connectSource } = useFhirClient();
 
   const handleAuthenticated = useCallback(
-    (fhirClient: Client) => {
-      setClient(fhirClient);
+    (sourceId: string, fhirClient: Client) => {
+      connectSource(sourceId, fhirClient);
     },
-    [setClient]
+    [connectSource]
   );
 
   // Check if URL has OAuth callback params
@@ -77,7 +81,11 @@ const AppRoutes = () => {
         <Route path="/dashboard" element={<Suspense fallback={<PageFallback />}><ErrorBoundary context="Dashboard"><DashboardPage /></ErrorBoundary></Suspense>} />
         <Route path="/medications" element={<Suspense fallback={<PageFallback />}><ErrorBoundary context="Medications"><MedicationsPage /></ErrorBoundary></Suspense>} />
         <Route path="/labs" element={<Suspense fallback={<PageFallback />}><ErrorBoundary context="Labs & Trends"><LabsTrendsPage /></ErrorBoundary></Suspense>} />
+        <Route path="/procedures" element={<Suspense fallback={<PageFallback />}><ErrorBoundary context="Procedures"><ProceduresPage /></ErrorBoundary></Suspense>} />
+        <Route path="/documents" element={<Suspense fallback={<PageFallback />}><ErrorBoundary context="Documents"><DocumentsPage /></ErrorBoundary></Suspense>} />
         <Route path="/pre-visit" element={<Suspense fallback={<PageFallback />}><ErrorBoundary context="Pre-Visit Report"><PreVisitPage /></ErrorBoundary></Suspense>} />
+        <Route path="/import" element={<Suspense fallback={<PageFallback />}><ErrorBoundary context="Import Records"><ImportRecordsPage /></ErrorBoundary></Suspense>} />
+        <Route path="/sources/:sourceId/match" element={<Suspense fallback={<PageFallback />}><ErrorBoundary context="Patient Match Review"><PatientMatchReviewPage /></ErrorBoundary></Suspense>} />
       </Route>
 
       {/* Catch-all */}
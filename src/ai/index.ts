@@ -23,6 +23,8 @@ export type {
   DrugInteraction,
   SourceConflictAlert,
   VitalCorrelation,
+  MedicationAdherence,
+  RefillGap,
   Tier1Results,
   HealthInsight,
   CachedNarrative,
@@ -39,6 +41,7 @@ export { detectCareGaps } from "./rules/careGapRules";
 export { detectDrugInteractions } from "./rules/drugInteractions";
 export { generateSourceConflictAlerts } from "./rules/sourceConflicts";
 export { detectVitalMedCorrelations } from "./rules/vitalMedCorrelation";
+export { analyzeMedicationAdherence, findSupplyGap } from "./rules/medicationAdherence";
 
 // --- Tier 2 Cached LLM ---
 export { generateLabTrendNarrative } from "./llm/labTrendNarrative";
@@ -60,8 +63,8 @@ export { generatePreVisitNarrative } from "./llm/reportNarrative";
 export type { PreVisitNarrative, ReportInputData } from "./llm/reportNarrative";
 
 // --- Report Assembly (pure function) ---
-export { assemblePreVisitReport } from "./preVisitReport";
-export type { PreVisitReport } from "./preVisitReport";
+export { assemblePreVisitReport, findNextAppointment } from "./preVisitReport";
+export type { PreVisitReport, VisitFocus } from "./preVisitReport";
 
 // -----------------------------------------------------------
 // Tier 1 Orchestrator — runs all rule-based analysis
@@ -76,6 +79,9 @@ import type {
   MergedCondition,
   MergedImmunization,
   MergedEncounter,
+  MergedProcedure,
+  MergedMedicationDispense,
+  MergedMedicationStatement,
   Conflict,
 } from "../types/merged";
 import type { Tier1Results } from "./types";
@@ -85,6 +91,7 @@ import { detectCareGaps } from "./rules/careGapRules";
 import { detectDrugInteractions } from "./rules/drugInteractions";
 import { generateSourceConflictAlerts } from "./rules/sourceConflicts";
 import { detectVitalMedCorrelations } from "./rules/vitalMedCorrelation";
+import { analyzeMedicationAdherence } from "./rules/medicationAdherence";
 
 export interface UnifiedDataForAI {
   medications: MergedMedication[];
@@ -94,6 +101,9 @@ export interface UnifiedDataForAI {
   conditions: MergedCondition[];
   immunizations: MergedImmunization[];
   encounters: MergedEncounter[];
+  procedures: MergedProcedure[];
+  medicationDispenses: MergedMedicationDispense[];
+  medicationStatements: MergedMedicationStatement[];
   conflicts: Conflict[];
 }
 
@@ -113,15 +123,22 @@ export function runTier1Analysis(
     conditions: data.conditions,
     immunizations: data.immunizations,
     encounters: data.encounters,
+    procedures: data.procedures,
     labResults: data.labResults,
     vitals: data.vitals,
   });
-  const drugInteractions = detectDrugInteractions(data.medications);
+  const drugInteractions = detectDrugInteractions(data.medications, data.conditions);
   const sourceConflictAlerts = generateSourceConflictAlerts(data.conflicts);
+  const medicationAdherence = analyzeMedicationAdherence(
+    data.medications,
+    data.medicationDispenses,
+    data.medicationStatements
+  );
   const vitalCorrelations = detectVitalMedCorrelations(
     data.vitals,
     data.medications,
-    data.conditions
+    data.conditions,
+    medicationAdherence
   );
 
   return {
@@ -131,6 +148,7 @@ export function runTier1Analysis(
     drugInteractions,
     sourceConflictAlerts,
     vitalCorrelations,
+    medicationAdherence,
     analyzedAt: new Date().toISOString(),
   };
 }
@@ -11,7 +11,8 @@
 //   3. Care gaps (preventive health)
 //   4. Lab trends (monitoring)
 //   5. Vital correlations (medication effectiveness)
-//   6. General information
+//   6. Medication adherence (lapsed or low refills)
+//   7. General information
 //
 // COST: ~$0.002 first call, $0 thereafter (cached)
 // -----------------------------------------------------------
@@ -41,10 +42,18 @@ function buildTier1Insights(tier1: Tier1Results, conflicts: Conflict[]): HealthI
     const crossSystem =
       JSON.stringify(interaction.drugASources) !== JSON.stringify(interaction.drugBSources);
 
+    const isCondition = interaction.kind === "drug-condition";
+
     insights.push({
       id: `insight-ddi-${id}`,
-      title: `Drug Interaction: ${interaction.drugA} + ${interaction.drugB}`,
-      body: `${interaction.description}${crossSystem ? " These medications come from different providers — neither may be aware of the other prescription." : ""}`,
+      title: `${isCondition ? "Medication Caution" : "Drug Interaction"}: ${interaction.drugA} + ${interaction.drugB}`,
+      body: `${interaction.description}${
+        crossSystem
+          ? isCondition
+            ? " The medication and the diagnosis come from different providers — the prescriber may not know about this condition."
+            : " These medications come from different providers — neither may be aware of the other prescription."
+          : ""
+      }`,
       severity: interaction.severity === "critical" ? "critical" : interaction.severity === "high" ? "high" : "medium",
       category: "drug-interaction",
       sources: [...interaction.drugASources, ...interaction.drugBSources],
@@ -110,6 +119,22 @@ function buildTier1Insights(tier1: Tier1Results, conflicts: Conflict[]): HealthI
     });
   }
 
+  // Medication adherence (lapsed, stopped, or below 80% of days covered)
+  for (const adh of tier1.medicationAdherence.filter(
+    (a) => a.level !== "adherent" || a.reportedStopped || a.refillGaps.some((g) => g.ongoing)
+  )) {
+    id++;
+    insights.push({
+      id: `insight-adherence-${id}`,
+      title: `${adh.medicationName}: ${adh.reportedStopped ? "reported stopped" : `${Math.round(adh.pdc * 100)}% of days covered`}`,
+      body: adh.message,
+      severity: adh.level === "poor" ? "high" : "medium",
+      category: "medication",
+      sources: adh.sources,
+      tier: 1,
+    });
+  }
+
   return insights;
 }
 
@@ -36,7 +36,7 @@ function buildLabTrendPrompt(
   if (significantTrends.length > 0) {
     prompt += "LAB TRENDS:\n";
     for (const trend of significantTrends) {
-      prompt += `- ${trend.labName}: ${trend.direction} ${Math.abs(trend.changePercent)}% (${trend.firstReading.value} → ${trend.lastReading.value}) over ${trend.readingCount} readings spanning ${trend.spanDays} days\n`;
+      prompt += `- ${trend.labName}: ${trend.direction} ${Math.abs(trend.changePercent)}% (${trend.firstReading.value} → ${trend.lastReading.value} ${trend.unit}) over ${trend.readingCount} readings spanning ${trend.spanDays} days\n`;
     }
     prompt += "\n";
   }
@@ -45,7 +45,7 @@ function buildLabTrendPrompt(
     prompt += "ABNORMAL VALUES:\n";
     for (const flag of abnormalFlags) {
       const range = flag.referenceRange;
-      prompt += `- ${flag.labName}: ${flag.value} ${flag.unit} (${flag.status}, normal range: ${range.low ?? "?"}-${range.high ?? "?"} ${flag.unit})\n`;
+      prompt += `- ${flag.labName}: ${flag.value} ${flag.unit} (${flag.status}, normal range: ${range.low ?? "?"}-${range.high ?? "?"} ${range.unit ?? flag.unit})\n`;
     }
     prompt += "\n";
   }
@@ -83,7 +83,7 @@ function buildMedicationPrompt(
   if (interactions.length > 0) {
     prompt += `\nDRUG INTERACTIONS DETECTED:\n`;
     for (const interaction of interactions) {
-      prompt += `  - [${interaction.severity.toUpperCase()}] ${interaction.drugA} + ${interaction.drugB}: ${interaction.effect}\n`;
+      prompt += `  - [${interaction.severity.toUpperCase()}] ${interaction.drugA} + ${interaction.drugB}${interaction.kind === "drug-condition" ? " (condition)" : ""}: ${interaction.effect}\n`;
     }
   }
 
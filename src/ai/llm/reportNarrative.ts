@@ -98,7 +98,7 @@ function buildReportPrompt(data: ReportInputData): string {
   if (tier1.drugInteractions.length > 0) {
     prompt += `DRUG INTERACTIONS DETECTED:\n`;
     for (const di of tier1.drugInteractions) {
-      prompt += `- [${di.severity.toUpperCase()}] ${di.drugA} + ${di.drugB}: ${di.effect}\n`;
+      prompt += `- [${di.severity.toUpperCase()}] ${di.drugA} + ${di.drugB}${di.kind === "drug-condition" ? " (condition)" : ""}: ${di.effect}\n`;
     }
     prompt += "\n";
   }
@@ -8,6 +8,10 @@
 //
 // The report object is the contract between data and UI.
 // PreVisitPage.tsx renders it; PDF export serializes it.
+//
+// When an upcoming appointment is known, the report is tailored
+// to it: who the visit is with, which system they chart in, and
+// which records that system has never seen.
 // -----------------------------------------------------------
 
 import type { PatientDemographics } from "../types/patient";
@@ -17,7 +21,9 @@ import type {
   MergedCondition,
   MergedAllergy,
   MergedImmunization,
+  MergedAppointment,
   Conflict,
+  ConflictStatus,
   SourceSummary,
 } from "../types/merged";
 import type {
@@ -54,6 +60,8 @@ export interface PreVisitReport {
     medium: SourceConflictAlert[];
     conflicts: Conflict[];
     totalAlerts: number;
+    /** Conflicts left out because the patient resolved them or marked them not a problem */
+    closedCount: number;
   };
 
   /** Section 3: Lab results */
@@ -84,6 +92,9 @@ export interface PreVisitReport {
   /** Data source summary */
   dataSources: SourceSummary[];
 
+  /** The visit this report is tailored to (next upcoming appointment) */
+  visit?: VisitFocus;
+
   /** Whether AI narrative is available */
   hasAINarrative: boolean;
 
@@ -97,6 +108,63 @@ export interface PreVisitReport {
   disclaimer: string;
 }
 
+export interface VisitFocus {
+  appointment: MergedAppointment;
+  /** Who the visit is with (clinician, else location, else visit type) */
+  provider: string;
+  /** System the appointment was booked in — the chart the provider will open */
+  source: SourceTag;
+  /**
+   * Records that system hasn't seen: none of their allSources is
+   * the visit's system. Same filters as the main sections (active
+   * meds/conditions, abnormal labs).
+   */
+  unseen: {
+    medications: MergedMedication[];
+    conditions: MergedCondition[];
+    allergies: MergedAllergy[];
+    labResults: MergedLabResult[];
+    immunizations: MergedImmunization[];
+  };
+  unseenCount: number;
+}
+
+// -----------------------------------------------------------
+// Next appointment
+// -----------------------------------------------------------
+
+/** Statuses that will never turn into a visit */
+const INACTIVE_APPOINTMENT_STATUSES = new Set(["cancelled", "noshow", "entered-in-error", "fulfilled"]);
+
+/**
+ * Soonest appointment that hasn't started yet and is still on the books.
+ * Returns null when nothing is scheduled.
+ */
+export function findNextAppointment(
+  appointments: MergedAppointment[],
+  now: Date = new Date()
+): MergedAppointment | null {
+  let next: MergedAppointment | null = null;
+  let nextTime = Infinity;
+
+  for (const appt of appointments) {
+    if (!appt.start || INACTIVE_APPOINTMENT_STATUSES.has(appt.status)) continue;
+    const time = new Date(appt.start).getTime();
+    if (isNaN(time) || time < now.getTime()) continue;
+    if (time < nextTime) {
+      next = appt;
+      nextTime = time;
+    }
+  }
+
+  return next;
+}
+
+/** Records whose merged sources don't include the given system */
+function notSeenBy<T extends { allSources: SourceTag[] }>(records: T[], systemId: string): T[] {
+  return records.filter((r) => !r.allSources.some((s) => s.systemId === systemId));
+}
+
 // -----------------------------------------------------------
 // Assembly function
 // -----------------------------------------------------------
@@ -108,7 +176,10 @@ interface AssembleInput {
   conditions: MergedCondition[];
   allergies: MergedAllergy[];
   immunizations: MergedImmunization[];
+  appointments: MergedAppointment[];
   conflicts: Conflict[];
+  /** Review status per conflict ID — resolved / false-positive conflicts are left out */
+  conflictStatuses?: Map<string, ConflictStatus>;
   sourceSummary: SourceSummary[];
   tier1: Tier1Results;
 }
@@ -118,7 +189,7 @@ interface AssembleInput {
  * Pure function — no side effects, no hooks, no API calls.
  */
 export function assemblePreVisitReport(input: AssembleInput): PreVisitReport {
-  const { patient, medications, labResults, conditions, allergies, immunizations, conflicts, sourceSummary, tier1 } = input;
+  const { patient, medications, labResults, conditions, allergies, immunizations, appointments, sourceSummary, tier1 } = input;
 
   // Separate active vs other medications
   const activeMeds = medications.filter((m) => m.status === "active");
@@ -132,10 +203,16 @@ export function assemblePreVisitReport(input: AssembleInput): PreVisitReport {
       ? `Medications from ${sourceNames[0]}`
       : "No medication sources available";
 
-  // Categorize conflicts
-  const critical = tier1.sourceConflictAlerts.filter((a) => a.severity === "critical");
-  const high = tier1.sourceConflictAlerts.filter((a) => a.severity === "high");
-  const medium = tier1.sourceConflictAlerts.filter((a) => a.severity === "medium");
+  // Categorize conflicts, leaving out the ones the patient closed
+  const isClosed = (conflictId: string) => {
+    const status = input.conflictStatuses?.get(conflictId);
+    return status === "resolved" || status === "false-positive";
+  };
+  const conflicts = input.conflicts.filter((c) => !isClosed(c.id));
+  const openAlerts = tier1.sourceConflictAlerts.filter((a) => !isClosed(a.conflictId));
+  const critical = openAlerts.filter((a) => a.severity === "critical");
+  const high = openAlerts.filter((a) => a.severity === "high");
+  const medium = openAlerts.filter((a) => a.severity === "medium");
 
   // Abnormal labs
   const abnormalLabs = labResults.filter(
@@ -159,6 +236,31 @@ export function assemblePreVisitReport(input: AssembleInput): PreVisitReport {
     (v) => v.significance === "high" || v.significance === "medium"
   );
 
+  // Tailor to the next visit — what does that system not know?
+  let visit: VisitFocus | undefined;
+  const nextAppointment = findNextAppointment(appointments);
+  if (nextAppointment) {
+    const systemId = nextAppointment.source.systemId;
+    const unseen = {
+      medications: notSeenBy(activeMeds, systemId),
+      conditions: notSeenBy(activeConditions, systemId),
+      allergies: notSeenBy(allergies, systemId),
+      labResults: notSeenBy(abnormalLabs, systemId),
+      immunizations: notSeenBy(immunizations, systemId),
+    };
+    visit = {
+      appointment: nextAppointment,
+      provider:
+        nextAppointment.practitioner ??
+        nextAppointment.location ??
+        nextAppointment.serviceType ??
+        nextAppointment.source.systemName,
+      source: nextAppointment.source,
+      unseen,
+      unseenCount: Object.values(unseen).reduce((sum, list) => sum + list.length, 0),
+    };
+  }
+
   return {
     generatedAt: new Date().toISOString(),
     patient,
@@ -174,6 +276,7 @@ export function assemblePreVisitReport(input: AssembleInput): PreVisitReport {
       medium,
       conflicts,
       totalAlerts: critical.length + high.length + medium.length,
+      closedCount: input.conflicts.length - conflicts.length,
     },
     labs: {
       abnormal: abnormalLabs,
@@ -189,6 +292,7 @@ export function assemblePreVisitReport(input: AssembleInput): PreVisitReport {
     },
     vitalCorrelations: significantCorrelations,
     dataSources: sourceSummary,
+    visit,
     hasAINarrative: false,
     disclaimer:
       "This report is for informational purposes only and does not constitute medical advice, diagnosis, or treatment. " +
@@ -6,8 +6,8 @@
 // routine monitoring based on age, sex, and conditions.
 //
 // GUIDELINES IMPLEMENTED:
-//   - Colonoscopy screening ≥ 45
-//   - Mammogram ≥ 40 (female)
+//   - Colonoscopy screening ≥ 45 (Procedure codes, or stool test labs)
+//   - Mammogram ≥ 40 (female, Procedure codes)
 //   - Shingrix vaccine ≥ 50
 //   - A1c every 3-6 months for diabetics
 //   - BP check annually for adults
@@ -26,8 +26,10 @@ import type {
   MergedEncounter,
   MergedLabResult,
   MergedVital,
+  MergedProcedure,
 } from "../../types/merged";
 import type { CareGap } from "../types";
+import { findLabGroup } from "../../utils/loincGroups";
 
 // -----------------------------------------------------------
 // Types
@@ -38,6 +40,7 @@ interface CareGapInput {
   conditions: MergedCondition[];
   immunizations: MergedImmunization[];
   encounters: MergedEncounter[];
+  procedures: MergedProcedure[];
   labResults: MergedLabResult[];
   vitals: MergedVital[];
 }
@@ -86,8 +89,12 @@ function findLatestDate(dates: (string | undefined)[]): string | null {
   return valid.sort((a, b) => new Date(b).getTime() - new Date(a).getTime())[0];
 }
 
-function findLatestLabByPattern(labs: MergedLabResult[], pattern: RegExp): string | null {
-  const matching = labs.filter((l) => pattern.test(l.name));
+/** Latest lab in any of the given LOINC equivalence groups (utils/loincGroups) */
+function findLatestLabInGroups(labs: MergedLabResult[], groupIds: string[]): string | null {
+  const matching = labs.filter((l) => {
+    const group = findLabGroup(l);
+    return !!group && groupIds.includes(group.id);
+  });
   return findLatestDate(matching.map((l) => l.effectiveDate));
 }
 
@@ -96,9 +103,52 @@ function findLatestImmunizationByPattern(immunizations: MergedImmunization[], pa
   return findLatestDate(matching.map((i) => i.occurrenceDate));
 }
 
-function findLatestEncounterByPattern(encounters: MergedEncounter[], pattern: RegExp): string | null {
-  const matching = encounters.filter((e) => pattern.test(e.type ?? "") || pattern.test(e.reason ?? ""));
-  return findLatestDate(matching.map((e) => e.periodStart));
+// -----------------------------------------------------------
+// Screening procedure code sets
+// -----------------------------------------------------------
+// Matched on system substring + code. Diagnostic procedures count
+// too — a diagnostic colonoscopy resets the screening interval.
+
+interface ProcedureCodeSet {
+  snomed: string[];
+  cpt: string[];
+  /** HCPCS G-codes (Medicare screening) */
+  hcpcs: string[];
+  /** Last resort when a record has no usable codes */
+  namePattern: RegExp;
+}
+
+const COLONOSCOPY_CODES: ProcedureCodeSet = {
+  snomed: ["73761001", "444783004", "446521004", "446745002", "310634005"],
+  cpt: ["45378", "45379", "45380", "45381", "45382", "45384", "45385", "45386", "45388", "45390", "45391", "45392", "45398"],
+  hcpcs: ["G0105", "G0121"],
+  namePattern: /colonoscopy/i,
+};
+
+const MAMMOGRAM_CODES: ProcedureCodeSet = {
+  snomed: ["71651007", "24623002", "241055006", "43204002", "439324009"],
+  cpt: ["77065", "77066", "77067", "77063"],
+  hcpcs: ["G0202", "G0204", "G0206", "G0279"],
+  namePattern: /mammogra/i,
+};
+
+function procedureMatches(proc: MergedProcedure, codeSet: ProcedureCodeSet): boolean {
+  const coded = proc.codes.some((c) => {
+    if (!c.system || !c.code) return false;
+    const system = c.system.toLowerCase();
+    if (system.includes("snomed")) return codeSet.snomed.includes(c.code);
+    if (system.includes("cpt")) return codeSet.cpt.includes(c.code);
+    if (system.includes("hcpcs") || system.endsWith("2.16.840.1.113883.6.285")) {
+      return codeSet.hcpcs.includes(c.code);
+    }
+    return false;
+  });
+  return coded || (proc.codes.length === 0 && codeSet.namePattern.test(proc.name));
+}
+
+function findLatestProcedure(procedures: MergedProcedure[], codeSet: ProcedureCodeSet): string | null {
+  const matching = procedures.filter((p) => p.status === "completed" && procedureMatches(p, codeSet));
+  return findLatestDate(matching.map((p) => p.performedDate));
 }
 
 // -----------------------------------------------------------
@@ -114,14 +164,16 @@ const CARE_GAP_RULES: CareGapRule[] = [
     guidelineSource: "USPSTF 2021",
     priority: "medium",
     applies: ({ patient }) => patient.age >= 45,
-    lastPerformed: ({ encounters, labResults }) => {
-      const enc = findLatestEncounterByPattern(encounters, /colonoscopy|colorectal/i);
-      const lab = findLatestLabByPattern(labResults, /fit|fobt|cologuard|colonoscopy/i);
-      return findLatestDate([enc ?? undefined, lab ?? undefined]);
+    lastPerformed: ({ procedures, labResults }) => {
+      const colonoscopy = findLatestProcedure(procedures, COLONOSCOPY_CODES);
+      const stoolTest = findLatestLabInGroups(labResults, ["stool-screening"]);
+      return findLatestDate([colonoscopy ?? undefined, stoolTest ?? undefined]);
     },
-    isOverdue: (_input, lastDone) => {
+    isOverdue: ({ procedures }, lastDone) => {
       if (!lastDone) return true;
-      return yearsSince(lastDone) > 10;
+      // Colonoscopy covers 10 years; stool-based tests are treated as annual (FIT)
+      const colonoscopy = findLatestProcedure(procedures, COLONOSCOPY_CODES);
+      return lastDone === colonoscopy ? yearsSince(lastDone) > 10 : yearsSince(lastDone) > 1;
     },
     reason: () => "Colorectal cancer screening is recommended for adults aged 45-75.",
   },
@@ -135,8 +187,7 @@ const CARE_GAP_RULES: CareGapRule[] = [
     priority: "medium",
     applies: ({ patient }) =>
       patient.age >= 40 && patient.gender.toLowerCase() === "female",
-    lastPerformed: ({ encounters }) =>
-      findLatestEncounterByPattern(encounters, /mammogram|mammography|breast/i),
+    lastPerformed: ({ procedures }) => findLatestProcedure(procedures, MAMMOGRAM_CODES),
     isOverdue: (_input, lastDone) => {
       if (!lastDone) return true;
       return yearsSince(lastDone) > 2;
@@ -170,7 +221,7 @@ const CARE_GAP_RULES: CareGapRule[] = [
     applies: ({ conditions }) =>
       hasConditionMatching(conditions, [/diabetes|diabetic|type 2 dm|type 1 dm|t2dm|t1dm/i]),
     lastPerformed: ({ labResults }) =>
-      findLatestLabByPattern(labResults, /a1c|hemoglobin a1c|hba1c|glycated/i),
+      findLatestLabInGroups(labResults, ["a1c"]),
     isOverdue: (_input, lastDone) => {
       if (!lastDone) return true;
       return monthsSince(lastDone) > 6;
@@ -212,7 +263,7 @@ const CARE_GAP_RULES: CareGapRule[] = [
     priority: "low",
     applies: ({ patient }) => patient.age >= 35,
     lastPerformed: ({ labResults }) =>
-      findLatestLabByPattern(labResults, /cholesterol|lipid|ldl|hdl|triglyceride/i),
+      findLatestLabInGroups(labResults, ["total-cholesterol", "ldl-cholesterol", "hdl-cholesterol", "triglycerides"]),
     isOverdue: (_input, lastDone) => {
       if (!lastDone) return true;
       return yearsSince(lastDone) > 5;
@@ -285,7 +336,7 @@ const CARE_GAP_RULES: CareGapRule[] = [
 
 /**
  * Detect care gaps based on patient demographics, conditions,
- * immunizations, encounters, labs, and vitals.
+ * immunizations, procedures, labs, and vitals.
  * Returns only gaps that are relevant to this patient.
  */
 export function detectCareGaps(input: CareGapInput): CareGap[] {
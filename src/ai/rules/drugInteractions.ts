@@ -2,210 +2,117 @@
 // Tier 1 Rule: Drug Interaction Lookup
 // -----------------------------------------------------------
 // Checks all active medications from all sources for known
-// drug-drug interactions. Uses a hardcoded table of ~20 common
-// clinically significant interactions.
+// drug-drug interactions, and for drug-condition
+// contraindications against active conditions (NSAIDs with CKD,
+// estrogen-containing contraceptives with hypertension or
+// migraine with aura).
+//
+// The rules live in drugKnowledgeBase.json, a versioned table
+// keyed by RxNorm ingredient and drug class (utils/rxnorm) —
+// "Coumadin" and "Advil" hit the warfarin × NSAID entry without
+// listing brand names there. Each entry carries severity,
+// mechanism, management and references; conditions match by
+// ICD-10 prefix, SNOMED code or name.
 //
 // CROSS-SYSTEM VALUE: A drug prescribed by Epic PCP + a drug
 // prescribed by Community MC urgent care can interact — neither
-// provider may know about the other prescription.
+// provider may know about the other prescription. Likewise a
+// migraine diagnosed at the ER matters to whoever prescribed
+// the patient's birth control.
 //
-// COST: $0 — hardcoded lookup table
+// COST: $0 — local lookup table
 // -----------------------------------------------------------
 
-import type { MergedMedication } from "../../types/merged";
+import type { MergedCondition, MergedMedication } from "../../types/merged";
 import type { DrugInteraction } from "../types";
+import { resolveDrug, matchesDrug } from "../../utils/rxnorm";
+import type { DrugMatcher, ResolvedDrug } from "../../utils/rxnorm";
+import knowledgeBase from "./drugKnowledgeBase.json";
 
 // -----------------------------------------------------------
-// Interaction database — clinically significant pairs
+// Knowledge base — clinically significant pairs
 // -----------------------------------------------------------
-// Each entry: [drugA pattern, drugB pattern, severity, effect, description]
-// Sources: FDA Drug Safety, Clinical Pharmacology databases
+// Sources: FDA labels and Drug Safety Communications, CDC US MEC,
+// specialty society guidelines (references on each entry).
+// Bump `version` on every content change; it is shown with each
+// alert so a finding can be traced to the table that produced it.
 // NOTE: Production would use First Databank, Medi-Span, or NLM RxNorm API
 
-interface InteractionEntry {
-  drugA: RegExp;
-  drugB: RegExp;
+interface KnowledgeBaseEntry {
+  /** Stable entry ID */
+  id: string;
   severity: DrugInteraction["severity"];
   effect: string;
+  /** Patient-facing explanation */
   description: string;
+  mechanism: string;
+  management: string;
+  references: string[];
+}
+
+interface InteractionEntry extends KnowledgeBaseEntry {
+  drugA: DrugMatcher;
+  drugB: DrugMatcher;
+}
+
+/** How a condition is recognized on the problem list */
+interface ConditionMatcher {
+  /** Shown when the condition record has no name */
+  label: string;
+  /** ICD-10-CM code prefixes ("I50" covers I50.9) */
+  icd10?: string[];
+  /** SNOMED CT concept IDs */
+  snomed?: string[];
+  /** Case-insensitive regex sources tested against the name */
+  names?: string[];
+  /** Names that rule the condition out ("without aura") */
+  excludeNames?: string[];
+  /** ICD-10-CM prefixes that rule it out (G43.7, chronic migraine without aura) */
+  excludeIcd10?: string[];
+}
+
+interface ContraindicationEntry extends KnowledgeBaseEntry {
+  drug: DrugMatcher;
+  condition: ConditionMatcher;
+  /** More specific entries that replace this one when they match */
+  supersededBy?: string[];
+}
+
+interface DrugKnowledgeBase {
+  version: string;
+  updated: string;
+  interactions: InteractionEntry[];
+  contraindications: ContraindicationEntry[];
 }
 
-const INTERACTION_TABLE: InteractionEntry[] = [
-  // ---- Critical interactions ----
-  {
-    drugA: /warfarin|coumadin/i,
-    drugB: /aspirin|ibuprofen|naproxen|nsaid|advil|motrin|aleve/i,
-    severity: "critical",
-    effect: "Increased bleeding risk",
-    description:
-      "Warfarin combined with NSAIDs or aspirin significantly increases the risk of gastrointestinal and other bleeding. This combination should be used with extreme caution.",
-  },
-  {
-    drugA: /warfarin|coumadin/i,
-    drugB: /fluconazole|metronidazole|flagyl/i,
-    severity: "critical",
-    effect: "Warfarin levels dangerously increased",
-    description:
-      "These antifungal/antimicrobial agents inhibit warfarin metabolism, potentially causing dangerous elevations in INR and bleeding risk.",
-  },
-  {
-    drugA: /methotrexate/i,
-    drugB: /trimethoprim|bactrim|septra|sulfamethoxazole/i,
-    severity: "critical",
-    effect: "Methotrexate toxicity risk",
-    description:
-      "Trimethoprim-sulfamethoxazole decreases methotrexate clearance, risking severe bone marrow suppression and organ toxicity.",
-  },
-  {
-    drugA: /lithium/i,
-    drugB: /ibuprofen|naproxen|nsaid|diclofenac|meloxicam|ketorolac/i,
-    severity: "critical",
-    effect: "Lithium toxicity risk",
-    description:
-      "NSAIDs reduce lithium clearance, potentially causing lithium toxicity (tremor, confusion, seizures). Close monitoring required.",
-  },
-
-  // ---- High severity interactions ----
-  {
-    drugA: /metformin/i,
-    drugB: /contrast|iodine/i,
-    severity: "high",
-    effect: "Lactic acidosis risk",
-    description:
-      "Metformin should be held before and after iodinated contrast procedures to reduce lactic acidosis risk.",
-  },
-  {
-    drugA: /ace inhibitor|lisinopril|enalapril|ramipril|benazepril/i,
-    drugB: /potassium|k-dur|klor-con|spironolactone/i,
-    severity: "high",
-    effect: "Hyperkalemia risk",
-    description:
-      "ACE inhibitors with potassium supplements or potassium-sparing diuretics can cause dangerously high potassium levels.",
-  },
-  {
-    drugA: /ssri|sertraline|fluoxetine|paroxetine|citalopram|escitalopram/i,
-    drugB: /tramadol|fentanyl|meperidine|maoi|selegiline|linezolid/i,
-    severity: "high",
-    effect: "Serotonin syndrome risk",
-    description:
-      "Combining serotonergic medications increases the risk of serotonin syndrome — a potentially life-threatening condition with agitation, hyperthermia, and muscle rigidity.",
-  },
-  {
-    drugA: /statin|atorvastatin|simvastatin|rosuvastatin|lovastatin/i,
-    drugB: /clarithromycin|erythromycin|itraconazole|ketoconazole/i,
-    severity: "high",
-    effect: "Increased statin levels (rhabdomyolysis risk)",
-    description:
-      "These inhibitors increase statin blood levels, raising the risk of muscle breakdown (rhabdomyolysis). Statin dose adjustment or alternative antibiotic may be needed.",
-  },
-  {
-    drugA: /digoxin/i,
-    drugB: /amiodarone|verapamil|quinidine/i,
-    severity: "high",
-    effect: "Digoxin toxicity risk",
-    description:
-      "These medications increase digoxin levels, potentially causing toxicity (nausea, vision changes, arrhythmias). Digoxin dose reduction typically needed.",
-  },
-  {
-    drugA: /clopidogrel|plavix/i,
-    drugB: /omeprazole|esomeprazole/i,
-    severity: "high",
-    effect: "Reduced clopidogrel effectiveness",
-    description:
-      "Omeprazole and esomeprazole inhibit the enzyme that activates clopidogrel, reducing its antiplatelet effect. Consider pantoprazole instead.",
-  },
-
-  // ---- Moderate interactions ----
-  {
-    drugA: /metformin/i,
-    drugB: /prednisone|prednisolone|dexamethasone|methylprednisolone/i,
-    severity: "moderate",
-    effect: "Reduced blood sugar control",
-    description:
-      "Corticosteroids raise blood sugar, counteracting metformin's glucose-lowering effect. Blood sugar monitoring should be increased.",
-  },
-  {
-    drugA: /levothyroxine|synthroid/i,
-    drugB: /calcium|iron|antacid|omeprazole|sucralfate/i,
-    severity: "moderate",
-    effect: "Reduced thyroid medication absorption",
-    description:
-      "These medications can reduce levothyroxine absorption. Take levothyroxine 4 hours apart from these drugs.",
-  },
-  {
-    drugA: /beta.?blocker|metoprolol|atenolol|propranolol|carvedilol/i,
-    drugB: /verapamil|diltiazem/i,
-    severity: "moderate",
-    effect: "Excessive heart rate lowering",
-    description:
-      "Both drugs slow heart rate. Together, they can cause dangerously slow pulse (bradycardia) or heart block.",
-  },
-  {
-    drugA: /amlodipine|nifedipine/i,
-    drugB: /simvastatin/i,
-    severity: "moderate",
-    effect: "Increased simvastatin levels",
-    description:
-      "Amlodipine increases simvastatin levels. Simvastatin dose should not exceed 20mg when used with amlodipine.",
-  },
-  {
-    drugA: /ciprofloxacin|levofloxacin/i,
-    drugB: /antacid|calcium|iron|magnesium|zinc/i,
-    severity: "moderate",
-    effect: "Reduced antibiotic absorption",
-    description:
-      "Metal-containing products chelate fluoroquinolones, reducing absorption. Separate by at least 2 hours.",
-  },
-  {
-    drugA: /allopurinol/i,
-    drugB: /azathioprine|mercaptopurine/i,
-    severity: "high",
-    effect: "Severe immunosuppression",
-    description:
-      "Allopurinol inhibits the breakdown of azathioprine/6-MP, potentially causing life-threatening bone marrow suppression. Dose reduction of 50-75% required.",
-  },
-  {
-    drugA: /insulin/i,
-    drugB: /beta.?blocker|metoprolol|atenolol|propranolol/i,
-    severity: "moderate",
-    effect: "Masked hypoglycemia symptoms",
-    description:
-      "Beta-blockers can mask the symptoms of low blood sugar (tremor, rapid heartbeat), making hypoglycemia harder to detect.",
-  },
-  {
-    drugA: /ssri|sertraline|fluoxetine|paroxetine|citalopram/i,
-    drugB: /nsaid|ibuprofen|naproxen|aspirin/i,
-    severity: "moderate",
-    effect: "Increased GI bleeding risk",
-    description:
-      "SSRIs reduce platelet function, and NSAIDs irritate the GI tract. Together, they increase the risk of gastrointestinal bleeding.",
-  },
-  {
-    drugA: /thiazide|hydrochlorothiazide|chlorthalidone/i,
-    drugB: /lithium/i,
-    severity: "high",
-    effect: "Lithium toxicity",
-    description:
-      "Thiazide diuretics decrease lithium clearance, increasing the risk of lithium toxicity. Requires close monitoring.",
-  },
-];
+const KNOWLEDGE_BASE = knowledgeBase as DrugKnowledgeBase;
+
+const DATA_SOURCE = `SmartHealthAI Interaction KB v${KNOWLEDGE_BASE.version}`;
 
 // -----------------------------------------------------------
 // Helpers
 // -----------------------------------------------------------
 
-let interactionCounter = 0;
+/**
+ * ID from the knowledge base entry and the drugs' canonical keys
+ * (sorted), never from detection order — the same pair keeps its
+ * ID when other medications are added or stopped.
+ */
+function makeInteractionId(prefix: "ddi" | "dci", entryId: string, keys: string[]): string {
+  return `${prefix}-${entryId}-${[...keys].sort().join("|")}`;
+}
 
-function makeInteractionId(): string {
-  interactionCounter++;
-  return `ddi-${interactionCounter}`;
+/** Canonical key: the ingredient set, or the name when unresolved */
+function drugKey(med: MergedMedication, drug: ResolvedDrug): string {
+  return drug.ingredients.join("+") || med.name.toLowerCase().trim();
 }
 
 /**
- * Normalize medication name for matching.
+ * Ingredients and classes for a medication (resolved by the merge
+ * engine; resolve here for records that skipped it).
  */
-function normalizeMedName(name: string): string {
-  return name.toLowerCase().trim();
+function drugOf(med: MergedMedication): ResolvedDrug {
+  return med.rxnorm ?? resolveDrug(med);
 }
 
 /**
@@ -216,6 +123,55 @@ function isActiveMed(med: MergedMedication): boolean {
   return activeStatuses.includes(med.status.toLowerCase());
 }
 
+/** Active, and not refuted or entered in error */
+function isActiveCondition(condition: MergedCondition): boolean {
+  const status = condition.clinicalStatus?.toLowerCase();
+  const verification = condition.verificationStatus?.toLowerCase();
+  return (
+    (status === "active" || status === "recurrence" || status === "relapse") &&
+    verification !== "refuted" &&
+    verification !== "entered-in-error"
+  );
+}
+
+const patternCache = new Map<string, RegExp>();
+
+function namePattern(source: string): RegExp {
+  let pattern = patternCache.get(source);
+  if (!pattern) {
+    pattern = new RegExp(source, "i");
+    patternCache.set(source, pattern);
+  }
+  return pattern;
+}
+
+/** Does the condition match by ICD-10 prefix, SNOMED code or name? */
+function matchesCondition(condition: MergedCondition, matcher: ConditionMatcher): boolean {
+  if ((matcher.excludeNames ?? []).some((p) => namePattern(p).test(condition.name))) return false;
+
+  const icd10 = condition.codes
+    .filter((c) => c.system?.toLowerCase().includes("icd-10"))
+    .map((c) => c.code?.toUpperCase() ?? "");
+  if (icd10.some((code) => (matcher.excludeIcd10 ?? []).some((prefix) => code.startsWith(prefix)))) return false;
+
+  const byCode = condition.codes.some((c) => {
+    const system = c.system?.toLowerCase() ?? "";
+    const code = c.code?.toUpperCase();
+    if (!code) return false;
+    if (system.includes("icd-10")) return (matcher.icd10 ?? []).some((prefix) => code.startsWith(prefix));
+    if (system.includes("snomed")) return (matcher.snomed ?? []).includes(code);
+    return false;
+  });
+  return byCode || (matcher.names ?? []).some((p) => namePattern(p).test(condition.name));
+}
+
+const severityOrder: Record<string, number> = {
+  critical: 0,
+  high: 1,
+  moderate: 2,
+  low: 3,
+};
+
 // -----------------------------------------------------------
 // Main analysis function
 // -----------------------------------------------------------
@@ -225,42 +181,42 @@ function isActiveMed(med: MergedMedication): boolean {
  * Compares every pair — especially valuable when medications come
  * from different health systems.
  */
-export function detectDrugInteractions(medications: MergedMedication[]): DrugInteraction[] {
-  interactionCounter = 0;
+function findDrugDrugInteractions(activeMeds: MergedMedication[]): DrugInteraction[] {
   const interactions: DrugInteraction[] = [];
   const seen = new Set<string>(); // Prevent duplicate pairs
 
-  const activeMeds = medications.filter(isActiveMed);
-
   for (let i = 0; i < activeMeds.length; i++) {
     for (let j = i + 1; j < activeMeds.length; j++) {
       const medA = activeMeds[i];
       const medB = activeMeds[j];
-      const nameA = normalizeMedName(medA.name);
-      const nameB = normalizeMedName(medB.name);
+      const drugA = drugOf(medA);
+      const drugB = drugOf(medB);
 
-      for (const entry of INTERACTION_TABLE) {
+      for (const entry of KNOWLEDGE_BASE.interactions) {
         const matchAB =
-          entry.drugA.test(nameA) && entry.drugB.test(nameB);
+          matchesDrug(drugA, entry.drugA) && matchesDrug(drugB, entry.drugB);
         const matchBA =
-          entry.drugA.test(nameB) && entry.drugB.test(nameA);
+          matchesDrug(drugB, entry.drugA) && matchesDrug(drugA, entry.drugB);
 
         if (matchAB || matchBA) {
-          // Dedup: sort names to create canonical key
-          const pairKey = [nameA, nameB].sort().join("|");
-          const interactionKey = `${pairKey}:${entry.effect}`;
+          // Dedup on the canonical ID (same ingredients, same entry)
+          const id = makeInteractionId("ddi", entry.id, [drugKey(medA, drugA), drugKey(medB, drugB)]);
 
-          if (seen.has(interactionKey)) continue;
-          seen.add(interactionKey);
+          if (seen.has(id)) continue;
+          seen.add(id);
 
           interactions.push({
-            id: makeInteractionId(),
+            id,
+            kind: "drug-drug",
             drugA: matchAB ? medA.name : medB.name,
             drugB: matchAB ? medB.name : medA.name,
             severity: entry.severity,
             description: entry.description,
             effect: entry.effect,
-            dataSource: "SmartHealthAI Clinical Rules",
+            mechanism: entry.mechanism,
+            management: entry.management,
+            references: entry.references,
+            dataSource: DATA_SOURCE,
             drugASources: (matchAB ? medA : medB).allSources,
             drugBSources: (matchAB ? medB : medA).allSources,
           });
@@ -269,13 +225,77 @@ export function detectDrugInteractions(medications: MergedMedication[]): DrugInt
     }
   }
 
-  // Sort by severity
-  const severityOrder: Record<string, number> = {
-    critical: 0,
-    high: 1,
-    moderate: 2,
-    low: 3,
-  };
+  return interactions;
+}
+
+/**
+ * Check each active medication against the active problem list.
+ * One alert per drug and entry, even when several conditions match;
+ * a specific entry (migraine with aura) replaces a general one
+ * (migraine, aura not recorded).
+ */
+function findDrugConditionContraindications(
+  activeMeds: MergedMedication[],
+  conditions: MergedCondition[]
+): DrugInteraction[] {
+  const contraindications: DrugInteraction[] = [];
+  const activeConditions = conditions.filter(isActiveCondition);
+  if (activeConditions.length === 0) return contraindications;
+
+  const seen = new Set<string>();
+
+  for (const med of activeMeds) {
+    const drug = drugOf(med);
+    const matched = new Map<string, { entry: ContraindicationEntry; condition: MergedCondition }>();
+
+    for (const entry of KNOWLEDGE_BASE.contraindications) {
+      if (!matchesDrug(drug, entry.drug)) continue;
+      const condition = activeConditions.find((c) => matchesCondition(c, entry.condition));
+      if (condition) matched.set(entry.id, { entry, condition });
+    }
+
+    for (const { entry, condition } of matched.values()) {
+      if ((entry.supersededBy ?? []).some((id) => matched.has(id))) continue;
+
+      const id = makeInteractionId("dci", entry.id, [drugKey(med, drug)]);
+      if (seen.has(id)) continue;
+      seen.add(id);
+
+      contraindications.push({
+        id,
+        kind: "drug-condition",
+        drugA: med.name,
+        drugB: condition.name || entry.condition.label,
+        severity: entry.severity,
+        description: entry.description,
+        effect: entry.effect,
+        mechanism: entry.mechanism,
+        management: entry.management,
+        references: entry.references,
+        dataSource: DATA_SOURCE,
+        drugASources: med.allSources,
+        drugBSources: condition.allSources,
+      });
+    }
+  }
+
+  return contraindications;
+}
+
+/**
+ * Check active medications against each other and against the
+ * patient's active conditions. Results are sorted by severity.
+ */
+export function detectDrugInteractions(
+  medications: MergedMedication[],
+  conditions: MergedCondition[] = []
+): DrugInteraction[] {
+  const activeMeds = medications.filter(isActiveMed);
+
+  const interactions = [
+    ...findDrugDrugInteractions(activeMeds),
+    ...findDrugConditionContraindications(activeMeds, conditions),
+  ];
   interactions.sort(
     (a, b) => (severityOrder[a.severity] ?? 4) - (severityOrder[b.severity] ?? 4)
   );
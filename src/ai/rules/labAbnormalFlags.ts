@@ -7,11 +7,17 @@
 // Critical thresholds: values outside 2x the normal range boundary
 // are flagged as critical (e.g., glucose > 2x upper bound).
 //
+// Units: the lab's own range is in its reported unit, so those are
+// compared as-is. The fallback ranges are canonical (utils/labUnits)
+// — a 7.2 mmol/L glucose is converted before checking 70–100 mg/dL.
+//
 // COST: $0 — pure deterministic logic
 // -----------------------------------------------------------
 
 import type { MergedLabResult } from "../../types/merged";
 import type { LabAbnormalFlag } from "../types";
+import { comparableValue, normalizeUnit } from "../../utils/labUnits";
+import { findLabGroup } from "../../utils/loincGroups";
 
 // -----------------------------------------------------------
 // Critical multiplier — how far beyond range = critical
@@ -78,16 +84,31 @@ const FALLBACK_RANGES: Record<string, { low: number; high: number; unit: string
 // Helpers
 // -----------------------------------------------------------
 
-function getRange(lab: MergedLabResult): { low?: number; high?: number } | null {
-  // Prefer FHIR reference range
+interface Comparison {
+  value: number;
+  low?: number;
+  high?: number;
+  /** Unit shared by value and range */
+  unit: string;
+}
+
+/** Pick the value and range to compare — always in the same unit */
+function getComparison(lab: MergedLabResult): Comparison | null {
+  if (typeof lab.value !== "number") return null;
+
+  // Prefer FHIR reference range (same unit as the reported value)
   if (lab.referenceRange && (lab.referenceRange.low != null || lab.referenceRange.high != null)) {
-    return lab.referenceRange;
+    return { value: lab.value, low: lab.referenceRange.low, high: lab.referenceRange.high, unit: lab.unit ?? "" };
   }
 
-  // Fallback to known ranges
-  const key = lab.name.toLowerCase().trim();
-  if (FALLBACK_RANGES[key]) {
-    return FALLBACK_RANGES[key];
+  // Fallback to known ranges (by equivalence group, then name), using the canonical value
+  const groupLabel = findLabGroup(lab)?.label.toLowerCase();
+  const fallback = (groupLabel && FALLBACK_RANGES[groupLabel]) || FALLBACK_RANGES[lab.name.toLowerCase().trim()];
+  const comparable = comparableValue(lab);
+  if (fallback && comparable) {
+    // A unit we couldn't convert can't be judged against this range
+    if (comparable.unit && comparable.unit !== normalizeUnit(fallback.unit)) return null;
+    return { value: comparable.value, low: fallback.low, high: fallback.high, unit: fallback.unit };
   }
 
   // No range available
@@ -96,7 +117,7 @@ function getRange(lab: MergedLabResult): { low?: number; high?: number } | null
 
 function buildMessage(
   labName: string,
-  value: number,
+  valueText: string,
   unit: string,
   status: LabAbnormalFlag["status"],
   low?: number,
@@ -112,15 +133,15 @@ function buildMessage(
 
   switch (status) {
     case "critical-high":
-      return `⚠️ ${labName} is critically high at ${value} ${unit} ${rangeText}. Discuss with your provider urgently.`;
+      return `⚠️ ${labName} is critically high at ${valueText} ${rangeText}. Discuss with your provider urgently.`;
     case "critical-low":
-      return `⚠️ ${labName} is critically low at ${value} ${unit} ${rangeText}. Discuss with your provider urgently.`;
+      return `⚠️ ${labName} is critically low at ${valueText} ${rangeText}. Discuss with your provider urgently.`;
     case "high":
-      return `${labName} is above normal at ${value} ${unit} ${rangeText}.`;
+      return `${labName} is above normal at ${valueText} ${rangeText}.`;
     case "low":
-      return `${labName} is below normal at ${value} ${unit} ${rangeText}.`;
+      return `${labName} is below normal at ${valueText} ${rangeText}.`;
     case "normal":
-      return `${labName} is within normal range at ${value} ${unit} ${rangeText}.`;
+      return `${labName} is within normal range at ${valueText} ${rangeText}.`;
   }
 }
 
@@ -137,15 +158,15 @@ export function analyzeLabAbnormalFlags(labs: MergedLabResult[]): LabAbnormalFla
   const flags: LabAbnormalFlag[] = [];
 
   for (const lab of labs) {
-    // Skip non-numeric values
-    if (typeof lab.value !== "number") continue;
-
-    const range = getRange(lab);
-    if (!range) continue; // No reference range available
+    // Skip non-numeric values and labs without a usable range
+    const comparison = getComparison(lab);
+    if (typeof lab.value !== "number" || !comparison) continue;
 
-    const { low, high } = range;
-    const value = lab.value;
-    const unit = lab.unit ?? "";
+    const { value, low, high, unit } = comparison;
+    const reportedUnit = lab.unit ?? "";
+    // Show the value as reported, plus the converted one if we converted
+    const valueText = `${lab.value} ${reportedUnit}`.trim() +
+      (value !== lab.value ? ` (≈${Math.round(value * 10) / 10} ${unit})` : "");
 
     let status: LabAbnormalFlag["status"] = "normal";
 
@@ -162,15 +183,16 @@ export function analyzeLabAbnormalFlags(labs: MergedLabResult[]): LabAbnormalFla
     flags.push({
       labId: lab.id,
       labName: lab.name,
-      value,
-      unit,
+      value: lab.value,
+      unit: reportedUnit,
       referenceRange: {
-        low: low ?? range.low,
-        high: high ?? range.high,
+        low,
+        high,
         text: lab.referenceRange?.text,
+        ...(unit !== reportedUnit && { unit }),
       },
       status,
-      message: buildMessage(lab.name, value, unit, status, low, high),
+      message: buildMessage(lab.name, valueText, unit, status, low, high),
       source: lab.source,
     });
   }
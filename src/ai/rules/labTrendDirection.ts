@@ -2,17 +2,25 @@
 // Tier 1 Rule: Lab Trend Direction
 // -----------------------------------------------------------
 // For labs with 2+ readings, calculates trend direction and
-// rate of change. Groups labs by LOINC code (or name fallback),
-// sorts chronologically, then computes rise/fall/stable.
+// rate of change. Groups labs by LOINC equivalence group (then
+// code, then name — utils/loincGroups), sorts chronologically,
+// then computes rise/fall/stable.
 //
 // STABLE threshold: < 5% change is considered stable.
 //
+// Readings are compared in canonical units (utils/labUnits), so a
+// series mixing mg/dL and mmol/L glucose trends correctly. Readings
+// in a unit we can't convert are dropped from a series rather than
+// compared against the others.
+//
 // COST: $0 — pure deterministic logic
 // -----------------------------------------------------------
 
 import type { MergedLabResult } from "../../types/merged";
 import type { LabTrend } from "../types";
 import type { ClinicalCode } from "../../types/source";
+import { comparableValue } from "../../utils/labUnits";
+import { labGroupKey, labDisplayName } from "../../utils/loincGroups";
 
 // -----------------------------------------------------------
 // Configuration
@@ -25,21 +33,6 @@ const STABLE_THRESHOLD_PERCENT = 5;
 // Helpers
 // -----------------------------------------------------------
 
-/**
- * Get a grouping key for a lab result.
- * Prefers LOINC code, falls back to normalized name.
- */
-function getLabGroupKey(lab: MergedLabResult): string {
-  // Prefer LOINC code
-  const loinc = lab.codes.find(
-    (c) => c.system?.includes("loinc") || c.system?.includes("LOINC")
-  );
-  if (loinc?.code) return `loinc:${loinc.code}`;
-
-  // Fall back to normalized name
-  return `name:${lab.name.toLowerCase().trim()}`;
-}
-
 /**
  * Get the primary code for display purposes.
  */
@@ -109,31 +102,35 @@ function buildTrendMessage(
 export function analyzeLabTrends(labs: MergedLabResult[]): LabTrend[] {
   const trends: LabTrend[] = [];
 
-  // Group labs by code/name
-  const groups = new Map<string, MergedLabResult[]>();
+  // Group labs by code/name, keeping each reading's comparable value
+  type Reading = { lab: MergedLabResult; value: number; unit: string };
+  const groups = new Map<string, Reading[]>();
   for (const lab of labs) {
-    if (typeof lab.value !== "number" || !lab.effectiveDate) continue;
+    const comparable = comparableValue(lab);
+    if (!comparable || !lab.effectiveDate) continue;
 
-    const key = getLabGroupKey(lab);
+    const key = labGroupKey(lab);
     const group = groups.get(key) ?? [];
-    group.push(lab);
+    group.push({ lab, ...comparable });
     groups.set(key, group);
   }
 
   // Analyze each group with 2+ readings
-  for (const [, group] of groups) {
-    if (group.length < 2) continue;
-
+  for (const [groupKey, group] of groups) {
     // Sort chronologically
-    const sorted = [...group].sort(
-      (a, b) => toTimestamp(a.effectiveDate) - toTimestamp(b.effectiveDate)
+    const chronological = [...group].sort(
+      (a, b) => toTimestamp(a.lab.effectiveDate) - toTimestamp(b.lab.effectiveDate)
     );
 
-    const first = sorted[0];
-    const last = sorted[sorted.length - 1];
-    const firstValue = first.value as number;
-    const lastValue = last.value as number;
-    const unit = last.unit ?? first.unit ?? "";
+    // Only readings in the same unit as the latest one are comparable
+    const unit = chronological[chronological.length - 1].unit;
+    const sorted = chronological.filter((r) => r.unit === unit);
+    if (sorted.length < 2) continue;
+
+    const first = sorted[0].lab;
+    const last = sorted[sorted.length - 1].lab;
+    const firstValue = sorted[0].value;
+    const lastValue = sorted[sorted.length - 1].value;
 
     // Calculate percentage change
     const changePercent =
@@ -151,17 +148,21 @@ export function analyzeLabTrends(labs: MergedLabResult[]): LabTrend[] {
 
     const spanDays = daysBetween(first.effectiveDate!, last.effectiveDate!);
 
+    const labName = labDisplayName(last);
+
     trends.push({
-      labName: last.name,
+      groupKey,
+      labName,
       code: getPrimaryCode(last),
       direction,
       changePercent: Math.round(changePercent * 10) / 10,
       readingCount: sorted.length,
+      unit,
       firstReading: { value: firstValue, date: first.effectiveDate! },
       lastReading: { value: lastValue, date: last.effectiveDate! },
       spanDays: Math.round(spanDays),
       message: buildTrendMessage(
-        last.name,
+        labName,
         direction,
         changePercent,
         firstValue,
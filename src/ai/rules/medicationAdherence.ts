@@ -0,0 +1,181 @@
+// -----------------------------------------------------------
+// Tier 1 Rule: Medication Adherence (PDC)
+// -----------------------------------------------------------
+// Estimates whether prescribed medications are actually being
+// taken, from pharmacy fill history:
+//
+//   PDC (proportion of days covered) = days with supply on hand
+//   ÷ days in the measurement window. Early refills carry over
+//   (the new fill starts when the old one runs out), so stockpiling
+//   never pushes PDC above 100%. Thresholds follow PQA: ≥80%
+//   adherent, 50–79% partial, <50% poor.
+//
+//   Refill gaps ≥ 7 days are listed individually so other rules can
+//   ask "was there medicine on hand on this date?" — e.g. a high BP
+//   reading during a lapse is an adherence problem, not a sign the
+//   drug failed.
+//
+// Only fills linked to a merged medication with a days supply are
+// counted. Patient statements ("stopped — muscle aches") are
+// surfaced alongside but never change the PDC arithmetic.
+//
+// COST: $0 — deterministic logic
+// -----------------------------------------------------------
+
+import type {
+  MergedMedication,
+  MergedMedicationDispense,
+  MergedMedicationStatement,
+} from "../../types/merged";
+import type { SourceTag } from "../../types/source";
+import type { MedicationAdherence, RefillGap } from "../types";
+
+const MS_PER_DAY = 86_400_000;
+/** Look back at most one year — the standard PDC measurement period */
+const MAX_WINDOW_DAYS = 365;
+/** Shorter gaps are normal pickup slack, not worth reporting */
+const MIN_REPORTED_GAP_DAYS = 7;
+
+const STOPPED_STATUSES = ["stopped", "not-taken", "on-hold"];
+
+/**
+ * Calendar day number of a date string, as recorded. A BP taken at
+ * 22:30 local time belongs to that day, not to the next UTC day.
+ */
+function toDay(date: string): number {
+  return Math.floor(Date.parse(date.slice(0, 10)) / MS_PER_DAY);
+}
+
+function fromDay(day: number): string {
+  return new Date(day * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" });
+}
+
+function adherenceLevel(pdc: number): MedicationAdherence["level"] {
+  if (pdc >= 0.8) return "adherent";
+  if (pdc >= 0.5) return "partial";
+  return "poor";
+}
+
+function buildMessage(
+  name: string,
+  pdc: number,
+  level: MedicationAdherence["level"],
+  currentGap: RefillGap | undefined,
+  reportedStopped: string | undefined
+): string {
+  const percent = Math.round(pdc * 100);
+  if (reportedStopped) {
+    return `You reported stopping ${name} (${reportedStopped}), but it is still listed as an active prescription. Let your provider know so your medication list is accurate.`;
+  }
+  if (currentGap) {
+    return `Pharmacy records show your ${name} supply ran out on ${formatDate(currentGap.from)} and hasn't been refilled. If you're still taking it, you may need a refill.`;
+  }
+  if (level === "adherent") {
+    return `Your ${name} refills are on track — medicine on hand ${percent}% of days.`;
+  }
+  return `Pharmacy records suggest you had ${name} on hand only about ${percent}% of days. Missed refills can make a medication look like it isn't working.`;
+}
+
+/**
+ * Find the refill gap (if any) that contains a date — i.e. the
+ * patient had no supply of this medication on that day.
+ */
+export function findSupplyGap(adherence: MedicationAdherence, date: string): RefillGap | null {
+  const day = toDay(date);
+  return adherence.refillGaps.find((gap) => day >= toDay(gap.from) && day < toDay(gap.to)) ?? null;
+}
+
+let adherenceCounter = 0;
+
+/**
+ * Compute PDC and refill gaps for every active medication with
+ * linked pharmacy fills.
+ */
+export function analyzeMedicationAdherence(
+  medications: MergedMedication[],
+  dispenses: MergedMedicationDispense[],
+  statements: MergedMedicationStatement[],
+  asOf: Date = new Date()
+): MedicationAdherence[] {
+  adherenceCounter = 0;
+  const results: MedicationAdherence[] = [];
+  const today = toDay(asOf.toISOString());
+
+  const activeMeds = medications.filter((m) => ["active", "on-hold"].includes(m.status.toLowerCase()));
+
+  for (const med of activeMeds) {
+    const fills = dispenses
+      .filter(
+        (d) =>
+          d.medicationId === med.id &&
+          d.status === "completed" &&
+          d.whenHandedOver &&
+          d.daysSupply &&
+          d.daysSupply > 0
+      )
+      .map((d) => ({ day: toDay(d.whenHandedOver!), supply: d.daysSupply!, source: d.source }))
+      .filter((f) => f.day <= today)
+      .sort((a, b) => a.day - b.day);
+    if (fills.length === 0) continue;
+
+    // Walk the fills, carrying leftover supply forward
+    const covered: Array<{ start: number; end: number }> = [];
+    const gaps: RefillGap[] = [];
+    let supplyEnd = fills[0].day;
+    for (const fill of fills) {
+      if (fill.day - supplyEnd >= MIN_REPORTED_GAP_DAYS) {
+        gaps.push({ from: fromDay(supplyEnd), to: fromDay(fill.day), days: fill.day - supplyEnd, ongoing: false });
+      }
+      const start = Math.max(fill.day, supplyEnd);
+      supplyEnd = start + fill.supply;
+      covered.push({ start, end: supplyEnd });
+    }
+    if (today - supplyEnd >= MIN_REPORTED_GAP_DAYS) {
+      gaps.push({ from: fromDay(supplyEnd), to: fromDay(today), days: today - supplyEnd, ongoing: true });
+    }
+
+    const windowStart = Math.max(fills[0].day, today - MAX_WINDOW_DAYS);
+    const windowDays = Math.max(1, today - windowStart);
+    const coveredDays = covered.reduce(
+      (sum, c) => sum + Math.max(0, Math.min(c.end, today) - Math.max(c.start, windowStart)),
+      0
+    );
+    const pdc = Math.min(1, coveredDays / windowDays);
+    const level = adherenceLevel(pdc);
+
+    const latestStatement = statements
+      .filter((s) => s.medicationId === med.id)
+      .sort((a, b) => (b.dateAsserted ?? "").localeCompare(a.dateAsserted ?? ""))[0];
+    const reportedStopped = latestStatement && STOPPED_STATUSES.includes(latestStatement.status)
+      ? latestStatement.statusReason ?? latestStatement.status
+      : undefined;
+
+    const currentGap = gaps.find((g) => g.ongoing);
+    const sources = [...new Map(fills.map((f) => [f.source.systemId, f.source])).values()] as SourceTag[];
+
+    adherenceCounter++;
+    results.push({
+      id: `adh-${adherenceCounter}`,
+      medicationId: med.id,
+      medicationName: med.name,
+      pdc: Math.round(pdc * 100) / 100,
+      level,
+      windowStart: fromDay(windowStart),
+      windowEnd: fromDay(today),
+      fillCount: fills.length,
+      lastFillDate: fromDay(fills[fills.length - 1].day),
+      supplyEndsOn: fromDay(supplyEnd),
+      refillGaps: gaps,
+      reportedStopped,
+      message: buildMessage(med.name, pdc, level, currentGap, reportedStopped),
+      sources,
+    });
+  }
+
+  // Least adherent first
+  return results.sort((a, b) => a.pdc - b.pdc);
+}
@@ -94,6 +94,55 @@ const CONFLICT_TEMPLATES: Record<Conflict["type"], ConflictTemplate> = {
     actionTemplate: () =>
       "At your next visit, ask the provider to update your allergy list. This is important for your safety.",
   },
+
+  "lab-discrepancy": {
+    titleTemplate: (c) => {
+      const test = c.resources[0]?.display.split(":")[0] ?? "A lab test";
+      return `${test} — different results at ${c.sourceA.systemName} and ${c.sourceB.systemName} on the same day`;
+    },
+    explanationTemplate: (c) => {
+      const [a, b] = c.resources;
+      return `${a?.source.systemName ?? c.sourceA.systemName} shows ${a?.display ?? "one result"}, while ${b?.source.systemName ?? c.sourceB.systemName} shows ${b?.display ?? "a different result"} for the same day. The gap is bigger than normal lab-to-lab variation, so one of the results may have been entered or reported incorrectly.`;
+    },
+    actionTemplate: () =>
+      "Ask your provider which result is correct before any treatment decision is based on it.",
+  },
+
+  "duplicate-therapy": {
+    titleTemplate: (c) => {
+      const [a, b] = c.resources;
+      return `${a?.display ?? "A medication"} and ${b?.display ?? "another medication"} — two drugs that do the same job`;
+    },
+    explanationTemplate: (c) => {
+      const [a, b] = c.resources;
+      return `${a?.source.systemName ?? c.sourceA.systemName} lists ${a?.display ?? "one medication"} and ${b?.source.systemName ?? c.sourceB.systemName} lists ${b?.display ?? "another"}. They belong to the same group of medicines and were prescribed by different providers — often one was meant to replace the other. Taking both can double the effect.`;
+    },
+    actionTemplate: () =>
+      "Check with your provider or pharmacist whether you should be taking both. Don't stop either without asking first.",
+  },
+
+  "immunization-date-mismatch": {
+    titleTemplate: (c) => {
+      const vaccine = c.resources[0]?.display.replace(/\s*\(.*\)$/, "") ?? "A vaccine";
+      return `${vaccine} — recorded on different dates`;
+    },
+    explanationTemplate: (c) => {
+      return `${c.sourceA.systemName} and ${c.sourceB.systemName} have different dates for the same vaccine dose: ${c.resources.map((r) => r.display).join(" and ")}. When your next dose is due depends on the correct date.`;
+    },
+    actionTemplate: () =>
+      "If you have your vaccination card, check the date and ask your provider to correct the record.",
+  },
+
+  "demographic-mismatch": {
+    titleTemplate: (c) => {
+      return `Your personal details differ between ${c.sourceA.systemName} and ${c.sourceB.systemName}`;
+    },
+    explanationTemplate: (c) => {
+      return `${c.sourceA.systemName} and ${c.sourceB.systemName} have different details on file for you (${c.resources.map((r) => `${r.source.systemName}: ${r.display}`).join("; ")}). Details like your date of birth and sex affect normal lab ranges, medication doses and which screenings you're due for.`;
+    },
+    actionTemplate: () =>
+      "Ask the front desk at each office to check and correct your registration details.",
+  },
 };
 
 // -----------------------------------------------------------
@@ -9,6 +9,10 @@
 //   HR + beta-blockers/stimulants → "Expected/unexpected effect"
 //   BMI + glucose/A1c → "Combined risk factor"
 //
+// Pharmacy fill history (see medicationAdherence) keeps the BP
+// rule honest: a high reading while refills had lapsed is
+// reported as a supply problem, not as the drug failing.
+//
 // This is where cross-system data shines: a medication from
 // one system is correlated with vitals from another system
 // to surface insights neither system could generate alone.
@@ -17,7 +21,8 @@
 // -----------------------------------------------------------
 
 import type { MergedVital, MergedMedication, MergedCondition } from "../../types/merged";
-import type { VitalCorrelation } from "../types";
+import type { VitalCorrelation, MedicationAdherence } from "../types";
+import { findSupplyGap } from "./medicationAdherence";
 
 // -----------------------------------------------------------
 // Correlation rules
@@ -33,10 +38,10 @@ interface CorrelationRule {
   correlationType: VitalCorrelation["correlationType"];
   /** Clinical significance */
   significance: VitalCorrelation["significance"];
-  /** Generate the insight message */
-  buildMessage: (vital: MergedVital, med: MergedMedication) => string;
+  /** Generate the insight message (adherence is set when the med has fill history) */
+  buildMessage: (vital: MergedVital, med: MergedMedication, adherence?: MedicationAdherence) => string;
   /** Generate detail text */
-  buildDetail: (vital: MergedVital, med: MergedMedication) => string;
+  buildDetail: (vital: MergedVital, med: MergedMedication, adherence?: MedicationAdherence) => string;
 }
 
 // -----------------------------------------------------------
@@ -57,6 +62,19 @@ function getDiastolic(vital: MergedVital): number | null {
   return comp?.value ?? null;
 }
 
+/** Refill problem around a vital reading: a lapse on that day, or low overall PDC */
+function describeRefillProblem(vital: MergedVital, med: MergedMedication, adherence?: MedicationAdherence): string | null {
+  if (!adherence) return null;
+  const gap = vital.effectiveDate ? findSupplyGap(adherence, vital.effectiveDate) : null;
+  if (gap) {
+    return `your ${med.name} refills had lapsed — pharmacy records show no supply on hand from ${new Date(gap.from).toLocaleDateString()}${gap.ongoing ? " until now" : ` until ${new Date(gap.to).toLocaleDateString()}`}`;
+  }
+  if (adherence.level !== "adherent") {
+    return `pharmacy records show ${med.name} on hand only about ${Math.round(adherence.pdc * 100)}% of days`;
+  }
+  return null;
+}
+
 // -----------------------------------------------------------
 // Correlation rules table
 // -----------------------------------------------------------
@@ -75,23 +93,30 @@ const CORRELATION_RULES: CorrelationRule[] = [
     ],
     correlationType: "effectiveness",
     significance: "high",
-    buildMessage: (vital, med) => {
+    buildMessage: (vital, med, adherence) => {
       const systolic = getSystolic(vital);
       const diastolic = getDiastolic(vital);
       if (systolic && diastolic) {
         const controlled = systolic < 140 && diastolic < 90;
-        return controlled
-          ? `Your blood pressure (${systolic}/${diastolic}) appears well-controlled while taking ${med.name}.`
+        if (controlled) {
+          return `Your blood pressure (${systolic}/${diastolic}) appears well-controlled while taking ${med.name}.`;
+        }
+        const refillProblem = describeRefillProblem(vital, med, adherence);
+        return refillProblem
+          ? `Your blood pressure (${systolic}/${diastolic}) was high, but ${refillProblem}. The medication may not have had a chance to work — talk with your provider about refills before changing the dose.`
           : `Your blood pressure (${systolic}/${diastolic}) may still be elevated despite taking ${med.name}. Discuss this with your provider.`;
       }
       return `You are taking ${med.name} for blood pressure management. Regular BP monitoring is important.`;
     },
-    buildDetail: (vital, med) => {
+    buildDetail: (vital, med, adherence) => {
       const systolic = getSystolic(vital);
       const controlled = systolic ? systolic < 140 : true;
+      const fills = adherence
+        ? ` Refill history: ${adherence.fillCount} fill(s), ${Math.round(adherence.pdc * 100)}% of days covered.`
+        : "";
       return controlled
-        ? `BP reading from ${vital.source.systemName}, ${med.name} from ${med.source.systemName}. Target: <140/90 mmHg.`
-        : `BP reading from ${vital.source.systemName}, ${med.name} from ${med.source.systemName}. Target: <140/90 mmHg. Current reading exceeds target.`;
+        ? `BP reading from ${vital.source.systemName}, ${med.name} from ${med.source.systemName}. Target: <140/90 mmHg.${fills}`
+        : `BP reading from ${vital.source.systemName}, ${med.name} from ${med.source.systemName}. Target: <140/90 mmHg. Current reading exceeds target.${fills}`;
     },
   },
 
@@ -210,11 +235,14 @@ let correlationCounter = 0;
 /**
  * Cross-reference vitals with medications to find clinically
  * meaningful correlations. Uses the most recent vital of each type.
+ * Adherence results (optional) let rules tell a lapsed refill from
+ * a medication that isn't working.
  */
 export function detectVitalMedCorrelations(
   vitals: MergedVital[],
   medications: MergedMedication[],
-  conditions: MergedCondition[]
+  conditions: MergedCondition[],
+  adherence: MedicationAdherence[] = []
 ): VitalCorrelation[] {
   correlationCounter = 0;
   const correlations: VitalCorrelation[] = [];
@@ -252,14 +280,15 @@ export function detectVitalMedCorrelations(
         if (seen.has(key)) continue;
         seen.add(key);
 
+        const medAdherence = adherence.find((a) => a.medicationId === med.id);
         correlationCounter++;
         correlations.push({
           id: `vc-${correlationCounter}`,
           vitalName: vital.name,
           medicationName: med.name,
           correlationType: rule.correlationType,
-          message: rule.buildMessage(vital, med),
-          detail: rule.buildDetail(vital, med),
+          message: rule.buildMessage(vital, med, medAdherence),
+          detail: rule.buildDetail(vital, med, medAdherence),
           significance: rule.significance,
         });
       }
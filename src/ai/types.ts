@@ -18,12 +18,18 @@ export interface LabAbnormalFlag {
   labId: string;
   /** Lab test name */
   labName: string;
-  /** Numeric value that was evaluated */
+  /** Numeric value as reported by the lab */
   value: number;
-  /** Unit of measurement */
+  /** Unit of measurement as reported */
   unit: string;
   /** Reference range used for comparison */
-  referenceRange: { low?: number; high?: number; text?: string };
+  referenceRange: {
+    low?: number;
+    high?: number;
+    text?: string;
+    /** Unit of low/high when it differs from `unit` (canonical fallback range) */
+    unit?: string;
+  };
   /** Determined flag status */
   status: "normal" | "high" | "low" | "critical-high" | "critical-low";
   /** Patient-friendly message */
@@ -34,7 +40,9 @@ export interface LabAbnormalFlag {
 
 /** Trend analysis for a lab with 2+ readings */
 export interface LabTrend {
-  /** Lab test name (grouped by code) */
+  /** Series key (utils/loincGroups labGroupKey) — same key the Labs page groups by */
+  groupKey: string;
+  /** Lab test name (group label, or the latest reading's name) */
   labName: string;
   /** LOINC or primary code used for grouping */
   code: ClinicalCode;
@@ -44,6 +52,8 @@ export interface LabTrend {
   changePercent: number;
   /** Number of readings in the series */
   readingCount: number;
+  /** Unit of the readings below (canonical when readings were converted) */
+  unit: string;
   /** Oldest reading */
   firstReading: { value: number; date: string };
   /** Most recent reading */
@@ -74,13 +84,18 @@ export interface CareGap {
   guidelineSource: string;
 }
 
-/** Drug interaction between two medications */
+/**
+ * Drug interaction between two medications, or a medication and a
+ * condition it is contraindicated in (drugB is then the condition)
+ */
 export interface DrugInteraction {
-  /** Unique ID */
+  /** Stable ID: entry ID + sorted ingredient keys (ddi-/dci-) */
   id: string;
+  /** drug-drug, or drug-condition contraindication */
+  kind: "drug-drug" | "drug-condition";
   /** First medication name */
   drugA: string;
-  /** Second medication name */
+  /** Second medication name (condition name for drug-condition) */
   drugB: string;
   /** Interaction severity */
   severity: "critical" | "high" | "moderate" | "low";
@@ -88,9 +103,15 @@ export interface DrugInteraction {
   description: string;
   /** Clinical effect */
   effect: string;
-  /** Source of the interaction data */
+  /** How the interaction happens (clinician-facing) */
+  mechanism: string;
+  /** What to do about it (clinician-facing) */
+  management: string;
+  /** Labels, guidelines and safety communications behind the entry */
+  references: string[];
+  /** Source of the interaction data, including knowledge base version */
   dataSource: string;
-  /** Source systems the drugs come from */
+  /** Source systems the drugs (or condition) come from */
   drugASources: SourceTag[];
   drugBSources: SourceTag[];
 }
@@ -129,6 +150,49 @@ export interface VitalCorrelation {
   significance: "high" | "medium" | "low";
 }
 
+/** A stretch of days with no medication on hand between fills */
+export interface RefillGap {
+  /** Day the previous supply ran out */
+  from: string;
+  /** Day of the next fill (or the analysis date if still lapsed) */
+  to: string;
+  /** Length of the gap in days */
+  days: number;
+  /** True when the patient still has no supply */
+  ongoing: boolean;
+}
+
+/** Fill-based adherence estimate for one prescribed medication */
+export interface MedicationAdherence {
+  /** Unique ID */
+  id: string;
+  /** ID of the merged medication */
+  medicationId: string;
+  /** Medication name */
+  medicationName: string;
+  /** Proportion of days covered, 0–1, over the measurement window */
+  pdc: number;
+  /** PQA thresholds: ≥80% adherent, 50–79% partial, <50% poor */
+  level: "adherent" | "partial" | "poor";
+  /** Measurement window (first fill, at most 1 year back → analysis date) */
+  windowStart: string;
+  windowEnd: string;
+  /** Number of fills counted */
+  fillCount: number;
+  /** Most recent pickup */
+  lastFillDate: string;
+  /** Day the supply on hand runs (or ran) out */
+  supplyEndsOn: string;
+  /** Gaps of a week or more, oldest first (last one may be ongoing) */
+  refillGaps: RefillGap[];
+  /** Patient-reported reason for stopping, from a MedicationStatement */
+  reportedStopped?: string;
+  /** Patient-friendly message */
+  message: string;
+  /** Source systems of the fills */
+  sources: SourceTag[];
+}
+
 // -----------------------------------------------------------
 // Aggregate Tier 1 Results
 // -----------------------------------------------------------
@@ -140,6 +204,7 @@ export interface Tier1Results {
   drugInteractions: DrugInteraction[];
   sourceConflictAlerts: SourceConflictAlert[];
   vitalCorrelations: VitalCorrelation[];
+  medicationAdherence: MedicationAdherence[];
   /** Timestamp when Tier 1 analysis was run */
   analyzedAt: string;
 }
@@ -6,12 +6,15 @@
 //   - Allergy-prescription conflicts
 //   - Cross-system gaps
 //
-// Compact, non-dismissible, always visible when active.
+// Compact, non-dismissible, always visible when active. Conflicts
+// the patient has acknowledged, discussed or closed (see
+// sources/conflictReviews) drop out until their data changes.
 // -----------------------------------------------------------
 
 import { ShieldAlert, AlertTriangle, ChevronRight } from "lucide-react";
 import { TRANSITIONS } from "../../config/designSystem";
 import type { DrugInteraction, SourceConflictAlert } from "../../ai/types";
+import type { ConflictStatus } from "../../types/merged";
 
 interface AlertItem {
   id: string;
@@ -24,6 +27,8 @@ interface AlertBannerProps {
   drugInteractions?: DrugInteraction[];
   /** Source conflict alerts to show */
   conflictAlerts?: SourceConflictAlert[];
+  /** Review status per conflict ID (useConflictStatuses) — only "new" conflicts are shown */
+  conflictStatuses?: Map<string, ConflictStatus>;
   /** Custom items */
   items?: AlertItem[];
   /** Click handler for "View details" */
@@ -33,6 +38,7 @@ interface AlertBannerProps {
 const AlertBanner = ({
   drugInteractions = [],
   conflictAlerts = [],
+  conflictStatuses,
   items = [],
   onViewDetails,
 }: AlertBannerProps) => {
@@ -47,6 +53,7 @@ const AlertBanner = ({
       })),
     ...conflictAlerts
       .filter((c) => c.severity === "critical" || c.severity === "high")
+      .filter((c) => (conflictStatuses?.get(c.conflictId) ?? "new") === "new")
       .map((c) => ({
         id: c.conflictId,
         severity: c.severity,
@@ -0,0 +1,67 @@
+// -----------------------------------------------------------
+// AlternateValuesPanel — "Other systems say…"
+// -----------------------------------------------------------
+// A merged record shows one system's fields (chosen by the merge
+// policy — see config/mergePolicy). This panel lists what the
+// other systems reported where it differs from what is shown,
+// with the reason that system's record was picked. Renders
+// nothing when every system agrees on the listed fields.
+// -----------------------------------------------------------
+
+import { Layers } from "lucide-react";
+import SourceBadge from "../ui/SourceBadge";
+import type { SourceTag } from "../../types/source";
+import type { PreferredRecord } from "../../types/merged";
+
+export interface AlternateField<T> {
+  label: string;
+  /** Display value (undefined = not reported) */
+  value: (record: T) => string | undefined;
+}
+
+interface AlternateValuesPanelProps<T> {
+  record: T & { source: SourceTag; alternates?: T[]; preferredBy?: PreferredRecord };
+  fields: AlternateField<T>[];
+}
+
+const AlternateValuesPanel = <T extends { id: string; source: SourceTag }>({
+  record,
+  fields,
+}: AlternateValuesPanelProps<T>) => {
+  const differing = (record.alternates ?? [])
+    .map((alternate) => ({
+      alternate,
+      values: fields
+        .map((field) => ({ label: field.label, value: field.value(alternate) }))
+        .filter((v, i) => v.value !== undefined && v.value !== fields[i].value(record)),
+    }))
+    .filter((d) => d.values.length > 0);
+
+  if (differing.length === 0) return null;
+
+  return (
+    <div className="rounded-xl border border-slate-200 bg-slate-50/60 p-3 space-y-2">
+      <div className="flex items-center gap-2">
+        <Layers className="w-4 h-4 text-slate-500 shrink-0" />
+        <span className="text-xs font-bold text-slate-500 uppercase">Other systems say…</span>
+      </div>
+      <p className="text-xs text-slate-500">
+        Showing {record.source.systemName}'s record
+        {record.preferredBy ? ` — ${record.preferredBy.summary}.` : "."}
+      </p>
+
+      {differing.map(({ alternate, values }) => (
+        <div key={alternate.id} className="space-y-1">
+          <SourceBadge source={alternate.source} />
+          {values.map((v) => (
+            <div key={v.label} className="text-sm text-slate-700">
+              <span className="font-medium text-slate-500">{v.label}:</span> {v.value}
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AlternateValuesPanel;
@@ -0,0 +1,91 @@
+// -----------------------------------------------------------
+// ConflictStatusControls — Track a safety alert to resolution
+// -----------------------------------------------------------
+// Lives in an expanded conflict alert. The patient marks it
+// acknowledged, discussed with a provider, resolved or not a
+// problem, with an optional note; every change is kept with its
+// timestamp (see sources/conflictReviews). A review lapses when
+// the conflict's data changes, so the alert comes back as new.
+// -----------------------------------------------------------
+
+import { useState } from "react";
+import { History } from "lucide-react";
+import { useConflictReviews } from "../../hooks/useConflictReviews";
+import { findConflictReview, setConflictStatus } from "../../sources/conflictReviews";
+import { CONFLICT_STATUS, TRANSITIONS } from "../../config/designSystem";
+import type { Conflict, ConflictStatus } from "../../types/merged";
+
+interface ConflictStatusControlsProps {
+  conflict: Conflict;
+}
+
+const ACTIONS: Array<{ status: ConflictStatus; label: string }> = [
+  { status: "acknowledged", label: "Got it" },
+  { status: "discussed", label: "Discussed with my provider" },
+  { status: "resolved", label: "Resolved" },
+  { status: "false-positive", label: "Not a problem" },
+];
+
+function formatChangedAt(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+}
+
+const ConflictStatusControls = ({ conflict }: ConflictStatusControlsProps) => {
+  const reviews = useConflictReviews();
+  const review = findConflictReview(conflict, reviews);
+  const status = review?.status ?? "new";
+  const [note, setNote] = useState("");
+
+  const apply = (next: ConflictStatus) => {
+    setConflictStatus(conflict, next, note);
+    setNote("");
+  };
+
+  const style = CONFLICT_STATUS[status];
+
+  return (
+    <div className="rounded-xl border border-slate-200 px-4 py-3 space-y-2.5" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center gap-2">
+        <span className="text-xs font-extrabold text-slate-600 uppercase tracking-wider">Status</span>
+        <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${style.bg} ${style.text}`}>{style.label}</span>
+      </div>
+
+      <input
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder="Add a note (optional)"
+        className="w-full text-sm px-3 py-1.5 rounded-lg border border-slate-200 focus:outline-none focus:ring-2 focus:ring-emerald-500/20"
+      />
+
+      <div className="flex items-center gap-2 flex-wrap">
+        {ACTIONS.filter((a) => a.status !== status).map((a) => (
+          <button
+            key={a.status}
+            onClick={() => apply(a.status)}
+            className={`text-xs font-semibold px-2.5 py-1 rounded-lg border border-slate-200 text-slate-600 hover:bg-slate-50 ${TRANSITIONS.fast}`}
+          >
+            {a.label}
+          </button>
+        ))}
+      </div>
+
+      {review && review.history.length > 0 && (
+        <div className="space-y-1">
+          <div className="flex items-center gap-1 text-xs font-semibold text-slate-500">
+            <History className="w-3 h-3" />
+            History
+          </div>
+          {[...review.history].reverse().map((change, i) => (
+            <div key={i} className="text-xs text-slate-600">
+              <span className="text-slate-400">{formatChangedAt(change.changedAt)}</span>{" "}
+              <span className="font-semibold">{CONFLICT_STATUS[change.status].label}</span>
+              {change.note && <span> — {change.note}</span>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConflictStatusControls;
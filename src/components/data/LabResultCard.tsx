@@ -23,8 +23,12 @@ import {
 } from "lucide-react";
 import SourceBadge from "../ui/SourceBadge";
 import SparklineChart from "./SparklineChart";
+import MatchExplanationPanel from "./MatchExplanationPanel";
+import AlternateValuesPanel, { type AlternateField } from "./AlternateValuesPanel";
+import { comparableValue, comparableRange } from "../../utils/labUnits";
 import { TRANSITIONS } from "../../config/designSystem";
 import type { MergedLabResult } from "../../types/merged";
+import type { LabResult } from "../../types/labResult";
 import type { LabAbnormalFlag, LabTrend, HealthExplanation } from "../../ai/types";
 
 interface LabResultCardProps {
@@ -46,6 +50,13 @@ interface LabResultCardProps {
   aiAvailable?: boolean;
 }
 
+/** Fields compared in "Other systems say…" (values as each system reported them) */
+const ALTERNATE_FIELDS: AlternateField<LabResult>[] = [
+  { label: "Value", value: (r) => (r.value !== undefined ? `${r.value} ${r.unit ?? ""}`.trim() : undefined) },
+  { label: "Reference range", value: (r) => r.referenceRange?.text },
+  { label: "Status", value: (r) => r.status },
+];
+
 const LabResultCard = ({
   testName,
   results,
@@ -65,14 +76,13 @@ const LabResultCard = ({
   const latestFlag = flags.find((f) => f.labId === latest.id);
   const hasTrend = results.length >= 2 && trend;
 
-  // Build sparkline data
-  const sparkData = results
-    .filter((r) => typeof r.value === "number" && r.effectiveDate)
-    .map((r) => ({
-      date: r.effectiveDate!,
-      value: r.value as number,
-      label: r.unit ?? "",
-    }));
+  // Build sparkline data (canonical units, so mixed-unit series share a scale)
+  const sparkData = results.flatMap((r) => {
+    const q = comparableValue(r);
+    return q && r.effectiveDate
+      ? [{ date: r.effectiveDate, value: q.value, label: q.unit }]
+      : [];
+  });
 
   return (
     <div
@@ -120,7 +130,7 @@ const LabResultCard = ({
           <div className="w-24 shrink-0">
             <SparklineChart
               data={sparkData}
-              referenceRange={latest.referenceRange}
+              referenceRange={comparableRange(latest)}
               height={36}
               trendDirection={trend?.direction}
             />
@@ -176,7 +186,7 @@ const LabResultCard = ({
             <div className="px-4 py-3 bg-slate-50 border-b border-slate-100">
               <SparklineChart
                 data={sparkData}
-                referenceRange={latest.referenceRange}
+                referenceRange={comparableRange(latest)}
                 height={80}
                 trendDirection={trend?.direction}
               />
@@ -195,42 +205,45 @@ const LabResultCard = ({
               const isAbnormalResult = flag && flag.status !== "normal";
 
               return (
-                <div
-                  key={r.id}
-                  className={`flex items-center gap-3 px-4 py-2.5 text-sm ${
-                    isAbnormalResult ? "bg-amber-50/50" : ""
-                  }`}
-                >
-                  <div className="w-24 text-slate-600 shrink-0">
-                    {r.effectiveDate ?? "N/A"}
-                  </div>
-                  <div className="flex-1 font-medium text-slate-900 text-[15px]">
-                    {r.value} {r.unit ?? ""}
-                    {flag && flag.status !== "normal" && (
-                      <span
-                        className={`ml-2 text-xs font-bold ${
-                          flag.status.includes("critical")
-                            ? "text-red-600"
-                            : flag.status === "high"
-                              ? "text-amber-600"
-                              : "text-blue-600"
-                        }`}
-                      >
-                        {flag.status.toUpperCase()}
-                      </span>
+                <div key={r.id} className={isAbnormalResult ? "bg-amber-50/50" : ""}>
+                  <div className="flex items-center gap-3 px-4 py-2.5 text-sm">
+                    <div className="w-24 text-slate-600 shrink-0">
+                      {r.effectiveDate ?? "N/A"}
+                    </div>
+                    <div className="flex-1 font-medium text-slate-900 text-[15px]">
+                      {r.value} {r.unit ?? ""}
+                      {flag && flag.status !== "normal" && (
+                        <span
+                          className={`ml-2 text-xs font-bold ${
+                            flag.status.includes("critical")
+                              ? "text-red-600"
+                              : flag.status === "high"
+                                ? "text-amber-600"
+                                : "text-blue-600"
+                          }`}
+                        >
+                          {flag.status.toUpperCase()}
+                        </span>
+                      )}
+                    </div>
+                    {r.referenceRange?.text ? (
+                      <div className="text-sm text-slate-500">{r.referenceRange.text}</div>
+                    ) : r.referenceRange?.low != null ? (
+                      <div className="text-sm text-slate-500">
+                        {r.referenceRange.low}–{r.referenceRange.high ?? "?"} {r.unit ?? ""}
+                      </div>
+                    ) : null}
+                    {isAbnormalResult && (
+                      <AlertTriangle className="w-4 h-4 text-amber-500 shrink-0" />
                     )}
+                    <SourceBadge source={r.source} compact />
                   </div>
-                  {r.referenceRange?.text ? (
-                    <div className="text-sm text-slate-500">{r.referenceRange.text}</div>
-                  ) : r.referenceRange?.low != null ? (
-                    <div className="text-sm text-slate-500">
-                      {r.referenceRange.low}–{r.referenceRange.high ?? "?"} {r.unit ?? ""}
+                  {r.matchExplanation && (
+                    <div className="px-4 pb-2.5 space-y-2">
+                      <MatchExplanationPanel explanation={r.matchExplanation} />
+                      <AlternateValuesPanel record={r} fields={ALTERNATE_FIELDS} />
                     </div>
-                  ) : null}
-                  {isAbnormalResult && (
-                    <AlertTriangle className="w-4 h-4 text-amber-500 shrink-0" />
                   )}
-                  <SourceBadge source={r.allSources[0]} compact />
                 </div>
               );
             })}
@@ -0,0 +1,77 @@
+// -----------------------------------------------------------
+// MatchExplanationPanel — "How was this merged?"
+// -----------------------------------------------------------
+// Collapsible audit trail for a merged record: the rule that
+// paired it with another system's record, each compared value
+// side by side, and the resulting decision. Renders nothing for
+// records the engine never paired.
+// -----------------------------------------------------------
+
+import { useState } from "react";
+import { GitMerge, Check, X, ChevronDown, ChevronUp } from "lucide-react";
+import { TRANSITIONS } from "../../config/designSystem";
+import type { MatchExplanation } from "../../types/merged";
+
+interface MatchExplanationPanelProps {
+  explanation?: MatchExplanation;
+}
+
+const MatchExplanationPanel = ({ explanation }: MatchExplanationPanelProps) => {
+  const [open, setOpen] = useState(false);
+  if (!explanation) return null;
+
+  return (
+    <div className="rounded-xl border border-slate-200 bg-white">
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          setOpen(!open);
+        }}
+        className={`w-full flex items-center gap-2 px-3 py-2 text-left text-sm font-medium text-slate-700 hover:bg-slate-50 rounded-xl ${TRANSITIONS.fast}`}
+      >
+        <GitMerge className="w-4 h-4 text-indigo-500 shrink-0" />
+        <span className="flex-1">How was this merged?</span>
+        {open ? <ChevronUp className="w-4 h-4 text-slate-400" /> : <ChevronDown className="w-4 h-4 text-slate-400" />}
+      </button>
+
+      {open && (
+        <div className="px-3 pb-3 space-y-2">
+          <p className="text-sm text-slate-700">{explanation.summary}</p>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-slate-500">
+                <th className="text-left font-semibold py-1 pr-2" />
+                {explanation.sources.map((name, i) => (
+                  <th key={i} className="text-left font-semibold py-1 pr-2">{name}</th>
+                ))}
+                <th className="w-6" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {explanation.comparisons.map((c) => (
+                <tr key={c.label} className="align-top">
+                  <td className="py-1 pr-2 text-xs font-semibold text-slate-500 whitespace-nowrap">
+                    {c.label}
+                    {c.note && <div className="font-normal text-slate-400">{c.note}</div>}
+                  </td>
+                  {c.values.map((value, i) => (
+                    <td key={i} className="py-1 pr-2 text-slate-700">{value}</td>
+                  ))}
+                  <td className="py-1">
+                    {c.agree === true && <Check className="w-4 h-4 text-emerald-600" />}
+                    {c.agree === false && <X className="w-4 h-4 text-red-500" />}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <p className="text-sm font-semibold text-slate-800">{explanation.outcome}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MatchExplanationPanel;
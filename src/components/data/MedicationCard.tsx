@@ -20,6 +20,7 @@ import {
 } from "lucide-react";
 import SourceBadge from "../ui/SourceBadge";
 import MergeBadge from "../ui/MergeBadge";
+import MatchExplanationPanel from "./MatchExplanationPanel";
 import { TRANSITIONS } from "../../config/designSystem";
 import type { MergedMedication } from "../../types/merged";
 import type { DrugInteraction, HealthExplanation } from "../../ai/types";
@@ -109,7 +110,7 @@ const MedicationCard = ({
         </span>
 
         {/* Merge status */}
-        <MergeBadge status={medication.mergeStatus} />
+        <MergeBadge status={medication.mergeStatus} overrides={medication.userOverrides} />
 
         {/* Source badges */}
         <div className="flex items-center gap-1 shrink-0">
@@ -156,7 +157,9 @@ const MedicationCard = ({
                       : "text-amber-800"
                   }`}
                 >
-                  Interaction with {int.drugA === medication.name ? int.drugB : int.drugA}
+                  {int.kind === "drug-condition"
+                    ? `Caution with your ${int.drugB}`
+                    : `Interaction with ${int.drugA === medication.name ? int.drugB : int.drugA}`}
                 </span>
                 <span className="text-slate-700 ml-1">{int.effect}</span>
               </div>
@@ -188,6 +191,9 @@ const MedicationCard = ({
             </span>
           </div>
 
+          {/* Merge audit trail */}
+          <MatchExplanationPanel explanation={medication.matchExplanation} />
+
           {/* AI Explanation */}
           {explanation && (
             <div className="p-3.5 bg-emerald-50 rounded-xl border border-emerald-200">
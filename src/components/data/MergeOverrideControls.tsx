@@ -0,0 +1,124 @@
+// -----------------------------------------------------------
+// MergeOverrideControls — Patient corrections for one record
+// -----------------------------------------------------------
+// Lives in a record's detail panel. Lets the patient say:
+//   - "Same as…"            → link two single-source records
+//   - "These aren't the same" → split a merged record
+//   - "This record is wrong"  → flag it (it stays visible)
+// and undo any of those. Overrides are stored on the device and
+// re-applied on every merge (see sources/mergeOverrides).
+// -----------------------------------------------------------
+
+import { useMemo } from "react";
+import { Link2, Unlink, Flag, Undo2 } from "lucide-react";
+import { useMergeOverrides } from "../../hooks/useMergeOverrides";
+import { addMergeOverride, removeMergeOverride } from "../../sources/mergeOverrides";
+import { TRANSITIONS } from "../../config/designSystem";
+import type { MergeMetadata, MergeOverride, MergeOverrideDomain } from "../../types/merged";
+
+type OverridableRecord = MergeMetadata & { id: string };
+
+interface MergeOverrideControlsProps {
+  domain: MergeOverrideDomain;
+  record: OverridableRecord;
+  /** Other records in the same domain this one could be linked to */
+  candidates: Array<{ record: OverridableRecord; label: string }>;
+  /** Called after a change — the record is re-merged, so close stale selections */
+  onChange?: () => void;
+}
+
+const OVERRIDE_TEXT: Record<MergeOverride["kind"], string> = {
+  same: "You linked this with another record",
+  different: "You separated records the app had combined",
+  wrong: "You marked this record as wrong",
+};
+
+const MergeOverrideControls = ({ domain, record, candidates, onChange }: MergeOverrideControlsProps) => {
+  const allOverrides = useMergeOverrides();
+
+  const overrides = useMemo(() => {
+    const ids = new Set(record.mergedFromIds);
+    return allOverrides.filter(
+      (o) => o.domain === domain && o.records.some((group) => group.some((id) => ids.has(id)))
+    );
+  }, [allOverrides, domain, record.mergedFromIds]);
+
+  const linkable = useMemo(
+    () =>
+      record.mergedFromIds.length === 1
+        ? candidates.filter((c) => c.record.id !== record.id && c.record.mergedFromIds.length === 1)
+        : [],
+    [candidates, record.id, record.mergedFromIds]
+  );
+
+  const isLinked = overrides.some((o) => o.kind === "same");
+  const isWrong = overrides.some((o) => o.kind === "wrong");
+
+  const apply = (kind: MergeOverride["kind"], records: string[][]) => {
+    addMergeOverride(kind, domain, records);
+    onChange?.();
+  };
+
+  const undo = (id: string) => {
+    removeMergeOverride(id);
+    onChange?.();
+  };
+
+  const buttonClass = `inline-flex items-center gap-1 text-xs px-2.5 py-1 rounded-lg border border-slate-200 text-slate-600 hover:bg-slate-50 ${TRANSITIONS.fast}`;
+
+  return (
+    <div>
+      <div className="text-xs font-bold text-slate-500 uppercase mb-1">Is this right?</div>
+
+      {overrides.map((o) => (
+        <div key={o.id} className="flex items-center gap-2 text-sm text-indigo-700 mb-1">
+          <span className="flex-1">{OVERRIDE_TEXT[o.kind]}</span>
+          <button onClick={() => undo(o.id)} className={buttonClass}>
+            <Undo2 className="w-3 h-3" />
+            Undo
+          </button>
+        </div>
+      ))}
+
+      <div className="flex items-center gap-2 flex-wrap">
+        {record.mergedFromIds.length > 1 && !isLinked && (
+          <button
+            onClick={() => apply("different", [[record.mergedFromIds[0]], record.mergedFromIds.slice(1)])}
+            className={buttonClass}
+          >
+            <Unlink className="w-3 h-3" />
+            These aren't the same
+          </button>
+        )}
+
+        {linkable.length > 0 && (
+          <label className="inline-flex items-center gap-1 text-xs text-slate-600">
+            <Link2 className="w-3 h-3" />
+            <select
+              value=""
+              onChange={(e) => {
+                const other = linkable.find((c) => c.record.id === e.target.value);
+                if (other) apply("same", [record.mergedFromIds, other.record.mergedFromIds]);
+              }}
+              className="text-xs px-2 py-1 rounded-lg border border-slate-200 bg-white text-slate-600 focus:outline-none focus:ring-2 focus:ring-emerald-500/20"
+            >
+              <option value="">Same as…</option>
+              {linkable.map((c) => (
+                <option key={c.record.id} value={c.record.id}>{c.label}</option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        {!isWrong && (
+          <button onClick={() => apply("wrong", [record.mergedFromIds])} className={buttonClass}>
+            <Flag className="w-3 h-3" />
+            This record is wrong
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MergeOverrideControls;
@@ -11,9 +11,11 @@ import Sidebar from "./Sidebar";
 import Header from "./Header";
 import PatientBanner from "../patient/PatientBanner";
 import { usePatient } from "../../hooks/usePatient";
+import { useTokenMonitor } from "../../hooks/useTokenMonitor";
 
 const AppShell = () => {
   const { patient } = usePatient();
+  useTokenMonitor();
 
   return (
     <div className="flex h-screen bg-slate-50 overflow-hidden">
@@ -3,14 +3,71 @@
 // -----------------------------------------------------------
 // Patient banner moved into the main content area (full-width).
 // Header is now just: branding left, connection status right.
+// One indicator per health system; disconnected or expiring
+// SMART sources become a one-click reconnect.
 // -----------------------------------------------------------
 
-import { LogOut, Wifi, WifiOff } from "lucide-react";
+import { LogOut, Wifi, WifiOff, RefreshCw } from "lucide-react";
 import { useFhirClient } from "../../hooks/useFhirClient";
-import { TRANSITIONS, SOURCE_STYLES } from "../../config/designSystem";
+import { useSourceConnections } from "../../hooks/useSourceConnections";
+import type { SourceConnection } from "../../hooks/useSourceConnections";
+import { TRANSITIONS, SOURCE_STYLES, SOURCE_FALLBACK } from "../../config/designSystem";
+import type { SourceSystemId } from "../../config/designSystem";
+
+const ConnectionIndicator = ({
+  connection,
+  onReconnect,
+}: {
+  connection: SourceConnection;
+  onReconnect: (sourceId: string) => void;
+}) => {
+  const style = SOURCE_STYLES[connection.id as SourceSystemId] ?? SOURCE_FALLBACK;
+  const label = style === SOURCE_FALLBACK ? connection.displayName : style.label;
+
+  // Bundled / uploaded sources — no login, just a colored dot
+  if (connection.authKind !== "smart-on-fhir") {
+    return (
+      <div className="flex items-center gap-1.5 text-sm" title={connection.displayName}>
+        <div className={`w-2.5 h-2.5 rounded-full ${style.dot}`} />
+        <span className={`${style.text} font-medium`}>{label}</span>
+      </div>
+    );
+  }
+
+  const needsReconnect =
+    !connection.connected || connection.tokenInfo?.status === "expiring-soon";
+
+  if (needsReconnect) {
+    return (
+      <button
+        onClick={() => onReconnect(connection.id)}
+        className={`flex items-center gap-1.5 text-sm px-2 py-1 -mx-2 rounded-lg hover:bg-slate-50 ${TRANSITIONS.fast}`}
+        title={`${connection.connected ? "Reconnect" : "Connect"} ${connection.displayName}`}
+        aria-label={`${connection.connected ? "Reconnect" : "Connect"} ${connection.displayName}`}
+      >
+        {connection.connected ? (
+          <RefreshCw className="w-4 h-4 text-amber-500" />
+        ) : (
+          <WifiOff className="w-4 h-4 text-slate-400" />
+        )}
+        <span className={`font-medium ${connection.connected ? "text-amber-600" : "text-slate-400"}`}>
+          {label}
+        </span>
+      </button>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-1.5 text-sm" title={`${connection.displayName} connected`}>
+      <Wifi className={`w-4 h-4 ${style.text}`} />
+      <span className={`font-medium ${style.text}`}>{label}</span>
+    </div>
+  );
+};
 
 const Header = () => {
   const { client, setClient } = useFhirClient();
+  const { connections, connect } = useSourceConnections();
 
   const handleDisconnect = () => {
     setClient(null);
@@ -18,6 +75,12 @@ const Header = () => {
     window.location.assign("/");
   };
 
+  const handleReconnect = (sourceId: string) => {
+    connect(sourceId).catch((err) => {
+      console.error(`[Header] Failed to connect ${sourceId}:`, err);
+    });
+  };
+
   return (
     <header className="h-12 bg-white border-b border-slate-200 flex items-center justify-between px-6 shrink-0 print:hidden">
       {/* Left: App title */}
@@ -29,32 +92,23 @@ const Header = () => {
       <div className="flex items-center gap-3 shrink-0">
         {/* Connection indicators — uses design system source colors */}
         <div className="hidden md:flex items-center gap-3">
-          <div className="flex items-center gap-1.5 text-sm">
-            {client ? (
-              <Wifi className={`w-4 h-4 ${SOURCE_STYLES["epic-sandbox"].text}`} />
-            ) : (
-              <WifiOff className="w-4 h-4 text-slate-400" />
-            )}
-            <span className={`font-medium ${client ? SOURCE_STYLES["epic-sandbox"].text : "text-slate-400"}`}>
-              {SOURCE_STYLES["epic-sandbox"].label}
-            </span>
-          </div>
-          <div className="flex items-center gap-1.5 text-sm">
-            <div className={`w-2.5 h-2.5 rounded-full ${SOURCE_STYLES["community-mc"].dot}`} />
-            <span className={`${SOURCE_STYLES["community-mc"].text} font-medium`}>
-              {SOURCE_STYLES["community-mc"].label}
-            </span>
-          </div>
+          {connections.map((connection) => (
+            <ConnectionIndicator
+              key={connection.id}
+              connection={connection}
+              onReconnect={handleReconnect}
+            />
+          ))}
         </div>
 
-        {/* Disconnect */}
+        {/* Disconnect — ends every source's session */}
         {client && (
           <button
             onClick={handleDisconnect}
             className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium
               text-slate-500 hover:text-red-600 hover:bg-red-50 ${TRANSITIONS.fast}`}
-            title="Disconnect from Epic"
-            aria-label="Disconnect from Epic"
+            title="Disconnect from all health systems"
+            aria-label="Disconnect from all health systems"
           >
             <LogOut className="w-4 h-4" />
             <span className="hidden md:inline">Disconnect</span>
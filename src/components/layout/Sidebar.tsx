@@ -4,6 +4,7 @@
 // Light, friendly sidebar. Patients need warmth, not admin panels.
 // Grouped by purpose: MY HEALTH, MY TOOLS.
 // Bigger fonts, clear icons, colored section headers.
+// MY SYSTEMS lists every health system with connect/reconnect.
 // -----------------------------------------------------------
 
 import { NavLink, useLocation } from "react-router-dom";
@@ -18,9 +19,19 @@ import {
   Heart,
   AlertTriangle,
   Syringe,
+  Link2,
+  Unlink,
+  RefreshCw,
+  Upload,
+  FolderInput,
+  Scissors,
+  Files,
 } from "lucide-react";
 import { useState } from "react";
-import { TRANSITIONS } from "../../config/designSystem";
+import { TRANSITIONS, SOURCE_STYLES, SOURCE_FALLBACK } from "../../config/designSystem";
+import type { SourceSystemId } from "../../config/designSystem";
+import { useSourceConnections } from "../../hooks/useSourceConnections";
+import type { SourceConnection } from "../../hooks/useSourceConnections";
 
 interface NavItem {
   to: string;
@@ -44,6 +55,8 @@ const SECTIONS: NavSection[] = [
       { to: "/dashboard", icon: BrainCircuit, label: "Overview" },
       { to: "/medications", icon: Pill, label: "Medications" },
       { to: "/labs", icon: TrendingUp, label: "Labs & Vitals" },
+      { to: "/procedures", icon: Scissors, label: "Procedures" },
+      { to: "/documents", icon: Files, label: "Documents" },
     ],
   },
   {
@@ -54,11 +67,34 @@ const SECTIONS: NavSection[] = [
       { to: "/pre-visit", icon: FileText, label: "Pre-Visit Report" },
     ],
   },
+  {
+    title: "MY RECORDS",
+    color: "text-violet-600",
+    icon: FolderInput,
+    items: [
+      { to: "/import", icon: Upload, label: "Import Records" },
+    ],
+  },
 ];
 
+/** Status line under each system name */
+function connectionStatusText(connection: SourceConnection): string {
+  if (connection.authKind !== "smart-on-fhir") return "Always available";
+  if (!connection.connected) return "Not connected";
+  if (connection.tokenInfo?.status === "expiring-soon") return "Session expiring";
+  return "Connected";
+}
+
 const Sidebar = () => {
   const [collapsed, setCollapsed] = useState(false);
   const location = useLocation();
+  const { connections, connect, disconnect } = useSourceConnections();
+
+  const handleConnect = (sourceId: string) => {
+    connect(sourceId).catch((err) => {
+      console.error(`[Sidebar] Failed to connect ${sourceId}:`, err);
+    });
+  };
 
   return (
     <aside
@@ -144,6 +180,76 @@ const Sidebar = () => {
             </div>
           </div>
         ))}
+
+        {/* Connected health systems */}
+        <div>
+          {!collapsed && (
+            <div className="flex items-center gap-1.5 px-2 mb-2">
+              <span className="text-xs font-bold tracking-widest uppercase text-slate-500">
+                MY SYSTEMS
+              </span>
+            </div>
+          )}
+          <div className="space-y-0.5">
+            {connections.map((connection) => {
+              const style = SOURCE_STYLES[connection.id as SourceSystemId] ?? SOURCE_FALLBACK;
+              const isSmart = connection.authKind === "smart-on-fhir";
+              const needsReconnect =
+                isSmart &&
+                (!connection.connected || connection.tokenInfo?.status === "expiring-soon");
+
+              return (
+                <div
+                  key={connection.id}
+                  className={`flex items-center gap-3 rounded-xl px-3 py-2 ${collapsed ? "justify-center px-0" : ""}`}
+                  title={collapsed ? `${connection.displayName}: ${connectionStatusText(connection)}` : undefined}
+                >
+                  <span
+                    className={`w-2.5 h-2.5 rounded-full shrink-0 ${
+                      connection.connected ? style.dot : "bg-slate-300"
+                    }`}
+                  />
+                  {!collapsed && (
+                    <>
+                      <div className="flex-1 min-w-0">
+                        <div className="text-sm font-semibold text-slate-700 truncate">
+                          {connection.displayName}
+                        </div>
+                        <div className="text-xs text-slate-400">
+                          {connectionStatusText(connection)}
+                        </div>
+                      </div>
+                      {needsReconnect && (
+                        <button
+                          onClick={() => handleConnect(connection.id)}
+                          className={`p-1.5 rounded-lg text-slate-400 hover:text-emerald-600 hover:bg-emerald-50 ${TRANSITIONS.fast}`}
+                          title={`${connection.connected ? "Reconnect" : "Connect"} ${connection.displayName}`}
+                          aria-label={`${connection.connected ? "Reconnect" : "Connect"} ${connection.displayName}`}
+                        >
+                          {connection.connected ? (
+                            <RefreshCw className="w-4 h-4" />
+                          ) : (
+                            <Link2 className="w-4 h-4" />
+                          )}
+                        </button>
+                      )}
+                      {isSmart && connection.connected && !connection.isPrimary && !needsReconnect && (
+                        <button
+                          onClick={() => disconnect(connection.id)}
+                          className={`p-1.5 rounded-lg text-slate-400 hover:text-red-600 hover:bg-red-50 ${TRANSITIONS.fast}`}
+                          title={`Disconnect ${connection.displayName}`}
+                          aria-label={`Disconnect ${connection.displayName}`}
+                        >
+                          <Unlink className="w-4 h-4" />
+                        </button>
+                      )}
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
       </nav>
 
       {/* Collapse toggle */}
@@ -1,13 +1,17 @@
 // -----------------------------------------------------------
 // MergeBadge — Shows merge status of a unified record
 // -----------------------------------------------------------
+// Followed by a badge per patient override (linked, separated,
+// marked wrong) when the record carries any.
 
-import { Check, AlertTriangle, Database } from "lucide-react";
-import { MERGE_STATUS, TRANSITIONS } from "../../config/designSystem";
-import type { MergeMetadata } from "../../types/merged";
+import { Check, AlertTriangle, Database, Link2, Unlink, Flag } from "lucide-react";
+import { MERGE_STATUS, MERGE_OVERRIDE, TRANSITIONS } from "../../config/designSystem";
+import type { MergeMetadata, MergeOverrideKind } from "../../types/merged";
 
 interface MergeBadgeProps {
   status: MergeMetadata["mergeStatus"];
+  /** Patient overrides applied to the record (MergeMetadata.userOverrides) */
+  overrides?: MergeOverrideKind[];
 }
 
 const ICONS = {
@@ -16,17 +20,38 @@ const ICONS = {
   conflict: AlertTriangle,
 };
 
-const MergeBadge = ({ status }: MergeBadgeProps) => {
+const OVERRIDE_ICONS = {
+  same: Link2,
+  different: Unlink,
+  wrong: Flag,
+};
+
+const MergeBadge = ({ status, overrides }: MergeBadgeProps) => {
   const style = MERGE_STATUS[status];
   const Icon = ICONS[status];
 
   return (
-    <span
-      className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-semibold ${style.bg} ${style.text} ${TRANSITIONS.fast} shrink-0`}
-    >
-      <Icon className="w-3 h-3" />
-      {style.label}
-    </span>
+    <>
+      <span
+        className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-semibold ${style.bg} ${style.text} ${TRANSITIONS.fast} shrink-0`}
+      >
+        <Icon className="w-3 h-3" />
+        {style.label}
+      </span>
+      {overrides?.map((kind) => {
+        const overrideStyle = MERGE_OVERRIDE[kind];
+        const OverrideIcon = OVERRIDE_ICONS[kind];
+        return (
+          <span
+            key={kind}
+            className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-semibold ${overrideStyle.bg} ${overrideStyle.text} ${TRANSITIONS.fast} shrink-0`}
+          >
+            <OverrideIcon className="w-3 h-3" />
+            {overrideStyle.label}
+          </span>
+        );
+      })}
+    </>
   );
 };
 
@@ -3,6 +3,8 @@
 // -----------------------------------------------------------
 // Small pill that appears next to every data item.
 // Consistent color coding: violet for Epic, blue for Community MC.
+// Other systems (new vendors, uploads) use the neutral fallback
+// style with their own name.
 // -----------------------------------------------------------
 
 import { SOURCE_STYLES, SOURCE_FALLBACK } from "../../config/designSystem";
@@ -18,6 +20,9 @@ interface SourceBadgeProps {
 const SourceBadge = ({ source, compact = false }: SourceBadgeProps) => {
   const style =
     SOURCE_STYLES[source.systemId as SourceSystemId] ?? SOURCE_FALLBACK;
+  const isKnown = style !== SOURCE_FALLBACK;
+  const label = isKnown ? style.label : source.systemName;
+  const shortLabel = isKnown ? style.shortLabel : source.systemName.charAt(0).toUpperCase();
 
   if (compact) {
     return (
@@ -27,7 +32,7 @@ const SourceBadge = ({ source, compact = false }: SourceBadgeProps) => {
         aria-label={`Source: ${source.systemName}`}
       >
         <span className={`w-1.5 h-1.5 rounded-full ${style.dot}`} />
-        {style.shortLabel}
+        {shortLabel}
       </span>
     );
   }
@@ -38,7 +43,7 @@ const SourceBadge = ({ source, compact = false }: SourceBadgeProps) => {
       title={source.systemName}
     >
       <span className={`w-2 h-2 rounded-full ${style.dot}`} />
-      {style.label}
+      {label}
     </span>
   );
 };
@@ -123,6 +123,58 @@ export const MERGE_STATUS = {
   },
 } as const;
 
+/**
+ * Patient merge overrides — shown beside the merge status badge
+ */
+export const MERGE_OVERRIDE = {
+  same: {
+    bg: "bg-indigo-100",
+    text: "text-indigo-700",
+    label: "Linked by you",
+  },
+  different: {
+    bg: "bg-indigo-100",
+    text: "text-indigo-700",
+    label: "Separated by you",
+  },
+  wrong: {
+    bg: "bg-amber-100",
+    text: "text-amber-700",
+    label: "Marked wrong",
+  },
+} as const;
+
+/**
+ * Conflict review statuses — shown on safety alerts
+ */
+export const CONFLICT_STATUS = {
+  new: {
+    bg: "bg-red-100",
+    text: "text-red-700",
+    label: "New",
+  },
+  acknowledged: {
+    bg: "bg-slate-100",
+    text: "text-slate-700",
+    label: "Acknowledged",
+  },
+  discussed: {
+    bg: "bg-blue-100",
+    text: "text-blue-700",
+    label: "Discussed with provider",
+  },
+  resolved: {
+    bg: "bg-emerald-100",
+    text: "text-emerald-700",
+    label: "Resolved",
+  },
+  "false-positive": {
+    bg: "bg-slate-100",
+    text: "text-slate-500",
+    label: "Not a problem",
+  },
+} as const;
+
 /**
  * Common transition classes for smooth UI interactions
  */
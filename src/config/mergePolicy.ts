@@ -0,0 +1,63 @@
+// -----------------------------------------------------------
+// Merge Policy — Which system's record wins when two merge
+// -----------------------------------------------------------
+// Per-domain preference rules for the merge engine (see
+// MergePolicy in types/merged). Defaults below; override any
+// domain via .env.local with a JSON object in VITE_MERGE_POLICY:
+//   { "labResults": { "prefer": ["most-authoritative", "most-recent"],
+//                     "authoritative": ["quest-labs"] } }
+// A domain given only `authoritative` keeps its default rules.
+// -----------------------------------------------------------
+
+import { EPIC_SOURCE } from "./smart";
+import type { DomainMergePolicy, MergePolicy, PreferenceRule } from "../types/merged";
+
+const RULES: PreferenceRule[] = ["most-authoritative", "most-recent", "most-complete"];
+
+// Epic is the launch system — the patient's primary care portal —
+// so it is the trusted prescriber list. No lab system is known
+// until one is configured, so results fall back to completeness.
+export const DEFAULT_MERGE_POLICY: MergePolicy = {
+  medications: { prefer: ["most-authoritative", "most-recent", "most-complete"], authoritative: [EPIC_SOURCE.id] },
+  labResults: { prefer: ["most-authoritative", "most-complete"], authoritative: [] },
+  vitals: { prefer: ["most-authoritative", "most-complete"], authoritative: [] },
+  allergies: { prefer: ["most-authoritative", "most-complete"], authoritative: [EPIC_SOURCE.id] },
+  conditions: { prefer: ["most-recent", "most-complete"], authoritative: [] },
+  immunizations: { prefer: ["most-authoritative", "most-complete"], authoritative: [] },
+  encounters: { prefer: ["most-complete"], authoritative: [] },
+  // Outcome / conclusion / inline content / days supply count first (see mergeEngine)
+  procedures: { prefer: ["most-complete"], authoritative: [] },
+  diagnosticReports: { prefer: ["most-complete"], authoritative: [] },
+  documents: { prefer: ["most-complete"], authoritative: [] },
+  medicationDispenses: { prefer: ["most-complete"], authoritative: [] },
+  medicationStatements: { prefer: ["most-recent", "most-complete"], authoritative: [] },
+  appointments: { prefer: ["most-authoritative", "most-complete"], authoritative: [EPIC_SOURCE.id] },
+};
+
+/** Parse VITE_MERGE_POLICY over the defaults, skipping malformed entries */
+function parseMergePolicy(raw: string | undefined): MergePolicy {
+  if (!raw) return DEFAULT_MERGE_POLICY;
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return DEFAULT_MERGE_POLICY;
+
+    const policy: MergePolicy = { ...DEFAULT_MERGE_POLICY };
+    for (const [domain, value] of Object.entries(parsed as Record<string, Partial<DomainMergePolicy>>)) {
+      if (!(domain in policy) || !value || typeof value !== "object") continue;
+      const base = policy[domain as keyof MergePolicy];
+      const prefer = Array.isArray(value.prefer) ? value.prefer.filter((r) => RULES.includes(r)) : [];
+      const authoritative = Array.isArray(value.authoritative)
+        ? value.authoritative.filter((id): id is string => typeof id === "string")
+        : base.authoritative;
+      policy[domain as keyof MergePolicy] = { prefer: prefer.length > 0 ? prefer : base.prefer, authoritative };
+    }
+    return policy;
+  } catch (err) {
+    console.error("[MergePolicy] VITE_MERGE_POLICY is not valid JSON:", err);
+    return DEFAULT_MERGE_POLICY;
+  }
+}
+
+/** The policy every merge runs with */
+export const mergePolicy: MergePolicy = parseMergePolicy(import.meta.env.VITE_MERGE_POLICY);
@@ -6,25 +6,118 @@
 //   VITE_FHIR_CLIENT_ID=your-client-id
 //   VITE_FHIR_ISS=https://your-fhir-server/...
 //   VITE_FHIR_REDIRECT_URI=http://localhost:3000
+//   VITE_FHIR_MAX_PAGES=20
+//
+// Additional servers the patient can connect one after another
+// (Pattern 1 in MultiVendorAuth.md) are a JSON array in
+// VITE_FHIR_ENDPOINTS:
+//   [{ "id": "cerner", "displayName": "Cerner Health",
+//      "iss": "https://...", "clientId": "..." }]
 // -----------------------------------------------------------
 
+// online_access asks for a refresh token valid while the patient is
+// signed in to the portal — servers that don't support it simply
+// omit refresh_token and the app falls back to re-login on expiry
+const DEFAULT_SCOPE = [
+  "openid",
+  "fhirUser",
+  "launch/patient",
+  "online_access",
+  "patient/Patient.read",
+  "patient/MedicationRequest.read",
+  "patient/Observation.read",
+  "patient/AllergyIntolerance.read",
+  "patient/Condition.read",
+  "patient/Immunization.read",
+  "patient/Encounter.read",
+  "patient/Procedure.read",
+  "patient/DiagnosticReport.read",
+  "patient/DocumentReference.read",
+  "patient/MedicationDispense.read",
+  "patient/MedicationStatement.read",
+  "patient/Appointment.read",
+].join(" ");
+
+const DEFAULT_REDIRECT_URI = import.meta.env.VITE_FHIR_REDIRECT_URI || "http://localhost:3000";
+
 export const smartConfig = {
   clientId: import.meta.env.VITE_FHIR_CLIENT_ID || "0e79595c-d549-4189-8c85-4916e64e5f1f",
 
-  scope: [
-    "openid",
-    "fhirUser",
-    "launch/patient",
-    "patient/Patient.read",
-    "patient/MedicationRequest.read",
-    "patient/Observation.read",
-    "patient/AllergyIntolerance.read",
-    "patient/Condition.read",
-    "patient/Immunization.read",
-    "patient/Encounter.read",
-  ].join(" "),
-
-  redirectUri: import.meta.env.VITE_FHIR_REDIRECT_URI || "http://localhost:3000",
+  scope: DEFAULT_SCOPE,
+
+  redirectUri: DEFAULT_REDIRECT_URI,
 
   iss: import.meta.env.VITE_FHIR_ISS || "https://fhir.epic.com/interconnect-fhir-oauth/api/FHIR/R4",
 };
+
+/**
+ * Max searchset pages followed per domain (Bundle.link[rel=next]).
+ * At _count=100 the default of 20 covers 2,000 records per domain;
+ * anything beyond is reported as incomplete rather than silently dropped.
+ */
+export const FHIR_MAX_PAGES = Math.max(1, Number(import.meta.env.VITE_FHIR_MAX_PAGES) || 20);
+
+/** Source identity for the launch-context Epic server (SourceTag / registry id) */
+export const EPIC_SOURCE = {
+  id: "epic-sandbox",
+  displayName: "Epic MyHealth",
+} as const;
+
+// -----------------------------------------------------------
+// Connectable endpoints
+// -----------------------------------------------------------
+
+export interface SmartEndpointConfig {
+  /** Registry / SourceTag id, e.g. "epic-sandbox" */
+  id: string;
+  /** Shown in the header, sidebar and source badges */
+  displayName: string;
+  clientId: string;
+  scope: string;
+  redirectUri: string;
+  /** FHIR base URL — the authorization server is discovered from it */
+  iss: string;
+  /** The primary endpoint is the one the app launches with */
+  isPrimary: boolean;
+}
+
+/** Parse VITE_FHIR_ENDPOINTS, skipping malformed entries */
+function parseExtraEndpoints(raw: string | undefined): SmartEndpointConfig[] {
+  if (!raw) return [];
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+
+    return parsed
+      .filter(
+        (e): e is Record<string, string> =>
+          typeof e?.id === "string" && typeof e?.iss === "string" && typeof e?.clientId === "string"
+      )
+      .filter((e) => e.id !== EPIC_SOURCE.id)
+      .map((e) => ({
+        id: e.id,
+        displayName: e.displayName || e.id,
+        clientId: e.clientId,
+        scope: e.scope || DEFAULT_SCOPE,
+        redirectUri: e.redirectUri || DEFAULT_REDIRECT_URI,
+        iss: e.iss,
+        isPrimary: false,
+      }));
+  } catch (err) {
+    console.error("[SmartConfig] VITE_FHIR_ENDPOINTS is not valid JSON:", err);
+    return [];
+  }
+}
+
+/** Every SMART server the patient can connect — Epic first */
+export const smartEndpoints: SmartEndpointConfig[] = [
+  { ...EPIC_SOURCE, ...smartConfig, isPrimary: true },
+  ...parseExtraEndpoints(import.meta.env.VITE_FHIR_ENDPOINTS),
+];
+
+export function getSmartEndpoint(id: string): SmartEndpointConfig | undefined {
+  return smartEndpoints.find((e) => e.id === id);
+}
+
+export const primaryEndpoint = smartEndpoints[0];
@@ -1,14 +1,35 @@
 // -----------------------------------------------------------
-// FhirContext — Shares the authenticated FHIR client app-wide
+// FhirContext — Shares the authenticated FHIR clients app-wide
+// -----------------------------------------------------------
+// One Client per connected SMART endpoint, keyed by source id.
+// `client` is the primary (launch) endpoint — Epic — which gates
+// the authenticated routes. Clients are restored from per-source
+// sessionStorage on load, so connecting a second server (a full
+// page redirect) doesn't lose the first one.
+//
+// Also keeps the source registry in sync: every connected client
+// is registered as a SourceProvider and removed on disconnect.
 // -----------------------------------------------------------
 
-import { createContext, useState } from "react";
+import { createContext, useCallback, useEffect, useMemo, useRef, useState } from "react";
 import type Client from "fhirclient/lib/Client";
 import type { ReactNode } from "react";
+import { smartEndpoints, primaryEndpoint } from "../config/smart";
+import { createFhirSourceProvider } from "../sources/fhirSource";
+import { registerSourceProvider, unregisterSourceProvider } from "../sources/sourceRegistry";
+import { restoreAllSessions, saveSourceSession, clearSourceSession } from "../utils/smartSessions";
 
 interface FhirContextType {
+  /** Primary (launch) endpoint client */
   client: Client | null;
+  /** Set or clear the primary client */
   setClient: (client: Client | null) => void;
+  /** Every connected client, keyed by source id */
+  clients: Record<string, Client>;
+  /** Attach a freshly authorized client to a source */
+  connectSource: (sourceId: string, client: Client) => void;
+  /** Drop one source's client and stored tokens */
+  disconnectSource: (sourceId: string) => void;
 }
 
 export const FhirContext = createContext<FhirContextType | undefined>(undefined);
@@ -18,13 +39,69 @@ interface FhirProviderProps {
 }
 
 const FhirProvider = ({ children }: FhirProviderProps) => {
-  const [client, setClient] = useState<Client | null>(null);
+  const [clients, setClients] = useState<Record<string, Client>>(restoreAllSessions);
+
+  const connectSource = useCallback((sourceId: string, client: Client) => {
+    saveSourceSession(sourceId, client);
+    setClients((prev) => ({ ...prev, [sourceId]: client }));
+  }, []);
+
+  const disconnectSource = useCallback((sourceId: string) => {
+    clearSourceSession(sourceId);
+    setClients((prev) => {
+      if (!(sourceId in prev)) return prev;
+      const next = { ...prev };
+      delete next[sourceId];
+      return next;
+    });
+  }, []);
 
-  return (
-    <FhirContext.Provider value={{ client, setClient }}>
-      {children}
-    </FhirContext.Provider>
+  const setClient = useCallback(
+    (client: Client | null) => {
+      if (client) connectSource(primaryEndpoint.id, client);
+      else disconnectSource(primaryEndpoint.id);
+    },
+    [connectSource, disconnectSource]
   );
+
+  // Register a SourceProvider per connected endpoint — only when
+  // its client actually changed, so other sources don't re-merge
+  const registeredClients = useRef(new Map<string, Client>());
+
+  useEffect(() => {
+    for (const endpoint of smartEndpoints) {
+      const client = clients[endpoint.id];
+      if (registeredClients.current.get(endpoint.id) === client) continue;
+
+      if (!client) {
+        registeredClients.current.delete(endpoint.id);
+        unregisterSourceProvider(endpoint.id);
+        continue;
+      }
+      registeredClients.current.set(endpoint.id, client);
+      registerSourceProvider(
+        createFhirSourceProvider({
+          id: endpoint.id,
+          displayName: endpoint.displayName,
+          client,
+          isPrimary: endpoint.isPrimary,
+        })
+      );
+    }
+  }, [clients]);
+
+  const value = useMemo<FhirContextType>(
+    () => ({
+      client: clients[primaryEndpoint.id] ?? null,
+      setClient,
+      clients,
+      connectSource,
+      disconnectSource,
+    }),
+    [clients, setClient, connectSource, disconnectSource]
+  );
+
+  return <FhirContext.Provider value={value}>{children}</FhirContext.Provider>;
 };
 
 export default FhirProvider;
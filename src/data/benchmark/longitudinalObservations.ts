@@ -0,0 +1,217 @@
+// -----------------------------------------------------------
+// Merge benchmark — Longitudinal Observation fixture
+// -----------------------------------------------------------
+// Generated (not hand-written) FHIR Observation bundles for two
+// systems covering years of home monitoring and lab work: the
+// size of record that made the pairwise merge stall the UI.
+//
+// With the defaults (5 years) the fixture holds ~26,000
+// Observations:
+//   - Clinic: 4 vitals twice a day from a connected BP cuff, scale
+//     and pulse oximeter, plus a monthly 8-test lab panel
+//   - HIE:    ~60% of the clinic's readings re-shared (same value,
+//     timestamps shifted by up to an hour), a few re-keyed in other
+//     units or LOINC codes, plus its own readings the clinic never saw
+//
+// Values come from a seeded PRNG, so every run builds the same
+// bundles and timings are comparable between runs.
+// -----------------------------------------------------------
+
+export interface ObservationFixtureOptions {
+  /** Days of history (default 5 years) */
+  days?: number;
+  /** PRNG seed (default 42) */
+  seed?: number;
+  /** Last day of history (default 2026-01-01) */
+  endDate?: string;
+}
+
+const LOINC = "http://loinc.org";
+const MS_PER_DAY = 86_400_000;
+
+/** mulberry32 — tiny deterministic PRNG */
+function makeRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4_294_967_296;
+  };
+}
+
+function category(code: "vital-signs" | "laboratory") {
+  return [
+    {
+      coding: [{ system: "http://terminology.hl7.org/CodeSystem/observation-category", code }],
+    },
+  ];
+}
+
+function quantity(value: number, unit: string) {
+  return { value, unit, system: "http://unitsofmeasure.org", code: unit };
+}
+
+interface VitalSpec {
+  loinc: string;
+  display: string;
+  unit: string;
+  base: number;
+  spread: number;
+  decimals: number;
+}
+
+const SIMPLE_VITALS: VitalSpec[] = [
+  { loinc: "8867-4", display: "Heart rate", unit: "/min", base: 74, spread: 10, decimals: 0 },
+  { loinc: "29463-7", display: "Body weight", unit: "kg", base: 82, spread: 2, decimals: 1 },
+  { loinc: "59408-5", display: "Oxygen saturation", unit: "%", base: 97, spread: 2, decimals: 0 },
+];
+
+interface LabSpec {
+  loinc: string;
+  display: string;
+  unit: string;
+  base: number;
+  spread: number;
+  decimals: number;
+  /** Alternate coding the HIE sometimes uses (exercises equivalence groups and unit conversion) */
+  alternate?: { loinc: string; unit: string; convert: (value: number) => number };
+}
+
+const LAB_PANEL: LabSpec[] = [
+  {
+    loinc: "4548-4", display: "Hemoglobin A1c", unit: "%", base: 7.1, spread: 0.6, decimals: 1,
+    alternate: { loinc: "17856-6", unit: "%", convert: (v) => v },
+  },
+  {
+    loinc: "2345-7", display: "Glucose", unit: "mg/dL", base: 135, spread: 25, decimals: 0,
+    alternate: { loinc: "14749-6", unit: "mmol/L", convert: (v) => Math.round((v / 18.016) * 10) / 10 },
+  },
+  { loinc: "2093-3", display: "Total Cholesterol", unit: "mg/dL", base: 195, spread: 20, decimals: 0 },
+  { loinc: "2089-1", display: "LDL Cholesterol", unit: "mg/dL", base: 118, spread: 15, decimals: 0 },
+  { loinc: "2085-9", display: "HDL Cholesterol", unit: "mg/dL", base: 46, spread: 6, decimals: 0 },
+  { loinc: "2160-0", display: "Creatinine", unit: "mg/dL", base: 1.0, spread: 0.15, decimals: 2 },
+  { loinc: "2823-3", display: "Potassium", unit: "mmol/L", base: 4.3, spread: 0.4, decimals: 1 },
+  { loinc: "6301-6", display: "INR", unit: "{INR}", base: 2.5, spread: 0.5, decimals: 1 },
+];
+
+/**
+ * Build the clinic and HIE Observation bundles.
+ */
+export function buildLongitudinalObservationBundles(options: ObservationFixtureOptions = {}) {
+  const days = options.days ?? 5 * 365;
+  const random = makeRandom(options.seed ?? 42);
+  const end = new Date(options.endDate ?? "2026-01-01T00:00:00Z").getTime();
+  const start = end - days * MS_PER_DAY;
+
+  const round = (value: number, decimals: number) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+  const jitter = (base: number, spread: number) => base + (random() * 2 - 1) * spread;
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const clinic: any[] = [];
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const hie: any[] = [];
+  let clinicSeq = 0;
+  let hieSeq = 0;
+
+  /** Re-share a clinic reading through the HIE (shifted by up to an hour) */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const reshare = (resource: any, time: number) => {
+    const shifted = new Date(time + Math.floor(random() * 60) * 60_000).toISOString();
+    hie.push({ ...resource, id: `hie-obs-${++hieSeq}`, effectiveDateTime: shifted });
+  };
+
+  for (let day = 0; day < days; day++) {
+    const morning = start + day * MS_PER_DAY + 7 * 3_600_000 + Math.floor(random() * 90) * 60_000;
+
+    // ---- Vitals: BP (components) + three simple vitals, morning and evening ----
+    for (const taken of [morning, morning + 12 * 3_600_000]) {
+      const systolic = Math.round(jitter(138, 14));
+      const diastolic = Math.round(jitter(86, 8));
+      const bp = {
+        resourceType: "Observation",
+        id: `clinic-obs-${++clinicSeq}`,
+        status: "final",
+        category: category("vital-signs"),
+        code: { coding: [{ system: LOINC, code: "85354-9", display: "Blood pressure panel" }], text: "Blood Pressure" },
+        effectiveDateTime: new Date(taken).toISOString(),
+        component: [
+          { code: { coding: [{ system: LOINC, code: "8480-6" }], text: "Systolic" }, valueQuantity: quantity(systolic, "mm[Hg]") },
+          { code: { coding: [{ system: LOINC, code: "8462-4" }], text: "Diastolic" }, valueQuantity: quantity(diastolic, "mm[Hg]") },
+        ],
+      };
+      clinic.push(bp);
+      if (random() < 0.6) reshare(bp, taken);
+
+      for (const spec of SIMPLE_VITALS) {
+        const vital = {
+          resourceType: "Observation",
+          id: `clinic-obs-${++clinicSeq}`,
+          status: "final",
+          category: category("vital-signs"),
+          code: { coding: [{ system: LOINC, code: spec.loinc, display: spec.display }], text: spec.display },
+          effectiveDateTime: new Date(taken).toISOString(),
+          valueQuantity: quantity(round(jitter(spec.base, spec.spread), spec.decimals), spec.unit),
+        };
+        clinic.push(vital);
+        if (random() < 0.6) reshare(vital, taken);
+      }
+    }
+
+    // HIE-only midday heart rate (an outside urgent care / pharmacy kiosk)
+    if (random() < 0.25) {
+      hie.push({
+        resourceType: "Observation",
+        id: `hie-obs-${++hieSeq}`,
+        status: "final",
+        category: category("vital-signs"),
+        code: { coding: [{ system: LOINC, code: "8867-4", display: "Heart rate" }], text: "Heart rate" },
+        effectiveDateTime: new Date(morning + 5 * 3_600_000).toISOString(),
+        valueQuantity: quantity(Math.round(jitter(80, 12)), "/min"),
+      });
+    }
+
+    // ---- Monthly lab panel ----
+    if (day % 30 !== 0) continue;
+    const drawn = morning + 3_600_000;
+    for (const spec of LAB_PANEL) {
+      const value = round(jitter(spec.base, spec.spread), spec.decimals);
+      const lab = {
+        resourceType: "Observation",
+        id: `clinic-obs-${++clinicSeq}`,
+        status: "final",
+        category: category("laboratory"),
+        code: { coding: [{ system: LOINC, code: spec.loinc, display: spec.display }], text: spec.display },
+        effectiveDateTime: new Date(drawn).toISOString(),
+        valueQuantity: quantity(value, spec.unit),
+      };
+      clinic.push(lab);
+
+      const roll = random();
+      if (roll < 0.5) {
+        reshare(lab, drawn);
+      } else if (roll < 0.65 && spec.alternate) {
+        // Same result, coded and unit-converted by the receiving lab system
+        const alt = spec.alternate;
+        reshare(
+          {
+            ...lab,
+            code: { coding: [{ system: LOINC, code: alt.loinc, display: spec.display }], text: spec.display },
+            valueQuantity: quantity(alt.convert(value), alt.unit),
+          },
+          drawn
+        );
+      }
+    }
+  }
+
+  const bundle = (entries: unknown[]) => ({
+    resourceType: "Bundle" as const,
+    type: "searchset" as const,
+    total: entries.length,
+    entry: entries.map((resource) => ({ resource })),
+  });
+
+  return { clinic: bundle(clinic), hie: bundle(hie) };
+}
@@ -0,0 +1,188 @@
+// -----------------------------------------------------------
+// Community Medical Center — Synthetic Appointments
+// -----------------------------------------------------------
+// 3 upcoming appointments. Unlike the other bundles these dates
+// are relative to load time — an "upcoming" visit that slipped
+// into the past would never show up as the next visit.
+//
+// AI STORIES ENABLED:
+//   1. CARDIOLOGY FOLLOW-UP in ~12 days (Dr. Sarah Chen)
+//      → Next visit on the dashboard; the Pre-Visit report is
+//        tailored to CMC and lists what only Epic knows
+//
+//   2. ENDOCRINOLOGY in ~40 days (Dr. James Park)
+//      → Second upcoming visit, fasting labs instruction
+//
+//   3. GI FOLLOW-UP in ~5 days — CANCELLED
+//      → Sooner than the cardiology visit, but must never be
+//        picked as the next visit
+// -----------------------------------------------------------
+
+/** ISO timestamp `days` from now at the given local hour */
+function daysFromNow(days: number, hour: number, minute = 0): string {
+  const d = new Date();
+  d.setDate(d.getDate() + days);
+  d.setHours(hour, minute, 0, 0);
+  return d.toISOString();
+}
+
+export const appointmentBundle = {
+  resourceType: "Bundle" as const,
+  type: "searchset" as const,
+  total: 3,
+  entry: [
+    // -------------------------------------------------------
+    // 1. Cardiology follow-up — booked
+    // -------------------------------------------------------
+    {
+      resource: {
+        resourceType: "Appointment",
+        id: "cmc-appt-001",
+        status: "booked",
+        serviceType: [
+          {
+            coding: [
+              {
+                system: "http://snomed.info/sct",
+                code: "394579002",
+                display: "Cardiology",
+              },
+            ],
+            text: "Cardiology Follow-up",
+          },
+        ],
+        appointmentType: {
+          coding: [
+            {
+              system: "http://terminology.hl7.org/CodeSystem/v2-0276",
+              code: "FOLLOWUP",
+              display: "A follow up visit from a previous appointment",
+            },
+          ],
+          text: "Follow-up",
+        },
+        reasonCode: [
+          {
+            text: "Atrial fibrillation — INR and blood pressure review",
+          },
+        ],
+        description: "3-month cardiology follow-up after ER visit",
+        start: daysFromNow(12, 10),
+        end: daysFromNow(12, 10, 30),
+        patientInstruction: "Bring your home blood pressure log and all of your medication bottles.",
+        participant: [
+          {
+            actor: { reference: "Patient/cmc-patient-001", display: "Camila Lopez" },
+            status: "accepted",
+          },
+          {
+            actor: {
+              reference: "Practitioner/cmc-pract-001",
+              display: "Dr. Sarah Chen, MD — Cardiology",
+            },
+            status: "accepted",
+          },
+          {
+            actor: {
+              reference: "Location/cmc-loc-cardiology",
+              display: "Community Medical Center — Cardiology Clinic",
+            },
+            status: "accepted",
+          },
+        ],
+      },
+    },
+
+    // -------------------------------------------------------
+    // 2. Endocrinology follow-up — booked
+    // -------------------------------------------------------
+    {
+      resource: {
+        resourceType: "Appointment",
+        id: "cmc-appt-002",
+        status: "booked",
+        serviceType: [
+          {
+            coding: [
+              {
+                system: "http://snomed.info/sct",
+                code: "394583002",
+                display: "Endocrinology",
+              },
+            ],
+            text: "Endocrinology Follow-up",
+          },
+        ],
+        reasonCode: [
+          {
+            text: "Type 2 diabetes — A1c follow-up",
+          },
+        ],
+        start: daysFromNow(40, 14, 30),
+        end: daysFromNow(40, 15),
+        patientInstruction: "Complete fasting labs at least 3 days before this visit.",
+        participant: [
+          {
+            actor: { reference: "Patient/cmc-patient-001", display: "Camila Lopez" },
+            status: "accepted",
+          },
+          {
+            actor: {
+              reference: "Practitioner/cmc-pract-002",
+              display: "Dr. James Park, MD — Endocrinology",
+            },
+            status: "accepted",
+          },
+          {
+            actor: {
+              reference: "Location/cmc-loc-endocrinology",
+              display: "Community Medical Center — Endocrinology Clinic",
+            },
+            status: "accepted",
+          },
+        ],
+      },
+    },
+
+    // -------------------------------------------------------
+    // 3. GI follow-up — cancelled by the clinic
+    // -------------------------------------------------------
+    {
+      resource: {
+        resourceType: "Appointment",
+        id: "cmc-appt-003",
+        status: "cancelled",
+        cancelationReason: {
+          text: "Provider unavailable",
+        },
+        serviceType: [
+          {
+            coding: [
+              {
+                system: "http://snomed.info/sct",
+                code: "394584008",
+                display: "Gastroenterology",
+              },
+            ],
+            text: "Gastroenterology Follow-up",
+          },
+        ],
+        start: daysFromNow(5, 8),
+        end: daysFromNow(5, 8, 30),
+        participant: [
+          {
+            actor: { reference: "Patient/cmc-patient-001", display: "Camila Lopez" },
+            status: "accepted",
+          },
+          {
+            actor: {
+              reference: "Practitioner/cmc-pract-004",
+              display: "Dr. Priya Nair, MD — Gastroenterology",
+            },
+            status: "declined",
+          },
+        ],
+      },
+    },
+  ],
+};
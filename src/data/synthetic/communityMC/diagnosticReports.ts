@@ -0,0 +1,120 @@
+// -----------------------------------------------------------
+// Community Medical Center — Synthetic Diagnostic Reports
+// -----------------------------------------------------------
+// 2 reports: one lab panel, one imaging read.
+//
+// AI STORIES ENABLED:
+//   1. LIPID PANEL (Dec 15, 2025) → links the four lipid
+//      Observations the lab resulted together, so the UI shows
+//      them as one panel instead of four unrelated values
+//
+//   2. MAMMOGRAM READ (Nov 2024) → the radiologist's report
+//      behind procedure cmc-proc-004, with an inline HTML
+//      rendering (presentedForm) like real RIS exports
+// -----------------------------------------------------------
+
+export const diagnosticReportBundle = {
+  resourceType: "Bundle" as const,
+  type: "searchset" as const,
+  total: 2,
+  entry: [
+    // -------------------------------------------------------
+    // 1. Lipid panel — 2025-12-15
+    // -------------------------------------------------------
+    {
+      resource: {
+        resourceType: "DiagnosticReport",
+        id: "cmc-report-001",
+        status: "final",
+        category: [
+          {
+            coding: [
+              {
+                system: "http://terminology.hl7.org/CodeSystem/v2-0074",
+                code: "LAB",
+                display: "Laboratory",
+              },
+            ],
+            text: "Laboratory",
+          },
+        ],
+        code: {
+          coding: [
+            {
+              system: "http://loinc.org",
+              code: "57698-3",
+              display: "Lipid panel with direct LDL - Serum or Plasma",
+            },
+          ],
+          text: "Lipid Panel",
+        },
+        subject: { reference: "Patient/cmc-patient-001" },
+        encounter: { reference: "Encounter/cmc-enc-005" },
+        effectiveDateTime: "2025-12-15T08:25:00-06:00",
+        issued: "2025-12-15T14:02:00-06:00",
+        performer: [
+          {
+            display: "Community Medical Center — Clinical Laboratory",
+          },
+        ],
+        result: [
+          { reference: "Observation/cmc-lab-008", display: "Total Cholesterol" },
+          { reference: "Observation/cmc-lab-010", display: "LDL Cholesterol" },
+          { reference: "Observation/cmc-lab-011", display: "HDL Cholesterol" },
+          { reference: "Observation/cmc-lab-018", display: "Triglycerides" },
+        ],
+        conclusion: "LDL above goal on atorvastatin 40 mg; HDL low.",
+      },
+    },
+
+    // -------------------------------------------------------
+    // 2. Diagnostic mammogram read — 2024-11-12
+    // -------------------------------------------------------
+    {
+      resource: {
+        resourceType: "DiagnosticReport",
+        id: "cmc-report-002",
+        status: "final",
+        category: [
+          {
+            coding: [
+              {
+                system: "http://loinc.org",
+                code: "LP29684-5",
+                display: "Radiology",
+              },
+            ],
+            text: "Radiology",
+          },
+        ],
+        code: {
+          coding: [
+            {
+              system: "http://loinc.org",
+              code: "36627-8",
+              display: "MG Breast - bilateral Diagnostic",
+            },
+          ],
+          text: "Diagnostic Mammogram (Bilateral)",
+        },
+        subject: { reference: "Patient/cmc-patient-001" },
+        effectiveDateTime: "2024-11-12T13:00:00-06:00",
+        issued: "2024-11-12T16:45:00-06:00",
+        performer: [
+          {
+            display: "Community Medical Center — Breast Imaging",
+          },
+        ],
+        conclusion: "BI-RADS 2 — benign. Simple cyst, left breast.",
+        presentedForm: [
+          {
+            contentType: "text/html",
+            title: "Mammogram report",
+            data:
+              "PGh0bWw+PGJvZHk+CjxoMz5EaWFnbm9zdGljIE1hbW1vZ3JhbSwgQmlsYXRlcmFsPC9oMz4KPHA+PGI+Q2xpbmljYWwgaGlzdG9yeTo8L2I+IDM4LXllYXItb2xkIGZlbWFsZSB3aXRoIGEgcGFscGFibGUgbHVtcCBpbiB0aGUgbGVmdCBicmVhc3QsIHVwcGVyIG91dGVyIHF1YWRyYW50LjwvcD4KPHA+PGI+RmluZGluZ3M6PC9iPiBTY2F0dGVyZWQgZmlicm9nbGFuZHVsYXIgZGVuc2l0eS4gQXQgdGhlIHNpdGUgb2YgdGhlIHBhbHBhYmxlIGZpbmRpbmcgdGhlcmUgaXMgYSAxLjQgY20gY2lyY3Vtc2NyaWJlZCBvdmFsIG1hc3MuIFRhcmdldGVkIHVsdHJhc291bmQgY29uZmlybXMgYSBzaW1wbGUgY3lzdC4gTm8gc3VzcGljaW91cyBjYWxjaWZpY2F0aW9ucyBvciBhcmNoaXRlY3R1cmFsIGRpc3RvcnRpb24uPC9wPgo8cD48Yj5JbXByZXNzaW9uOjwvYj4gQkktUkFEUyAyICZtZGFzaDsgYmVuaWduLiBTaW1wbGUgY3lzdCwgbGVmdCBicmVhc3QuIFJvdXRpbmUgc2NyZWVuaW5nIHJlY29tbWVuZGVkLjwvcD4KPC9ib2R5PjwvaHRtbD4=",
+          },
+        ],
+      },
+    },
+  ],
+};
@@ -0,0 +1,141 @@
+// -----------------------------------------------------------
+// Community Medical Center — Synthetic Clinical Notes
+// -----------------------------------------------------------
+// 2 DocumentReferences with inline base64 plain-text content.
+//
+// AI STORIES ENABLED:
+//   1. ER NOTE (Oct 3) → the narrative Epic never received:
+//      BP 172/102, CT negative, sumatriptan started, and the
+//      sulfa allergy being added to the CMC chart
+//
+//   2. CARDIOLOGY CONSULT (Jun 2025) → why warfarin was started
+//      (CHA2DS2-VASc 3), in the cardiologist's own words
+// -----------------------------------------------------------
+
+export const documentReferenceBundle = {
+  resourceType: "Bundle" as const,
+  type: "searchset" as const,
+  total: 2,
+  entry: [
+    // -------------------------------------------------------
+    // 1. Emergency department note — 2025-10-03
+    // -------------------------------------------------------
+    {
+      resource: {
+        resourceType: "DocumentReference",
+        id: "cmc-doc-001",
+        status: "current",
+        docStatus: "final",
+        type: {
+          coding: [
+            {
+              system: "http://loinc.org",
+              code: "34111-5",
+              display: "Emergency department Note",
+            },
+          ],
+          text: "ED Note",
+        },
+        category: [
+          {
+            coding: [
+              {
+                system: "http://hl7.org/fhir/us/core/CodeSystem/us-core-documentreference-category",
+                code: "clinical-note",
+                display: "Clinical Note",
+              },
+            ],
+            text: "Clinical Note",
+          },
+        ],
+        subject: { reference: "Patient/cmc-patient-001" },
+        date: "2025-10-04T03:50:00-05:00",
+        author: [
+          {
+            reference: "Practitioner/cmc-pract-003",
+            display: "Dr. Mike Rivera, MD — Emergency Medicine",
+          },
+        ],
+        custodian: { display: "Community Medical Center" },
+        description: "Emergency Department Note — Migraine, hypertensive urgency",
+        content: [
+          {
+            attachment: {
+              contentType: "text/plain",
+              title: "ED Note",
+              data:
+                "RU1FUkdFTkNZIERFUEFSVE1FTlQgTk9URQpDb21tdW5pdHkgTWVkaWNhbCBDZW50ZXIgLSBFbWVyZ2VuY3kgRGVwYXJ0bWVudApEYXRlIG9mIHNlcnZpY2U6IDEwLzAzLzIwMjUgMjI6MTUKQXR0ZW5kaW5nOiBNaWtlIFJpdmVyYSwgTUQKCkNISUVGIENPTVBMQUlOVDogU2V2ZXJlIGhlYWRhY2hlLgoKSFBJOiAzOEYgd2l0aCBhdHJpYWwgZmlicmlsbGF0aW9uIG9uIHdhcmZhcmluLCB0eXBlIDIgZGlhYmV0ZXMgYW5kCmh5cGVydGVuc2lvbiBwcmVzZW50cyB3aXRoIGEgNi1ob3VyIHRocm9iYmluZyBsZWZ0LXNpZGVkIGhlYWRhY2hlLApwaG90b3Bob2JpYSBhbmQgbmF1c2VhLiBTaW1pbGFyIHRvIHByaW9yIG1pZ3JhaW5lcyBidXQgbW9yZSBzZXZlcmUuCk5vIGZvY2FsIHdlYWtuZXNzLCBubyB0aHVuZGVyY2xhcCBvbnNldC4KClZJVEFMUzogQlAgMTcyLzEwMiwgSFIgOTYgaXJyZWd1bGFyLCBTcE8yIDk4JSBSQS4KCkVDRzogQXRyaWFsIGZpYnJpbGxhdGlvbiwgcmF0ZSBjb250cm9sbGVkLiBObyBhY3V0ZSBpc2NoZW1pYyBjaGFuZ2VzLgpDVCBoZWFkIChub24tY29udHJhc3QpOiBObyBpbnRyYWNyYW5pYWwgaGVtb3JyaGFnZS4KCkFTU0VTU01FTlQ6CjEuIE1pZ3JhaW5lIHdpdGhvdXQgYXVyYSwgc2V2ZXJlCjIuIEh5cGVydGVuc2l2ZSB1cmdlbmN5CjMuIEF0cmlhbCBmaWJyaWxsYXRpb24gb24gYW50aWNvYWd1bGF0aW9uIC0gSU5SIDIuOQoKUExBTjogSVYgZmx1aWRzLCBtZXRvY2xvcHJhbWlkZS4gQlAgaW1wcm92ZWQgdG8gMTQ4LzkyIGFmdGVyCmhlYWRhY2hlIHJlc29sdmVkLiBEaXNjaGFyZ2VkIG9uIHN1bWF0cmlwdGFuIDUwIG1nIFBSTi4KRm9sbG93IHVwIHdpdGggY2FyZGlvbG9neSB3aXRoaW4gNCB3ZWVrcyBmb3IgQlAgcmV2aWV3LgpQYXRpZW50IHJlcG9ydHMgc3VsZmEgYWxsZXJneSAoYW5hcGh5bGF4aXMpIC0gYWRkZWQgdG8gY2hhcnQuCg==",
+            },
+          },
+        ],
+        context: {
+          encounter: [{ reference: "Encounter/cmc-enc-003" }],
+          period: {
+            start: "2025-10-03T22:15:00-05:00",
+            end: "2025-10-04T03:45:00-05:00",
+          },
+        },
+      },
+    },
+
+    // -------------------------------------------------------
+    // 2. Cardiology consultation note — 2025-06-15
+    // -------------------------------------------------------
+    {
+      resource: {
+        resourceType: "DocumentReference",
+        id: "cmc-doc-002",
+        status: "current",
+        docStatus: "final",
+        type: {
+          coding: [
+            {
+              system: "http://loinc.org",
+              code: "11488-4",
+              display: "Consult note",
+            },
+          ],
+          text: "Consult Note",
+        },
+        category: [
+          {
+            coding: [
+              {
+                system: "http://hl7.org/fhir/us/core/CodeSystem/us-core-documentreference-category",
+                code: "clinical-note",
+                display: "Clinical Note",
+              },
+            ],
+            text: "Clinical Note",
+          },
+        ],
+        subject: { reference: "Patient/cmc-patient-001" },
+        date: "2025-06-15T12:10:00-05:00",
+        author: [
+          {
+            reference: "Practitioner/cmc-pract-001",
+            display: "Dr. Sarah Chen, MD — Cardiology",
+          },
+        ],
+        custodian: { display: "Community Medical Center" },
+        description: "Cardiology Consultation — Palpitations, new atrial fibrillation",
+        content: [
+          {
+            attachment: {
+              contentType: "text/plain",
+              title: "Consult Note",
+              data:
+                "Q0FSRElPTE9HWSBDT05TVUxUQVRJT04KQ29tbXVuaXR5IE1lZGljYWwgQ2VudGVyIC0gQ2FyZGlvbG9neSBDbGluaWMKRGF0ZSBvZiBzZXJ2aWNlOiAwNi8xNS8yMDI1ClNhcmFoIENoZW4sIE1ECgpSRUFTT04gRk9SIENPTlNVTFQ6IENoZXN0IHBhaW4gYW5kIHBhbHBpdGF0aW9ucywgcmVmZXJyZWQgYnkgUENQLgoKSElTVE9SWTogSW50ZXJtaXR0ZW50IHBhbHBpdGF0aW9ucyBmb3IgMyBtb250aHMsIHdvcnNlIHdpdGgKZXhlcnRpb24uIFJlbW90ZSBzdXJnZXJ5IChKdW5lIDIwMjMpLiBUeXBlIDIgZGlhYmV0ZXMsIGh5cGVybGlwaWRlbWlhLgoKRUNHOiBBdHJpYWwgZmlicmlsbGF0aW9uIHdpdGggdmVudHJpY3VsYXIgcmF0ZSA4OC4KRUNITzogTWlsZCBsZWZ0IGF0cmlhbCBlbmxhcmdlbWVudC4gRUYgNTUlLiBObyB2YWx2dWxhciBkaXNlYXNlLgoKQ0hBMkRTMi1WQVNjOiAzIChmZW1hbGUsIGh5cGVydGVuc2lvbiwgZGlhYmV0ZXMpLgoKUExBTjoKMS4gU3RhcnQgd2FyZmFyaW4gNSBtZyBkYWlseSwgSU5SIGdvYWwgMi4wLTMuMAoyLiBDb250aW51ZSBhbWxvZGlwaW5lIGZvciByYXRlL0JQCjMuIEF0b3J2YXN0YXRpbiA0MCBtZyBmb3IgTERMIDE2NQo0LiBGb2xsb3cgdXAgaW4gMy00IG1vbnRocwo=",
+            },
+          },
+        ],
+        context: {
+          encounter: [{ reference: "Encounter/cmc-enc-001" }],
+          period: {
+            start: "2025-06-15T09:00:00-05:00",
+          },
+        },
+      },
+    },
+  ],
+};
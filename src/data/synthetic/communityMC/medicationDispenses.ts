@@ -0,0 +1,499 @@
+// -----------------------------------------------------------
+// Community Medical Center — Synthetic Pharmacy Fills
+// -----------------------------------------------------------
+// 19 MedicationDispense records from the CMC outpatient pharmacy,
+// each pointing back at the MedicationRequest it filled.
+//
+// AI STORIES ENABLED:
+//   1. AMLODIPINE LAPSE (Sep 15 → Oct 4, 2025) → the ER visit for
+//      BP 172/102 happened with no amlodipine on hand. The BP
+//      correlation rule can say "BP high, but refills lapsed"
+//      instead of "amlodipine isn't working"
+//
+//   2. ATORVASTATIN never refilled after July → explains the LDL
+//      that stayed above goal in the December lipid panel
+//
+//   3. WARFARIN + METFORMIN on time → high PDC, no false alarms
+// -----------------------------------------------------------
+
+export const medicationDispenseBundle = {
+  resourceType: "Bundle" as const,
+  type: "searchset" as const,
+  total: 19,
+  entry: [
+    // -------------------------------------------------------
+    // Amlodipine 10mg — the lapse behind the ER visit
+    //    Aug 16 fill runs out Sep 15; next pickup is Oct 4,
+    //    the day after the 172/102 ER visit
+    // -------------------------------------------------------
+    {
+      resource: {
+        resourceType: "MedicationDispense",
+        id: "cmc-dispense-001",
+        status: "completed",
+        medicationCodeableConcept: {
+          coding: [
+            {
+              system: "http://www.nlm.nih.gov/research/umls/rxnorm",
+              code: "329528",
+              display: "Amlodipine 10 MG Oral Tablet",
+            },
+          ],
+          text: "Amlodipine 10mg tablet",
+        },
+        subject: { reference: "Patient/cmc-patient-001" },
+        performer: [{ actor: { display: "CMC Outpatient Pharmacy" } }],
+        authorizingPrescription: [{ reference: "MedicationRequest/cmc-med-003" }],
+        quantity: { value: 30, unit: "tablet" },
+        daysSupply: { value: 30, unit: "days", system: "http://unitsofmeasure.org", code: "d" },
+        whenHandedOver: "2025-06-15",
+        dosageInstruction: [{ text: "Take 1 tablet by mouth once daily" }],
+      },
+    },
+    {
+      resource: {
+        resourceType: "MedicationDispense",
+        id: "cmc-dispense-002",
+        status: "completed",
+        medicationCodeableConcept: {
+          coding: [
+            {
+              system: "http://www.nlm.nih.gov/research/umls/rxnorm",
+              code: "329528",
+              display: "Amlodipine 10 MG Oral Tablet",
+            },
+          ],
+          text: "Amlodipine 10mg tablet",
+        },
+        subject: { reference: "Patient/cmc-patient-001" },
+        performer: [{ actor: { display: "CMC Outpatient Pharmacy" } }],
+        authorizingPrescription: [{ reference: "MedicationRequest/cmc-med-003" }],
+        quantity: { value: 30, unit: "tablet" },
+        daysSupply: { value: 30, unit: "days", system: "http://unitsofmeasure.org", code: "d" },
+        whenHandedOver: "2025-07-14",
+        dosageInstruction: [{ text: "Take 1 tablet by mouth once daily" }],
+      },
+    },
+    {
+      resource: {
+        resourceType: "MedicationDispense",
+        id: "cmc-dispense-003",
+        status: "completed",
+        medicationCodeableConcept: {
+          coding: [
+            {
+              system: "http://www.nlm.nih.gov/research/umls/rxnorm",
+              code: "329528",
+              display: "Amlodipine 10 MG Oral Tablet",
+            },
+          ],
+          text: "Amlodipine 10mg tablet",
+        },
+        subject: { reference: "Patient/cmc-patient-001" },
+        performer: [{ actor: { display: "CMC Outpatient Pharmacy" } }],
+        authorizingPrescription: [{ reference: "MedicationRequest/cmc-med-003" }],
+        quantity: { value: 30, unit: "tablet" },
+        daysSupply: { value: 30, unit: "days", system: "http://unitsofmeasure.org", code: "d" },
+        whenHandedOver: "2025-08-16",
+        dosageInstruction: [{ text: "Take 1 tablet by mouth once daily" }],
+      },
+    },
+    {
+      resource: {
+        resourceType: "MedicationDispense",
+        id: "cmc-dispense-004",
+        status: "completed",
+        medicationCodeableConcept: {
+          coding: [
+            {
+              system: "http://www.nlm.nih.gov/research/umls/rxnorm",
+              code: "329528",
+              display: "Amlodipine 10 MG Oral Tablet",
+            },
+          ],
+          text: "Amlodipine 10mg tablet",
+        },
+        subject: { reference: "Patient/cmc-patient-001" },
+        performer: [{ actor: { display: "CMC Outpatient Pharmacy" } }],
+        authorizingPrescription: [{ reference: "MedicationRequest/cmc-med-003" }],
+        quantity: { value: 30, unit: "tablet" },
+        daysSupply: { value: 30, unit: "days", system: "http://unitsofmeasure.org", code: "d" },
+        whenHandedOver: "2025-10-04",
+        dosageInstruction: [{ text: "Take 1 tablet by mouth once daily" }],
+      },
+    },
+    {
+      resource: {
+        resourceType: "MedicationDispense",
+        id: "cmc-dispense-005",
+        status: "completed",
+        medicationCodeableConcept: {
+          coding: [
+            {
+              system: "http://www.nlm.nih.gov/research/umls/rxnorm",
+              code: "329528",
+              display: "Amlodipine 10 MG Oral Tablet",
+            },
+          ],
+          text: "Amlodipine 10mg tablet",
+        },
+        subject: { reference: "Patient/cmc-patient-001" },
+        performer: [{ actor: { display: "CMC Outpatient Pharmacy" } }],
+        authorizingPrescription: [{ reference: "MedicationRequest/cmc-med-003" }],
+        quantity: { value: 30, unit: "tablet" },
+        daysSupply: { value: 30, unit: "days", system: "http://unitsofmeasure.org", code: "d" },
+        whenHandedOver: "2025-11-02",
+        dosageInstruction: [{ text: "Take 1 tablet by mouth once daily" }],
+      },
+    },
+    {
+      resource: {
+        resourceType: "MedicationDispense",
+        id: "cmc-dispense-006",
+        status: "completed",
+        medicationCodeableConcept: {
+          coding: [
+            {
+              system: "http://www.nlm.nih.gov/research/umls/rxnorm",
+              code: "329528",
+              display: "Amlodipine 10 MG Oral Tablet",
+            },
+          ],
+          text: "Amlodipine 10mg tablet",
+        },
+        subject: { reference: "Patient/cmc-patient-001" },
+        performer: [{ actor: { display: "CMC Outpatient Pharmacy" } }],
+        authorizingPrescription: [{ reference: "MedicationRequest/cmc-med-003" }],
+        quantity: { value: 30, unit: "tablet" },
+        daysSupply: { value: 30, unit: "days", system: "http://unitsofmeasure.org", code: "d" },
+        whenHandedOver: "2025-12-06",
+        dosageInstruction: [{ text: "Take 1 tablet by mouth once daily" }],
+      },
+    },
+    {
+      resource: {
+        resourceType: "MedicationDispense",
+        id: "cmc-dispense-007",
+        status: "completed",
+        medicationCodeableConcept: {
+          coding: [
+            {
+              system: "http://www.nlm.nih.gov/research/umls/rxnorm",
+              code: "329528",
+              display: "Amlodipine 10 MG Oral Tablet",
+            },
+          ],
+          text: "Amlodipine 10mg tablet",
+        },
+        subject: { reference: "Patient/cmc-patient-001" },
+        performer: [{ actor: { display: "CMC Outpatient Pharmacy" } }],
+        authorizingPrescription: [{ reference: "MedicationRequest/cmc-med-003" }],
+        quantity: { value: 30, unit: "tablet" },
+        daysSupply: { value: 30, unit: "days", system: "http://unitsofmeasure.org", code: "d" },
+        whenHandedOver: "2026-01-08",
+        dosageInstruction: [{ text: "Take 1 tablet by mouth once daily" }],
+      },
+    },
+
+    // -------------------------------------------------------
+    // Warfarin 5mg — filled like clockwork (INR checks help)
+    // -------------------------------------------------------
+    {
+      resource: {
+        resourceType: "MedicationDispense",
+        id: "cmc-dispense-008",
+        status: "completed",
+        medicationCodeableConcept: {
+          coding: [
+            {
+              system: "http://www.nlm.nih.gov/research/umls/rxnorm",
+              code: "855332",
+              display: "Warfarin Sodium 5 MG Oral Tablet",
+            },
+          ],
+          text: "Warfarin 5mg tablet",
+        },
+        subject: { reference: "Patient/cmc-patient-001" },
+        performer: [{ actor: { display: "CMC Outpatient Pharmacy" } }],
+        authorizingPrescription: [{ reference: "MedicationRequest/cmc-med-001" }],
+        quantity: { value: 30, unit: "tablet" },
+        daysSupply: { value: 30, unit: "days", system: "http://unitsofmeasure.org", code: "d" },
+        whenHandedOver: "2025-06-15",
+        dosageInstruction: [{ text: "Take 1 tablet by mouth once daily in the evening" }],
+      },
+    },
+    {
+      resource: {
+        resourceType: "MedicationDispense",
+        id: "cmc-dispense-009",
+        status: "completed",
+        medicationCodeableConcept: {
+          coding: [
+            {
+              system: "http://www.nlm.nih.gov/research/umls/rxnorm",
+              code: "855332",
+              display: "Warfarin Sodium 5 MG Oral Tablet",
+            },
+          ],
+          text: "Warfarin 5mg tablet",
+        },
+        subject: { reference: "Patient/cmc-patient-001" },
+        performer: [{ actor: { display: "CMC Outpatient Pharmacy" } }],
+        authorizingPrescription: [{ reference: "MedicationRequest/cmc-med-001" }],
+        quantity: { value: 30, unit: "tablet" },
+        daysSupply: { value: 30, unit: "days", system: "http://unitsofmeasure.org", code: "d" },
+        whenHandedOver: "2025-07-15",
+        dosageInstruction: [{ text: "Take 1 tablet by mouth once daily in the evening" }],
+      },
+    },
+    {
+      resource: {
+        resourceType: "MedicationDispense",
+        id: "cmc-dispense-010",
+        status: "completed",
+        medicationCodeableConcept: {
+          coding: [
+            {
+              system: "http://www.nlm.nih.gov/research/umls/rxnorm",
+              code: "855332",
+              display: "Warfarin Sodium 5 MG Oral Tablet",
+            },
+          ],
+          text: "Warfarin 5mg tablet",
+        },
+        subject: { reference: "Patient/cmc-patient-001" },
+        performer: [{ actor: { display: "CMC Outpatient Pharmacy" } }],
+        authorizingPrescription: [{ reference: "MedicationRequest/cmc-med-001" }],
+        quantity: { value: 30, unit: "tablet" },
+        daysSupply: { value: 30, unit: "days", system: "http://unitsofmeasure.org", code: "d" },
+        whenHandedOver: "2025-08-14",
+        dosageInstruction: [{ text: "Take 1 tablet by mouth once daily in the evening" }],
+      },
+    },
+    {
+      resource: {
+        resourceType: "MedicationDispense",
+        id: "cmc-dispense-011",
+        status: "completed",
+        medicationCodeableConcept: {
+          coding: [
+            {
+              system: "http://www.nlm.nih.gov/research/umls/rxnorm",
+              code: "855332",
+              display: "Warfarin Sodium 5 MG Oral Tablet",
+            },
+          ],
+          text: "Warfarin 5mg tablet",
+        },
+        subject: { reference: "Patient/cmc-patient-001" },
+        performer: [{ actor: { display: "CMC Outpatient Pharmacy" } }],
+        authorizingPrescription: [{ reference: "MedicationRequest/cmc-med-001" }],
+        quantity: { value: 30, unit: "tablet" },
+        daysSupply: { value: 30, unit: "days", system: "http://unitsofmeasure.org", code: "d" },
+        whenHandedOver: "2025-09-12",
+        dosageInstruction: [{ text: "Take 1 tablet by mouth once daily in the evening" }],
+      },
+    },
+    {
+      resource: {
+        resourceType: "MedicationDispense",
+        id: "cmc-dispense-012",
+        status: "completed",
+        medicationCodeableConcept: {
+          coding: [
+            {
+              system: "http://www.nlm.nih.gov/research/umls/rxnorm",
+              code: "855332",
+              display: "Warfarin Sodium 5 MG Oral Tablet",
+            },
+          ],
+          text: "Warfarin 5mg tablet",
+        },
+        subject: { reference: "Patient/cmc-patient-001" },
+        performer: [{ actor: { display: "CMC Outpatient Pharmacy" } }],
+        authorizingPrescription: [{ reference: "MedicationRequest/cmc-med-001" }],
+        quantity: { value: 30, unit: "tablet" },
+        daysSupply: { value: 30, unit: "days", system: "http://unitsofmeasure.org", code: "d" },
+        whenHandedOver: "2025-10-13",
+        dosageInstruction: [{ text: "Take 1 tablet by mouth once daily in the evening" }],
+      },
+    },
+    {
+      resource: {
+        resourceType: "MedicationDispense",
+        id: "cmc-dispense-013",
+        status: "completed",
+        medicationCodeableConcept: {
+          coding: [
+            {
+              system: "http://www.nlm.nih.gov/research/umls/rxnorm",
+              code: "855332",
+              display: "Warfarin Sodium 5 MG Oral Tablet",
+            },
+          ],
+          text: "Warfarin 5mg tablet",
+        },
+        subject: { reference: "Patient/cmc-patient-001" },
+        performer: [{ actor: { display: "CMC Outpatient Pharmacy" } }],
+        authorizingPrescription: [{ reference: "MedicationRequest/cmc-med-001" }],
+        quantity: { value: 30, unit: "tablet" },
+        daysSupply: { value: 30, unit: "days", system: "http://unitsofmeasure.org", code: "d" },
+        whenHandedOver: "2025-11-12",
+        dosageInstruction: [{ text: "Take 1 tablet by mouth once daily in the evening" }],
+      },
+    },
+    {
+      resource: {
+        resourceType: "MedicationDispense",
+        id: "cmc-dispense-014",
+        status: "completed",
+        medicationCodeableConcept: {
+          coding: [
+            {
+              system: "http://www.nlm.nih.gov/research/umls/rxnorm",
+              code: "855332",
+              display: "Warfarin Sodium 5 MG Oral Tablet",
+            },
+          ],
+          text: "Warfarin 5mg tablet",
+        },
+        subject: { reference: "Patient/cmc-patient-001" },
+        performer: [{ actor: { display: "CMC Outpatient Pharmacy" } }],
+        authorizingPrescription: [{ reference: "MedicationRequest/cmc-med-001" }],
+        quantity: { value: 30, unit: "tablet" },
+        daysSupply: { value: 30, unit: "days", system: "http://unitsofmeasure.org", code: "d" },
+        whenHandedOver: "2025-12-11",
+        dosageInstruction: [{ text: "Take 1 tablet by mouth once daily in the evening" }],
+      },
+    },
+    {
+      resource: {
+        resourceType: "MedicationDispense",
+        id: "cmc-dispense-015",
+        status: "completed",
+        medicationCodeableConcept: {
+          coding: [
+            {
+              system: "http://www.nlm.nih.gov/research/umls/rxnorm",
+              code: "855332",
+              display: "Warfarin Sodium 5 MG Oral Tablet",
+            },
+          ],
+          text: "Warfarin 5mg tablet",
+        },
+        subject: { reference: "Patient/cmc-patient-001" },
+        performer: [{ actor: { display: "CMC Outpatient Pharmacy" } }],
+        authorizingPrescription: [{ reference: "MedicationRequest/cmc-med-001" }],
+        quantity: { value: 30, unit: "tablet" },
+        daysSupply: { value: 30, unit: "days", system: "http://unitsofmeasure.org", code: "d" },
+        whenHandedOver: "2026-01-10",
+        dosageInstruction: [{ text: "Take 1 tablet by mouth once daily in the evening" }],
+      },
+    },
+
+    // -------------------------------------------------------
+    // Metformin 1000mg — 90-day supplies, on time
+    // -------------------------------------------------------
+    {
+      resource: {
+        resourceType: "MedicationDispense",
+        id: "cmc-dispense-016",
+        status: "completed",
+        medicationCodeableConcept: {
+          coding: [
+            {
+              system: "http://www.nlm.nih.gov/research/umls/rxnorm",
+              code: "861007",
+              display: "Metformin Hydrochloride 1000 MG Oral Tablet",
+            },
+          ],
+          text: "Metformin 1000mg tablet",
+        },
+        subject: { reference: "Patient/cmc-patient-001" },
+        performer: [{ actor: { display: "CMC Outpatient Pharmacy" } }],
+        authorizingPrescription: [{ reference: "MedicationRequest/cmc-med-002" }],
+        quantity: { value: 180, unit: "tablet" },
+        daysSupply: { value: 90, unit: "days", system: "http://unitsofmeasure.org", code: "d" },
+        whenHandedOver: "2025-08-20",
+        dosageInstruction: [{ text: "Take 1 tablet by mouth twice daily with meals" }],
+      },
+    },
+    {
+      resource: {
+        resourceType: "MedicationDispense",
+        id: "cmc-dispense-017",
+        status: "completed",
+        medicationCodeableConcept: {
+          coding: [
+            {
+              system: "http://www.nlm.nih.gov/research/umls/rxnorm",
+              code: "861007",
+              display: "Metformin Hydrochloride 1000 MG Oral Tablet",
+            },
+          ],
+          text: "Metformin 1000mg tablet",
+        },
+        subject: { reference: "Patient/cmc-patient-001" },
+        performer: [{ actor: { display: "CMC Outpatient Pharmacy" } }],
+        authorizingPrescription: [{ reference: "MedicationRequest/cmc-med-002" }],
+        quantity: { value: 180, unit: "tablet" },
+        daysSupply: { value: 90, unit: "days", system: "http://unitsofmeasure.org", code: "d" },
+        whenHandedOver: "2025-11-17",
+        dosageInstruction: [{ text: "Take 1 tablet by mouth twice daily with meals" }],
+      },
+    },
+
+    // -------------------------------------------------------
+    // Atorvastatin 40mg — two fills, then nothing
+    //    (see medicationStatements: stopped for muscle aches)
+    // -------------------------------------------------------
+    {
+      resource: {
+        resourceType: "MedicationDispense",
+        id: "cmc-dispense-018",
+        status: "completed",
+        medicationCodeableConcept: {
+          coding: [
+            {
+              system: "http://www.nlm.nih.gov/research/umls/rxnorm",
+              code: "259255",
+              display: "Atorvastatin 40 MG Oral Tablet",
+            },
+          ],
+          text: "Atorvastatin 40mg tablet",
+        },
+        subject: { reference: "Patient/cmc-patient-001" },
+        performer: [{ actor: { display: "CMC Outpatient Pharmacy" } }],
+        authorizingPrescription: [{ reference: "MedicationRequest/cmc-med-004" }],
+        quantity: { value: 30, unit: "tablet" },
+        daysSupply: { value: 30, unit: "days", system: "http://unitsofmeasure.org", code: "d" },
+        whenHandedOver: "2025-06-20",
+        dosageInstruction: [{ text: "Take 1 tablet by mouth once daily at bedtime" }],
+      },
+    },
+    {
+      resource: {
+        resourceType: "MedicationDispense",
+        id: "cmc-dispense-019",
+        status: "completed",
+        medicationCodeableConcept: {
+          coding: [
+            {
+              system: "http://www.nlm.nih.gov/research/umls/rxnorm",
+              code: "259255",
+              display: "Atorvastatin 40 MG Oral Tablet",
+            },
+          ],
+          text: "Atorvastatin 40mg tablet",
+        },
+        subject: { reference: "Patient/cmc-patient-001" },
+        performer: [{ actor: { display: "CMC Outpatient Pharmacy" } }],
+        authorizingPrescription: [{ reference: "MedicationRequest/cmc-med-004" }],
+        quantity: { value: 30, unit: "tablet" },
+        daysSupply: { value: 30, unit: "days", system: "http://unitsofmeasure.org", code: "d" },
+        whenHandedOver: "2025-07-21",
+        dosageInstruction: [{ text: "Take 1 tablet by mouth once daily at bedtime" }],
+      },
+    },
+  ],
+};
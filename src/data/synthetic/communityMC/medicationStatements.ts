@@ -0,0 +1,87 @@
+// -----------------------------------------------------------
+// Community Medical Center — Synthetic Medication Statements
+// -----------------------------------------------------------
+// 2 patient-reported statements from the Nov 1 cardiology
+// follow-up med reconciliation.
+//
+// AI STORIES ENABLED:
+//   1. ATORVASTATIN STOPPED (Aug 2025, muscle aches) → the order
+//      is still "active" at CMC, but the patient isn't taking it.
+//      Matches the missing refills in medicationDispenses
+//
+//   2. SUMATRIPTAN as needed, ~2x/month → confirms the ER
+//      prescription is actually being used
+// -----------------------------------------------------------
+
+export const medicationStatementBundle = {
+  resourceType: "Bundle" as const,
+  type: "searchset" as const,
+  total: 2,
+  entry: [
+    // -------------------------------------------------------
+    // 1. Atorvastatin — stopped by the patient
+    // -------------------------------------------------------
+    {
+      resource: {
+        resourceType: "MedicationStatement",
+        id: "cmc-medstmt-001",
+        status: "stopped",
+        statusReason: [
+          {
+            coding: [
+              {
+                system: "http://snomed.info/sct",
+                code: "68962001",
+                display: "Muscle pain",
+              },
+            ],
+            text: "Muscle aches — stopped on her own",
+          },
+        ],
+        medicationCodeableConcept: {
+          coding: [
+            {
+              system: "http://www.nlm.nih.gov/research/umls/rxnorm",
+              code: "259255",
+              display: "Atorvastatin 40 MG Oral Tablet",
+            },
+          ],
+          text: "Atorvastatin 40mg tablet",
+        },
+        subject: { reference: "Patient/cmc-patient-001" },
+        effectivePeriod: {
+          start: "2025-06-20",
+          end: "2025-08-18",
+        },
+        dateAsserted: "2025-11-01T10:20:00-05:00",
+        informationSource: { display: "Patient" },
+      },
+    },
+
+    // -------------------------------------------------------
+    // 2. Sumatriptan — taking as needed
+    // -------------------------------------------------------
+    {
+      resource: {
+        resourceType: "MedicationStatement",
+        id: "cmc-medstmt-002",
+        status: "active",
+        medicationCodeableConcept: {
+          coding: [
+            {
+              system: "http://www.nlm.nih.gov/research/umls/rxnorm",
+              code: "313131",
+              display: "Sumatriptan 50 MG Oral Tablet",
+            },
+          ],
+          text: "Sumatriptan 50mg tablet",
+        },
+        subject: { reference: "Patient/cmc-patient-001" },
+        effectiveDateTime: "2025-10-04",
+        dateAsserted: "2025-11-01T10:20:00-05:00",
+        informationSource: { display: "Patient" },
+        dosage: [{ text: "1 tablet at migraine onset, about twice a month" }],
+      },
+    },
+  ],
+};
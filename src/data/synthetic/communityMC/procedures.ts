@@ -0,0 +1,286 @@
+// -----------------------------------------------------------
+// Community Medical Center — Synthetic Procedures
+// -----------------------------------------------------------
+// 4 procedures that anchor the cardiac story and give the
+// screening rules real records to work with.
+//
+// WHAT EPIC ACTUALLY HAS (procedures):
+//   - Surgery (Jun 6, 2023) — EMH Operating Room
+//   - Outpatient — EMC Cardiology Procedures
+//
+// AI STORIES ENABLED:
+//   1. ECHOCARDIOGRAM at the cardiology consult (Jun 2025)
+//      → Structural workup behind the A-fib diagnosis + warfarin
+//
+//   2. ECG in the ER (Oct 3) → Epic PCP never saw the tracing
+//
+//   3. DIAGNOSTIC COLONOSCOPY (Feb 2024, rectal bleeding)
+//      → No polyps. Counts toward colorectal screening, so the
+//        care gap rule won't ask for another one until 2034
+//      → Bleeding history matters now that she's on warfarin
+//
+//   4. DIAGNOSTIC MAMMOGRAM (Nov 2024, breast lump — benign)
+//      → Screening clock starts from a real imaging record,
+//        not from matching "breast" in visit text
+//
+// Codes carry both SNOMED and CPT so they dedup against
+// claims-derived records from other systems.
+// -----------------------------------------------------------
+
+export const procedureBundle = {
+  resourceType: "Bundle" as const,
+  type: "searchset" as const,
+  total: 4,
+  entry: [
+    // -------------------------------------------------------
+    // 1. Transthoracic echocardiogram — 2025-06-15
+    // -------------------------------------------------------
+    {
+      resource: {
+        resourceType: "Procedure",
+        id: "cmc-proc-001",
+        status: "completed",
+        category: {
+          coding: [
+            {
+              system: "http://snomed.info/sct",
+              code: "103693007",
+              display: "Diagnostic procedure",
+            },
+          ],
+          text: "Diagnostic procedure",
+        },
+        code: {
+          coding: [
+            {
+              system: "http://snomed.info/sct",
+              code: "433236007",
+              display: "Transthoracic echocardiography",
+            },
+            {
+              system: "http://www.ama-assn.org/go/cpt",
+              code: "93306",
+              display: "Echocardiography, transthoracic, complete, with Doppler",
+            },
+          ],
+          text: "Transthoracic Echocardiogram",
+        },
+        subject: { reference: "Patient/cmc-patient-001" },
+        encounter: { reference: "Encounter/cmc-enc-001" },
+        performedDateTime: "2025-06-15T10:30:00-05:00",
+        performer: [
+          {
+            actor: {
+              reference: "Practitioner/cmc-pract-001",
+              display: "Dr. Sarah Chen, MD — Cardiology",
+            },
+          },
+        ],
+        location: {
+          display: "Community Medical Center — Cardiology Clinic",
+        },
+        reasonCode: [
+          {
+            coding: [
+              {
+                system: "http://snomed.info/sct",
+                code: "80313002",
+                display: "Palpitations",
+              },
+            ],
+            text: "Palpitations — rule out structural heart disease",
+          },
+        ],
+        outcome: {
+          text: "Mild left atrial enlargement. EF 55%. No valvular disease.",
+        },
+      },
+    },
+
+    // -------------------------------------------------------
+    // 2. 12-lead ECG in the Emergency Department — 2025-10-03
+    // -------------------------------------------------------
+    {
+      resource: {
+        resourceType: "Procedure",
+        id: "cmc-proc-002",
+        status: "completed",
+        category: {
+          coding: [
+            {
+              system: "http://snomed.info/sct",
+              code: "103693007",
+              display: "Diagnostic procedure",
+            },
+          ],
+          text: "Diagnostic procedure",
+        },
+        code: {
+          coding: [
+            {
+              system: "http://snomed.info/sct",
+              code: "268400002",
+              display: "12 lead electrocardiogram",
+            },
+            {
+              system: "http://www.ama-assn.org/go/cpt",
+              code: "93000",
+              display: "Electrocardiogram, routine, with interpretation and report",
+            },
+          ],
+          text: "12-Lead ECG",
+        },
+        subject: { reference: "Patient/cmc-patient-001" },
+        encounter: { reference: "Encounter/cmc-enc-003" },
+        performedDateTime: "2025-10-03T22:40:00-05:00",
+        performer: [
+          {
+            actor: {
+              reference: "Practitioner/cmc-pract-003",
+              display: "Dr. Mike Rivera, MD — Emergency Medicine",
+            },
+          },
+        ],
+        location: {
+          display: "Community Medical Center — Emergency Department",
+        },
+        reasonCode: [
+          {
+            text: "Hypertensive urgency (BP 172/102) with known atrial fibrillation",
+          },
+        ],
+        outcome: {
+          text: "Atrial fibrillation, rate controlled. No acute ischemic changes.",
+        },
+      },
+    },
+
+    // -------------------------------------------------------
+    // 3. Diagnostic colonoscopy — 2024-02-08
+    // -------------------------------------------------------
+    {
+      resource: {
+        resourceType: "Procedure",
+        id: "cmc-proc-003",
+        status: "completed",
+        category: {
+          coding: [
+            {
+              system: "http://snomed.info/sct",
+              code: "103693007",
+              display: "Diagnostic procedure",
+            },
+          ],
+          text: "Diagnostic procedure",
+        },
+        code: {
+          coding: [
+            {
+              system: "http://snomed.info/sct",
+              code: "73761001",
+              display: "Colonoscopy",
+            },
+            {
+              system: "http://www.ama-assn.org/go/cpt",
+              code: "45378",
+              display: "Colonoscopy, flexible; diagnostic",
+            },
+          ],
+          text: "Colonoscopy (Diagnostic)",
+        },
+        subject: { reference: "Patient/cmc-patient-001" },
+        performedPeriod: {
+          start: "2024-02-08T07:30:00-06:00",
+          end: "2024-02-08T08:10:00-06:00",
+        },
+        performer: [
+          {
+            actor: {
+              reference: "Practitioner/cmc-pract-004",
+              display: "Dr. Priya Nair, MD — Gastroenterology",
+            },
+          },
+        ],
+        location: {
+          display: "Community Medical Center — Endoscopy Suite",
+        },
+        reasonCode: [
+          {
+            coding: [
+              {
+                system: "http://snomed.info/sct",
+                code: "12063002",
+                display: "Rectal hemorrhage",
+              },
+            ],
+            text: "Intermittent rectal bleeding",
+          },
+        ],
+        outcome: {
+          text: "Small internal hemorrhoids. No polyps or masses.",
+        },
+      },
+    },
+
+    // -------------------------------------------------------
+    // 4. Diagnostic mammogram, bilateral — 2024-11-12
+    // -------------------------------------------------------
+    {
+      resource: {
+        resourceType: "Procedure",
+        id: "cmc-proc-004",
+        status: "completed",
+        category: {
+          coding: [
+            {
+              system: "http://snomed.info/sct",
+              code: "363679005",
+              display: "Imaging",
+            },
+          ],
+          text: "Imaging",
+        },
+        code: {
+          coding: [
+            {
+              system: "http://snomed.info/sct",
+              code: "71651007",
+              display: "Mammography",
+            },
+            {
+              system: "http://www.ama-assn.org/go/cpt",
+              code: "77066",
+              display: "Diagnostic mammography, bilateral",
+            },
+          ],
+          text: "Diagnostic Mammogram (Bilateral)",
+        },
+        subject: { reference: "Patient/cmc-patient-001" },
+        performedDateTime: "2024-11-12T13:00:00-06:00",
+        location: {
+          display: "Community Medical Center — Breast Imaging",
+        },
+        bodySite: [
+          {
+            coding: [
+              {
+                system: "http://snomed.info/sct",
+                code: "80248007",
+                display: "Left breast structure",
+              },
+            ],
+            text: "Left breast",
+          },
+        ],
+        reasonCode: [
+          {
+            text: "Palpable lump, left breast",
+          },
+        ],
+        outcome: {
+          text: "BI-RADS 2 — benign finding (simple cyst).",
+        },
+      },
+    },
+  ],
+};
@@ -2,13 +2,13 @@
 // useAIAnalysis — Orchestrates AI analysis for all pages
 // -----------------------------------------------------------
 // Manages the three AI tiers:
-//   Tier 1: Runs synchronously on every render (free, instant)
+//   Tier 1: Runs in the analysis worker on every data change (free)
 //   Tier 2: Runs async on first load, cached thereafter
 //   Tier 3: Triggered on-demand by user clicks
 //
 // PATTERN:
 //   const ai = useAIAnalysis(patient, unifiedData);
-//   ai.tier1.drugInteractions   // always available
+//   ai.tier1?.drugInteractions  // null while the worker computes
 //   ai.tier2.healthSnapshot     // loading → available
 //   ai.askAI(resource)          // on-demand Tier 3
 // -----------------------------------------------------------
@@ -24,7 +24,6 @@ import type {
   DoctorQuestions,
 } from "../ai/types";
 import {
-  runTier1Analysis,
   generateHealthSnapshot,
   generateLabTrendNarrative,
   generateMedicationSummary,
@@ -35,13 +34,14 @@ import {
   getDisclaimer,
 } from "../ai";
 import type { MergedLabResult, MergedCondition, MergedMedication } from "../types/merged";
+import { runTier1InWorker } from "../workers/pipelineClient";
 
 // -----------------------------------------------------------
 // Types
 // -----------------------------------------------------------
 
 export interface AIAnalysisResult {
-  /** Tier 1: Always available (synchronous, free) */
+  /** Tier 1: Rule-based results (free) — null until the worker finishes */
   tier1: Tier1Results | null;
 
   /** Tier 2: Async LLM results (cached) */
@@ -83,6 +83,7 @@ const EMPTY_TIER1: Tier1Results = {
   drugInteractions: [],
   sourceConflictAlerts: [],
   vitalCorrelations: [],
+  medicationAdherence: [],
   analyzedAt: "",
 };
 
@@ -94,7 +95,7 @@ export function useAIAnalysis(
   patient: PatientDemographics | null,
   unified: UnifiedDataResult | null
 ): AIAnalysisResult {
-  // Tier 1 — synchronous
+  // Tier 1 — worker
   const [tier1, setTier1] = useState<Tier1Results | null>(null);
 
   // Tier 2 — async
@@ -114,7 +115,7 @@ export function useAIAnalysis(
   const tier2RanRef = useRef(false);
 
   // -----------------------------------------------------------
-  // Tier 1: Run on every data change (free)
+  // Tier 1: Run in the worker on every data change (free)
   // -----------------------------------------------------------
   // Use individual array refs as deps — the unified object itself
   // may be a new reference even when the data hasn't changed.
@@ -125,6 +126,9 @@ export function useAIAnalysis(
   const uConditions = unified?.conditions;
   const uImmunizations = unified?.immunizations;
   const uEncounters = unified?.encounters;
+  const uProcedures = unified?.procedures;
+  const uDispenses = unified?.medicationDispenses;
+  const uStatements = unified?.medicationStatements;
   const uConflicts = unified?.conflicts;
   const uLoading   = unified?.isLoading ?? true;
 
@@ -134,7 +138,7 @@ export function useAIAnalysis(
       return;
     }
 
-    const result = runTier1Analysis(patient, {
+    const task = runTier1InWorker(patient, {
       medications: unified.medications,
       labResults: unified.labResults,
       vitals: unified.vitals,
@@ -142,11 +146,21 @@ export function useAIAnalysis(
       conditions: unified.conditions,
       immunizations: unified.immunizations,
       encounters: unified.encounters,
+      procedures: unified.procedures,
+      medicationDispenses: unified.medicationDispenses,
+      medicationStatements: unified.medicationStatements,
       conflicts: unified.conflicts,
     });
 
-    setTier1(result);
-  }, [patient, uMeds, uLabs, uVitals, uAllergies, uConditions, uImmunizations, uEncounters, uConflicts, uLoading]);
+    task.promise
+      .then((result) => {
+        // null = cancelled because the data changed again
+        if (result) setTier1(result);
+      })
+      .catch((err) => console.error("[AI Tier 1] Error:", err));
+
+    return () => task.cancel();
+  }, [patient, uMeds, uLabs, uVitals, uAllergies, uConditions, uImmunizations, uEncounters, uProcedures, uDispenses, uStatements, uConflicts, uLoading]);
 
   // -----------------------------------------------------------
   // Tier 2: Run async once when Tier 1 is ready
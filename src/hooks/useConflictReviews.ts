@@ -0,0 +1,23 @@
+// -----------------------------------------------------------
+// useConflictReviews — Live view of the patient's conflict reviews
+// -----------------------------------------------------------
+// Re-renders whenever a conflict's status changes.
+// useConflictStatuses maps every detected conflict ID to its
+// current status ("new" when unreviewed or when its data changed
+// since the review).
+
+import { useMemo, useSyncExternalStore } from "react";
+import { getConflictReviews, getConflictStatus, subscribeToConflictReviews } from "../sources/conflictReviews";
+import type { Conflict, ConflictReview, ConflictStatus } from "../types/merged";
+
+export function useConflictReviews(): ConflictReview[] {
+  return useSyncExternalStore(subscribeToConflictReviews, getConflictReviews);
+}
+
+export function useConflictStatuses(conflicts: Conflict[]): Map<string, ConflictStatus> {
+  const reviews = useConflictReviews();
+  return useMemo(
+    () => new Map(conflicts.map((c) => [c.id, getConflictStatus(c, reviews)])),
+    [conflicts, reviews]
+  );
+}
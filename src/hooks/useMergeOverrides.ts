@@ -0,0 +1,13 @@
+// -----------------------------------------------------------
+// useMergeOverrides — Live view of the patient's merge overrides
+// -----------------------------------------------------------
+// Re-renders whenever an override is added or undone.
+// Returns a stable array reference between changes.
+
+import { useSyncExternalStore } from "react";
+import { getMergeOverrides, subscribeToMergeOverrides } from "../sources/mergeOverrides";
+import type { MergeOverride } from "../types/merged";
+
+export function useMergeOverrides(): MergeOverride[] {
+  return useSyncExternalStore(subscribeToMergeOverrides, getMergeOverrides);
+}
@@ -0,0 +1,13 @@
+// -----------------------------------------------------------
+// usePatientLinks — Live view of the patient's link decisions
+// -----------------------------------------------------------
+// Re-renders whenever a source is confirmed, rejected or reset.
+// Returns a stable array reference between changes.
+
+import { useSyncExternalStore } from "react";
+import { getPatientLinks, subscribeToPatientLinks } from "../sources/patientLinks";
+import type { PatientLinkDecision } from "../types/patient";
+
+export function usePatientLinks(): PatientLinkDecision[] {
+  return useSyncExternalStore(subscribeToPatientLinks, getPatientLinks);
+}
@@ -0,0 +1,24 @@
+// -----------------------------------------------------------
+// usePreservedState — useState that survives a re-login
+// -----------------------------------------------------------
+// Same API as useState. The current value is snapshotted if the
+// session has to be re-authorized, and restored when the page
+// mounts again after the OAuth callback.
+// -----------------------------------------------------------
+
+import { useEffect, useRef, useState } from "react";
+import type { Dispatch, SetStateAction } from "react";
+import { registerSnapshot, takeSnapshot } from "../utils/reauthState";
+
+export function usePreservedState<T>(key: string, initial: T): [T, Dispatch<SetStateAction<T>>] {
+  const [value, setValue] = useState<T>(() => takeSnapshot<T>(key) ?? initial);
+  const latest = useRef(value);
+
+  useEffect(() => {
+    latest.current = value;
+  }, [value]);
+
+  useEffect(() => registerSnapshot(key, () => latest.current), [key]);
+
+  return [value, setValue];
+}
@@ -0,0 +1,86 @@
+// -----------------------------------------------------------
+// useSourceConnections — Connection state for every health system
+// -----------------------------------------------------------
+// Combines the configured SMART endpoints (connected or not) with
+// every other registered source (bundled data, uploads) so the
+// Header and Sidebar can show what's connected and offer a
+// per-source connect / reconnect action.
+// -----------------------------------------------------------
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useFhirClient } from "./useFhirClient";
+import { useSourceProviders } from "./useSourceProviders";
+import { smartEndpoints, getSmartEndpoint } from "../config/smart";
+import { authorizeSource } from "../utils/smartSessions";
+import { getTokenInfo } from "../utils/tokenManager";
+import type { TokenInfo } from "../utils/tokenManager";
+import type { SourceAuth } from "../sources/sourceProvider";
+
+const REFRESH_INTERVAL_MS = 30_000;
+
+export interface SourceConnection {
+  id: string;
+  displayName: string;
+  authKind: SourceAuth["kind"];
+  isPrimary: boolean;
+  /** SMART: has a client. Other kinds: registered. */
+  connected: boolean;
+  /** Token expiry — null for sources that don't use OAuth */
+  tokenInfo: TokenInfo | null;
+}
+
+interface UseSourceConnectionsResult {
+  connections: SourceConnection[];
+  /** Start (or restart) the OAuth flow for a SMART source */
+  connect: (sourceId: string) => Promise<void>;
+  /** Disconnect a single source */
+  disconnect: (sourceId: string) => void;
+}
+
+export function useSourceConnections(): UseSourceConnectionsResult {
+  const { clients, disconnectSource } = useFhirClient();
+  const providers = useSourceProviders();
+
+  // Re-evaluate token expiry periodically so "expiring soon" shows up
+  const [tick, setTick] = useState(0);
+  useEffect(() => {
+    const intervalId = setInterval(() => setTick((t) => t + 1), REFRESH_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  const connections = useMemo<SourceConnection[]>(() => {
+    const smart: SourceConnection[] = smartEndpoints.map((endpoint) => {
+      const client = clients[endpoint.id] ?? null;
+      return {
+        id: endpoint.id,
+        displayName: endpoint.displayName,
+        authKind: "smart-on-fhir",
+        isPrimary: endpoint.isPrimary,
+        connected: client !== null,
+        tokenInfo: client ? getTokenInfo(client) : null,
+      };
+    });
+
+    const others: SourceConnection[] = providers
+      .filter((p) => !getSmartEndpoint(p.id))
+      .map((p) => ({
+        id: p.id,
+        displayName: p.displayName,
+        authKind: p.auth.kind,
+        isPrimary: p.isPrimary,
+        connected: p.auth.isAuthenticated(),
+        tokenInfo: null,
+      }));
+
+    return [...smart, ...others];
+    // `tick` forces token expiry to be recomputed
+  }, [clients, providers, tick]);
+
+  const connect = useCallback(async (sourceId: string) => {
+    const endpoint = getSmartEndpoint(sourceId);
+    if (!endpoint) return;
+    await authorizeSource(endpoint);
+  }, []);
+
+  return { connections, connect, disconnect: disconnectSource };
+}
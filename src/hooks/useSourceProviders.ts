@@ -0,0 +1,13 @@
+// -----------------------------------------------------------
+// useSourceProviders — Live view of the source registry
+// -----------------------------------------------------------
+// Re-renders whenever a provider is registered or removed.
+// Returns a stable array reference between changes.
+
+import { useSyncExternalStore } from "react";
+import { getSourceProviders, subscribeToSourceRegistry } from "../sources/sourceRegistry";
+import type { SourceProvider } from "../sources/sourceProvider";
+
+export function useSourceProviders(): SourceProvider[] {
+  return useSyncExternalStore(subscribeToSourceRegistry, getSourceProviders);
+}
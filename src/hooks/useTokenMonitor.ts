@@ -1,55 +1,116 @@
 // -----------------------------------------------------------
 // useTokenMonitor — Watches token expiry & warns the user
 // -----------------------------------------------------------
+// Each connected source is tracked separately:
+//   - Has a refresh token      → renewed silently before expiry
+//   - Primary (Epic) expired   → re-login, returning to the same
+//                                page with UI state restored
+//   - Other source expired     → only that source disconnects,
+//                                with a toast to reconnect it
+//   - Any source expiring soon → one warning toast per source
+//                                (only when refresh isn't possible)
 
 import { useEffect, useRef } from "react";
 import { useFhirClient } from "./useFhirClient";
 import { useToast } from "../context/ToastContext";
+import { getSmartEndpoint } from "../config/smart";
+import { authorizeSource, refreshSourceSession } from "../utils/smartSessions";
 import {
   getTokenInfo,
+  shouldRefresh,
   formatTimeRemaining,
-  handleSessionExpired,
 } from "../utils/tokenManager";
 
 const CHECK_INTERVAL_MS = 30_000;
 
 export function useTokenMonitor(): void {
-  const { client } = useFhirClient();
+  const { clients, disconnectSource } = useFhirClient();
   const { addToast } = useToast();
-  const warningShown = useRef(false);
+  const warningShown = useRef(new Set<string>());
+  const refreshing = useRef(new Set<string>());
+  /** Sources whose refresh token was rejected — fall back to warnings */
+  const refreshFailed = useRef(new Set<string>());
 
   useEffect(() => {
-    if (!client) return;
+    const sourceIds = Object.keys(clients);
+    if (sourceIds.length === 0) return;
 
-    warningShown.current = false;
+    // Forget warnings for sources that were reconnected/removed
+    for (const id of warningShown.current) {
+      if (!(id in clients)) warningShown.current.delete(id);
+    }
+    for (const id of refreshFailed.current) {
+      if (!(id in clients)) refreshFailed.current.delete(id);
+    }
 
-    const checkToken = () => {
-      const info = getTokenInfo(client);
+    const checkTokens = () => {
+      for (const sourceId of sourceIds) {
+        const endpoint = getSmartEndpoint(sourceId);
+        if (!endpoint) continue;
 
-      if (info.status === "expired") {
-        handleSessionExpired();
-        return;
-      }
+        const client = clients[sourceId];
+        const info = getTokenInfo(client);
+
+        // Background renewal — the check after it sees the new expiry
+        if (shouldRefresh(info) && !refreshFailed.current.has(sourceId)) {
+          if (!refreshing.current.has(sourceId)) {
+            refreshing.current.add(sourceId);
+            refreshSourceSession(sourceId, client)
+              .then((ok) => {
+                if (ok) warningShown.current.delete(sourceId);
+                else refreshFailed.current.add(sourceId);
+              })
+              .finally(() => refreshing.current.delete(sourceId));
+          }
+          continue;
+        }
+
+        const reconnect = () => {
+          authorizeSource(endpoint).catch((err) => {
+            console.error(`[TokenMonitor] Reconnect to ${endpoint.displayName} failed:`, err);
+          });
+        };
+
+        if (info.status === "expired") {
+          if (endpoint.isPrimary) {
+            reconnect();
+            return;
+          }
+
+          disconnectSource(sourceId);
+          addToast({
+            type: "warning",
+            title: `${endpoint.displayName} Disconnected`,
+            message: `Your ${endpoint.displayName} session expired. Its records are hidden until you reconnect.`,
+            action: "Reconnect",
+            onAction: reconnect,
+            duration: 0,
+          });
+          continue;
+        }
+
+        if (info.status === "expiring-soon" && !warningShown.current.has(sourceId)) {
+          warningShown.current.add(sourceId);
+          const timeStr = info.secondsRemaining
+            ? formatTimeRemaining(info.secondsRemaining)
+            : "soon";
 
-      if (info.status === "expiring-soon" && !warningShown.current) {
-        warningShown.current = true;
-        const timeStr = info.secondsRemaining
-          ? formatTimeRemaining(info.secondsRemaining)
-          : "soon";
-
-        addToast({
-          type: "warning",
-          title: "Session Expiring",
-          message: `Your session will expire in ${timeStr}. Save any work and sign in again to continue.`,
-          action: "Sign In Again",
-          onAction: handleSessionExpired,
-          duration: 0,
-        });
+          addToast({
+            type: "warning",
+            title: endpoint.isPrimary ? "Session Expiring" : `${endpoint.displayName} Session Expiring`,
+            message: endpoint.isPrimary
+              ? `Your session will expire in ${timeStr}. Sign in again now — you'll come back to this page.`
+              : `Your ${endpoint.displayName} connection will expire in ${timeStr}.`,
+            action: endpoint.isPrimary ? "Sign In Again" : "Reconnect",
+            onAction: reconnect,
+            duration: 0,
+          });
+        }
       }
     };
 
-    checkToken();
-    const intervalId = setInterval(checkToken, CHECK_INTERVAL_MS);
+    checkTokens();
+    const intervalId = setInterval(checkTokens, CHECK_INTERVAL_MS);
     return () => clearInterval(intervalId);
-  }, [client, addToast]);
+  }, [clients, disconnectSource, addToast]);
 }
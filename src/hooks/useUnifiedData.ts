@@ -3,33 +3,42 @@
 // -----------------------------------------------------------
 // This is the single hook that all Phase 4+ UI components use.
 // It wires together:
-//   1. useEpicData()     → live FHIR data from Epic sandbox
-//   2. usePatient()      → patient demographics for matching
-//   3. syntheticSource   → Community MC synthetic data
-//   4. patientMatcher    → confirms same patient across systems
-//   5. mergeEngine       → deduplicates and unifies
-//   6. conflictDetector  → finds cross-system safety issues
+//   1. sourceRegistry    → every registered SourceProvider (Epic,
+//                          Community MC, future vendors/uploads)
+//   2. usePatient()      → primary patient demographics for matching
+//   3. patientMatcher    → confirms same patient across systems
+//                          (the patient's own link decisions win —
+//                          see sources/patientLinks)
+//   4. mergeEngine       → deduplicates and unifies N sources
+//   5. conflictDetector  → finds cross-system safety issues
+//
+// Steps 4–5 run in the analysis worker (workers/pipelineClient)
+// so a large record never freezes the UI; pages keep showing
+// skeletons while `isLoading` is true.
 //
 // RESILIENCE:
-//   - Either source can fail without breaking the other
-//   - If patient match fails, synthetic data is excluded (safety)
+//   - Any source can fail without breaking the others
+//   - If patient match fails, that source is excluded (safety) —
+//     with the reason, and a review when it is a possible match
 //   - All errors are captured, never thrown to UI
 //
 // PERFORMANCE:
 //   - Module-level cache for the merge result
-//   - Only re-merges when source data changes
-//   - Synthetic data loads in parallel with Epic fetch
+//   - Only re-merges when the registered sources, the patient's
+//     merge overrides or their link decisions change
+//   - All providers fetch in parallel
+//   - A refetch cancels the merge it supersedes
 // -----------------------------------------------------------
 
 import { useEffect, useState, useCallback, useRef, useMemo } from "react";
-import { useEpicData } from "./useEpicData";
 import { usePatient } from "./usePatient";
-import { fetchSyntheticData, clearSyntheticCache } from "../sources/syntheticSource";
+import { useSourceProviders } from "./useSourceProviders";
+import { useMergeOverrides } from "./useMergeOverrides";
+import { usePatientLinks } from "./usePatientLinks";
 import { matchPatients } from "../sources/patientMatcher";
-import { mergeAllDomains } from "../sources/mergeEngine";
-import { detectAllConflicts } from "../sources/conflictDetector";
-import { parsePatient } from "../utils/patientParser";
-import { communityMCPatient } from "../data/synthetic/communityMC/patient";
+import { findPatientLink } from "../sources/patientLinks";
+import { runMergeInWorker } from "../workers/pipelineClient";
+import type { PipelineTask, MergePipelineResult } from "../workers/pipelineClient";
 import type {
   MergedMedication,
   MergedLabResult,
@@ -38,12 +47,21 @@ import type {
   MergedCondition,
   MergedImmunization,
   MergedEncounter,
+  MergedProcedure,
+  MergedDiagnosticReport,
+  MergedDocument,
+  MergedMedicationDispense,
+  MergedMedicationStatement,
+  MergedAppointment,
   Conflict,
   SourceSummary,
+  MergeOverride,
 } from "../types/merged";
 import type { MergeInput } from "../sources/mergeEngine";
-import type { SyntheticDataResult } from "../sources/syntheticSource";
+import type { SourceProvider, ClinicalDomain, DomainFetchProgress } from "../sources/sourceProvider";
 import type { SourceTag } from "../types/source";
+import type { PatientDemographics, PatientLinkDecision, SourcePatient } from "../types/patient";
+import type { MatchResult } from "../sources/patientMatcher";
 
 // -----------------------------------------------------------
 // Hook return type
@@ -64,28 +82,73 @@ export interface UnifiedDataResult {
   immunizations: MergedImmunization[];
   /** All encounters chronologically sorted (no dedup) */
   encounters: MergedEncounter[];
+  /** Merged + deduplicated procedures from all sources */
+  procedures: MergedProcedure[];
+  /** Merged diagnostic reports (lab panels, imaging reads) from all sources */
+  diagnosticReports: MergedDiagnosticReport[];
+  /** Merged clinical notes from all sources */
+  documents: MergedDocument[];
+  /** Pharmacy fills, each linked to its merged medication when one matches */
+  medicationDispenses: MergedMedicationDispense[];
+  /** Patient-reported medication use (taking / stopped / not taken) */
+  medicationStatements: MergedMedicationStatement[];
+  /** Upcoming appointments (newest first — use findNextAppointment for the next visit) */
+  appointments: MergedAppointment[];
   /** Clinically meaningful conflicts between sources */
   conflicts: Conflict[];
   /** Per-source record counts for UI display */
   sourceSummary: SourceSummary[];
-  /** Whether the patient was confirmed across systems */
+  /** Lowest patient-match confidence among non-primary sources (0 if none evaluated) */
   patientMatchConfidence: number;
   /** Loading state */
   isLoading: boolean;
   /** Global error (only if everything failed) */
   error: string | null;
-  /** Per-stage status for debugging */
+  /** Per-stage status, with one entry per registered source */
   stageStatus: StageStatus;
   /** Force full refetch from all sources */
   refetch: () => void;
 }
 
+export interface SourceStageStatus {
+  /** Display name of the provider (for status UI) */
+  displayName: string;
+  /** Whether the provider's data could be fetched */
+  fetch: "loading" | "success" | "error" | "skipped";
+  /**
+   * Primary sources define identity, so their match is always "skipped".
+   * "needs-review": a possible match, excluded until the patient decides
+   */
+  patientMatch: "pending" | "confirmed" | "needs-review" | "rejected" | "skipped";
+  /** Match confidence for non-primary sources */
+  matchConfidence: number | null;
+  /** Both demographic records and the matcher's verdict (review screen) */
+  matchReview: PatientMatchReview | null;
+  /** Patient-facing reason the source's records are not included */
+  exclusionReason: string | null;
+  /** Domains that failed or are incomplete while the rest of the source loaded */
+  domainErrors: Partial<Record<ClinicalDomain, string>>;
+  /** Live paging progress per domain (paging providers only) */
+  domainProgress: Partial<Record<ClinicalDomain, DomainFetchProgress>>;
+  /** Fetch error (only when the whole source failed) */
+  error: string | null;
+}
+
+export interface PatientMatchReview {
+  /** The patient, as the primary source has them */
+  patient: PatientDemographics;
+  /** This source's Patient record */
+  candidate: PatientDemographics;
+  result: MatchResult;
+  /** The patient's own decision, when they made one */
+  decision: PatientLinkDecision["decision"] | null;
+}
+
 export interface StageStatus {
-  epic: "loading" | "success" | "error" | "skipped";
-  synthetic: "loading" | "success" | "error" | "skipped";
-  patientMatch: "pending" | "confirmed" | "rejected" | "skipped";
-  merge: "pending" | "complete" | "error";
-  conflicts: "pending" | "complete" | "error";
+  /** Keyed by SourceProvider.id */
+  sources: Record<string, SourceStageStatus>;
+  merge: "pending" | "running" | "complete" | "error";
+  conflicts: "pending" | "running" | "complete" | "error";
 }
 
 // -----------------------------------------------------------
@@ -100,17 +163,52 @@ interface UnifiedCache {
   conditions: MergedCondition[];
   immunizations: MergedImmunization[];
   encounters: MergedEncounter[];
+  procedures: MergedProcedure[];
+  diagnosticReports: MergedDiagnosticReport[];
+  documents: MergedDocument[];
+  medicationDispenses: MergedMedicationDispense[];
+  medicationStatements: MergedMedicationStatement[];
+  appointments: MergedAppointment[];
   conflicts: Conflict[];
   sourceSummary: SourceSummary[];
   patientMatchConfidence: number;
+  /** Registered provider ids the result was built from */
+  providerKey: string;
+  /** Merge overrides the result was built with */
+  overrideKey: string;
+  /** Patient link decisions the result was built with */
+  linkKey: string;
+  /** Per-source status of the run that built it (kept for excluded sources) */
+  sourceStatuses: Record<string, SourceStageStatus>;
   timestamp: number;
 }
 
 const CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+
+// In memory only — never snapshotted across a re-login (it is the
+// patient's whole record); the page refetches after the callback
 let cache: UnifiedCache | null = null;
 
-function isCacheValid(): boolean {
-  return cache !== null && (Date.now() - cache.timestamp) < CACHE_TTL_MS;
+function getProviderKey(providers: SourceProvider[]): string {
+  return providers.map((p) => p.id).sort().join("|");
+}
+
+function getOverrideKey(overrides: MergeOverride[]): string {
+  return overrides.map((o) => o.id).join("|");
+}
+
+function getLinkKey(links: PatientLinkDecision[]): string {
+  return links.map((l) => `${l.sourceId}:${l.primaryPatientId}:${l.patientId}:${l.decision}`).join("|");
+}
+
+function isCacheValid(providerKey: string, overrideKey: string, linkKey: string): boolean {
+  return (
+    cache !== null &&
+    cache.providerKey === providerKey &&
+    cache.overrideKey === overrideKey &&
+    cache.linkKey === linkKey &&
+    (Date.now() - cache.timestamp) < CACHE_TTL_MS
+  );
 }
 
 // Stable empty default — module-level so the same reference is reused
@@ -122,12 +220,27 @@ const EMPTY_UNIFIED: UnifiedCache = {
   conditions: [],
   immunizations: [],
   encounters: [],
+  procedures: [],
+  diagnosticReports: [],
+  documents: [],
+  medicationDispenses: [],
+  medicationStatements: [],
+  appointments: [],
   conflicts: [],
   sourceSummary: [],
   patientMatchConfidence: 0,
+  providerKey: "",
+  overrideKey: "",
+  linkKey: "",
+  sourceStatuses: {},
   timestamp: 0,
 };
 
+/** Stage status for a finished run (restored from the cache) */
+function completedStageStatus(cached: UnifiedCache): StageStatus {
+  return { sources: cached.sourceStatuses, merge: "complete", conflicts: "complete" };
+}
+
 // -----------------------------------------------------------
 // Helper: Build source summary
 // -----------------------------------------------------------
@@ -143,6 +256,12 @@ function buildSourceSummary(sources: Array<{ tag: SourceTag; data: MergeInput }>
       conditions: data.conditions.length,
       immunizations: data.immunizations.length,
       encounters: data.encounters.length,
+      procedures: data.procedures.length,
+      diagnosticReports: data.diagnosticReports.length,
+      documents: data.documents.length,
+      medicationDispenses: data.medicationDispenses.length,
+      medicationStatements: data.medicationStatements.length,
+      appointments: data.appointments.length,
       total:
         data.medications.length +
         data.labResults.length +
@@ -150,169 +269,273 @@ function buildSourceSummary(sources: Array<{ tag: SourceTag; data: MergeInput }>
         data.allergies.length +
         data.conditions.length +
         data.immunizations.length +
-        data.encounters.length,
+        data.encounters.length +
+        data.procedures.length +
+        data.diagnosticReports.length +
+        data.documents.length +
+        data.medicationDispenses.length +
+        data.medicationStatements.length +
+        data.appointments.length,
     },
   }));
 }
 
+// -----------------------------------------------------------
+// Helper: Fetch one provider + confirm patient identity
+// -----------------------------------------------------------
+
+interface LoadedSource {
+  status: SourceStageStatus;
+  /** null when the source failed or its patient didn't match */
+  entry: { tag: SourceTag; data: MergeInput } | null;
+  /** The source's own Patient record, once identity is confirmed */
+  patient?: SourcePatient;
+}
+
+function pendingSourceStatus(provider: SourceProvider): SourceStageStatus {
+  return {
+    displayName: provider.displayName,
+    fetch: "loading",
+    patientMatch: provider.isPrimary ? "skipped" : "pending",
+    matchConfidence: null,
+    matchReview: null,
+    exclusionReason: null,
+    domainErrors: {},
+    domainProgress: {},
+    error: null,
+  };
+}
+
+async function loadSource(
+  provider: SourceProvider,
+  primaryPatient: PatientDemographics | null,
+  links: PatientLinkDecision[],
+  onProgress: (status: SourceStageStatus) => void
+): Promise<LoadedSource> {
+  const status = pendingSourceStatus(provider);
+
+  let fetched;
+  try {
+    fetched = await provider.fetchAll((domain, progress) => {
+      status.domainProgress = { ...status.domainProgress, [domain]: progress };
+      onProgress(status);
+    });
+  } catch (err) {
+    status.fetch = "error";
+    status.error = err instanceof Error ? err.message : String(err);
+    if (import.meta.env.DEV) {
+      console.warn(`[UnifiedData] ${provider.displayName} fetch failed:`, status.error);
+    }
+    return { status, entry: null };
+  }
+
+  status.domainErrors = fetched.domainErrors;
+
+  if (provider.getHealth().state === "error") {
+    status.fetch = "error";
+    status.error = provider.getHealth().message;
+    if (import.meta.env.DEV) {
+      console.warn(`[UnifiedData] ${provider.displayName} returned no data:`, status.error);
+    }
+    return { status, entry: null };
+  }
+
+  status.fetch = "success";
+  const entry = { tag: fetched.tag, data: fetched.data };
+
+  // Primary sources define the patient — no match needed
+  if (provider.isPrimary) {
+    return { status, entry, patient: primaryPatient ? { demographics: primaryPatient, source: fetched.tag } : undefined };
+  }
+
+  // Non-primary sources are only merged once identity is confirmed
+  if (!primaryPatient) {
+    status.patientMatch = "skipped";
+    status.exclusionReason = "Your own patient details haven't loaded, so this record couldn't be checked";
+    if (import.meta.env.DEV) {
+      console.warn(`[UnifiedData] No primary patient loaded — skipping ${provider.displayName}`);
+    }
+    return { status, entry: null };
+  }
+
+  const candidate = await provider.fetchPatient();
+
+  // A patient-uploaded export without a Patient resource is taken
+  // on the patient's word — they imported it into their own account
+  if (!candidate && provider.auth.kind === "file-upload") {
+    status.patientMatch = "skipped";
+    return { status, entry };
+  }
+
+  if (!candidate) {
+    status.patientMatch = "rejected";
+    status.matchConfidence = 0;
+    status.exclusionReason = "No patient details came with this record, so it couldn't be checked against yours";
+    return { status, entry: null };
+  }
+
+  const matchResult = matchPatients(primaryPatient, candidate);
+  const decision = findPatientLink(provider.id, primaryPatient.id, candidate.id, links)?.decision ?? null;
+  status.matchConfidence = matchResult.confidence;
+  status.matchReview = { patient: primaryPatient, candidate, result: matchResult, decision };
+
+  // A rejection always wins. A confirmation only settles a possible
+  // match — it never pulls in a record the matcher calls someone else's
+  if (decision === "rejected") {
+    status.patientMatch = "rejected";
+    status.exclusionReason = "You said this record isn't yours";
+    return { status, entry: null };
+  }
+
+  const confirmedByPatient = decision === "confirmed" && matchResult.outcome !== "non-match";
+
+  if (!matchResult.isMatch && !confirmedByPatient) {
+    const possible = matchResult.outcome === "possible-match";
+    status.patientMatch = possible ? "needs-review" : "rejected";
+    status.exclusionReason = possible
+      ? "Some patient details differ from yours — review to include it"
+      : "Patient details don't match yours";
+    if (import.meta.env.DEV) {
+      console.warn(
+        `[UnifiedData] Patient match REJECTED for ${provider.displayName}: ` +
+          `${matchResult.outcome} (score ${matchResult.score.toFixed(1)}, confidence ${matchResult.confidence.toFixed(2)}). ` +
+          `Its data will NOT be included.`
+      );
+    }
+    return { status, entry: null };
+  }
+
+  status.patientMatch = "confirmed";
+  if (import.meta.env.DEV) {
+    console.log(
+      `[UnifiedData] Patient match CONFIRMED${confirmedByPatient && !matchResult.isMatch ? " by patient" : ""} (${provider.displayName}): ` +
+        `${primaryPatient.fullName} ↔ ${candidate.fullName} ` +
+        `(confidence: ${matchResult.confidence.toFixed(2)}, ` +
+        `matched on: ${matchResult.matchedOn.join(", ")})`
+    );
+  }
+  return { status, entry, patient: { demographics: candidate, source: fetched.tag } };
+}
+
 // -----------------------------------------------------------
 // Hook
 // -----------------------------------------------------------
 
 export function useUnifiedData(): UnifiedDataResult {
-  const epicData = useEpicData();
-  const { patient: epicPatient, isLoading: patientLoading } = usePatient();
+  const providers = useSourceProviders();
+  const { patient: primaryPatient, isLoading: patientLoading } = usePatient();
+  const providerKey = getProviderKey(providers);
+  const overrides = useMergeOverrides();
+  const overrideKey = getOverrideKey(overrides);
+  const links = usePatientLinks();
+  const linkKey = getLinkKey(links);
+  const runKey = `${providerKey}@${overrideKey}@${linkKey}`;
 
   // State
   const [result, setResult] = useState<UnifiedCache | null>(cache);
-  const [isLoading, setIsLoading] = useState(!isCacheValid());
+  const [isLoading, setIsLoading] = useState(!isCacheValid(providerKey, overrideKey, linkKey));
   const [error, setError] = useState<string | null>(null);
-  const [stageStatus, setStageStatus] = useState<StageStatus>({
-    epic: "loading",
-    synthetic: "loading",
-    patientMatch: "pending",
-    merge: "pending",
-    conflicts: "pending",
-  });
+  const [stageStatus, setStageStatus] = useState<StageStatus>(() =>
+    cache && isCacheValid(providerKey, overrideKey, linkKey)
+      ? completedStageStatus(cache)
+      : {
+          sources: Object.fromEntries(providers.map((p) => [p.id, pendingSourceStatus(p)])),
+          merge: "pending",
+          conflicts: "pending",
+        }
+  );
   const [fetchKey, setFetchKey] = useState(0);
 
   // Prevent double-execution in React strict mode
-  const mergeInProgress = useRef(false);
+  const mergeInProgress = useRef<string | null>(null);
+  // Worker task for the current run — cancelled when a newer run starts
+  const pipelineTask = useRef<PipelineTask<MergePipelineResult> | null>(null);
 
   useEffect(() => {
-    // Wait for Epic data + patient demographics to finish loading
-    if (epicData.isLoading || patientLoading) return;
-    if (mergeInProgress.current) return;
+    // Wait for primary patient demographics before matching
+    if (patientLoading) return;
+    if (mergeInProgress.current === `${runKey}#${fetchKey}`) return;
 
     // Use cache if valid (and not a forced refetch)
-    if (isCacheValid() && fetchKey === 0) {
+    if (cache && isCacheValid(providerKey, overrideKey, linkKey) && fetchKey === 0) {
+      setResult(cache);
+      setStageStatus(completedStageStatus(cache));
       setIsLoading(false);
       return;
     }
 
-    mergeInProgress.current = true;
+    const runId = `${runKey}#${fetchKey}`;
+    mergeInProgress.current = runId;
+    pipelineTask.current?.cancel();
+    pipelineTask.current = null;
     setIsLoading(true);
     setError(null);
 
     const runMergePipeline = async () => {
       const stages: StageStatus = {
-        epic: "loading",
-        synthetic: "loading",
-        patientMatch: "pending",
+        sources: Object.fromEntries(providers.map((p) => [p.id, pendingSourceStatus(p)])),
         merge: "pending",
         conflicts: "pending",
       };
+      setStageStatus(stages);
 
       try {
-        // --- Stage 1: Collect source data ---
-        const sourcesForMerge: Array<{ tag: SourceTag; data: MergeInput }> = [];
-
-        // Epic data (already fetched by useEpicData)
-        const epicSource: SourceTag = {
-          systemName: "Epic MyHealth",
-          systemId: "epic-sandbox",
-          fetchedAt: new Date().toISOString(),
-        };
+        // --- Stage 1 + 2: Fetch every source + patient matching ---
+        const loaded = await Promise.all(
+          providers.map((provider) =>
+            loadSource(provider, primaryPatient, links, (status) => {
+              if (mergeInProgress.current !== runId) return;
+              setStageStatus((prev) => ({
+                ...prev,
+                sources: { ...prev.sources, [provider.id]: { ...status } },
+              }));
+            })
+          )
+        );
+
+        // A newer run (sources changed / refetch) superseded this one
+        if (mergeInProgress.current !== runId) return;
 
-        if (epicData.error && epicData.medications.length === 0) {
-          stages.epic = "error";
-          if (import.meta.env.DEV) {
-            console.warn("[UnifiedData] Epic data fetch failed:", epicData.error);
-          }
-        } else {
-          stages.epic = "success";
-          sourcesForMerge.push({
-            tag: epicSource,
-            data: {
-              medications: epicData.medications,
-              labResults: epicData.labResults,
-              vitals: epicData.vitals,
-              allergies: epicData.allergies,
-              conditions: epicData.conditions,
-              immunizations: epicData.immunizations,
-              encounters: epicData.encounters,
-            },
-          });
-        }
+        const sourcesForMerge: Array<{ tag: SourceTag; data: MergeInput }> = [];
+        const matchConfidences: number[] = [];
+        const patients: SourcePatient[] = [];
 
-        // --- Stage 2: Synthetic data + patient matching ---
-        let syntheticData: SyntheticDataResult | null = null;
-
-        try {
-          syntheticData = await fetchSyntheticData();
-          stages.synthetic = "success";
-        } catch (synthErr) {
-          stages.synthetic = "error";
-          if (import.meta.env.DEV) {
-            console.warn("[UnifiedData] Synthetic data fetch failed:", synthErr);
-          }
-        }
+        loaded.forEach(({ status, entry, patient }, index) => {
+          stages.sources[providers[index].id] = status;
+          if (entry) sourcesForMerge.push(entry);
+          if (entry && patient) patients.push(patient);
+          if (status.matchConfidence !== null) matchConfidences.push(status.matchConfidence);
+        });
 
-        // Patient matching — only include synthetic if patient matches
-        let matchConfidence = 0;
-
-        if (syntheticData && epicPatient) {
-          const cmcPatient = parsePatient(communityMCPatient);
-
-          const matchResult = matchPatients(epicPatient, cmcPatient);
-          matchConfidence = matchResult.confidence;
-
-          if (matchResult.isMatch) {
-            stages.patientMatch = "confirmed";
-
-            const cmcSource: SourceTag = {
-              systemName: "Community Medical Center",
-              systemId: "community-mc",
-              fetchedAt: new Date().toISOString(),
-            };
-
-            sourcesForMerge.push({
-              tag: cmcSource,
-              data: syntheticData,
-            });
-
-            if (import.meta.env.DEV) {
-              console.log(
-                `[UnifiedData] Patient match CONFIRMED: ` +
-                  `${epicPatient.fullName} ↔ ${cmcPatient.fullName} ` +
-                  `(confidence: ${matchResult.confidence.toFixed(2)}, ` +
-                  `matched on: ${matchResult.matchedOn.join(", ")})`
-              );
-            }
-          } else {
-            stages.patientMatch = "rejected";
-            if (import.meta.env.DEV) {
-              console.warn(
-                `[UnifiedData] Patient match REJECTED: ` +
-                  `confidence ${matchResult.confidence.toFixed(2)} < 0.8 threshold. ` +
-                  `Synthetic data will NOT be included.`
-              );
-            }
-          }
-        } else {
-          stages.patientMatch = epicPatient ? "skipped" : "pending";
-          if (!epicPatient && import.meta.env.DEV) {
-            console.warn("[UnifiedData] No Epic patient loaded — skipping patient match");
-          }
-        }
+        const matchConfidence = matchConfidences.length > 0 ? Math.min(...matchConfidences) : 0;
 
-        // --- Stage 3: Merge ---
+        // --- Stage 3: Merge (needs at least one source) ---
         if (sourcesForMerge.length === 0) {
           // No data from any source
           stages.merge = "error";
           stages.conflicts = "error";
           setError("No health data available from any source.");
-          setStageStatus(stages);
-          setIsLoading(false);
-          mergeInProgress.current = false;
+          setStageStatus({ ...stages });
           return;
         }
 
-        const mergeResult = mergeAllDomains(sourcesForMerge.map((s) => s.data));
-        stages.merge = "complete";
+        // --- Stage 3 + 4: Merge, then conflict detection (in the worker) ---
+        const task = runMergeInWorker(sourcesForMerge.map((s) => s.data), overrides, patients, (stage) => {
+          if (mergeInProgress.current !== runId) return;
+          if (stage === "conflicts") stages.merge = "complete";
+          if (stage === "merge" || stage === "conflicts") stages[stage] = "running";
+          setStageStatus({ ...stages });
+        });
+        pipelineTask.current = task;
 
-        // --- Stage 4: Conflict detection ---
-        const detectedConflicts = detectAllConflicts(mergeResult);
+        const piped = await task.promise;
+        if (pipelineTask.current === task) pipelineTask.current = null;
+
+        // Cancelled, or superseded while the worker was busy
+        if (!piped || mergeInProgress.current !== runId) return;
+
+        const { mergeResult, conflicts: detectedConflicts } = piped;
+        stages.merge = "complete";
         stages.conflicts = "complete";
 
         // --- Stage 5: Build source summary ---
@@ -327,20 +550,30 @@ export function useUnifiedData(): UnifiedDataResult {
           conditions: mergeResult.conditions,
           immunizations: mergeResult.immunizations,
           encounters: mergeResult.encounters,
+          procedures: mergeResult.procedures,
+          diagnosticReports: mergeResult.diagnosticReports,
+          documents: mergeResult.documents,
+          medicationDispenses: mergeResult.medicationDispenses,
+          medicationStatements: mergeResult.medicationStatements,
+          appointments: mergeResult.appointments,
           conflicts: detectedConflicts,
           sourceSummary,
           patientMatchConfidence: matchConfidence,
+          providerKey,
+          overrideKey,
+          linkKey,
+          sourceStatuses: stages.sources,
           timestamp: Date.now(),
         };
 
         cache = unified;
         setResult(unified);
-        setStageStatus(stages);
+        setStageStatus({ ...stages });
 
         if (import.meta.env.DEV) {
           console.log("[UnifiedData] Pipeline complete:");
           console.log(`  Sources: ${sourcesForMerge.map((s) => s.tag.systemName).join(", ")}`);
-          console.log(`  Patient match: ${stages.patientMatch} (${matchConfidence.toFixed(2)})`);
+          console.log(`  Patient match (min): ${matchConfidence.toFixed(2)}`);
           console.log(`  Medications: ${mergeResult.medications.length}`);
           console.log(`  Lab Results: ${mergeResult.labResults.length}`);
           console.log(`  Vitals:      ${mergeResult.vitals.length}`);
@@ -348,6 +581,12 @@ export function useUnifiedData(): UnifiedDataResult {
           console.log(`  Conditions:  ${mergeResult.conditions.length}`);
           console.log(`  Immunizations: ${mergeResult.immunizations.length}`);
           console.log(`  Encounters:  ${mergeResult.encounters.length}`);
+          console.log(`  Procedures:  ${mergeResult.procedures.length}`);
+          console.log(`  Reports:     ${mergeResult.diagnosticReports.length}`);
+          console.log(`  Documents:   ${mergeResult.documents.length}`);
+          console.log(`  Dispenses:   ${mergeResult.medicationDispenses.length}`);
+          console.log(`  Med statements: ${mergeResult.medicationStatements.length}`);
+          console.log(`  Appointments: ${mergeResult.appointments.length}`);
           console.log(`  Conflicts:   ${detectedConflicts.length}`);
           console.log(`  Source summary:`, sourceSummary);
         }
@@ -356,38 +595,24 @@ export function useUnifiedData(): UnifiedDataResult {
         setError("An unexpected error occurred while processing health data.");
         setStageStatus((prev) => ({ ...prev, merge: "error", conflicts: "error" }));
       } finally {
-        setIsLoading(false);
-        mergeInProgress.current = false;
+        if (mergeInProgress.current === runId) {
+          setIsLoading(false);
+        }
       }
     };
 
     runMergePipeline();
-  }, [
-    epicData.isLoading,
-    patientLoading,
-    epicData.medications,
-    epicData.labResults,
-    epicData.vitals,
-    epicData.allergies,
-    epicData.conditions,
-    epicData.immunizations,
-    epicData.encounters,
-    epicData.error,
-    epicPatient,
-    fetchKey,
-  ]);
+  }, [providers, providerKey, overrides, overrideKey, links, linkKey, runKey, primaryPatient, patientLoading, fetchKey]);
 
   const refetch = useCallback(() => {
     cache = null;
-    clearSyntheticCache();
-    epicData.refetch();
-    mergeInProgress.current = false;
+    providers.forEach((provider) => provider.clearCache());
     setFetchKey((prev) => prev + 1);
-  }, [epicData.refetch]);
+  }, [providers]);
 
   const data = result ?? EMPTY_UNIFIED;
 
-  const combinedLoading = isLoading || epicData.isLoading || patientLoading;
+  const combinedLoading = isLoading || patientLoading;
 
   // Memoize return value so consumers get a stable reference
   // (prevents infinite re-render loops in dependent hooks)
@@ -399,6 +624,12 @@ export function useUnifiedData(): UnifiedDataResult {
     conditions: data.conditions,
     immunizations: data.immunizations,
     encounters: data.encounters,
+    procedures: data.procedures,
+    diagnosticReports: data.diagnosticReports,
+    documents: data.documents,
+    medicationDispenses: data.medicationDispenses,
+    medicationStatements: data.medicationStatements,
+    appointments: data.appointments,
     conflicts: data.conflicts,
     sourceSummary: data.sourceSummary,
     patientMatchConfidence: data.patientMatchConfidence,
@@ -0,0 +1,110 @@
+// -----------------------------------------------------------
+// useUploadedSources — Import / remove patient-supplied files
+// -----------------------------------------------------------
+// Reads the selected files, extracts FHIR resources (or keeps
+// C-CDA XML documents as-is), persists
+// them locally and registers the result as a SourceProvider so
+// useUnifiedData merges it like any other health system.
+// -----------------------------------------------------------
+
+import { useCallback, useState } from "react";
+import {
+  loadUploadedSources,
+  saveUploadedSources,
+  extractResourcesFromFile,
+  parseUploadedRecord,
+  makeUploadedSourceId,
+  createUploadedSourceProvider,
+} from "../sources/uploadedSource";
+import type { UploadedSourceRecord } from "../sources/uploadedSource";
+import { registerSourceProvider, unregisterSourceProvider } from "../sources/sourceRegistry";
+import { makeSourceTag } from "../sources/sourceProvider";
+import { isCcdaDocument } from "../utils/ccdaParser";
+
+export interface ImportSummary {
+  record: UploadedSourceRecord;
+  /** Parsed record count across all domains */
+  recordCount: number;
+}
+
+interface UseUploadedSourcesResult {
+  uploads: UploadedSourceRecord[];
+  /** Import one or more files as a single named source. Throws on failure. */
+  importFiles: (files: File[], displayName: string) => Promise<ImportSummary>;
+  removeUpload: (id: string) => void;
+  /** Why the last removal failed (null once one succeeds) */
+  error: string | null;
+}
+
+export function useUploadedSources(): UseUploadedSourcesResult {
+  const [uploads, setUploads] = useState<UploadedSourceRecord[]>(loadUploadedSources);
+  const [error, setError] = useState<string | null>(null);
+
+  const importFiles = useCallback(async (files: File[], displayName: string) => {
+    const name = displayName.trim();
+    if (!name) throw new Error("Please give these records a name.");
+    if (files.length === 0) throw new Error("Please choose at least one file.");
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const resources: any[] = [];
+    const ccdaDocuments: string[] = [];
+    for (const file of files) {
+      const text = await file.text();
+      if (isCcdaDocument(text)) {
+        ccdaDocuments.push(text);
+      } else if (text.trimStart().startsWith("<")) {
+        throw new Error(`${file.name} is an XML file but not a C-CDA document.`);
+      } else {
+        resources.push(...extractResourcesFromFile(text, file.name));
+      }
+    }
+
+    const record: UploadedSourceRecord = {
+      id: makeUploadedSourceId(name),
+      displayName: name,
+      fileNames: files.map((f) => f.name),
+      importedAt: new Date().toISOString(),
+      resources,
+      ...(ccdaDocuments.length > 0 && { ccdaDocuments }),
+    };
+
+    // Reject files that contain nothing the parsers understand
+    // (parseCcdaDocument throws a friendly Error on malformed XML)
+    const parsed = parseUploadedRecord(record, makeSourceTag(record));
+    const recordCount = Object.values(parsed).reduce((sum, list) => sum + list.length, 0);
+    if (recordCount === 0) {
+      throw new Error(
+        "No medications, pharmacy fills, labs, vitals, allergies, conditions, immunizations, procedures, reports, notes, visits or appointments were found in these files."
+      );
+    }
+
+    const next = [...loadUploadedSources(), record];
+    saveUploadedSources(next);
+    setUploads(next);
+    registerSourceProvider(createUploadedSourceProvider(record));
+
+    if (import.meta.env.DEV) {
+      console.log(
+        `[UploadedSource] Imported "${name}": ${resources.length} resources, ${ccdaDocuments.length} C-CDA → ${recordCount} records`
+      );
+    }
+
+    return { record, recordCount };
+  }, []);
+
+  const removeUpload = useCallback((id: string) => {
+    const next = loadUploadedSources().filter((r) => r.id !== id);
+    try {
+      saveUploadedSources(next);
+    } catch {
+      // Still stored — keep it listed and merged rather than have it reappear on reload
+      setError("These records could not be removed from this device. Please try again.");
+      return;
+    }
+    setError(null);
+    setUploads(next);
+    unregisterSourceProvider(id);
+  }, []);
+
+  return { uploads, importFiles, removeUpload, error };
+}
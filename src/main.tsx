@@ -3,6 +3,13 @@ import { createRoot } from "react-dom/client";
 import App from "./App";
 import "./index.css";
 
+// Dev-only: `await runMergeBenchmark()` in the console times the merge on a large generated record
+if (import.meta.env.DEV) {
+  Object.assign(window, {
+    runMergeBenchmark: () => import("./sources/mergeBenchmark").then((m) => m.runMergeBenchmark()),
+  });
+}
+
 createRoot(document.getElementById("root")!).render(
   <StrictMode>
     <App />
@@ -1,20 +1,27 @@
 // -----------------------------------------------------------
-// CallbackPage — Handles OAuth2 callback from Epic
+// CallbackPage — Handles OAuth2 callback from any SMART server
+// -----------------------------------------------------------
+// The pending source id (set by authorizeSource) tells us which
+// connected system this callback belongs to. Returns the patient
+// to the page they connected from.
 // -----------------------------------------------------------
 
 import { useEffect, useRef, useState } from "react";
-import FHIR from "fhirclient";
+import { useNavigate } from "react-router-dom";
 import type Client from "fhirclient/lib/Client";
 import LoadingSpinner from "../components/ui/LoadingSpinner";
 import ErrorDisplay from "../components/ui/ErrorDisplay";
+import { completeSourceAuthorization } from "../utils/smartSessions";
+import { getReturnPath } from "../utils/tokenManager";
 
 interface CallbackPageProps {
-  onAuthenticated: (client: Client) => void;
+  onAuthenticated: (sourceId: string, client: Client) => void;
 }
 
 const CallbackPage = ({ onAuthenticated }: CallbackPageProps) => {
   const [error, setError] = useState<string | null>(null);
   const authStarted = useRef(false);
+  const navigate = useNavigate();
 
   useEffect(() => {
     if (authStarted.current) return;
@@ -22,8 +29,9 @@ const CallbackPage = ({ onAuthenticated }: CallbackPageProps) => {
 
     const completeAuth = async () => {
       try {
-        const client = await FHIR.oauth2.ready();
-        onAuthenticated(client);
+        const { sourceId, client } = await completeSourceAuthorization();
+        onAuthenticated(sourceId, client);
+        navigate(getReturnPath() ?? "/dashboard", { replace: true });
       } catch (err) {
         console.error("OAuth callback failed:", err);
         setError(
@@ -35,7 +43,7 @@ const CallbackPage = ({ onAuthenticated }: CallbackPageProps) => {
     };
 
     completeAuth();
-  }, [onAuthenticated]);
+  }, [onAuthenticated, navigate]);
 
   if (error) {
     return (
@@ -47,7 +55,7 @@ const CallbackPage = ({ onAuthenticated }: CallbackPageProps) => {
     );
   }
 
-  return <LoadingSpinner message="Completing secure connection to Epic..." />;
+  return <LoadingSpinner message="Completing secure connection..." />;
 };
 
 export default CallbackPage;
@@ -5,6 +5,7 @@
 //   - Everything visible without scrolling
 //   - Alert banner with overlay expansion (rich details)
 //   - Stat cards 3×2 (clickable), providers + nav split at bottom
+//   - Next visit card (soonest upcoming appointment) above Go To
 //   - AI insights merged into alert items (critical/high)
 // -----------------------------------------------------------
 
@@ -14,8 +15,14 @@ import { usePatient } from "../hooks/usePatient";
 import { useAIAnalysis } from "../hooks/useAIAnalysis";
 import { SkeletonCardList, EmptyState } from "../components/ui/Skeleton";
 import SourceBadge from "../components/ui/SourceBadge";
+import ConflictStatusControls from "../components/data/ConflictStatusControls";
+import { useConflictStatuses } from "../hooks/useConflictReviews";
+import { isConflictClosed } from "../sources/conflictReviews";
+import { CONFLICT_STATUS } from "../config/designSystem";
+import { findNextAppointment } from "../ai/preVisitReport";
 import type { SourceConflictAlert, DrugInteraction } from "../ai/types";
-import type { Conflict, ConflictResource } from "../types/merged";
+import type { Conflict, ConflictResource, ConflictStatus } from "../types/merged";
+import type { ClinicalDomain } from "../sources/sourceProvider";
 import {
   Pill,
   TestTube,
@@ -37,6 +44,9 @@ import {
   ChevronRight,
   Zap,
   Info,
+  CalendarClock,
+  UserCheck,
+  UserX,
 } from "lucide-react";
 import { Link } from "react-router-dom";
 
@@ -77,6 +87,10 @@ interface RichAlertItem {
   actionItem: string;
   clinicalDetails?: string;
   relatedResources: ConflictResource[];
+  /** The full conflict (conflict items only) — for status tracking */
+  conflict?: Conflict;
+  /** Review status (conflict items only) */
+  status?: ConflictStatus;
 }
 
 /** Category display config */
@@ -91,6 +105,23 @@ const CATEGORY_CONFIG: Record<RichAlertItem["category"], { label: string; icon:
 // Component
 // -----------------------------------------------------------
 
+/** Patient-facing names for clinical domains (status banners) */
+const DOMAIN_LABELS: Record<ClinicalDomain, string> = {
+  medications: "medications",
+  labResults: "lab results",
+  vitals: "vitals",
+  allergies: "allergies",
+  conditions: "conditions",
+  immunizations: "immunizations",
+  encounters: "visits",
+  procedures: "procedures",
+  diagnosticReports: "reports",
+  documents: "clinical notes",
+  medicationDispenses: "pharmacy fills",
+  medicationStatements: "medication history",
+  appointments: "appointments",
+};
+
 const DashboardPage = () => {
   const unified = useUnifiedData();
   const { patient } = usePatient();
@@ -99,12 +130,70 @@ const DashboardPage = () => {
   const [expandedAlertId, setExpandedAlertId] = useState<string | null>(null);
   const [showClinicalFor, setShowClinicalFor] = useState<string | null>(null);
 
+  // Sources that failed entirely — the rest of the dashboard still renders
+  const unavailableSources = useMemo(
+    () =>
+      Object.values(unified.stageStatus.sources)
+        .filter((s) => s.fetch === "error")
+        .map((s) => s.displayName),
+    [unified.stageStatus.sources]
+  );
+
+  // Sources that loaded but were left out of the merge (patient match)
+  const excludedSources = useMemo(
+    () =>
+      Object.entries(unified.stageStatus.sources)
+        .filter(([, s]) => s.fetch === "success" && s.exclusionReason)
+        .map(([id, s]) => ({
+          id,
+          displayName: s.displayName,
+          reason: s.exclusionReason!,
+          needsReview: s.patientMatch === "needs-review",
+          reviewable: s.matchReview !== null,
+        })),
+    [unified.stageStatus.sources]
+  );
+
+  // Domains that loaded some records but stopped early (page cap / failed page)
+  const incompleteDomains = useMemo(
+    () =>
+      unified.sourceSummary.flatMap(({ source, counts }) => {
+        const errors = unified.stageStatus.sources[source.systemId]?.domainErrors ?? {};
+        return (Object.keys(errors) as ClinicalDomain[])
+          .filter((domain) => counts[domain] > 0)
+          .map((domain) => `${source.systemName} ${DOMAIN_LABELS[domain]}`);
+      }),
+    [unified.sourceSummary, unified.stageStatus.sources]
+  );
+
+  // Paging progress while sources load
+  const loadingProgress = useMemo(
+    () =>
+      Object.values(unified.stageStatus.sources)
+        .map((s) => {
+          const progress = Object.values(s.domainProgress);
+          return {
+            displayName: s.displayName,
+            records: progress.reduce((sum, p) => sum + (p?.resourcesFetched ?? 0), 0),
+            pages: progress.reduce((sum, p) => sum + (p?.pagesFetched ?? 0), 0),
+          };
+        })
+        .filter((p) => p.pages > 0),
+    [unified.stageStatus.sources]
+  );
+
   // Map conflict IDs to their full Conflict data for clinical details
+  const nextAppointment = useMemo(
+    () => findNextAppointment(unified.appointments),
+    [unified.appointments]
+  );
+
   const conflictMap = useMemo(() => {
     const map = new Map<string, Conflict>();
     for (const c of unified.conflicts) map.set(c.id, c);
     return map;
   }, [unified.conflicts]);
+  const conflictStatuses = useConflictStatuses(unified.conflicts);
 
   // Build rich alert items from Tier 1 data
   const alertItems = useMemo<RichAlertItem[]>(() => {
@@ -117,6 +206,7 @@ const DashboardPage = () => {
         case "allergy-gap":
           return "allergy";
         case "dose-mismatch":
+        case "duplicate-therapy":
           return "medication";
         case "contradictory-condition":
           return "condition";
@@ -128,6 +218,9 @@ const DashboardPage = () => {
     if (ai.tier1) {
       for (const alert of ai.tier1.sourceConflictAlerts) {
         const fullConflict = conflictMap.get(alert.conflictId);
+        const status = conflictStatuses.get(alert.conflictId) ?? "new";
+        // Resolved / not-a-problem conflicts stay hidden until their data changes
+        if (isConflictClosed(status)) continue;
         items.push({
           id: alert.conflictId,
           type: "conflict",
@@ -143,6 +236,8 @@ const DashboardPage = () => {
           actionItem: alert.actionItem,
           clinicalDetails: fullConflict?.description,
           relatedResources: fullConflict?.resources ?? [],
+          conflict: fullConflict,
+          status,
         });
       }
       for (const d of ai.tier1.drugInteractions) {
@@ -157,14 +252,14 @@ const DashboardPage = () => {
             d.severity === "critical"
               ? "Talk to your doctor or pharmacist immediately about this combination."
               : "Mention this combination at your next appointment.",
-          clinicalDetails: `Interaction between ${d.drugA} (from ${d.drugASources.map((s) => s.systemName).join(", ")}) and ${d.drugB} (from ${d.drugBSources.map((s) => s.systemName).join(", ")}). ${d.description}`,
+          clinicalDetails: `${d.kind === "drug-condition" ? "Contraindication" : "Interaction"} between ${d.drugA} (from ${d.drugASources.map((s) => s.systemName).join(", ")}) and ${d.drugB} (from ${d.drugBSources.map((s) => s.systemName).join(", ")}). ${d.mechanism} Management: ${d.management} (${d.dataSource})`,
           relatedResources: [],
         });
       }
     }
 
     return items;
-  }, [ai.tier1, conflictMap]);
+  }, [ai.tier1, conflictMap, conflictStatuses]);
 
   // Sort alerts: urgent first, then important, then note
   const SEVERITY_ORDER: Record<string, number> = { urgent: 0, important: 1, note: 2 };
@@ -184,7 +279,8 @@ const DashboardPage = () => {
     return groups;
   }, [sortedAlertItems]);
 
-  const attentionCount = sortedAlertItems.length;
+  // Conflicts the patient has already acknowledged or discussed stay listed but don't count
+  const attentionCount = sortedAlertItems.filter((a) => !a.status || a.status === "new").length;
 
   // Record counts
   const counts: Record<string, number> = {
@@ -202,6 +298,16 @@ const DashboardPage = () => {
   if (unified.isLoading) {
     return (
       <div className="h-full flex flex-col items-center justify-center">
+        {loadingProgress.length > 0 && (
+          <div className="mb-3 flex flex-col items-center gap-0.5 text-sm text-slate-500" role="status">
+            {loadingProgress.map((p) => (
+              <span key={p.displayName}>
+                <Loader2 className="inline w-3.5 h-3.5 mr-1.5 animate-spin" />
+                {p.displayName}: {p.records} records loaded ({p.pages} page{p.pages !== 1 ? "s" : ""})
+              </span>
+            ))}
+          </div>
+        )}
         <SkeletonCardList count={6} />
       </div>
     );
@@ -240,7 +346,7 @@ const DashboardPage = () => {
         </button>
       </div>
 
-      {/* Status banners — AI unavailable / Epic down */}
+      {/* Status banners — AI unavailable / a source down */}
       {!ai.aiAvailable && (
         <div className="shrink-0 flex items-center gap-2 px-3 py-2 bg-amber-50/80 rounded-xl border border-amber-200/60" role="status">
           <Info className="w-4 h-4 text-amber-600 shrink-0" />
@@ -249,11 +355,30 @@ const DashboardPage = () => {
           </span>
         </div>
       )}
-      {unified.stageStatus.epic === "error" && (
+      {unavailableSources.length > 0 && (
+        <div className="shrink-0 flex items-center gap-2 px-3 py-2 bg-blue-50/80 rounded-xl border border-blue-200/60" role="status">
+          <Info className="w-4 h-4 text-blue-600 shrink-0" />
+          <span className="text-sm text-blue-800">
+            {unavailableSources.join(", ")} unavailable — showing records from your other connected providers
+          </span>
+        </div>
+      )}
+      {excludedSources.filter((s) => s.needsReview).map((s) => (
+        <div key={s.id} className="shrink-0 flex items-center gap-2 px-3 py-2 bg-amber-50/80 rounded-xl border border-amber-200/60" role="status">
+          <UserCheck className="w-4 h-4 text-amber-600 shrink-0" />
+          <span className="text-sm text-amber-800 flex-1">
+            Records from {s.displayName} aren't included yet — some patient details differ from yours
+          </span>
+          <Link to={`/sources/${s.id}/match`} className="text-sm font-semibold text-amber-700 hover:text-amber-800 shrink-0">
+            Is this you?
+          </Link>
+        </div>
+      ))}
+      {incompleteDomains.length > 0 && (
         <div className="shrink-0 flex items-center gap-2 px-3 py-2 bg-blue-50/80 rounded-xl border border-blue-200/60" role="status">
           <Info className="w-4 h-4 text-blue-600 shrink-0" />
           <span className="text-sm text-blue-800">
-            Live data unavailable — showing synthetic records only
+            Some history may be missing: {incompleteDomains.join(", ")} only partly loaded
           </span>
         </div>
       )}
@@ -270,9 +395,9 @@ const DashboardPage = () => {
             </div>
             <div className="flex-1 text-left">
               <span className="text-[15px] font-bold text-red-900">
-                {attentionCount} item
-                {attentionCount !== 1 ? "s" : ""} need
-                your attention
+                {attentionCount > 0
+                  ? `${attentionCount} item${attentionCount !== 1 ? "s" : ""} need your attention`
+                  : `${sortedAlertItems.length} reviewed item${sortedAlertItems.length !== 1 ? "s" : ""}`}
               </span>
               <span className="text-sm text-slate-600 ml-2">
                 Records differ between your providers
@@ -340,6 +465,15 @@ const DashboardPage = () => {
                                   {item.title}
                                 </span>
 
+                                {/* Review status (once the patient has acted on it) */}
+                                {item.status && item.status !== "new" && (
+                                  <span
+                                    className={`text-xs font-semibold px-2 py-1 rounded-lg shrink-0 ${CONFLICT_STATUS[item.status].bg} ${CONFLICT_STATUS[item.status].text}`}
+                                  >
+                                    {CONFLICT_STATUS[item.status].label}
+                                  </span>
+                                )}
+
                                 {/* Severity badge */}
                                 <span
                                   className={`text-xs font-extrabold px-3 py-1.5 rounded-lg shrink-0 ${
@@ -398,6 +532,9 @@ const DashboardPage = () => {
                                     </div>
                                   </div>
 
+                                  {/* STATUS — acknowledge / discussed / resolved / not a problem */}
+                                  {item.conflict && <ConflictStatusControls conflict={item.conflict} />}
+
                                   {/* CLINICAL DETAILS toggle — prominent button */}
                                   {item.clinicalDetails && (
                                     <div>
@@ -577,11 +714,62 @@ const DashboardPage = () => {
                 </div>
               </div>
             ))}
+            {excludedSources.map((src) => (
+              <div
+                key={src.id}
+                className="bg-slate-50 rounded-2xl border border-dashed border-slate-300 p-3.5"
+              >
+                <div className="flex items-center gap-2 mb-1.5">
+                  <UserX className="w-4 h-4 text-slate-400 shrink-0" />
+                  <span className="text-sm font-bold text-slate-700 truncate">{src.displayName}</span>
+                  <span className="text-xs text-slate-500 shrink-0">not included</span>
+                </div>
+                <div className="text-sm text-slate-500 leading-snug">{src.reason}</div>
+                {src.reviewable && (
+                  <Link
+                    to={`/sources/${src.id}/match`}
+                    className="inline-block mt-1.5 text-sm font-semibold text-blue-600 hover:text-blue-700"
+                  >
+                    Review details
+                  </Link>
+                )}
+              </div>
+            ))}
           </div>
         </div>
 
-        {/* Right: Go To */}
+        {/* Right: Next visit + Go To */}
         <div className="flex flex-col gap-3 min-h-0">
+          {nextAppointment && (
+            <Link
+              to="/pre-visit"
+              className="flex items-center gap-3 p-3.5 bg-violet-50 rounded-2xl border border-violet-200/60 hover:shadow-md transition-all group"
+            >
+              <div className="w-10 h-10 bg-violet-500 rounded-xl flex items-center justify-center shrink-0">
+                <CalendarClock className="w-5 h-5 text-white" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs font-bold text-violet-700 uppercase tracking-wide">Next visit</span>
+                  <SourceBadge source={nextAppointment.source} compact />
+                </div>
+                <div className="text-[15px] font-bold text-slate-900 truncate">
+                  {nextAppointment.serviceType ?? "Appointment"}
+                  {nextAppointment.practitioner ? ` · ${nextAppointment.practitioner}` : ""}
+                </div>
+                <div className="text-sm text-slate-500 truncate">
+                  {new Date(nextAppointment.start!).toLocaleString(undefined, {
+                    weekday: "short", month: "short", day: "numeric", hour: "numeric", minute: "2-digit",
+                  })}
+                  {nextAppointment.location ? ` · ${nextAppointment.location}` : ""}
+                </div>
+              </div>
+              <span className="text-sm font-medium text-violet-600 group-hover:text-violet-700 shrink-0">
+                Prepare report
+              </span>
+              <ArrowRight className="w-4 h-4 text-slate-400 group-hover:text-violet-500 transition-colors shrink-0" />
+            </Link>
+          )}
           <div className="flex items-center gap-2">
             <ArrowRight className="w-5 h-5 text-emerald-600" />
             <h2 className="text-lg font-bold text-slate-900">Go To</h2>
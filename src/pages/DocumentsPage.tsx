@@ -0,0 +1,386 @@
+// -----------------------------------------------------------
+// DocumentsPage — Clinical notes and diagnostic reports
+// -----------------------------------------------------------
+// Viewport-fit two-column layout, same shell as Procedures.
+// Left: notes + reports from every system, newest first, grouped
+// by year, filterable by source. Right: the selected document —
+// decoded text, sandboxed HTML, or an embedded PDF — and, for lab
+// reports, the panel of results the report links to.
+// -----------------------------------------------------------
+
+import { useState, useMemo, useEffect } from "react";
+import { Files, FileText, FlaskConical, Search, X, ExternalLink } from "lucide-react";
+import { useUnifiedData } from "../hooks/useUnifiedData";
+import SourceBadge from "../components/ui/SourceBadge";
+import MergeBadge from "../components/ui/MergeBadge";
+import MergeOverrideControls from "../components/data/MergeOverrideControls";
+import AlternateValuesPanel, { type AlternateField } from "../components/data/AlternateValuesPanel";
+import { SkeletonCardList, EmptyState } from "../components/ui/Skeleton";
+import { findPanelResults } from "../sources/mergeEngine";
+import { dataUrlToBlob } from "../utils/attachmentDecoder";
+import type { MergedDiagnosticReport, MergedDocument, MergedLabResult } from "../types/merged";
+import type { ClinicalDocument, DocumentAttachment } from "../types/document";
+import type { DiagnosticReport } from "../types/diagnosticReport";
+import type { SourceTag } from "../types/source";
+
+/** One row in the list — a note or a report, normalized for sorting */
+type DocumentItem =
+  | { kind: "note"; key: string; title: string; subtitle?: string; date?: string; record: MergedDocument }
+  | { kind: "report"; key: string; title: string; subtitle?: string; date?: string; record: MergedDiagnosticReport };
+
+function formatDate(date?: string): string {
+  if (!date) return "Date unknown";
+  return new Date(date).toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" });
+}
+
+function uniqueSources(sources: SourceTag[]): SourceTag[] {
+  return [...new Map(sources.map((s) => [s.systemId, s])).values()];
+}
+
+/** Fields compared in "Other systems say…" */
+const NOTE_ALTERNATE_FIELDS: AlternateField<ClinicalDocument>[] = [
+  { label: "Date", value: (d) => d.date && formatDate(d.date) },
+  { label: "Status", value: (d) => d.status },
+  { label: "Type", value: (d) => d.type },
+  { label: "Author", value: (d) => d.author },
+];
+
+const REPORT_ALTERNATE_FIELDS: AlternateField<DiagnosticReport>[] = [
+  { label: "Status", value: (r) => r.status },
+  { label: "Conclusion", value: (r) => r.conclusion },
+  { label: "Performed by", value: (r) => r.performer },
+];
+
+// -----------------------------------------------------------
+// Attachment viewer
+// -----------------------------------------------------------
+
+/** Object URL for an inline binary — revoked when the attachment changes */
+function useObjectUrl(dataUrl?: string): string | null {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!dataUrl) {
+      setUrl(null);
+      return;
+    }
+    let objectUrl: string;
+    try {
+      objectUrl = URL.createObjectURL(dataUrlToBlob(dataUrl));
+    } catch {
+      setUrl(null);
+      return;
+    }
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [dataUrl]);
+
+  return url;
+}
+
+const AttachmentView = ({ attachment }: { attachment: DocumentAttachment }) => {
+  const objectUrl = useObjectUrl(attachment.dataUrl);
+  const type = attachment.contentType?.toLowerCase() ?? "";
+
+  if (attachment.text !== undefined) {
+    if (type.includes("html")) {
+      // Empty sandbox: no scripts, no forms, no same-origin access
+      return (
+        <iframe title={attachment.title ?? "Document"} sandbox="" srcDoc={attachment.text}
+          className="w-full min-h-[420px] rounded-lg border border-slate-200 bg-white" />
+      );
+    }
+    return (
+      <pre className="text-sm text-slate-700 whitespace-pre-wrap font-mono bg-slate-50 rounded-lg border border-slate-200 p-3">
+        {attachment.text}
+      </pre>
+    );
+  }
+
+  if (objectUrl) {
+    if (type.startsWith("image/")) {
+      return <img src={objectUrl} alt={attachment.title ?? "Attachment"} className="max-w-full rounded-lg border border-slate-200" />;
+    }
+    return (
+      <div className="space-y-1">
+        <iframe title={attachment.title ?? "Document"} src={objectUrl}
+          className="w-full h-[560px] rounded-lg border border-slate-200 bg-white" />
+        <a href={objectUrl} download={attachment.title ?? "document"} className="inline-flex items-center gap-1 text-xs text-indigo-600 hover:underline">
+          <ExternalLink className="w-3 h-3" /> Open or download
+        </a>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-3 rounded-lg bg-slate-50 border border-slate-200 text-sm text-slate-500">
+      {attachment.url
+        ? "This document is stored on the health system's server and wasn't included in the download."
+        : "This document has no readable content."}
+      {attachment.contentType && <span className="block text-xs text-slate-400 mt-1">{attachment.contentType}</span>}
+    </div>
+  );
+};
+
+// -----------------------------------------------------------
+// Panel results (lab reports)
+// -----------------------------------------------------------
+
+const PanelResults = ({ results }: { results: MergedLabResult[] }) => (
+  <div className="rounded-lg border border-slate-200 overflow-hidden">
+    {results.map((lab) => {
+      const flagged = lab.interpretation && lab.interpretation !== "normal";
+      return (
+        <div key={lab.id} className="flex items-center gap-2 px-3 py-1.5 border-b border-slate-100 last:border-0 text-sm">
+          <span className="flex-1 text-slate-700 truncate">{lab.name}</span>
+          <span className={`font-semibold ${flagged ? "text-amber-700" : "text-slate-900"}`}>
+            {lab.value ?? "—"}{lab.unit ? ` ${lab.unit}` : ""}
+          </span>
+          {flagged && (
+            <span className="text-[10px] px-1.5 py-0.5 rounded-full font-bold bg-amber-100 text-amber-700 uppercase">{lab.interpretation}</span>
+          )}
+          <div className="flex items-center gap-0.5 shrink-0">
+            {uniqueSources(lab.allSources).map((s) => <SourceBadge key={s.systemId} source={s} compact />)}
+          </div>
+        </div>
+      );
+    })}
+  </div>
+);
+
+// -----------------------------------------------------------
+// Page
+// -----------------------------------------------------------
+
+const DocumentsPage = () => {
+  const unified = useUnifiedData();
+
+  const [search, setSearch] = useState("");
+  const [sourceFilter, setSourceFilter] = useState<string | null>(null);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  const items = useMemo<DocumentItem[]>(() => {
+    const notes: DocumentItem[] = unified.documents.map((doc) => ({
+      kind: "note",
+      key: `note:${doc.id}`,
+      title: doc.title,
+      subtitle: doc.author ?? doc.type,
+      date: doc.date,
+      record: doc,
+    }));
+    const reports: DocumentItem[] = unified.diagnosticReports.map((report) => ({
+      kind: "report",
+      key: `report:${report.id}`,
+      title: report.name,
+      subtitle: report.category ?? report.performer,
+      date: report.effectiveDate ?? report.issued,
+      record: report,
+    }));
+    return [...notes, ...reports].sort((a, b) => (b.date ?? "").localeCompare(a.date ?? ""));
+  }, [unified.documents, unified.diagnosticReports]);
+
+  const sources = useMemo(
+    () => uniqueSources(items.flatMap((item) => item.record.allSources)),
+    [items]
+  );
+
+  const filtered = useMemo(() => {
+    const q = search.trim().toLowerCase();
+    return items.filter((item) => {
+      if (sourceFilter && !item.record.allSources.some((s) => s.systemId === sourceFilter)) return false;
+      if (!q) return true;
+      return (
+        item.title.toLowerCase().includes(q) ||
+        (item.subtitle?.toLowerCase().includes(q) ?? false)
+      );
+    });
+  }, [items, search, sourceFilter]);
+
+  const byYear = useMemo(() => {
+    const groups = new Map<string, DocumentItem[]>();
+    for (const item of filtered) {
+      const year = item.date?.slice(0, 4) ?? "Undated";
+      if (!groups.has(year)) groups.set(year, []);
+      groups.get(year)!.push(item);
+    }
+    return [...groups.entries()];
+  }, [filtered]);
+
+  const selected = items.find((item) => item.key === selectedKey) ?? null;
+  const panelResults = selected?.kind === "report" ? findPanelResults(selected.record, unified.labResults) : [];
+
+  if (unified.isLoading) {
+    return (<div className="h-full flex flex-col items-center justify-center"><SkeletonCardList count={5} /></div>);
+  }
+  if (items.length === 0) {
+    return (<div className="h-full flex items-center justify-center"><EmptyState icon={Files} title="No documents found" description="No clinical notes or reports were found across connected health systems." /></div>);
+  }
+
+  return (
+    <div className="h-full flex flex-col overflow-hidden animate-content-reveal">
+      {/* ===== HEADER ROW ===== */}
+      <div className="flex items-center gap-2.5 shrink-0 pb-2">
+        <Files className="w-7 h-7 text-indigo-600" />
+        <h1 className="text-2xl font-bold text-slate-900">Documents</h1>
+        <span className="text-xs px-2 py-0.5 rounded-full bg-indigo-100 text-indigo-700 font-bold">
+          {unified.documents.length} notes · {unified.diagnosticReports.length} reports
+        </span>
+      </div>
+
+      {/* ===== SEARCH + SOURCE FILTER ===== */}
+      <div className="shrink-0 flex items-center gap-2 pb-2">
+        <div className="flex-1 relative">
+          <Search className="w-3.5 h-3.5 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input type="text" placeholder="Search titles, authors, report types..." value={search} onChange={(e) => setSearch(e.target.value)}
+            className="w-full pl-9 pr-3 py-1.5 text-sm bg-white border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-400 transition-all" />
+        </div>
+        {sources.length > 1 && (
+          <div className="flex items-center gap-1 shrink-0">
+            <button onClick={() => setSourceFilter(null)}
+              className={`text-xs px-2.5 py-1 rounded-full font-semibold transition-colors ${sourceFilter === null ? "bg-slate-800 text-white" : "bg-slate-100 text-slate-600 hover:bg-slate-200"}`}>
+              All
+            </button>
+            {sources.map((s) => (
+              <button key={s.systemId} onClick={() => setSourceFilter(sourceFilter === s.systemId ? null : s.systemId)}
+                className={`rounded-md transition-all ${sourceFilter === s.systemId ? "ring-2 ring-indigo-400" : "opacity-70 hover:opacity-100"}`}>
+                <SourceBadge source={s} />
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* ===== MAIN TWO-COLUMN ===== */}
+      <div className="flex-1 min-h-0 grid grid-cols-[2fr_3fr] gap-3">
+
+        {/* LEFT — Document list */}
+        <div className="flex flex-col min-h-0 bg-white rounded-xl border border-slate-200 overflow-hidden">
+          <div className="flex-1 overflow-y-auto">
+            {byYear.length === 0 ? (
+              <div className="p-6 text-center text-sm text-slate-400">No documents match</div>
+            ) : byYear.map(([year, group]) => (
+              <div key={year}>
+                <div className="sticky top-0 px-3 py-1 bg-slate-50 border-b border-slate-100 text-xs font-bold text-slate-500">{year}</div>
+                {group.map((item) => {
+                  const isSelected = selectedKey === item.key;
+                  const Icon = item.kind === "report" ? FlaskConical : FileText;
+                  return (
+                    <button key={item.key} onClick={() => setSelectedKey(isSelected ? null : item.key)}
+                      className={`w-full flex items-center gap-2 px-3 py-2 text-left border-b border-slate-100 last:border-0 transition-all ${
+                        isSelected ? "bg-indigo-50 border-l-2 border-l-indigo-500" : "hover:bg-slate-50 border-l-2 border-l-transparent"
+                      }`}>
+                      <Icon className="w-4 h-4 text-slate-400 shrink-0" />
+                      <div className="flex-1 min-w-0">
+                        <div className="text-[15px] font-semibold text-slate-900 truncate">{item.title}</div>
+                        <div className="text-sm text-slate-500 truncate">
+                          {formatDate(item.date)}{item.subtitle ? ` · ${item.subtitle}` : ""}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-0.5 shrink-0">
+                        {uniqueSources(item.record.allSources).map((s) => (
+                          <SourceBadge key={s.systemId} source={s} compact />
+                        ))}
+                      </div>
+                    </button>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* RIGHT — Viewer */}
+        <div className="flex flex-col min-h-0 bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+          {selected ? (
+            <>
+              <div className="flex items-center gap-2 px-4 py-3 border-b border-slate-100 shrink-0 bg-slate-50">
+                {selected.kind === "report"
+                  ? <FlaskConical className="w-5 h-5 text-indigo-600" />
+                  : <FileText className="w-5 h-5 text-indigo-600" />}
+                <h2 className="text-sm font-bold text-slate-900 truncate">{selected.title}</h2>
+                <button onClick={() => setSelectedKey(null)} className="ml-auto w-7 h-7 flex items-center justify-center rounded-lg hover:bg-slate-200 transition-colors">
+                  <X className="w-4 h-4 text-slate-500" />
+                </button>
+              </div>
+              <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="text-xs px-2.5 py-1 rounded-full font-medium bg-slate-100 text-slate-600">{selected.record.status}</span>
+                  <MergeBadge status={selected.record.mergeStatus} overrides={selected.record.userOverrides} />
+                  {selected.record.allSources.map((s) => <SourceBadge key={s.systemId} source={s} compact />)}
+                </div>
+
+                <div className="flex gap-4 flex-wrap text-sm text-slate-600">
+                  <div><span className="font-medium text-slate-700">Date:</span> {formatDate(selected.date)}</div>
+                  {selected.kind === "note" && selected.record.type && (
+                    <div><span className="font-medium text-slate-700">Type:</span> {selected.record.type}</div>
+                  )}
+                  {selected.kind === "note" && selected.record.author && (
+                    <div><span className="font-medium text-slate-700">Author:</span> {selected.record.author}</div>
+                  )}
+                  {selected.kind === "report" && selected.record.category && (
+                    <div><span className="font-medium text-slate-700">Category:</span> {selected.record.category}</div>
+                  )}
+                  {selected.kind === "report" && selected.record.performer && (
+                    <div><span className="font-medium text-slate-700">Performed by:</span> {selected.record.performer}</div>
+                  )}
+                </div>
+
+                {selected.kind === "report" && selected.record.conclusion && (
+                  <div>
+                    <div className="text-xs font-bold text-slate-500 uppercase mb-1">Conclusion</div>
+                    <p className="text-sm text-slate-700">{selected.record.conclusion}</p>
+                  </div>
+                )}
+
+                {selected.kind === "report" && selected.record.resultIds.length > 0 && (
+                  <div>
+                    <div className="text-xs font-bold text-slate-500 uppercase mb-1">Results</div>
+                    {panelResults.length > 0 ? (
+                      <PanelResults results={panelResults} />
+                    ) : (
+                      <p className="text-sm text-slate-500">
+                        This report lists {selected.record.resultIds.length} result(s) that weren't included in the lab data received.
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {selected.kind === "report" ? (
+                  <AlternateValuesPanel record={selected.record} fields={REPORT_ALTERNATE_FIELDS} />
+                ) : (
+                  <AlternateValuesPanel record={selected.record} fields={NOTE_ALTERNATE_FIELDS} />
+                )}
+
+                <MergeOverrideControls
+                  domain={selected.kind === "report" ? "diagnosticReports" : "documents"}
+                  record={selected.record}
+                  candidates={items
+                    .filter((item) => item.kind === selected.kind)
+                    .map((item) => ({ record: item.record, label: `${item.title} — ${formatDate(item.date)}` }))}
+                  onChange={() => setSelectedKey(null)}
+                />
+
+                {selected.record.attachments.length > 0 && (
+                  <div className="space-y-3">
+                    <div className="text-xs font-bold text-slate-500 uppercase">
+                      {selected.kind === "report" ? "Report" : "Note"}
+                    </div>
+                    {selected.record.attachments.map((a, i) => (
+                      <AttachmentView key={`${selected.key}-${i}`} attachment={a} />
+                    ))}
+                  </div>
+                )}
+              </div>
+            </>
+          ) : (
+            <div className="flex-1 flex items-center justify-center p-6">
+              <EmptyState icon={FileText} title="Select a document" description="Choose a note or report to read it here." />
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DocumentsPage;
@@ -0,0 +1,185 @@
+// -----------------------------------------------------------
+// ImportRecordsPage — Add records from a downloaded export
+// -----------------------------------------------------------
+// Patients name the source ("Lakeside Clinic portal"), pick one
+// or more Bundle JSON / Bulk Data NDJSON / C-CDA XML files, and the records
+// join the merge as another health system. Imports stay on this
+// device (localStorage) and can be removed at any time.
+// -----------------------------------------------------------
+
+import { useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { Upload, FileJson, Trash2, Loader2, ShieldCheck, ShieldAlert } from "lucide-react";
+import { useUnifiedData } from "../hooks/useUnifiedData";
+import { useUploadedSources } from "../hooks/useUploadedSources";
+import { useToast } from "../context/ToastContext";
+import { TRANSITIONS } from "../config/designSystem";
+
+const ImportRecordsPage = () => {
+  const unified = useUnifiedData();
+  const { uploads, importFiles, removeUpload, error: removeError } = useUploadedSources();
+  const { addToast } = useToast();
+
+  const [name, setName] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    setError(null);
+
+    try {
+      const { record, recordCount } = await importFiles(files, name);
+      addToast({
+        type: "success",
+        title: "Records Imported",
+        message: `${recordCount} records from ${record.displayName} were added to your health picture.`,
+      });
+      setName("");
+      setFiles([]);
+      if (fileInput.current) fileInput.current.value = "";
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "These files could not be imported.");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="h-full flex flex-col overflow-hidden animate-content-reveal">
+      {/* ===== HEADER ROW ===== */}
+      <div className="flex items-center gap-2.5 shrink-0 pb-3">
+        <Upload className="w-7 h-7 text-violet-600" />
+        <h1 className="text-2xl font-bold text-slate-900">Import Records</h1>
+        <span className="text-xs px-2 py-0.5 rounded-full bg-violet-100 text-violet-700 font-bold">
+          {uploads.length} imported
+        </span>
+      </div>
+
+      <div className="flex-1 min-h-0 grid grid-cols-2 gap-4">
+        {/* LEFT — Upload form */}
+        <div className="bg-white rounded-xl border border-slate-200 p-5 flex flex-col gap-4 overflow-y-auto">
+          <p className="text-sm text-slate-600 leading-relaxed">
+            Downloaded your records from another patient portal? Add a FHIR export
+            (a <span className="font-semibold">Bundle .json</span> file or Bulk Data{" "}
+            <span className="font-semibold">.ndjson</span> files) or a C-CDA summary
+            (<span className="font-semibold">.xml</span>) and we'll combine it
+            with your other health systems. Files stay on this device.
+          </p>
+
+          <label className="flex flex-col gap-1.5">
+            <span className="text-sm font-semibold text-slate-700">Where are these records from?</span>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Lakeside Clinic portal"
+              maxLength={60}
+              className="w-full px-3 py-2 text-sm bg-white border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-400 transition-all"
+            />
+          </label>
+
+          <label className="flex flex-col gap-1.5">
+            <span className="text-sm font-semibold text-slate-700">Files</span>
+            <input
+              ref={fileInput}
+              type="file"
+              multiple
+              accept=".json,.ndjson,.jsonl,.xml,application/json,application/fhir+json,application/fhir+ndjson,application/xml,text/xml"
+              onChange={(e) => setFiles(Array.from(e.target.files ?? []))}
+              className="text-sm text-slate-600 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-slate-100 file:text-slate-700 file:font-medium hover:file:bg-slate-200"
+            />
+          </label>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 text-sm px-3 py-2 rounded-lg" role="alert">
+              {error}
+            </div>
+          )}
+
+          <button
+            onClick={handleImport}
+            disabled={isImporting || files.length === 0 || !name.trim()}
+            className={`self-start flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold text-white bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed ${TRANSITIONS.fast}`}
+          >
+            {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+            {isImporting ? "Importing…" : "Import"}
+          </button>
+        </div>
+
+        {/* RIGHT — Previously imported */}
+        <div className="bg-white rounded-xl border border-slate-200 flex flex-col min-h-0 overflow-hidden">
+          <div className="px-4 py-3 border-b border-slate-100 text-sm font-bold text-slate-700">
+            Imported record sets
+          </div>
+          {removeError && (
+            <div className="mx-4 mt-3 bg-red-50 border border-red-200 text-red-700 text-sm px-3 py-2 rounded-lg" role="alert">
+              {removeError}
+            </div>
+          )}
+          <div className="flex-1 overflow-y-auto divide-y divide-slate-100">
+            {uploads.length === 0 && (
+              <p className="px-4 py-6 text-sm text-slate-400 text-center">
+                Nothing imported yet.
+              </p>
+            )}
+            {uploads.map((upload) => {
+              const summary = unified.sourceSummary.find((s) => s.source.systemId === upload.id);
+              const stage = unified.stageStatus.sources[upload.id];
+              const excluded = stage?.fetch === "success" && stage.exclusionReason;
+
+              return (
+                <div key={upload.id} className="px-4 py-3 flex items-start gap-3">
+                  <FileJson className="w-5 h-5 text-slate-400 shrink-0 mt-0.5" />
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-semibold text-slate-800 truncate">
+                      {upload.displayName}
+                    </div>
+                    <div className="text-xs text-slate-500 truncate" title={upload.fileNames.join(", ")}>
+                      {upload.fileNames.join(", ")} ·{" "}
+                      {new Date(upload.importedAt).toLocaleDateString()}
+                    </div>
+                    <div className="mt-1 flex items-center gap-1.5 text-xs">
+                      {excluded ? (
+                        <>
+                          <ShieldAlert className="w-3.5 h-3.5 text-red-500" />
+                          <span className="text-red-600">
+                            {stage.exclusionReason} — not included
+                          </span>
+                          {stage.matchReview && (
+                            <Link to={`/sources/${upload.id}/match`} className="font-semibold text-blue-600 hover:text-blue-700">
+                              Review
+                            </Link>
+                          )}
+                        </>
+                      ) : (
+                        <>
+                          <ShieldCheck className="w-3.5 h-3.5 text-emerald-500" />
+                          <span className="text-slate-600">
+                            {summary ? `${summary.counts.total} records included` : "Processing…"}
+                          </span>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => removeUpload(upload.id)}
+                    className={`p-1.5 rounded-lg text-slate-400 hover:text-red-600 hover:bg-red-50 ${TRANSITIONS.fast}`}
+                    title={`Remove ${upload.displayName}`}
+                    aria-label={`Remove ${upload.displayName}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportRecordsPage;
@@ -6,6 +6,7 @@
 // sparkline, results history, trend info, AI explanation.
 // All AI features preserved: trend narrative, sparklines,
 // abnormal flags, trend direction, Ask AI, vital correlations.
+// Sparklines plot canonical units; values display as reported.
 // -----------------------------------------------------------
 
 import { useUnifiedData } from "../hooks/useUnifiedData";
@@ -30,12 +31,14 @@ import {
 } from "lucide-react";
 import { useMemo, useState } from "react";
 import type { MergedLabResult } from "../types/merged";
+import { comparableValue, comparableRange } from "../utils/labUnits";
+import { labGroupKey, labDisplayName } from "../utils/loincGroups";
 
-/** Group labs by test name for trend view */
+/** Group labs into one series per clinical test (LOINC equivalence groups) */
 function groupByTest(labs: MergedLabResult[]) {
   const groups = new Map<string, MergedLabResult[]>();
   for (const lab of labs) {
-    const key = lab.name.toLowerCase().trim();
+    const key = labGroupKey(lab);
     if (!groups.has(key)) groups.set(key, []);
     groups.get(key)!.push(lab);
   }
@@ -45,6 +48,20 @@ function groupByTest(labs: MergedLabResult[]) {
   return groups;
 }
 
+/**
+ * Sparkline points in comparable units — readings reported in
+ * mmol/L and mg/dL plot on one scale. Only readings in the latest
+ * reading's unit are kept.
+ */
+function toSparkData(results: MergedLabResult[]) {
+  const points = results.flatMap((r) => {
+    const q = comparableValue(r);
+    return q && r.effectiveDate ? [{ date: r.effectiveDate, value: q.value, label: q.unit }] : [];
+  });
+  const unit = points[points.length - 1]?.label;
+  return points.filter((p) => p.label === unit);
+}
+
 const LabsTrendsPage = () => {
   const unified = useUnifiedData();
   const { patient } = usePatient();
@@ -61,11 +78,11 @@ const LabsTrendsPage = () => {
     return ai.tier1.labFlags.filter((f) => f.status !== "normal").length;
   }, [ai.tier1]);
 
-  const trendsByName = useMemo(() => {
+  const trendsByKey = useMemo(() => {
     if (!ai.tier1) return new Map<string, (typeof ai.tier1.labTrends)[0]>();
     const map = new Map<string, (typeof ai.tier1.labTrends)[0]>();
     for (const trend of ai.tier1.labTrends) {
-      map.set(trend.labName.toLowerCase().trim(), trend);
+      map.set(trend.groupKey, trend);
     }
     return map;
   }, [ai.tier1]);
@@ -85,14 +102,12 @@ const LabsTrendsPage = () => {
 
   // Selected test data
   const selResults = selectedTest ? grouped.get(selectedTest) ?? [] : [];
-  const selTrend = selectedTest ? trendsByName.get(selectedTest) : undefined;
+  const selTrend = selectedTest ? trendsByKey.get(selectedTest) : undefined;
   const selFlags = getFlagsForGroup(selResults);
   const selLatest = selResults.length > 0 ? selResults[selResults.length - 1] : null;
   const selExplanation = selLatest ? ai.explanations.get(selLatest.id) : undefined;
   const selIsExplaining = selLatest ? ai.explainLoading === selLatest.id : false;
-  const selSparkData = selResults
-    .filter((r) => typeof r.value === "number" && r.effectiveDate)
-    .map((r) => ({ date: r.effectiveDate!, value: r.value as number, label: r.unit ?? "" }));
+  const selSparkData = toSparkData(selResults);
   const correlationCount = ai.tier1?.vitalCorrelations.length ?? 0;
 
   return (
@@ -120,24 +135,22 @@ const LabsTrendsPage = () => {
         <div className="flex flex-col min-h-0 bg-white rounded-xl border border-slate-200 overflow-hidden">
           {/* Test rows */}
           <div className="flex-1 overflow-y-auto">
-            {[...grouped.entries()].map(([testName, results]) => {
-              const trend = trendsByName.get(testName);
+            {[...grouped.entries()].map(([testKey, results]) => {
+              const trend = trendsByKey.get(testKey);
               const flags = getFlagsForGroup(results);
               const latest = results[results.length - 1];
               const hasAbnormal = flags.some((f) => f.status !== "normal" && results.some((r) => r.id === f.labId));
-              const isSelected = selectedTest === testName;
-              const sparkData = results
-                .filter((r) => typeof r.value === "number" && r.effectiveDate)
-                .map((r) => ({ date: r.effectiveDate!, value: r.value as number, label: r.unit ?? "" }));
+              const isSelected = selectedTest === testKey;
+              const sparkData = toSparkData(results);
 
               return (
-                <button key={testName} onClick={() => { setSelectedTest(isSelected ? null : testName); setShowNarrative(false); setShowCorrelations(false); }}
+                <button key={testKey} onClick={() => { setSelectedTest(isSelected ? null : testKey); setShowNarrative(false); setShowCorrelations(false); }}
                   className={`w-full flex items-center gap-2 px-3 py-2.5 text-left border-b border-slate-100 last:border-0 transition-all ${
                     isSelected ? "bg-emerald-50 border-l-2 border-l-emerald-500" : "hover:bg-slate-50 border-l-2 border-l-transparent"
                   }`}>
                   <TestTube className={`w-4 h-4 shrink-0 ${hasAbnormal ? "text-amber-500" : "text-emerald-500"}`} />
                   <div className="flex-1 min-w-0">
-                    <div className="text-[15px] font-semibold text-slate-900 capitalize truncate">{testName}</div>
+                    <div className="text-[15px] font-semibold text-slate-900 truncate">{labDisplayName(latest)}</div>
                     <div className="text-sm text-slate-500 truncate">
                       {results.length} result{results.length > 1 ? "s" : ""} · Latest: <span className="font-semibold text-slate-700">{latest.value} {latest.unit ?? ""}</span>
                     </div>
@@ -145,7 +158,7 @@ const LabsTrendsPage = () => {
                   {/* Mini sparkline */}
                   {sparkData.length >= 2 && (
                     <div className="w-16 shrink-0">
-                      <SparklineChart data={sparkData} referenceRange={latest.referenceRange} height={24} trendDirection={trend?.direction} />
+                      <SparklineChart data={sparkData} referenceRange={comparableRange(latest)} height={24} trendDirection={trend?.direction} />
                     </div>
                   )}
                   {/* Trend arrow */}
@@ -244,7 +257,7 @@ const LabsTrendsPage = () => {
             <>
               <div className="flex items-center gap-2 px-4 py-3 border-b border-slate-100 shrink-0 bg-slate-50">
                 <TestTube className="w-5 h-5 text-emerald-600" />
-                <h2 className="text-sm font-bold text-slate-900 capitalize truncate">{selectedTest}</h2>
+                <h2 className="text-sm font-bold text-slate-900 truncate">{labDisplayName(selLatest)}</h2>
                 <span className="text-xs text-slate-500">{selResults.length} result{selResults.length > 1 ? "s" : ""}</span>
                 <button onClick={() => setSelectedTest(null)} className="ml-auto w-7 h-7 flex items-center justify-center rounded-lg hover:bg-slate-200 transition-colors">
                   <X className="w-4 h-4 text-slate-500" />
@@ -254,7 +267,7 @@ const LabsTrendsPage = () => {
                 {/* Large sparkline */}
                 {selSparkData.length >= 2 && (
                   <div className="px-4 py-3 bg-slate-50 border-b border-slate-100">
-                    <SparklineChart data={selSparkData} referenceRange={selLatest.referenceRange} height={80} trendDirection={selTrend?.direction} />
+                    <SparklineChart data={selSparkData} referenceRange={comparableRange(selLatest)} height={80} trendDirection={selTrend?.direction} />
                     {selTrend && <p className="text-xs text-slate-600 mt-1.5 text-center">{selTrend.message}</p>}
                   </div>
                 )}
@@ -281,7 +294,7 @@ const LabsTrendsPage = () => {
                           <div className="text-xs text-slate-500">{r.referenceRange.low}–{r.referenceRange.high ?? "?"}</div>
                         ) : null}
                         {isAbnormal && <AlertTriangle className="w-3.5 h-3.5 text-amber-500 shrink-0" />}
-                        <SourceBadge source={r.allSources[0]} compact />
+                        <SourceBadge source={r.source} compact />
                       </div>
                     );
                   })}
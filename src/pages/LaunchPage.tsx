@@ -3,8 +3,8 @@
 // -----------------------------------------------------------
 
 import { useState } from "react";
-import FHIR from "fhirclient";
-import { smartConfig } from "../config/smart";
+import { primaryEndpoint } from "../config/smart";
+import { authorizeSource } from "../utils/smartSessions";
 
 const LaunchPage = () => {
   const [isLoading, setIsLoading] = useState(false);
@@ -15,12 +15,7 @@ const LaunchPage = () => {
     setError(null);
 
     try {
-      await FHIR.oauth2.authorize({
-        clientId: smartConfig.clientId,
-        scope: smartConfig.scope,
-        redirectUri: smartConfig.redirectUri,
-        iss: smartConfig.iss,
-      });
+      await authorizeSource(primaryEndpoint);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to connect to Epic");
       setIsLoading(false);
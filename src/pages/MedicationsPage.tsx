@@ -11,6 +11,9 @@ import { usePatient } from "../hooks/usePatient";
 import { useAIAnalysis } from "../hooks/useAIAnalysis";
 import SourceBadge from "../components/ui/SourceBadge";
 import MergeBadge from "../components/ui/MergeBadge";
+import MergeOverrideControls from "../components/data/MergeOverrideControls";
+import MatchExplanationPanel from "../components/data/MatchExplanationPanel";
+import AlternateValuesPanel, { type AlternateField } from "../components/data/AlternateValuesPanel";
 import CapsuleIcon from "../components/ui/CapsuleIcon";
 import NarrativeText from "../components/ui/NarrativeText";
 import { SkeletonCardList, EmptyState } from "../components/ui/Skeleton";
@@ -32,9 +35,18 @@ import {
 } from "lucide-react";
 import { useState, useMemo } from "react";
 import type { MergedMedication } from "../types/merged";
+import type { Medication } from "../types/medication";
 
 type StatusFilter = "all" | "active" | "stopped" | "unknown";
 
+/** Fields compared in "Other systems say…" */
+const ALTERNATE_FIELDS: AlternateField<Medication>[] = [
+  { label: "Dosage", value: (m) => m.dosageInstruction },
+  { label: "Status", value: (m) => m.status },
+  { label: "Prescriber", value: (m) => m.prescriber },
+  { label: "Prescribed", value: (m) => m.dateWritten },
+];
+
 const MedicationsPage = () => {
   const unified = useUnifiedData();
   const { patient } = usePatient();
@@ -275,7 +287,7 @@ const MedicationsPage = () => {
                     {(selectedMed.status === "stopped" || selectedMed.status === "completed") && <Clock className="w-3 h-3" />}
                     {selectedMed.status}
                   </span>
-                  <MergeBadge status={selectedMed.mergeStatus} />
+                  <MergeBadge status={selectedMed.mergeStatus} overrides={selectedMed.userOverrides} />
                   {selectedMed.allSources.map((s) => <SourceBadge key={s.systemId} source={s} compact />)}
                 </div>
 
@@ -291,12 +303,26 @@ const MedicationsPage = () => {
                   {selectedMed.dateWritten && <div><span className="font-medium text-slate-700">Prescribed:</span> {selectedMed.dateWritten}</div>}
                 </div>
 
+                {/* What the other systems reported */}
+                <AlternateValuesPanel record={selectedMed} fields={ALTERNATE_FIELDS} />
+
                 {/* Sources detail */}
                 <div>
                   <div className="text-xs font-bold text-slate-500 uppercase mb-1">Sources</div>
                   <p className="text-sm text-slate-600">{selectedMed.allSources.map((s) => s.systemName).join(", ")}</p>
                 </div>
 
+                {/* Why the sources were combined */}
+                <MatchExplanationPanel explanation={selectedMed.matchExplanation} />
+
+                {/* Patient corrections to the merge */}
+                <MergeOverrideControls
+                  domain="medications"
+                  record={selectedMed}
+                  candidates={unified.medications.map((m) => ({ record: m, label: `${m.name} — ${m.source.systemName}` }))}
+                  onChange={() => setSelectedMed(null)}
+                />
+
                 {/* Drug interactions */}
                 {selInteractions.length > 0 && (
                   <div className="p-3 bg-red-50 rounded-xl border border-red-200">
@@ -309,6 +335,7 @@ const MedicationsPage = () => {
                             {int.drugA === selectedMed.name ? int.drugB : int.drugA}
                           </span>
                           <span className="text-slate-700 ml-1">{int.effect}</span>
+                          <div className="text-xs text-slate-600 mt-0.5">{int.management}</div>
                         </div>
                       </div>
                     ))}
@@ -0,0 +1,190 @@
+// -----------------------------------------------------------
+// PatientMatchReviewPage — "Is this you?" for one source
+// -----------------------------------------------------------
+// Shows the patient's own details next to the Patient record a
+// source sent, field by field, with how each compared (see
+// sources/patientMatcher). The patient confirms or rejects the
+// link; the decision is saved per source and patient
+// (sources/patientLinks) and the merge re-runs with or without
+// that source's records. A clear non-match can only be rejected.
+// -----------------------------------------------------------
+
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { ArrowLeft, UserCheck, UserX, RotateCcw, Users } from "lucide-react";
+import { useUnifiedData } from "../hooks/useUnifiedData";
+import { useToast } from "../context/ToastContext";
+import { setPatientLink, clearPatientLink } from "../sources/patientLinks";
+import { SkeletonCardList, EmptyState } from "../components/ui/Skeleton";
+import { TRANSITIONS } from "../config/designSystem";
+import type { AgreementLevel, FieldComparison, MatchOutcome } from "../sources/patientMatcher";
+
+const FIELD_LABELS: Record<FieldComparison["field"], string> = {
+  firstName: "First name",
+  lastName: "Last name",
+  birthDate: "Date of birth",
+  gender: "Sex",
+  address: "Address",
+  phone: "Phone",
+};
+
+const LEVEL_STYLES: Record<AgreementLevel, { label: string; className: string }> = {
+  exact: { label: "Matches", className: "bg-emerald-100 text-emerald-700" },
+  nickname: { label: "Nickname", className: "bg-emerald-50 text-emerald-700" },
+  similar: { label: "Close", className: "bg-amber-50 text-amber-700" },
+  transposed: { label: "Digits swapped?", className: "bg-amber-50 text-amber-700" },
+  partial: { label: "Partly matches", className: "bg-amber-50 text-amber-700" },
+  disagree: { label: "Different", className: "bg-red-100 text-red-700" },
+  missing: { label: "Not recorded", className: "bg-slate-100 text-slate-500" },
+};
+
+const OUTCOME_SUMMARY: Record<MatchOutcome, string> = {
+  "match": "These details match yours.",
+  "possible-match": "Some of these details differ from yours. Please check whether this is your record.",
+  "non-match": "Most of these details differ from yours. This may be someone else's record.",
+};
+
+const PatientMatchReviewPage = () => {
+  const { sourceId = "" } = useParams();
+  const navigate = useNavigate();
+  const unified = useUnifiedData();
+  const { addToast } = useToast();
+
+  const status = unified.stageStatus.sources[sourceId];
+  const review = status?.matchReview;
+
+  if (unified.isLoading && !review) {
+    return <SkeletonCardList count={2} />;
+  }
+
+  if (!status || !review) {
+    return (
+      <EmptyState
+        icon={Users}
+        title="Nothing to review"
+        description="This source has no patient details waiting for your review."
+      />
+    );
+  }
+
+  const decide = (decision: "confirmed" | "rejected") => {
+    setPatientLink(sourceId, review.patient.id, review.candidate.id, decision);
+    addToast({
+      type: decision === "confirmed" ? "success" : "info",
+      title: decision === "confirmed" ? "Records Linked" : "Records Kept Separate",
+      message:
+        decision === "confirmed"
+          ? `Records from ${status.displayName} will be combined with yours.`
+          : `Records from ${status.displayName} won't be included.`,
+    });
+    navigate("/dashboard");
+  };
+
+  // A confirmation can't override a clear non-match (see useUnifiedData)
+  const canConfirm = review.result.outcome !== "non-match";
+
+  const reset = () => {
+    clearPatientLink(sourceId, review.patient.id);
+    addToast({
+      type: "info",
+      title: "Decision Cleared",
+      message: `${status.displayName} will be matched automatically again.`,
+    });
+  };
+
+  return (
+    <div className="h-full flex flex-col overflow-hidden animate-content-reveal">
+      {/* ===== HEADER ROW ===== */}
+      <div className="flex items-center gap-2.5 shrink-0 pb-3">
+        <Link to="/dashboard" className={`p-1.5 rounded-lg text-slate-500 hover:bg-slate-100 ${TRANSITIONS.fast}`} aria-label="Back to dashboard">
+          <ArrowLeft className="w-5 h-5" />
+        </Link>
+        <Users className="w-7 h-7 text-blue-600" />
+        <h1 className="text-2xl font-bold text-slate-900">Is this you?</h1>
+        <span className="text-xs px-2 py-0.5 rounded-full bg-blue-100 text-blue-700 font-bold">
+          {status.displayName}
+        </span>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-y-auto space-y-4">
+        <div className="bg-white rounded-xl border border-slate-200 p-5 space-y-2">
+          <p className="text-sm text-slate-700">{OUTCOME_SUMMARY[review.result.outcome]}</p>
+          {status.exclusionReason && (
+            <p className="text-sm text-slate-500">{status.exclusionReason}.</p>
+          )}
+          {review.decision && (
+            <p className="text-sm text-slate-500">
+              You {review.decision === "confirmed" ? "confirmed" : "rejected"} this record.
+            </p>
+          )}
+          {!canConfirm && (
+            <p className="text-sm text-slate-500">
+              These details are too different to link. If this really is your record, ask {status.displayName} to correct it.
+            </p>
+          )}
+        </div>
+
+        {/* Side-by-side demographics */}
+        <div className="bg-white rounded-xl border border-slate-200 overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-slate-500 text-xs uppercase tracking-wide">
+              <tr>
+                <th className="text-left font-bold px-4 py-2.5 w-36"></th>
+                <th className="text-left font-bold px-4 py-2.5">Your details</th>
+                <th className="text-left font-bold px-4 py-2.5">{status.displayName}</th>
+                <th className="text-left font-bold px-4 py-2.5 w-40"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {review.result.fields.map((field) => {
+                const style = LEVEL_STYLES[field.level];
+                return (
+                  <tr key={field.field}>
+                    <td className="px-4 py-2.5 font-semibold text-slate-600">{FIELD_LABELS[field.field]}</td>
+                    <td className="px-4 py-2.5 text-slate-800">{field.valueA || "—"}</td>
+                    <td className="px-4 py-2.5 text-slate-800">{field.valueB || "—"}</td>
+                    <td className="px-4 py-2.5">
+                      <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${style.className}`}>
+                        {style.label}
+                      </span>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Decision */}
+        <div className="flex items-center gap-2 flex-wrap">
+          <button
+            onClick={() => decide("confirmed")}
+            disabled={!canConfirm || review.decision === "confirmed"}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold text-white bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed ${TRANSITIONS.fast}`}
+          >
+            <UserCheck className="w-4 h-4" />
+            Yes, this is me
+          </button>
+          <button
+            onClick={() => decide("rejected")}
+            disabled={review.decision === "rejected"}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold text-red-700 border border-red-200 hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed ${TRANSITIONS.fast}`}
+          >
+            <UserX className="w-4 h-4" />
+            No, this isn't me
+          </button>
+          {review.decision && (
+            <button
+              onClick={reset}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold text-slate-600 hover:bg-slate-100 ${TRANSITIONS.fast}`}
+            >
+              <RotateCcw className="w-4 h-4" />
+              Undo my decision
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PatientMatchReviewPage;
@@ -7,15 +7,19 @@
 //  Col 2: Safety Alerts · Abnormal Labs · Care Gaps
 //  Col 3: Conditions · Allergies · Vaccinations · Questions
 // PDF export via jsPDF text-based (no html2canvas/oklch issue).
+// Visit banner: tailored to the next appointment when one is known.
 // AI narrative via button click only (Tier 3, no useEffect).
 // -----------------------------------------------------------
 
 import { useUnifiedData } from "../hooks/useUnifiedData";
 import { usePatient } from "../hooks/usePatient";
 import { useAIAnalysis } from "../hooks/useAIAnalysis";
+import { usePreservedState } from "../hooks/usePreservedState";
+import { useConflictStatuses } from "../hooks/useConflictReviews";
+import { CONFLICT_STATUS } from "../config/designSystem";
 import { assemblePreVisitReport } from "../ai/preVisitReport";
 import { generatePreVisitNarrative } from "../ai/llm/reportNarrative";
-import type { PreVisitReport } from "../ai/preVisitReport";
+import type { PreVisitReport, VisitFocus } from "../ai/preVisitReport";
 import type { PreVisitNarrative } from "../ai/llm/reportNarrative";
 import { isAIAvailable } from "../ai/aiService";
 import SourceBadge from "../components/ui/SourceBadge";
@@ -39,10 +43,39 @@ import {
   ClipboardList,
   Copy,
   Check,
+  CalendarClock,
 } from "lucide-react";
 import { useState, useMemo, useCallback, useRef } from "react";
 
+// -----------------------------------------------------------
+// Visit helpers — shared by the banner, copy and PDF export
+// -----------------------------------------------------------
+
+function formatVisitDate(date?: string): string {
+  if (!date) return "date TBD";
+  return new Date(date).toLocaleString("en-US", { weekday: "short", month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+}
+
+/** One-line description of the visit ("Cardiology Follow-up with Dr. … on Tue, Nov 3, 10:00 AM") */
+function describeVisit(visit: VisitFocus): string {
+  const kind = visit.appointment.serviceType ?? "Visit";
+  return `${kind} with ${visit.provider} on ${formatVisitDate(visit.appointment.start)}`;
+}
 
+/** Plain-text list of the records the visit's system hasn't seen */
+function unseenItems(visit: VisitFocus): string[] {
+  const { unseen } = visit;
+  return [
+    ...unseen.medications.map((m) => `Medication: ${m.name}${m.dosageInstruction ? ` — ${m.dosageInstruction}` : ""}`),
+    ...unseen.allergies.map((a) => {
+      const reaction = a.reactions?.flatMap((r) => r.manifestations).join(", ");
+      return `Allergy: ${a.substance}${reaction ? ` (${reaction})` : ""}`;
+    }),
+    ...unseen.conditions.map((c) => `Condition: ${c.name}`),
+    ...unseen.labResults.map((l) => `Lab: ${l.name} ${l.value ?? ""}${l.unit ? ` ${l.unit}` : ""}`.trim()),
+    ...unseen.immunizations.map((i) => `Vaccine: ${i.vaccineName}`),
+  ];
+}
 
 // -----------------------------------------------------------
 // PDF generation — text-based with jsPDF (no html2canvas)
@@ -103,6 +136,19 @@ async function generatePDF(report: PreVisitReport, narrative: PreVisitNarrative
   pdf.text(`Generated: ${new Date(report.generatedAt).toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" })}`, margin, y); y += 3;
   divider();
 
+  // Next visit — what the provider's system is missing
+  if (report.visit) {
+    heading(`Prepared for: ${describeVisit(report.visit)}`, 11);
+    if (report.visit.appointment.location) body(report.visit.appointment.location);
+    if (report.visit.unseenCount > 0) {
+      heading(`Not in ${report.visit.source.systemName}'s records (${report.visit.unseenCount})`);
+      unseenItems(report.visit).forEach((item) => bullet(item));
+    } else {
+      body(`${report.visit.source.systemName} already has everything in this report on file.`);
+    }
+    divider();
+  }
+
   // AI Narrative
   if (narrative?.narrative) {
     heading("Health Summary (AI-Generated)");
@@ -134,7 +180,7 @@ async function generatePDF(report: PreVisitReport, narrative: PreVisitNarrative
     pdf.setFont("helvetica", "bold"); pdf.setFontSize(10);
     pdf.text("Drug Interactions:", margin, y); y += 5;
     report.medications.interactions.forEach((di) => {
-      bullet(`${di.drugA} + ${di.drugB}: ${di.effect} [${di.severity}]`);
+      bullet(`${di.drugA} + ${di.drugB}: ${di.effect} [${di.severity}] — ${di.management}`);
     });
   }
   divider();
@@ -208,13 +254,15 @@ const PreVisitPage = () => {
   const unified = useUnifiedData();
   const ai = useAIAnalysis(patient, unified);
 
-  // AI narrative state (Tier 3, on-demand)
-  const [narrative, setNarrative] = useState<PreVisitNarrative | null>(null);
+  // AI narrative state (Tier 3, on-demand) — kept across a re-login
+  const [narrative, setNarrative] = usePreservedState<PreVisitNarrative | null>("previsit-narrative", null);
   const [narrativeLoading, setNarrativeLoading] = useState(false);
   const [narrativeError, setNarrativeError] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
   const narrativeGeneratedRef = useRef(false);
 
+  const conflictStatuses = useConflictStatuses(unified.conflicts);
+
   // Structured report (pure assembly, safe in useMemo)
   const report = useMemo<PreVisitReport | null>(() => {
     if (unified.isLoading || !patient || !ai.tier1) return null;
@@ -225,13 +273,15 @@ const PreVisitPage = () => {
       conditions: unified.conditions,
       allergies: unified.allergies,
       immunizations: unified.immunizations,
+      appointments: unified.appointments,
       conflicts: unified.conflicts,
+      conflictStatuses,
       sourceSummary: unified.sourceSummary,
       tier1: ai.tier1,
     });
   }, [patient, unified.isLoading, unified.medications, unified.labResults,
       unified.conditions, unified.allergies, unified.immunizations,
-      unified.conflicts, unified.sourceSummary, ai.tier1]);
+      unified.appointments, unified.conflicts, conflictStatuses, unified.sourceSummary, ai.tier1]);
 
   // Generate AI narrative (button click only)
   const handleGenerateNarrative = useCallback(async () => {
@@ -271,6 +321,10 @@ const PreVisitPage = () => {
   const fallbackQuestions = useMemo(() => {
     if (!report) return [];
     const qs: string[] = [];
+    if (report.visit && report.visit.unseen.medications.length > 0) {
+      const names = report.visit.unseen.medications.map((m) => m.name).join(", ");
+      qs.push(`${report.visit.source.systemName} doesn't have ${names} on file. Can we add ${report.visit.unseen.medications.length > 1 ? "them" : "it"} to my record?`);
+    }
     if (report.safety.critical.length > 0) qs.push("I noticed my allergy records differ between providers. Can we reconcile my allergy list?");
     if (report.safety.high.length > 0) qs.push(`I have ${report.safety.high.length} medication(s) only at one provider. Are all my doctors aware of all my medications?`);
     if (report.labs.abnormal.length > 0) qs.push(`I have ${report.labs.abnormal.length} abnormal lab result(s). What do these mean for my treatment plan?`);
@@ -291,6 +345,14 @@ const PreVisitPage = () => {
     const lines: string[] = [];
     lines.push(`PRE-VISIT HEALTH REPORT — ${report.patient.firstName} ${report.patient.lastName}`);
     lines.push(`Generated: ${new Date(report.generatedAt).toLocaleDateString()}\n`);
+    if (report.visit) {
+      lines.push(`Prepared for: ${describeVisit(report.visit)}\n`);
+      if (report.visit.unseenCount > 0) {
+        lines.push(`=== NOT IN ${report.visit.source.systemName.toUpperCase()}'S RECORDS (${report.visit.unseenCount}) ===`);
+        unseenItems(report.visit).forEach((item) => lines.push(`• ${item}`));
+        lines.push("");
+      }
+    }
     if (narrative?.narrative) { lines.push("=== HEALTH SUMMARY ==="); lines.push(narrative.narrative + "\n"); }
     lines.push(`=== MEDICATIONS (${report.medications.active.length} active) ===`);
     report.medications.active.forEach((m) => lines.push(`• ${m.name} — ${m.dosageInstruction ?? "no dosage"}`));
@@ -332,7 +394,11 @@ const PreVisitPage = () => {
                 {report.patient.firstName} {report.patient.lastName} · {report.dataSources.length} provider{report.dataSources.length !== 1 ? "s" : ""} · {new Date(report.generatedAt).toLocaleDateString("en-US", { month: "long", day: "numeric", year: "numeric" })}
               </span>
             </div>
-            <p className="text-xs text-emerald-600 mt-0.5">Review before your next appointment — bring this to help your provider focus on what matters.</p>
+            <p className="text-xs text-emerald-600 mt-0.5">
+              {report.visit
+                ? `Prepared for your ${describeVisit(report.visit)}.`
+                : "Review before your next appointment — bring this to help your provider focus on what matters."}
+            </p>
           </div>
         </div>
         <div className="flex items-center gap-1.5">
@@ -364,6 +430,31 @@ const PreVisitPage = () => {
         </div>
       </div>
 
+      {/* ===== NEXT VISIT — what that system hasn't seen ===== */}
+      {report.visit && (
+        <div className={`rounded-lg border px-3.5 py-2 mb-2 shrink-0 ${report.visit.unseenCount > 0 ? "bg-amber-50 border-amber-200" : "bg-emerald-50 border-emerald-200"}`}>
+          <div className="flex items-center gap-2">
+            <CalendarClock className={`w-4 h-4 shrink-0 ${report.visit.unseenCount > 0 ? "text-amber-600" : "text-emerald-600"}`} />
+            <span className="text-xs font-bold text-slate-800">
+              {report.visit.unseenCount > 0
+                ? `Not in ${report.visit.source.systemName}'s records (${report.visit.unseenCount})`
+                : `${report.visit.source.systemName} already has everything in this report`}
+            </span>
+            <SourceBadge source={report.visit.source} compact />
+            {report.visit.appointment.patientInstruction && (
+              <span className="ml-auto text-[11px] text-slate-600 truncate">{report.visit.appointment.patientInstruction}</span>
+            )}
+          </div>
+          {report.visit.unseenCount > 0 && (
+            <div className="flex flex-wrap gap-1 mt-1.5">
+              {unseenItems(report.visit).map((item) => (
+                <span key={item} className="text-[11px] px-1.5 py-0.5 rounded bg-white border border-amber-200 text-slate-700">{item}</span>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* ===== AI NARRATIVE (when generated) ===== */}
       {narrative && (
         <div className="bg-gradient-to-r from-emerald-50 to-teal-50 rounded-lg border border-emerald-200 px-3.5 py-2.5 mb-2 shrink-0">
@@ -419,7 +510,7 @@ const PreVisitPage = () => {
               <div className="text-[11px] font-bold text-red-700 uppercase tracking-wide mb-1">⚠ Drug Interactions ({report.medications.interactions.length})</div>
               {report.medications.interactions.map((di) => (
                 <div key={di.id} className="text-xs text-red-800 leading-snug mb-1.5 last:mb-0">
-                  Taking <span className="font-bold">{di.drugA}</span> with <span className="font-bold">{di.drugB}</span> may cause: <span className="font-semibold">{di.effect}</span>. Discuss with your provider.
+                  Taking <span className="font-bold">{di.drugA}</span> with {di.kind === "drug-condition" && "your "}<span className="font-bold">{di.drugB}</span> may cause: <span className="font-semibold">{di.effect}</span>. Discuss with your provider.
                 </div>
               ))}
             </div>
@@ -450,19 +541,26 @@ const PreVisitPage = () => {
             <span className={`text-[11px] px-1.5 py-0.5 rounded-full font-bold ${allAlerts.length > 0 ? "text-red-700 bg-red-100" : "text-emerald-700 bg-emerald-100"}`}>{allAlerts.length}</span>
           </div>
           {allAlerts.length === 0 ? (
-            <p className="text-xs text-emerald-600 font-medium">✓ No safety concerns</p>
+            <p className="text-xs text-emerald-600 font-medium">
+              ✓ No safety concerns{report.safety.closedCount > 0 && ` (${report.safety.closedCount} resolved)`}
+            </p>
           ) : (
             <div className="space-y-1 mb-3">
-              {allAlerts.map((a) => (
-                <div key={a.id} className="py-1 border-b border-slate-100 last:border-0">
+              {allAlerts.map((a) => {
+                const status = conflictStatuses.get(a.conflictId) ?? "new";
+                return (
+                <div key={a.conflictId} className="py-1 border-b border-slate-100 last:border-0">
                   <div className="flex items-center gap-1 mb-0.5">
                     <span className={`text-[9px] px-1 py-0.5 rounded font-bold uppercase ${a.severity === "critical" ? "bg-red-100 text-red-700" : a.severity === "high" ? "bg-amber-100 text-amber-700" : "bg-yellow-100 text-yellow-700"}`}>{a.severity}</span>
-                    <span className="text-[11px] text-slate-600 truncate">{a.category}</span>
+                    {status !== "new" && (
+                      <span className={`text-[9px] px-1 py-0.5 rounded font-bold ${CONFLICT_STATUS[status].bg} ${CONFLICT_STATUS[status].text}`}>{CONFLICT_STATUS[status].label}</span>
+                    )}
                   </div>
                   <div className="text-xs text-slate-800 leading-tight font-bold">{a.title}</div>
                   <div className="text-[11px] text-slate-600 leading-snug">{a.explanation}</div>
                 </div>
-              ))}
+                );
+              })}
             </div>
           )}
 
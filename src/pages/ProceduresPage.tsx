@@ -0,0 +1,244 @@
+// -----------------------------------------------------------
+// ProceduresPage — Procedure history across all systems
+// -----------------------------------------------------------
+// Viewport-fit two-column layout, same shell as Medications.
+// Left: procedures grouped by year (newest first) with search.
+// Right: detail panel, or screening status from the care gap
+// rules (colonoscopy / mammogram) when nothing is selected.
+// -----------------------------------------------------------
+
+import { useState, useMemo } from "react";
+import { Scissors, Search, X, CalendarClock, CheckCircle2, AlertTriangle } from "lucide-react";
+import { useUnifiedData } from "../hooks/useUnifiedData";
+import { usePatient } from "../hooks/usePatient";
+import { useAIAnalysis } from "../hooks/useAIAnalysis";
+import SourceBadge from "../components/ui/SourceBadge";
+import MergeBadge from "../components/ui/MergeBadge";
+import MergeOverrideControls from "../components/data/MergeOverrideControls";
+import AlternateValuesPanel, { type AlternateField } from "../components/data/AlternateValuesPanel";
+import { SkeletonCardList, EmptyState } from "../components/ui/Skeleton";
+import type { MergedProcedure } from "../types/merged";
+import type { Procedure } from "../types/procedure";
+
+/** Care gap rule ids backed by procedure records */
+const SCREENING_GAP_IDS = ["colonoscopy-screening", "mammogram-screening"];
+
+function formatDate(date?: string): string {
+  if (!date) return "Date unknown";
+  return new Date(date).toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" });
+}
+
+/** Fields compared in "Other systems say…" */
+const ALTERNATE_FIELDS: AlternateField<Procedure>[] = [
+  { label: "Date", value: (p) => p.performedDate && formatDate(p.performedDate) },
+  { label: "Status", value: (p) => p.status },
+  { label: "Outcome", value: (p) => p.outcome },
+  { label: "Performed by", value: (p) => p.performer },
+  { label: "Location", value: (p) => p.location },
+];
+
+const ProceduresPage = () => {
+  const unified = useUnifiedData();
+  const { patient } = usePatient();
+  const ai = useAIAnalysis(patient, unified);
+
+  const [search, setSearch] = useState("");
+  const [selected, setSelected] = useState<MergedProcedure | null>(null);
+
+  const filtered = useMemo(() => {
+    const q = search.trim().toLowerCase();
+    if (!q) return unified.procedures;
+    return unified.procedures.filter(
+      (p) =>
+        p.name.toLowerCase().includes(q) ||
+        (p.reason?.toLowerCase().includes(q) ?? false) ||
+        (p.location?.toLowerCase().includes(q) ?? false)
+    );
+  }, [unified.procedures, search]);
+
+  // Group by year — procedures arrive sorted newest first from the merge engine
+  const byYear = useMemo(() => {
+    const groups = new Map<string, MergedProcedure[]>();
+    for (const proc of filtered) {
+      const year = proc.performedDate?.slice(0, 4) ?? "Undated";
+      if (!groups.has(year)) groups.set(year, []);
+      groups.get(year)!.push(proc);
+    }
+    return [...groups.entries()];
+  }, [filtered]);
+
+  const screeningGaps = (ai.tier1?.careGaps ?? []).filter((g) => SCREENING_GAP_IDS.includes(g.id));
+
+  if (unified.isLoading) {
+    return (<div className="h-full flex flex-col items-center justify-center"><SkeletonCardList count={5} /></div>);
+  }
+  if (unified.procedures.length === 0) {
+    return (<div className="h-full flex items-center justify-center"><EmptyState icon={Scissors} title="No procedures found" description="No procedure records were found across connected health systems." /></div>);
+  }
+
+  return (
+    <div className="h-full flex flex-col overflow-hidden animate-content-reveal">
+      {/* ===== HEADER ROW ===== */}
+      <div className="flex items-center gap-2.5 shrink-0 pb-2">
+        <Scissors className="w-7 h-7 text-indigo-600" />
+        <h1 className="text-2xl font-bold text-slate-900">Procedures</h1>
+        <span className="text-xs px-2 py-0.5 rounded-full bg-indigo-100 text-indigo-700 font-bold">
+          {unified.procedures.length} total
+        </span>
+      </div>
+
+      {/* ===== SEARCH ===== */}
+      <div className="shrink-0 relative pb-2">
+        <Search className="w-3.5 h-3.5 text-slate-400 absolute left-3 top-[calc(50%-4px)] -translate-y-1/2" />
+        <input type="text" placeholder="Search procedures, reasons, locations..." value={search} onChange={(e) => setSearch(e.target.value)}
+          className="w-full pl-9 pr-3 py-1.5 text-sm bg-white border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-400 transition-all" />
+      </div>
+
+      {/* ===== MAIN TWO-COLUMN ===== */}
+      <div className="flex-1 min-h-0 grid grid-cols-[1fr_1fr] gap-3">
+
+        {/* LEFT — Procedure timeline */}
+        <div className="flex flex-col min-h-0 bg-white rounded-xl border border-slate-200 overflow-hidden">
+          <div className="flex-1 overflow-y-auto">
+            {byYear.length === 0 ? (
+              <div className="p-6 text-center text-sm text-slate-400">No procedures match</div>
+            ) : byYear.map(([year, procs]) => (
+              <div key={year}>
+                <div className="sticky top-0 px-3 py-1 bg-slate-50 border-b border-slate-100 text-xs font-bold text-slate-500">{year}</div>
+                {procs.map((proc) => {
+                  const isSelected = selected?.id === proc.id;
+                  return (
+                    <button key={proc.id} onClick={() => setSelected(isSelected ? null : proc)}
+                      className={`w-full flex items-center gap-2 px-3 py-2 text-left border-b border-slate-100 last:border-0 transition-all ${
+                        isSelected ? "bg-indigo-50 border-l-2 border-l-indigo-500" : "hover:bg-slate-50 border-l-2 border-l-transparent"
+                      }`}>
+                      <div className="flex-1 min-w-0">
+                        <div className="text-[15px] font-semibold text-slate-900 truncate">{proc.name}</div>
+                        <div className="text-sm text-slate-500 truncate">
+                          {formatDate(proc.performedDate)}{proc.location ? ` · ${proc.location}` : ""}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-0.5 shrink-0">
+                        {[...new Map(proc.allSources.map((s) => [s.systemId, s])).values()].map((s) => (
+                          <SourceBadge key={s.systemId} source={s} compact />
+                        ))}
+                      </div>
+                      {proc.status !== "completed" && (
+                        <span className="text-xs px-1.5 py-0.5 rounded-full font-semibold shrink-0 bg-amber-100 text-amber-700">
+                          {proc.status}
+                        </span>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* RIGHT — Detail panel */}
+        <div className="flex flex-col min-h-0 bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+          {selected ? (
+            <>
+              <div className="flex items-center gap-2 px-4 py-3 border-b border-slate-100 shrink-0 bg-slate-50">
+                <Scissors className="w-5 h-5 text-indigo-600" />
+                <h2 className="text-sm font-bold text-slate-900 truncate">{selected.name}</h2>
+                <button onClick={() => setSelected(null)} className="ml-auto w-7 h-7 flex items-center justify-center rounded-lg hover:bg-slate-200 transition-colors">
+                  <X className="w-4 h-4 text-slate-500" />
+                </button>
+              </div>
+              <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="text-xs px-2.5 py-1 rounded-full font-medium bg-slate-100 text-slate-600">{selected.status}</span>
+                  <MergeBadge status={selected.mergeStatus} overrides={selected.userOverrides} />
+                  {selected.allSources.map((s) => <SourceBadge key={s.systemId} source={s} compact />)}
+                </div>
+
+                <div className="flex gap-4 flex-wrap text-sm text-slate-600">
+                  <div><span className="font-medium text-slate-700">Date:</span> {formatDate(selected.performedDate)}</div>
+                  {selected.category && <div><span className="font-medium text-slate-700">Type:</span> {selected.category}</div>}
+                  {selected.bodySite && <div><span className="font-medium text-slate-700">Site:</span> {selected.bodySite}</div>}
+                </div>
+
+                {selected.reason && (
+                  <div>
+                    <div className="text-xs font-bold text-slate-500 uppercase mb-1">Reason</div>
+                    <p className="text-sm text-slate-700">{selected.reason}</p>
+                  </div>
+                )}
+
+                {selected.outcome && (
+                  <div>
+                    <div className="text-xs font-bold text-slate-500 uppercase mb-1">Outcome</div>
+                    <p className="text-sm text-slate-700">{selected.outcome}</p>
+                  </div>
+                )}
+
+                <div className="flex gap-4 flex-wrap text-sm text-slate-600">
+                  {selected.performer && <div><span className="font-medium text-slate-700">Performed by:</span> {selected.performer}</div>}
+                  {selected.location && <div><span className="font-medium text-slate-700">Location:</span> {selected.location}</div>}
+                </div>
+
+                {selected.codes.length > 0 && (
+                  <div>
+                    <div className="text-xs font-bold text-slate-500 uppercase mb-1">Codes</div>
+                    <div className="flex flex-wrap gap-1">
+                      {selected.codes.map((c) => (
+                        <span key={`${c.system}|${c.code}`} className="text-xs px-2 py-0.5 rounded bg-slate-100 text-slate-600" title={c.display}>
+                          {c.system?.includes("snomed") ? "SNOMED" : c.system?.includes("cpt") ? "CPT" : "Code"} {c.code}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <AlternateValuesPanel record={selected} fields={ALTERNATE_FIELDS} />
+
+                <div>
+                  <div className="text-xs font-bold text-slate-500 uppercase mb-1">Sources</div>
+                  <p className="text-sm text-slate-600">{selected.allSources.map((s) => s.systemName).join(", ")}</p>
+                </div>
+
+                <MergeOverrideControls
+                  domain="procedures"
+                  record={selected}
+                  candidates={unified.procedures.map((p) => ({ record: p, label: `${p.name} — ${formatDate(p.performedDate)}` }))}
+                  onChange={() => setSelected(null)}
+                />
+              </div>
+            </>
+          ) : (
+            /* --- Screening status --- */
+            <div className="flex-1 flex flex-col p-4 gap-3 overflow-y-auto">
+              <div className="flex items-center gap-2">
+                <CalendarClock className="w-5 h-5 text-indigo-600" />
+                <h2 className="text-sm font-bold text-slate-900">Screening Status</h2>
+              </div>
+              {screeningGaps.length === 0 ? (
+                <p className="text-sm text-slate-500">
+                  No procedure-based screenings are recommended for you yet. Select a procedure to see its details.
+                </p>
+              ) : screeningGaps.map((gap) => (
+                <div key={gap.id} className={`p-3 rounded-xl border ${gap.isOverdue ? "bg-amber-50 border-amber-200" : "bg-emerald-50 border-emerald-200"}`}>
+                  <div className="flex items-center gap-2">
+                    {gap.isOverdue
+                      ? <AlertTriangle className="w-4 h-4 text-amber-600 shrink-0" />
+                      : <CheckCircle2 className="w-4 h-4 text-emerald-600 shrink-0" />}
+                    <span className="text-sm font-semibold text-slate-800">{gap.recommendation}</span>
+                  </div>
+                  <p className="text-sm text-slate-600 mt-1">
+                    {gap.lastPerformed ? `Last done ${formatDate(gap.lastPerformed)}` : "No record on file"}
+                    {gap.isOverdue ? " — due now" : " — up to date"}
+                  </p>
+                  <p className="text-xs text-slate-400 mt-1">{gap.guideline} ({gap.guidelineSource})</p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProceduresPage;
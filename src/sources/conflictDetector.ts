@@ -11,6 +11,10 @@
 //   3. missing-crossref     → Med in one system, invisible to other (medium/high)
 //   4. contradictory-condition → Active in A, resolved in B (medium)
 //   5. allergy-gap          → Real allergies in A, none recorded in B (critical)
+//   6. lab-discrepancy      → Same test, same day, values beyond analytic tolerance (high/medium)
+//   7. duplicate-therapy    → Two active drugs in one class, different prescribers (high/medium)
+//   8. immunization-date-mismatch → Same dose, materially different dates (medium)
+//   9. demographic-mismatch → Matched patient records disagree on DOB/sex/address (high/medium)
 //
 // SAFETY PRINCIPLE: Over-alert is better than under-alert.
 // A false positive alert can be dismissed by a clinician.
@@ -25,83 +29,65 @@
 // -----------------------------------------------------------
 
 import type { SourceTag } from "../types/source";
-import type { Conflict, ConflictResource } from "../types/merged";
+import type { Conflict, ConflictResource, MergedMedication } from "../types/merged";
+import type { LabResult } from "../types/labResult";
+import type { SourcePatient } from "../types/patient";
 import type { MergeResult } from "./mergeEngine";
+import { resolveDrug, matchesDrug, sameIngredients } from "../utils/rxnorm";
+import { describeRegimen } from "../utils/dosageRegimen";
+import { comparableValue, comparableRange } from "../utils/labUnits";
+import { findLabGroup, labGroupKey, labDisplayName } from "../utils/loincGroups";
+import type { DrugMatcher } from "../utils/rxnorm";
 
 // -----------------------------------------------------------
 // Drug-Allergy Cross-Reference Map
 // -----------------------------------------------------------
-// Maps an allergy substance (normalized lowercase) to drug names
-// that should trigger a conflict if prescribed.
+// Maps an allergy (by the ingredients/classes its substance
+// resolves to) to the ingredients and drug classes that should
+// trigger a conflict if prescribed. Both sides go through the
+// bundled RxNorm table, so "Augmentin" hits a penicillin allergy
+// and an allergy recorded as "Amoxicillin" counts as penicillin.
 //
 // Sources: FDA Drug Safety Communications, UpToDate cross-reactivity tables
 // NOTE: In production, this would be a proper drug interaction database
 // (e.g., First Databank, Medi-Span). For the demo, we cover the key
 // relationships relevant to our synthetic data.
 
-const DRUG_ALLERGY_CROSSREF: Record<string, string[]> = {
-  penicillin: [
-    "penicillin",
-    "amoxicillin",
-    "ampicillin",
-    "augmentin",
-    "amoxicillin-clavulanate",
-    "ampicillin-sulbactam",
-    "piperacillin",
-    "piperacillin-tazobactam",
-    "nafcillin",
-    "oxacillin",
-    "dicloxacillin",
-    "ticarcillin",
+interface AllergyCrossRef {
+  /** Allergies this entry applies to */
+  allergy: DrugMatcher;
+  /** Medications that conflict with it */
+  drugs: DrugMatcher;
+}
+
+const DRUG_ALLERGY_CROSSREF: Record<string, AllergyCrossRef> = {
+  penicillin: {
+    allergy: { classes: ["penicillin"] },
     // Cross-reactivity with cephalosporins (~1-2% risk)
-    "cephalexin",
-    "cefazolin",
-    "ceftriaxone",
-    "cefdinir",
-    "cefuroxime",
-  ],
-  sulfa: [
-    "sulfamethoxazole",
-    "trimethoprim-sulfamethoxazole",
-    "bactrim",
-    "septra",
-    "sulfasalazine",
-    "sulfadiazine",
-    "dapsone", // possible cross-sensitivity
-  ],
-  ibuprofen: [
-    "ibuprofen",
-    "advil",
-    "motrin",
-    // Note: ibuprofen intolerance may indicate broader NSAID sensitivity
-    "naproxen",
-    "aleve",
-    "diclofenac",
-    "meloxicam",
-    "ketorolac",
-    "indomethacin",
-    "piroxicam",
-  ],
-  aspirin: [
-    "aspirin",
-    "acetylsalicylic acid",
+    drugs: { classes: ["penicillin", "cephalosporin"] },
+  },
+  sulfa: {
+    allergy: { classes: ["sulfonamide-antibiotic"] },
+    drugs: {
+      classes: ["sulfonamide-antibiotic"],
+      ingredients: ["sulfasalazine", "dapsone"], // possible cross-sensitivity
+    },
+  },
+  NSAID: {
+    allergy: { classes: ["nsaid"] },
+    // Intolerance to one NSAID may indicate broader NSAID sensitivity
+    drugs: { classes: ["nsaid"] },
+  },
+  aspirin: {
+    allergy: { ingredients: ["aspirin"] },
     // Aspirin-sensitive patients may also react to NSAIDs
-    "ibuprofen",
-    "naproxen",
-  ],
-  cephalosporin: [
-    "cephalexin",
-    "cefazolin",
-    "ceftriaxone",
-    "cefdinir",
-    "cefuroxime",
-    "ceftazidime",
-    "cefepime",
-    "cefotaxime",
+    drugs: { ingredients: ["aspirin"], classes: ["nsaid"] },
+  },
+  cephalosporin: {
+    allergy: { classes: ["cephalosporin"] },
     // Some cross-reactivity with penicillins
-    "amoxicillin",
-    "ampicillin",
-  ],
+    drugs: { classes: ["cephalosporin"], ingredients: ["amoxicillin", "ampicillin"] },
+  },
 };
 
 // -----------------------------------------------------------
@@ -151,19 +137,39 @@ function getHighRiskReason(medName: string): string | null {
 }
 
 // -----------------------------------------------------------
-// Conflict ID generation
+// Conflict IDs + fingerprints
 // -----------------------------------------------------------
+// IDs come from the original record IDs involved (mergedFromIds,
+// sorted), never from detection order, so a patient's review of a
+// conflict (sources/conflictReviews) finds it again on every load.
+// The fingerprint hashes what the conflict says — doses, statuses,
+// the allergy list — so a review lapses when that data changes.
+
+/** FNV-1a (32-bit) — short, stable hash for IDs and fingerprints */
+function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
 
-let conflictCounter = 0;
-
-function makeConflictId(type: string): string {
-  conflictCounter++;
-  return `conflict-${type}-${conflictCounter}`;
+function makeConflictId(type: string, recordIds: string[]): string {
+  return `conflict-${type}-${hashText([...recordIds].sort().join("|"))}`;
 }
 
-/** Reset counter (for testing or re-runs) */
-export function resetConflictCounter(): void {
-  conflictCounter = 0;
+/** A conflict as a detector reports it, before fingerprinting */
+type DetectedConflict = Omit<Conflict, "fingerprint">;
+
+function conflictFingerprint(conflict: DetectedConflict): string {
+  return hashText(
+    [
+      conflict.severity,
+      conflict.description,
+      ...conflict.resources.map((r) => `${r.resourceId}:${r.display}`).sort(),
+    ].join("\n")
+  );
 }
 
 // -----------------------------------------------------------
@@ -173,22 +179,26 @@ export function resetConflictCounter(): void {
 // This means two providers prescribed the same drug at different
 // doses — patient might be taking both, or confused about which.
 
-function detectDoseMismatch(mergeResult: MergeResult): Conflict[] {
-  const conflicts: Conflict[] = [];
+function detectDoseMismatch(mergeResult: MergeResult): DetectedConflict[] {
+  const conflicts: DetectedConflict[] = [];
 
   for (const med of mergeResult.medications) {
     if (med.mergeStatus !== "conflict") continue;
 
     // This medication was merged but marked as conflict by the merge engine
-    // (meaning same drug, different dose)
+    // (meaning same drug, different total daily dose)
+    const regimens = (med.sourceRegimens ?? [])
+      .map((r) => `${r.source.systemName}: ${r.regimen ? describeRegimen(r.regimen) : `"${r.dosageInstruction ?? "unknown"}"`}`)
+      .join("; ");
+
     conflicts.push({
-      id: makeConflictId("dose"),
+      id: makeConflictId("dose", med.mergedFromIds),
       type: "dose-mismatch",
       severity: "high",
       description:
         `${med.name} is prescribed at different doses by ${med.allSources.map((s) => s.systemName).join(" and ")}. ` +
         `Patient may be confused about the correct dose. ` +
-        `Dosage: "${med.dosageInstruction ?? "unknown"}" — verify with both providers.`,
+        `${regimens || `Dosage: "${med.dosageInstruction ?? "unknown"}"`} — verify with both providers.`,
       resources: med.allSources.map((src) => ({
         resourceType: "Medication" as const,
         resourceId: med.mergedFromIds[med.allSources.indexOf(src)] ?? med.id,
@@ -210,17 +220,18 @@ function detectDoseMismatch(mergeResult: MergeResult): Conflict[] {
 // class is prescribed in Source B. This is the most dangerous
 // cross-system failure — the prescriber didn't know about the allergy.
 
-function detectAllergyPrescription(mergeResult: MergeResult): Conflict[] {
-  const conflicts: Conflict[] = [];
+function detectAllergyPrescription(mergeResult: MergeResult): DetectedConflict[] {
+  const conflicts: DetectedConflict[] = [];
 
   for (const allergy of mergeResult.allergies) {
-    // Find matching drug class
-    const normalizedSubstance = allergy.substance.toLowerCase().trim();
+    // Resolve the substance like a drug ("Penicillin G", "Sulfa drugs")
+    const allergen = resolveDrug({ name: allergy.substance, codes: allergy.codes });
+    const flagged = new Set<string>(); // one alert per allergy × medication
 
     // Check each known allergy class
-    for (const [allergyClass, relatedDrugs] of Object.entries(DRUG_ALLERGY_CROSSREF)) {
+    for (const [allergyClass, crossRef] of Object.entries(DRUG_ALLERGY_CROSSREF)) {
       // Does this allergy match this class?
-      if (!normalizedSubstance.includes(allergyClass)) continue;
+      if (!matchesDrug(allergen, crossRef.allergy)) continue;
 
       // Check all medications for drugs in this class
       for (const med of mergeResult.medications) {
@@ -228,12 +239,13 @@ function detectAllergyPrescription(mergeResult: MergeResult): Conflict[] {
         // We only flag CROSS-SYSTEM conflicts
         if (med.source.systemId === allergy.source.systemId) continue;
 
-        const normalizedMedName = med.name.toLowerCase();
-        const isMatch = relatedDrugs.some((drug) => normalizedMedName.includes(drug));
+        if (flagged.has(med.id)) continue;
+        const isMatch = matchesDrug(med.rxnorm ?? resolveDrug(med), crossRef.drugs);
 
         if (isMatch) {
+          flagged.add(med.id);
           conflicts.push({
-            id: makeConflictId("allergy-rx"),
+            id: makeConflictId("allergy-rx", [...allergy.mergedFromIds, ...med.mergedFromIds]),
             type: "allergy-prescription",
             severity: "critical",
             description:
@@ -278,8 +290,8 @@ function detectAllergyPrescription(mergeResult: MergeResult): Conflict[] {
 // Only flags ACTIVE medications — stopped/completed meds are
 // less clinically urgent (though still relevant for history).
 
-function detectMissingCrossRef(mergeResult: MergeResult): Conflict[] {
-  const conflicts: Conflict[] = [];
+function detectMissingCrossRef(mergeResult: MergeResult): DetectedConflict[] {
+  const conflicts: DetectedConflict[] = [];
 
   // Collect all known source systems from the merged data
   const allSourceSystems = new Map<string, SourceTag>();
@@ -313,7 +325,7 @@ function detectMissingCrossRef(mergeResult: MergeResult): Conflict[] {
         `${otherNames} ${otherSources.length === 1 ? "is" : "are"} unaware of this active medication.`;
 
     conflicts.push({
-      id: makeConflictId("crossref"),
+      id: makeConflictId("crossref", med.mergedFromIds),
       type: "missing-crossref",
       severity,
       description,
@@ -341,15 +353,15 @@ function detectMissingCrossRef(mergeResult: MergeResult): Conflict[] {
 // This matters for care planning — is the condition ongoing
 // or has it been treated?
 
-function detectContradictoryCondition(mergeResult: MergeResult): Conflict[] {
-  const conflicts: Conflict[] = [];
+function detectContradictoryCondition(mergeResult: MergeResult): DetectedConflict[] {
+  const conflicts: DetectedConflict[] = [];
 
   for (const condition of mergeResult.conditions) {
     if (condition.mergeStatus !== "conflict") continue;
 
     // Merged as conflict = same condition, different clinical status
     conflicts.push({
-      id: makeConflictId("condition"),
+      id: makeConflictId("condition", condition.mergedFromIds),
       type: "contradictory-condition",
       severity: "medium",
       description:
@@ -379,8 +391,8 @@ function detectContradictoryCondition(mergeResult: MergeResult): Conflict[] {
 //
 // This is the #1 demo story for patient safety.
 
-function detectAllergyGap(mergeResult: MergeResult): Conflict[] {
-  const conflicts: Conflict[] = [];
+function detectAllergyGap(mergeResult: MergeResult): DetectedConflict[] {
+  const conflicts: DetectedConflict[] = [];
 
   // Are there real allergies in the merged data?
   const realAllergyCount = mergeResult.allergies.length;
@@ -414,7 +426,7 @@ function detectAllergyGap(mergeResult: MergeResult): Conflict[] {
     const allergySourceTag = [...allergySources.values()][0];
 
     conflicts.push({
-      id: makeConflictId("allergy-gap"),
+      id: makeConflictId("allergy-gap", [absenceSource.systemId]),
       type: "allergy-gap",
       severity: "critical",
       description:
@@ -437,6 +449,330 @@ function detectAllergyGap(mergeResult: MergeResult): Conflict[] {
   return conflicts;
 }
 
+// -----------------------------------------------------------
+// Detector: Lab Discrepancy
+// -----------------------------------------------------------
+// The same test on the same day from two systems, with values
+// further apart than the assay itself can explain. Different
+// values for one blood draw usually mean a transcription error,
+// a wrong unit, or a specimen mix-up — and one of them is what a
+// provider will act on.
+//
+// Tolerances are CLIA acceptance limits (2024): a reading within
+// max(absolute, percent × value) of the other is the same result.
+// Severity is high when the two readings fall on different sides
+// of the reference range (one says normal, the other doesn't).
+
+interface AnalyticTolerance {
+  /** Allowed difference in the canonical unit */
+  absolute?: number;
+  /** Allowed difference as a fraction of the larger value */
+  relative: number;
+}
+
+/** By lab equivalence group (utils/loincGroups); others use DEFAULT_TOLERANCE */
+const ANALYTIC_TOLERANCES: Record<string, AnalyticTolerance> = {
+  "glucose": { absolute: 6, relative: 0.08 },
+  "fasting-glucose": { absolute: 6, relative: 0.08 },
+  "a1c": { relative: 0.08 },
+  "total-cholesterol": { relative: 0.1 },
+  "ldl-cholesterol": { relative: 0.2 },
+  "hdl-cholesterol": { absolute: 6, relative: 0.2 },
+  "triglycerides": { relative: 0.15 },
+  "creatinine": { absolute: 0.2, relative: 0.1 },
+  "hemoglobin": { relative: 0.04 },
+  "potassium": { absolute: 0.3, relative: 0 },
+  "sodium": { absolute: 4, relative: 0 },
+  "bun": { absolute: 2, relative: 0.09 },
+  "tsh": { relative: 0.2 },
+  "inr": { relative: 0.15 },
+};
+
+const DEFAULT_TOLERANCE: AnalyticTolerance = { relative: 0.1 };
+
+/** Is a value outside its reference range? (undefined when there is no range) */
+function outOfRange(value: number, range?: { low?: number; high?: number }): boolean | undefined {
+  if (!range || (range.low == null && range.high == null)) return undefined;
+  return (range.low != null && value < range.low) || (range.high != null && value > range.high);
+}
+
+function detectLabDiscrepancy(mergeResult: MergeResult): DetectedConflict[] {
+  const conflicts: DetectedConflict[] = [];
+
+  // Every reading the merge kept — including both sides of a
+  // patient-linked "conflict" merge — grouped by test + day
+  const byTestDay = new Map<string, LabResult[]>();
+  for (const lab of mergeResult.labResults) {
+    if (!lab.effectiveDate) continue;
+    const readings = lab.mergeStatus === "conflict" ? [lab, ...(lab.alternates ?? [])] : [lab];
+    for (const reading of readings) {
+      const key = `${labGroupKey(reading)}@${reading.effectiveDate?.slice(0, 10)}`;
+      byTestDay.set(key, [...(byTestDay.get(key) ?? []), reading]);
+    }
+  }
+
+  for (const readings of byTestDay.values()) {
+    for (let i = 0; i < readings.length; i++) {
+      for (let j = i + 1; j < readings.length; j++) {
+        const [labA, labB] = [readings[i], readings[j]];
+        if (labA.source.systemId === labB.source.systemId) continue;
+
+        const a = comparableValue(labA);
+        const b = comparableValue(labB);
+        if (!a || !b || a.unit !== b.unit) continue;
+
+        const group = findLabGroup(labA);
+        const tolerance = (group && ANALYTIC_TOLERANCES[group.id]) ?? DEFAULT_TOLERANCE;
+        const allowed = Math.max(
+          tolerance.absolute ?? 0,
+          tolerance.relative * Math.max(Math.abs(a.value), Math.abs(b.value))
+        );
+        if (Math.abs(a.value - b.value) <= allowed) continue;
+
+        const flagA = outOfRange(a.value, comparableRange(labA));
+        const flagB = outOfRange(b.value, comparableRange(labB));
+        const name = labDisplayName(labA);
+        const day = labA.effectiveDate!.slice(0, 10);
+
+        conflicts.push({
+          id: makeConflictId("lab", [labA.id, labB.id]),
+          type: "lab-discrepancy",
+          severity: flagA !== undefined && flagB !== undefined && flagA !== flagB ? "high" : "medium",
+          description:
+            `${name} on ${day}: ${labA.source.systemName} reports ${a.value} ${a.unit}, ` +
+            `${labB.source.systemName} reports ${b.value} ${b.unit}. ` +
+            `The difference is larger than the test's analytic tolerance — ` +
+            `verify which result is correct before acting on either.`,
+          resources: [labA, labB].map((lab, idx) => ({
+            resourceType: "LabResult" as const,
+            resourceId: lab.id,
+            display: `${name}: ${[a, b][idx].value} ${[a, b][idx].unit}`,
+            source: lab.source,
+          })),
+          sourceA: labA.source,
+          sourceB: labB.source,
+        });
+      }
+    }
+  }
+
+  return conflicts;
+}
+
+// -----------------------------------------------------------
+// Detector: Duplicate Therapy
+// -----------------------------------------------------------
+// Two different active drugs from the same therapeutic class,
+// prescribed by different people — usually a switch one system
+// never heard about, so the patient may be taking both (double
+// anticoagulation, two SSRIs, two statins).
+//
+// Only classes where doubling up is almost never intended are
+// listed — aspirin + clopidogrel or basal + bolus insulin are
+// deliberate combinations and are left alone.
+
+interface DuplicateTherapyClass {
+  /** Patient-readable class name */
+  label: string;
+  drugs: DrugMatcher;
+  severity: "high" | "medium";
+}
+
+const DUPLICATE_THERAPY_CLASSES: DuplicateTherapyClass[] = [
+  // Bleeding risk
+  { label: "blood thinner", drugs: { classes: ["doac", "vitamin-k-antagonist"] }, severity: "high" },
+  // GI bleeding, kidney injury
+  { label: "NSAID", drugs: { classes: ["nsaid"] }, severity: "high" },
+  // Serotonin syndrome
+  { label: "SSRI", drugs: { classes: ["ssri"] }, severity: "high" },
+  { label: "statin", drugs: { classes: ["statin"] }, severity: "medium" },
+  { label: "ACE inhibitor", drugs: { classes: ["ace-inhibitor"] }, severity: "medium" },
+  { label: "beta blocker", drugs: { classes: ["beta-blocker"] }, severity: "medium" },
+  { label: "calcium channel blocker", drugs: { classes: ["dhp-ccb"] }, severity: "medium" },
+  { label: "calcium channel blocker", drugs: { classes: ["non-dhp-ccb"] }, severity: "medium" },
+  { label: "proton pump inhibitor", drugs: { classes: ["ppi"] }, severity: "medium" },
+  { label: "corticosteroid", drugs: { classes: ["corticosteroid"] }, severity: "medium" },
+];
+
+/** Who prescribed it — the named prescriber, else the system it came from */
+function prescriberOf(med: MergedMedication): { key: string; label: string } {
+  const name = med.prescriber?.trim();
+  return name
+    ? { key: `name:${name.toLowerCase().replace(/[^a-z]+/g, " ").trim()}`, label: `${name} (${med.source.systemName})` }
+    : { key: `system:${med.source.systemId}`, label: med.source.systemName };
+}
+
+function detectDuplicateTherapy(mergeResult: MergeResult): DetectedConflict[] {
+  const conflicts: DetectedConflict[] = [];
+  const active = mergeResult.medications.filter((m) => m.status === "active");
+  const flagged = new Set<string>(); // one alert per medication pair
+
+  for (const therapy of DUPLICATE_THERAPY_CLASSES) {
+    const inClass = active.filter((m) => matchesDrug(m.rxnorm ?? resolveDrug(m), therapy.drugs));
+
+    for (let i = 0; i < inClass.length; i++) {
+      for (let j = i + 1; j < inClass.length; j++) {
+        const [medA, medB] = [inClass[i], inClass[j]];
+        // Same drug is a dose question (dose-mismatch), not duplication
+        if (sameIngredients(medA.rxnorm ?? resolveDrug(medA), medB.rxnorm ?? resolveDrug(medB))) continue;
+
+        const prescriberA = prescriberOf(medA);
+        const prescriberB = prescriberOf(medB);
+        if (prescriberA.key === prescriberB.key) continue;
+
+        const pairKey = [medA.id, medB.id].sort().join("|");
+        if (flagged.has(pairKey)) continue;
+        flagged.add(pairKey);
+
+        conflicts.push({
+          id: makeConflictId("duplicate", [...medA.mergedFromIds, ...medB.mergedFromIds]),
+          type: "duplicate-therapy",
+          severity: therapy.severity,
+          description:
+            `${medA.name} (prescribed by ${prescriberA.label}) and ${medB.name} ` +
+            `(prescribed by ${prescriberB.label}) are both active ${therapy.label} medications. ` +
+            `Two drugs from the same class usually means one was meant to replace the other — ` +
+            `confirm the patient is not taking both.`,
+          resources: [medA, medB].map((med) => ({
+            resourceType: "Medication" as const,
+            resourceId: med.id,
+            display: med.name,
+            source: med.source,
+          })),
+          sourceA: medA.source,
+          sourceB: medB.source,
+        });
+      }
+    }
+  }
+
+  return conflicts;
+}
+
+// -----------------------------------------------------------
+// Detector: Immunization Date Mismatch
+// -----------------------------------------------------------
+// The merge engine treats the same vaccine within 30 days as one
+// dose. When the systems' dates for that dose are more than a
+// week apart, at least one is wrong — and the schedule for the
+// next dose (and care-gap reminders) depends on the right one.
+
+const IMMUNIZATION_DATE_TOLERANCE_DAYS = 7;
+
+function detectImmunizationDateMismatch(mergeResult: MergeResult): DetectedConflict[] {
+  const conflicts: DetectedConflict[] = [];
+
+  for (const imm of mergeResult.immunizations) {
+    const dated = [imm, ...(imm.alternates ?? [])].filter((r) => r.occurrenceDate);
+    if (dated.length < 2) continue;
+
+    const times = dated.map((r) => new Date(r.occurrenceDate!).getTime());
+    const spreadDays = (Math.max(...times) - Math.min(...times)) / (24 * 60 * 60 * 1000);
+    if (spreadDays <= IMMUNIZATION_DATE_TOLERANCE_DAYS) continue;
+
+    const earliest = dated[times.indexOf(Math.min(...times))];
+    const latest = dated[times.indexOf(Math.max(...times))];
+
+    conflicts.push({
+      id: makeConflictId("immunization", imm.mergedFromIds),
+      type: "immunization-date-mismatch",
+      severity: "medium",
+      description:
+        `${imm.vaccineName} is recorded on ${earliest.occurrenceDate!.slice(0, 10)} by ${earliest.source.systemName} ` +
+        `but on ${latest.occurrenceDate!.slice(0, 10)} by ${latest.source.systemName} ` +
+        `(${Math.round(spreadDays)} days apart). Confirm the date before scheduling the next dose.`,
+      resources: dated.map((r) => ({
+        resourceType: "Immunization" as const,
+        resourceId: r.id,
+        display: `${r.vaccineName} (${r.occurrenceDate!.slice(0, 10)})`,
+        source: r.source,
+      })),
+      sourceA: earliest.source,
+      sourceB: latest.source,
+    });
+  }
+
+  return conflicts;
+}
+
+// -----------------------------------------------------------
+// Detector: Demographic Mismatch
+// -----------------------------------------------------------
+// Patient records from two systems were matched as the same
+// person but disagree on date of birth, sex or address. A wrong
+// DOB or sex changes dosing, reference ranges and screening
+// schedules (high); a stale address is a records issue (medium).
+
+/** Lowercase, punctuation-free, common street abbreviations */
+function normalizeAddress(address: string): string {
+  return address
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .replace(/\bstreet\b/g, "st")
+    .replace(/\bavenue\b/g, "ave")
+    .replace(/\broad\b/g, "rd")
+    .replace(/\bdrive\b/g, "dr")
+    .replace(/\bapartment\b/g, "apt")
+    .replace(/\bsuite\b/g, "ste")
+    .trim();
+}
+
+interface DemographicField {
+  label: string;
+  value: (patient: SourcePatient) => string | undefined;
+  normalize: (value: string) => string;
+  severity: "high" | "medium";
+}
+
+const DEMOGRAPHIC_FIELDS: DemographicField[] = [
+  { label: "date of birth", value: (p) => p.demographics.birthDate, normalize: (v) => v.slice(0, 10), severity: "high" },
+  { label: "sex", value: (p) => p.demographics.gender, normalize: (v) => v.trim().toLowerCase(), severity: "high" },
+  { label: "address", value: (p) => p.demographics.address, normalize: normalizeAddress, severity: "medium" },
+];
+
+function detectDemographicMismatch(patients: SourcePatient[]): DetectedConflict[] {
+  const conflicts: DetectedConflict[] = [];
+
+  for (let i = 0; i < patients.length; i++) {
+    for (let j = i + 1; j < patients.length; j++) {
+      const [patientA, patientB] = [patients[i], patients[j]];
+      if (patientA.source.systemId === patientB.source.systemId) continue;
+
+      const differing = DEMOGRAPHIC_FIELDS.filter((field) => {
+        const a = field.value(patientA);
+        const b = field.value(patientB);
+        return a && b && field.normalize(a) !== field.normalize(b);
+      });
+      if (differing.length === 0) continue;
+
+      conflicts.push({
+        id: makeConflictId("demographic", [
+          `${patientA.source.systemId}:${patientA.demographics.id}`,
+          `${patientB.source.systemId}:${patientB.demographics.id}`,
+        ]),
+        type: "demographic-mismatch",
+        severity: differing.some((f) => f.severity === "high") ? "high" : "medium",
+        description:
+          `${patientA.source.systemName} and ${patientB.source.systemName} disagree on the patient's ` +
+          differing
+            .map((f) => `${f.label} ("${f.value(patientA)}" vs "${f.value(patientB)}")`)
+            .join(", ") +
+          `. Confirm which is correct so both systems identify the same person.`,
+        resources: [patientA, patientB].map((p) => ({
+          resourceType: "Patient" as const,
+          resourceId: p.demographics.id,
+          display: `${p.demographics.fullName} (${differing.map((f) => f.value(p)).join(", ")})`,
+          source: p.source,
+        })),
+        sourceA: patientA.source,
+        sourceB: patientB.source,
+      });
+    }
+  }
+
+  return conflicts;
+}
+
 // -----------------------------------------------------------
 // Main Detection Function
 // -----------------------------------------------------------
@@ -448,19 +784,21 @@ function detectAllergyGap(mergeResult: MergeResult): Conflict[] {
  * Within same severity, sorted by conflict type for consistent UI ordering.
  *
  * @param mergeResult - Output from mergeAllDomains()
+ * @param patients - Each merged source's Patient record (demographic checks)
  * @returns Sorted array of all detected conflicts
  */
-export function detectAllConflicts(mergeResult: MergeResult): Conflict[] {
-  // Reset counter for consistent IDs across re-runs
-  resetConflictCounter();
-
+export function detectAllConflicts(mergeResult: MergeResult, patients: SourcePatient[] = []): Conflict[] {
   const allConflicts: Conflict[] = [
     ...detectAllergyGap(mergeResult),            // critical
     ...detectAllergyPrescription(mergeResult),     // critical
     ...detectDoseMismatch(mergeResult),            // high
     ...detectMissingCrossRef(mergeResult),          // medium-high
     ...detectContradictoryCondition(mergeResult),   // medium
-  ];
+    ...detectLabDiscrepancy(mergeResult),           // high-medium
+    ...detectDuplicateTherapy(mergeResult),         // high-medium
+    ...detectImmunizationDateMismatch(mergeResult), // medium
+    ...detectDemographicMismatch(patients),         // high-medium
+  ].map((conflict) => ({ ...conflict, fingerprint: conflictFingerprint(conflict) }));
 
   // Sort by severity, then by type
   const severityOrder: Record<string, number> = { critical: 0, high: 1, medium: 2 };
@@ -470,6 +808,10 @@ export function detectAllConflicts(mergeResult: MergeResult): Conflict[] {
     "dose-mismatch": 2,
     "missing-crossref": 3,
     "contradictory-condition": 4,
+    "duplicate-therapy": 5,
+    "lab-discrepancy": 6,
+    "demographic-mismatch": 7,
+    "immunization-date-mismatch": 8,
   };
 
   allConflicts.sort((a, b) => {
@@ -0,0 +1,105 @@
+// -----------------------------------------------------------
+// Conflict Reviews — The patient's progress on each conflict
+// -----------------------------------------------------------
+// Module-level store of ConflictReviews (acknowledged, discussed
+// with provider, resolved, false positive), saved in localStorage
+// and keyed by the deterministic Conflict.id.
+//
+// A review only counts while its fingerprint matches the conflict
+// detected now: when the underlying data changes (a new dose, an
+// allergy added) the conflict is "new" again and resurfaces.
+//
+// Subscribers (useConflictReviews) are notified on every change.
+// -----------------------------------------------------------
+
+import type { Conflict, ConflictReview, ConflictStatus } from "../types/merged";
+
+type ReviewListener = () => void;
+
+const STORAGE_KEY = "smarthealth_conflict_reviews";
+
+function loadConflictReviews(): ConflictReview[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveConflictReviews(next: ConflictReview[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (err) {
+    console.error("[ConflictReviews] Failed to persist reviews:", err);
+  }
+}
+
+const listeners = new Set<ReviewListener>();
+
+// Snapshot array — replaced (never mutated) on change so React
+// can compare by reference in useSyncExternalStore
+let snapshot: ConflictReview[] = loadConflictReviews();
+
+function update(next: ConflictReview[]): void {
+  snapshot = next;
+  saveConflictReviews(next);
+  listeners.forEach((listener) => listener());
+}
+
+/** Statuses that take a conflict off the safety lists */
+const CLOSED_STATUSES: ConflictStatus[] = ["resolved", "false-positive"];
+
+export function isConflictClosed(status: ConflictStatus): boolean {
+  return CLOSED_STATUSES.includes(status);
+}
+
+/**
+ * Record a status change with an optional note. Setting a status
+ * on a conflict whose data changed since its last review starts
+ * a fresh history.
+ */
+export function setConflictStatus(conflict: Conflict, status: ConflictStatus, note?: string): ConflictReview {
+  const existing = snapshot.find((r) => r.conflictId === conflict.id);
+  const change = { status, note: note?.trim() || undefined, changedAt: new Date().toISOString() };
+  const history = existing && existing.fingerprint === conflict.fingerprint ? existing.history : [];
+
+  const review: ConflictReview = {
+    conflictId: conflict.id,
+    fingerprint: conflict.fingerprint,
+    status,
+    history: [...history, change],
+  };
+  update([...snapshot.filter((r) => r.conflictId !== conflict.id), review]);
+
+  if (import.meta.env.DEV) {
+    console.log(`[ConflictReviews] ${conflict.id} → ${status}`);
+  }
+  return review;
+}
+
+/** The patient's review of a conflict, if it still applies to the current data */
+export function findConflictReview(conflict: Conflict, reviews: ConflictReview[] = snapshot): ConflictReview | undefined {
+  const review = reviews.find((r) => r.conflictId === conflict.id);
+  return review && review.fingerprint === conflict.fingerprint ? review : undefined;
+}
+
+/** Current status of a conflict — "new" when unreviewed or its data changed */
+export function getConflictStatus(conflict: Conflict, reviews: ConflictReview[] = snapshot): ConflictStatus {
+  return findConflictReview(conflict, reviews)?.status ?? "new";
+}
+
+/** All reviews (stable reference between changes) */
+export function getConflictReviews(): ConflictReview[] {
+  return snapshot;
+}
+
+/** Subscribe to review changes. Returns an unsubscribe function. */
+export function subscribeToConflictReviews(listener: ReviewListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,336 @@
+// -----------------------------------------------------------
+// FHIR Source Provider — Any SMART on FHIR R4 server
+// -----------------------------------------------------------
+// Wraps an authenticated fhirclient Client as a SourceProvider.
+// Epic is the first instance; Cerner, Athena, etc. are the same
+// provider with a different client + id + display name.
+//
+// Features:
+//   - All 7 domains in parallel (each fails independently)
+//   - Follows Bundle.link[rel=next] up to FHIR_MAX_PAGES per domain;
+//     a failed page keeps the pages before it and marks the domain
+//     incomplete in domainErrors
+//   - Same Phase 1 parsers as synthetic data
+//   - Module-level cache per provider id with 5-min TTL
+// -----------------------------------------------------------
+
+import type Client from "fhirclient/lib/Client";
+import type { SourceTag } from "../types/source";
+import type { PatientDemographics } from "../types/patient";
+import type { MergeInput } from "./mergeEngine";
+import type {
+  SourceProvider,
+  SourceFetchResult,
+  SourceHealthStatus,
+  SourceProgressListener,
+  DomainFetchProgress,
+  ClinicalDomain,
+} from "./sourceProvider";
+import { IDLE_HEALTH, CLINICAL_DOMAINS, makeSourceTag, healthFromFetch } from "./sourceProvider";
+import { FHIR_MAX_PAGES } from "../config/smart";
+import { parseMedicationBundle } from "../utils/medicationParser";
+import { parseLabResultBundle } from "../utils/labResultParser";
+import { parseVitalBundle } from "../utils/vitalParser";
+import { parseAllergyBundle } from "../utils/allergyParser";
+import { parseConditionBundle } from "../utils/conditionParser";
+import { parseImmunizationBundle } from "../utils/immunizationParser";
+import { parseEncounterBundle } from "../utils/encounterParser";
+import { parseProcedureBundle } from "../utils/procedureParser";
+import { parseDiagnosticReportBundle } from "../utils/diagnosticReportParser";
+import { parseDocumentReferenceBundle } from "../utils/documentReferenceParser";
+import { parseMedicationDispenseBundle } from "../utils/medicationDispenseParser";
+import { parseMedicationStatementBundle } from "../utils/medicationStatementParser";
+import { parseAppointmentBundle } from "../utils/appointmentParser";
+import { parsePatient } from "../utils/patientParser";
+
+// -----------------------------------------------------------
+// Domain → FHIR search + parser
+// -----------------------------------------------------------
+
+const DOMAIN_QUERIES: Record<ClinicalDomain, (patientId: string) => string> = {
+  medications: (id) => `MedicationRequest?patient=${id}&_count=100`,
+  labResults: (id) => `Observation?patient=${id}&category=laboratory&_count=100`,
+  vitals: (id) => `Observation?patient=${id}&category=vital-signs&_count=100`,
+  allergies: (id) => `AllergyIntolerance?patient=${id}&_count=100`,
+  conditions: (id) => `Condition?patient=${id}&_count=100`,
+  immunizations: (id) => `Immunization?patient=${id}&_count=100`,
+  encounters: (id) => `Encounter?patient=${id}&_count=100`,
+  procedures: (id) => `Procedure?patient=${id}&_count=100`,
+  diagnosticReports: (id) => `DiagnosticReport?patient=${id}&_count=100`,
+  documents: (id) => `DocumentReference?patient=${id}&_count=100`,
+  medicationDispenses: (id) => `MedicationDispense?patient=${id}&_count=100`,
+  medicationStatements: (id) => `MedicationStatement?patient=${id}&_count=100`,
+  // Upcoming visits only — past ones are already covered by Encounter
+  appointments: (id) => `Appointment?patient=${id}&date=ge${new Date().toISOString().slice(0, 10)}&_count=100`,
+};
+
+const DOMAIN_PARSERS: {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  [K in ClinicalDomain]: (bundle: any, source: SourceTag) => MergeInput[K];
+} = {
+  medications: parseMedicationBundle,
+  labResults: parseLabResultBundle,
+  vitals: parseVitalBundle,
+  allergies: parseAllergyBundle,
+  conditions: parseConditionBundle,
+  immunizations: parseImmunizationBundle,
+  encounters: parseEncounterBundle,
+  procedures: parseProcedureBundle,
+  diagnosticReports: parseDiagnosticReportBundle,
+  documents: parseDocumentReferenceBundle,
+  medicationDispenses: parseMedicationDispenseBundle,
+  medicationStatements: parseMedicationStatementBundle,
+  appointments: parseAppointmentBundle,
+};
+
+// -----------------------------------------------------------
+// Paging — follow Bundle.link[rel=next]
+// -----------------------------------------------------------
+
+interface PagedSearchResult {
+  /** Every entry from every page received, as one searchset Bundle */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  bundle: any;
+  pagesFetched: number;
+  /** Why paging stopped early — null when the last page was reached */
+  incompleteReason: string | null;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function getNextLink(bundle: any): string | null {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const next = bundle?.link?.find((l: any) => l?.relation === "next");
+  return typeof next?.url === "string" ? next.url : null;
+}
+
+/**
+ * Run a search and follow next links until the last page or the
+ * page cap. Throws only if the FIRST page fails — later failures
+ * keep what was already received and set incompleteReason.
+ */
+async function fetchAllPages(
+  client: Client,
+  query: string,
+  maxPages: number,
+  onPage: (progress: DomainFetchProgress) => void
+): Promise<PagedSearchResult> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const entries: any[] = [];
+  let pagesFetched = 0;
+  let incompleteReason: string | null = null;
+  let url: string | null = query;
+
+  while (url) {
+    if (pagesFetched >= maxPages) {
+      incompleteReason = `Only the first ${maxPages} pages (${entries.length} records) were loaded.`;
+      break;
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    let page: any;
+    try {
+      page = await client.request(url);
+    } catch (err) {
+      if (pagesFetched === 0) throw err;
+      const message = err instanceof Error ? err.message : String(err);
+      incompleteReason = `Loaded ${pagesFetched} page(s) (${entries.length} records) before an error: ${message}`;
+      break;
+    }
+
+    pagesFetched++;
+    entries.push(...(page?.entry ?? []));
+    url = getNextLink(page);
+    onPage({ pagesFetched, resourcesFetched: entries.length, state: url ? "loading" : "complete" });
+  }
+
+  return {
+    bundle: { resourceType: "Bundle", type: "searchset", entry: entries },
+    pagesFetched,
+    incompleteReason,
+  };
+}
+
+// -----------------------------------------------------------
+// Module-level cache — keyed by provider id
+// -----------------------------------------------------------
+
+interface FhirSourceCache {
+  result: SourceFetchResult;
+  timestamp: number;
+}
+
+const CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+const cache = new Map<string, FhirSourceCache>();
+
+function getValidCache(id: string): SourceFetchResult | null {
+  const entry = cache.get(id);
+  if (!entry || Date.now() - entry.timestamp >= CACHE_TTL_MS) return null;
+  return entry.result;
+}
+
+// -----------------------------------------------------------
+// Factory
+// -----------------------------------------------------------
+
+export interface FhirSourceConfig {
+  /** Machine ID, e.g. "epic-sandbox" */
+  id: string;
+  /** Display name, e.g. "Epic MyHealth" */
+  displayName: string;
+  /** Authenticated SMART client for this server */
+  client: Client;
+  /** True for the launch-context server whose patient anchors matching */
+  isPrimary?: boolean;
+  /** Page cap per domain (defaults to FHIR_MAX_PAGES) */
+  maxPages?: number;
+}
+
+/**
+ * Create a SourceProvider backed by a SMART on FHIR server.
+ */
+export function createFhirSourceProvider(config: FhirSourceConfig): SourceProvider {
+  const { id, displayName, client } = config;
+  const maxPages = config.maxPages ?? FHIR_MAX_PAGES;
+  let health: SourceHealthStatus = IDLE_HEALTH;
+
+  const requirePatientId = (): string => {
+    const patientId = client.patient.id;
+    if (!patientId) {
+      throw new Error("No patient ID found in the FHIR client context.");
+    }
+    return patientId;
+  };
+
+  const fetchDomain = async <D extends ClinicalDomain>(
+    domain: D,
+    source: SourceTag
+  ): Promise<MergeInput[D]> => {
+    const { bundle } = await fetchAllPages(
+      client,
+      DOMAIN_QUERIES[domain](requirePatientId()),
+      maxPages,
+      () => {}
+    );
+    return DOMAIN_PARSERS[domain](bundle, source);
+  };
+
+  /** Fetch every domain, keeping partial pages and reporting progress */
+  const fetchDomainsPaged = async (
+    tag: SourceTag,
+    onProgress: SourceProgressListener
+  ): Promise<SourceFetchResult> => {
+    const patientId = requirePatientId();
+    const domainErrors: SourceFetchResult["domainErrors"] = {};
+    const data: MergeInput = {
+      medications: [],
+      labResults: [],
+      vitals: [],
+      allergies: [],
+      conditions: [],
+      immunizations: [],
+      encounters: [],
+      procedures: [],
+      diagnosticReports: [],
+      documents: [],
+      medicationDispenses: [],
+      medicationStatements: [],
+      appointments: [],
+    };
+
+    await Promise.all(
+      CLINICAL_DOMAINS.map(async (domain) => {
+        onProgress(domain, { pagesFetched: 0, resourcesFetched: 0, state: "loading" });
+        try {
+          const paged = await fetchAllPages(client, DOMAIN_QUERIES[domain](patientId), maxPages, (p) =>
+            onProgress(domain, p)
+          );
+          // Each parser returns the array type for its own domain
+          (data as Record<ClinicalDomain, unknown[]>)[domain] = DOMAIN_PARSERS[domain](paged.bundle, tag);
+
+          if (paged.incompleteReason) {
+            domainErrors[domain] = `Incomplete: ${paged.incompleteReason}`;
+            onProgress(domain, {
+              pagesFetched: paged.pagesFetched,
+              resourcesFetched: paged.bundle.entry.length,
+              state: "partial",
+            });
+          }
+        } catch (err) {
+          domainErrors[domain] = err instanceof Error ? err.message : String(err);
+          onProgress(domain, { pagesFetched: 0, resourcesFetched: 0, state: "failed" });
+        }
+      })
+    );
+
+    return { tag, data, domainErrors };
+  };
+
+  const provider: SourceProvider = {
+    id,
+    displayName,
+    auth: {
+      kind: "smart-on-fhir",
+      isAuthenticated: () => Boolean(client.state.tokenResponse?.access_token),
+    },
+    isPrimary: config.isPrimary ?? false,
+
+    fetchPatient: async (): Promise<PatientDemographics | null> => {
+      const fhirPatient = await client.patient.read();
+      return parsePatient(fhirPatient);
+    },
+
+    fetchDomain,
+
+    fetchAll: async (onProgress = () => {}) => {
+      const cached = getValidCache(id);
+      if (cached) {
+        health = healthFromFetch(cached);
+        return cached;
+      }
+
+      if (!provider.auth.isAuthenticated()) {
+        health = { ...IDLE_HEALTH, state: "unauthenticated", message: `Not connected to ${displayName}.` };
+        throw new Error(`Not authenticated. Please connect to ${displayName} first.`);
+      }
+
+      health = { ...health, state: "loading" };
+      const result = await fetchDomainsPaged(makeSourceTag(provider), onProgress);
+      health = healthFromFetch(result);
+
+      // Don't cache a total failure — let the next call retry
+      if (health.state !== "error") {
+        cache.set(id, { result, timestamp: Date.now() });
+      }
+
+      if (import.meta.env.DEV) {
+        console.log(`[FhirSource] ${displayName} data loaded:`, {
+          medications: result.data.medications.length,
+          labResults: result.data.labResults.length,
+          vitals: result.data.vitals.length,
+          allergies: result.data.allergies.length,
+          conditions: result.data.conditions.length,
+          immunizations: result.data.immunizations.length,
+          encounters: result.data.encounters.length,
+          procedures: result.data.procedures.length,
+          diagnosticReports: result.data.diagnosticReports.length,
+          documents: result.data.documents.length,
+          medicationDispenses: result.data.medicationDispenses.length,
+          medicationStatements: result.data.medicationStatements.length,
+          appointments: result.data.appointments.length,
+          domainErrors: result.domainErrors,
+        });
+      }
+
+      return result;
+    },
+
+    getHealth: () => health,
+
+    clearCache: () => {
+      cache.delete(id);
+      health = IDLE_HEALTH;
+    },
+  };
+
+  return provider;
+}
@@ -0,0 +1,111 @@
+// -----------------------------------------------------------
+// Merge Benchmark — Timing + safety checks on a large record
+// -----------------------------------------------------------
+// Runs mergeAllDomains over the generated longitudinal fixture
+// (src/data/benchmark) and checks the merge guarantees that must
+// hold at any size:
+//   - Every input record ends up in exactly one merged record
+//     (mergedFromIds covers each input id once — nothing dropped)
+//   - Every merged record keeps its provenance (allSources)
+//
+// Dev-only: main.tsx exposes it as `window.runMergeBenchmark()`.
+// -----------------------------------------------------------
+
+import type { SourceTag } from "../types/source";
+import type { MergeInput, MergeResult } from "./mergeEngine";
+import { mergeAllDomains } from "./mergeEngine";
+import { makeSourceTag } from "./sourceProvider";
+import { parseVitalBundle } from "../utils/vitalParser";
+import { parseLabResultBundle } from "../utils/labResultParser";
+import {
+  buildLongitudinalObservationBundles,
+  type ObservationFixtureOptions,
+} from "../data/benchmark/longitudinalObservations";
+
+export interface MergeBenchmarkResult {
+  inputRecords: number;
+  mergedRecords: number;
+  /** Records merged across the two sources */
+  confirmed: number;
+  parseMs: number;
+  mergeMs: number;
+  /** Input ids missing from, or repeated in, the merged output */
+  problems: string[];
+}
+
+function observationInput(bundle: unknown, source: SourceTag): MergeInput {
+  return {
+    medications: [],
+    labResults: parseLabResultBundle(bundle, source),
+    vitals: parseVitalBundle(bundle, source),
+    allergies: [],
+    conditions: [],
+    immunizations: [],
+    encounters: [],
+    procedures: [],
+    diagnosticReports: [],
+    documents: [],
+    medicationDispenses: [],
+    medicationStatements: [],
+    appointments: [],
+  };
+}
+
+/** Check every input id appears exactly once and every record keeps its sources */
+function checkGuarantees(inputs: MergeInput[], result: MergeResult): string[] {
+  const problems: string[] = [];
+  const domains = ["labResults", "vitals"] as const;
+
+  for (const domain of domains) {
+    const seen = new Map<string, number>();
+    for (const record of result[domain]) {
+      if (record.allSources.length === 0) problems.push(`${domain}: ${record.id} has no sources`);
+      for (const id of record.mergedFromIds) seen.set(id, (seen.get(id) ?? 0) + 1);
+    }
+    for (const input of inputs) {
+      for (const record of input[domain]) {
+        const count = seen.get(record.id) ?? 0;
+        if (count !== 1) problems.push(`${domain}: ${record.id} appears ${count} times`);
+      }
+    }
+  }
+  return problems;
+}
+
+/**
+ * Parse and merge the benchmark fixture, logging timings and any
+ * broken guarantees.
+ */
+export function runMergeBenchmark(options: ObservationFixtureOptions = {}): MergeBenchmarkResult {
+  const { clinic, hie } = buildLongitudinalObservationBundles(options);
+
+  const parseStart = performance.now();
+  const inputs = [
+    observationInput(clinic, makeSourceTag({ id: "benchmark-clinic", displayName: "Benchmark Clinic" })),
+    observationInput(hie, makeSourceTag({ id: "benchmark-hie", displayName: "Benchmark HIE" })),
+  ];
+  const parseMs = performance.now() - parseStart;
+
+  const mergeStart = performance.now();
+  const result = mergeAllDomains(inputs);
+  const mergeMs = performance.now() - mergeStart;
+
+  const merged = [...result.labResults, ...result.vitals];
+  const summary: MergeBenchmarkResult = {
+    inputRecords: inputs.reduce((n, input) => n + input.labResults.length + input.vitals.length, 0),
+    mergedRecords: merged.length,
+    confirmed: merged.filter((r) => r.mergeStatus !== "single-source").length,
+    parseMs: Math.round(parseMs),
+    mergeMs: Math.round(mergeMs),
+    problems: checkGuarantees(inputs, result),
+  };
+
+  console.log(
+    `[MergeBenchmark] ${summary.inputRecords} observations → ${summary.mergedRecords} merged ` +
+      `(${summary.confirmed} cross-source) — parse ${summary.parseMs}ms, merge ${summary.mergeMs}ms`
+  );
+  if (summary.problems.length > 0) {
+    console.warn(`[MergeBenchmark] ${summary.problems.length} guarantee violations`, summary.problems.slice(0, 20));
+  }
+  return summary;
+}
@@ -0,0 +1,77 @@
+// -----------------------------------------------------------
+// mergeEngine — patient "same" links that share a record
+// -----------------------------------------------------------
+// Two links can name the same record when one was made while the
+// other record wasn't arriving (B–C saved while A was missing,
+// then A comes back with an older A–B link). Whatever the links,
+// every input record must come out in exactly one merged record.
+// -----------------------------------------------------------
+
+import { describe, expect, it } from "vitest";
+import { mergeAllDomains } from "./mergeEngine";
+import type { MergeInput } from "./mergeEngine";
+import type { MergeOverride } from "../types/merged";
+import type { Vital } from "../types/vital";
+import { makeSourceTag } from "./sourceProvider";
+
+function weight(id: string, sourceId: string, effectiveDate: string): Vital {
+  return {
+    id,
+    status: "final",
+    name: "Body Weight",
+    vitalType: "body-weight",
+    codes: [{ system: "http://loinc.org", code: "29463-7" }],
+    value: 68,
+    unit: "kg",
+    effectiveDate,
+    source: makeSourceTag({ id: sourceId, displayName: sourceId }),
+  };
+}
+
+function input(vitals: Vital[]): MergeInput {
+  return {
+    medications: [],
+    labResults: [],
+    vitals,
+    allergies: [],
+    conditions: [],
+    immunizations: [],
+    encounters: [],
+    procedures: [],
+    diagnosticReports: [],
+    documents: [],
+    medicationDispenses: [],
+    medicationStatements: [],
+    appointments: [],
+  };
+}
+
+function same(idA: string, idB: string, createdAt: string): MergeOverride {
+  return { id: `override-${idA}-${idB}`, kind: "same", domain: "vitals", records: [[idA], [idB]], createdAt };
+}
+
+// Weeks apart, so only the patient's links can pair them
+const a = weight("a", "epic", "2026-01-05");
+const b = weight("b", "cerner", "2026-02-05");
+const c = weight("c", "clinic", "2026-03-05");
+
+function mergedGroups(vitals: Vital[], overrides: MergeOverride[]): string[][] {
+  const result = mergeAllDomains([input(vitals)], overrides);
+  return result.vitals.map((v) => [...v.mergedFromIds].sort());
+}
+
+describe("mergeAllDomains with overlapping links", () => {
+  const oldLink = same("a", "b", "2026-01-10T00:00:00Z");
+  const newLink = same("b", "c", "2026-04-01T00:00:00Z");
+
+  it("applies a link whose other record is missing as if it were alone", () => {
+    expect(mergedGroups([b, c], [oldLink, newLink])).toEqual([["b", "c"]]);
+  });
+
+  it("emits every record once when two links share one, keeping the newest", () => {
+    const groups = mergedGroups([a, b, c], [oldLink, newLink]);
+    expect(groups.flat().sort()).toEqual(["a", "b", "c"]);
+    expect(groups).toContainEqual(["b", "c"]);
+    expect(groups).toContainEqual(["a"]);
+  });
+});
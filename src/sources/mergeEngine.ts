@@ -14,14 +14,45 @@
 //      for the conflict detector
 //   5. Sort order is chronological (newest first) within each domain
 //
+// MATCHING: each domain pairs records through pairRecords() —
+// candidates come from per-domain indexes (code → records, plus
+// date buckets for the 24h / 30d windows) instead of comparing
+// every pair, so years of vitals from several sources merge in
+// near-linear time. Pairing order and outcomes are identical to a
+// full pairwise scan.
+//
+// EXPLANATIONS: merged medications, labs and vitals carry a
+// matchExplanation — the rule that paired them and the values
+// compared — behind the "How was this merged?" panel.
+//
+// PREFERRED RECORD: when two records merge, the domain's policy
+// (config/mergePolicy — most authoritative system, most recent or
+// most complete record) picks the one whose fields are shown; the
+// other stays attached as an alternate ("other systems say…").
+//
+// OVERRIDES: patient corrections (sources/mergeOverrides) are
+// applied during pairing on every run — "same" pairs two records
+// the rules missed, "different" vetoes a pair the rules would
+// make, "wrong" only flags. Affected records carry userOverrides.
+//
 // DEDUP STRATEGY per domain:
-//   Medications   → RxNorm code, fallback to normalized name
-//   Lab Results   → LOINC code + date within 24h
+//   Medications   → RxNorm code or same ingredient set (bundled
+//                   RxNorm table), fallback to normalized name
+//   Lab Results   → LOINC code or equivalence group + date within 24h
+//                   (values compared in canonical units)
 //   Vitals        → vital type + date within 24h
 //   Conditions    → SNOMED code
 //   Allergies     → substance name/code (filter absence markers)
 //   Immunizations → CVX code + date within 30 days
-//   Encounters    → No dedup; chronological sort only
+//   Procedures    → SNOMED/CPT code (or name) + date within 2 days
+//   Reports       → LOINC code + date within 24h (result links unioned)
+//   Documents     → title + LOINC type (when coded) + date within 24h
+//   Dispenses     → RxNorm/name + pickup within 24h + same quantity
+//   Statements    → RxNorm/name + start within 30 days
+//                   (both linked to their merged medication)
+//   Appointments  → start within 15 min + same clinician or location
+//   Encounters    → overlapping period + setting + location
+//                   (labs, vitals and meds linked to their visit)
 // -----------------------------------------------------------
 
 import type { SourceTag, ClinicalCode } from "../types/source";
@@ -32,16 +63,43 @@ import type { Allergy } from "../types/allergy";
 import type { Condition } from "../types/condition";
 import type { Immunization } from "../types/immunization";
 import type { Encounter } from "../types/encounter";
+import type { Procedure } from "../types/procedure";
+import type { DiagnosticReport } from "../types/diagnosticReport";
+import type { ClinicalDocument } from "../types/document";
+import type { MedicationDispense } from "../types/medicationDispense";
+import type { MedicationStatement } from "../types/medicationStatement";
+import type { Appointment } from "../types/appointment";
 import type {
   MergeMetadata,
+  MatchExplanation,
+  MatchComparison,
+  MergeOverride,
+  MergeOverrideDomain,
+  MergePolicy,
+  DomainMergePolicy,
+  PreferenceRule,
+  PreferredRecord,
   MergedMedication,
+  MedicationSourceRegimen,
   MergedLabResult,
   MergedVital,
   MergedAllergy,
   MergedCondition,
   MergedImmunization,
   MergedEncounter,
+  MergedProcedure,
+  MergedDiagnosticReport,
+  MergedDocument,
+  MergedMedicationDispense,
+  MergedMedicationStatement,
+  MergedAppointment,
+  EncounterLink,
 } from "../types/merged";
+import { withCanonicalValue, labValuesMatch } from "../utils/labUnits";
+import { sameLabTest, labGroupKey, labDisplayName } from "../utils/loincGroups";
+import { resolveDrug, sameIngredients, withRxNorm } from "../utils/rxnorm";
+import { regimensEquivalent, describeRegimen } from "../utils/dosageRegimen";
+import { mergePolicy } from "../config/mergePolicy";
 
 // -----------------------------------------------------------
 // Exported result type
@@ -55,6 +113,12 @@ export interface MergeResult {
   conditions: MergedCondition[];
   immunizations: MergedImmunization[];
   encounters: MergedEncounter[];
+  procedures: MergedProcedure[];
+  diagnosticReports: MergedDiagnosticReport[];
+  documents: MergedDocument[];
+  medicationDispenses: MergedMedicationDispense[];
+  medicationStatements: MergedMedicationStatement[];
+  appointments: MergedAppointment[];
   /** Track which sources had "Not on File" allergy markers — used by conflict detector */
   allergyAbsenceSources: SourceTag[];
 }
@@ -81,6 +145,29 @@ function codesMatch(codesA: ClinicalCode[], codesB: ClinicalCode[]): boolean {
   return false;
 }
 
+/** The first code both arrays share (what codesMatch() found) */
+function sharedCode(codesA: ClinicalCode[], codesB: ClinicalCode[]): ClinicalCode | undefined {
+  return codesA.find(
+    (a) => a.system && a.code && codesB.some((b) => b.system === a.system && b.code === a.code)
+  );
+}
+
+/** "RxNorm 860975", "LOINC 4548-4" — for match explanations */
+function describeCode(code: ClinicalCode): string {
+  const system = code.system?.toLowerCase() ?? "";
+  const label = system.includes("rxnorm") ? "RxNorm"
+    : system.includes("loinc") ? "LOINC"
+    : system.includes("snomed") ? "SNOMED"
+    : system.includes("cvx") ? "CVX"
+    : "code";
+  return `${label} ${code.code}`;
+}
+
+/** Index keys for codesMatch(): one per (system, code) pair */
+function codeKeys(codes: ClinicalCode[]): string[] {
+  return codes.filter((c) => c.system && c.code).map((c) => `code:${c.system}|${c.code}`);
+}
+
 /**
  * Extract a specific code from a ClinicalCode array by system URI prefix.
  * Returns the first matching code value, or undefined.
@@ -137,6 +224,49 @@ function medNamesMatch(nameA: string, nameB: string): boolean {
   return aWords.length > 0 && bWords.length > 0 && aWords[0] === bWords[0];
 }
 
+/**
+ * Check if two medication records (orders, fills, statements) are
+ * the same drug: RxNorm code, then ingredient set from the bundled
+ * table. The first-word name heuristic only applies when neither
+ * drug is in the table — "Amlodipine" vs "Amlodipine / Benazepril"
+ * must not merge.
+ */
+function sameDrug(a: { name: string; codes: ClinicalCode[] }, b: { name: string; codes: ClinicalCode[] }): boolean {
+  return drugMatchRule(a, b) !== null;
+}
+
+/** Which sameDrug() rule matched, or null if none did */
+function drugMatchRule(
+  a: { name: string; codes: ClinicalCode[] },
+  b: { name: string; codes: ClinicalCode[] }
+): "code" | "ingredients" | "name" | null {
+  if (codesMatch(a.codes, b.codes)) return "code";
+  const drugA = resolveDrug(a);
+  const drugB = resolveDrug(b);
+  if (drugA.ingredients.length > 0 || drugB.ingredients.length > 0) {
+    return sameIngredients(drugA, drugB) ? "ingredients" : null;
+  }
+  return medNamesMatch(a.name, b.name) ? "name" : null;
+}
+
+/**
+ * Index keys for sameDrug(): any two records sameDrug() accepts
+ * share at least one key (a code, the ingredient set, or — for
+ * drugs outside the RxNorm table — the first significant word).
+ */
+function drugKeys(drug: { name: string; codes: ClinicalCode[] }): string[] {
+  const keys = codeKeys(drug.codes);
+  const { ingredients } = resolveDrug(drug);
+  if (ingredients.length > 0) {
+    keys.push(`ingredients:${ingredients.join("+")}`);
+  } else {
+    const normalized = normalizeText(drug.name);
+    const firstWord = normalized.split(" ").find((w) => w.length > 2);
+    if (normalized) keys.push(`name:${firstWord ?? normalized}`);
+  }
+  return keys;
+}
+
 // -----------------------------------------------------------
 // Helpers — Date comparison
 // -----------------------------------------------------------
@@ -180,6 +310,203 @@ function dateDescending(dateA?: string, dateB?: string): number {
   return b - a; // newest first
 }
 
+// -----------------------------------------------------------
+// Helpers — Patient overrides
+// -----------------------------------------------------------
+
+/** One domain's overrides, in the shape pairRecords needs */
+interface PairOverrides {
+  /** Original record ids the patient said are the same, newest first */
+  links: [string, string][];
+  /** pairKey()s of those links */
+  linked: Set<string>;
+  /** pairKey()s of records the patient said are different */
+  apart: Set<string>;
+}
+
+const NO_OVERRIDES: PairOverrides = { links: [], linked: new Set(), apart: new Set() };
+
+function pairKey(idA: string, idB: string): string {
+  return idA < idB ? `${idA}\u0000${idB}` : `${idB}\u0000${idA}`;
+}
+
+/**
+ * "same" links only apply between two single records — the engine
+ * merges records in pairs, so that is the only link it can honour.
+ */
+function domainOverrides(overrides: MergeOverride[], domain: MergeOverrideDomain): PairOverrides {
+  const forDomain = overrides.filter((o) => o.domain === domain);
+  if (forDomain.length === 0) return NO_OVERRIDES;
+
+  const links: [string, string][] = [];
+  const apart = new Set<string>();
+  for (const override of forDomain) {
+    const [groupA = [], groupB = []] = override.records;
+    if (override.kind === "same" && groupA.length === 1 && groupB.length === 1) {
+      links.unshift([groupA[0], groupB[0]]);
+    } else if (override.kind === "different") {
+      for (const idA of groupA) for (const idB of groupB) apart.add(pairKey(idA, idB));
+    }
+  }
+  return { links, linked: new Set(links.map(([idA, idB]) => pairKey(idA, idB))), apart };
+}
+
+/** Did the patient link these two records? */
+function isLinked(overrides: PairOverrides, idA: string, idB: string): boolean {
+  return overrides.linked.has(pairKey(idA, idB));
+}
+
+/** Mark merged records with the overrides that shaped them */
+function tagOverrides<T extends MergeMetadata>(
+  records: T[],
+  overrides: MergeOverride[],
+  domain: MergeOverrideDomain
+): T[] {
+  const forDomain = overrides.filter((o) => o.domain === domain);
+  if (forDomain.length === 0) return records;
+
+  for (const record of records) {
+    const ids = new Set(record.mergedFromIds);
+    const kinds = new Set<MergeOverride["kind"]>();
+    for (const override of forDomain) {
+      const touched = override.records.map((group) => group.some((id) => ids.has(id)));
+      // "same" only counts once both records landed in this one
+      const applies = override.kind === "same" ? touched.every(Boolean) : touched.some(Boolean);
+      if (applies) kinds.add(override.kind);
+    }
+    if (kinds.size > 0) record.userOverrides = [...kinds];
+  }
+  return records;
+}
+
+// -----------------------------------------------------------
+// Helpers — Indexed pairing
+// -----------------------------------------------------------
+
+interface PairingIndex<T> {
+  /**
+   * Blocking keys: any two records `isMatch` accepts MUST share at
+   * least one key (codes, normalized name, vital type…). Keys only
+   * narrow the candidates — `isMatch` still makes the decision.
+   */
+  keys: (record: T) => string[];
+  /**
+   * Date window the match also requires. Records are bucketed by
+   * `ms`, so a record only meets candidates in its own and the two
+   * neighbouring buckets. Undated records get no candidates (a
+   * window check can never pass without a date).
+   */
+  window?: { date: (record: T) => string | undefined; ms: number };
+}
+
+/**
+ * Greedy one-to-one pairing across sources. Walking records in
+ * input order, each unpaired record takes the first later, unpaired
+ * record from another source that `isMatch` accepts — the same
+ * pairs a full nested scan finds, at roughly O(n) for real data.
+ *
+ * Patient overrides come first: a linked record pairs with its
+ * partner (even from the same source) and is never offered to
+ * anyone else; an "apart" pair is never made. A record linked to
+ * several present records keeps only its newest link — the rest
+ * are matched normally.
+ *
+ * Returns every input record exactly once: as [record, partner]
+ * or [record, undefined] when nothing matched.
+ */
+function pairRecords<T extends { id: string; source: SourceTag }>(
+  records: T[],
+  index: PairingIndex<T>,
+  isMatch: (a: T, b: T) => boolean,
+  overrides: PairOverrides = NO_OVERRIDES
+): [T, T | undefined][] {
+  const bucketOf = (record: T): number | undefined => {
+    if (!index.window) return 0;
+    const time = parseDate(index.window.date(record));
+    return isNaN(time) ? undefined : Math.floor(time / index.window.ms);
+  };
+
+  // key → record indices (ascending, since records are added in order)
+  const byKey = new Map<string, number[]>();
+  const buckets = records.map(bucketOf);
+  const recordKeys = records.map((record) => [...new Set(index.keys(record))]);
+
+  records.forEach((_, i) => {
+    const bucket = buckets[i];
+    if (bucket === undefined) return;
+    for (const key of recordKeys[i]) {
+      const slot = `${key}#${bucket}`;
+      const list = byKey.get(slot);
+      if (list) list.push(i);
+      else byKey.set(slot, [i]);
+    }
+  });
+
+  // Patient "same" links, by position: i ↔ partner index. One
+  // partner per record, so no record is emitted twice; links whose
+  // other record isn't here (yet) don't claim anything.
+  const forced = new Map<number, number>();
+  if (overrides.links.length > 0) {
+    const positions = new Map<string, number>();
+    records.forEach((record, i) => {
+      if (!positions.has(record.id)) positions.set(record.id, i);
+    });
+    for (const [idA, idB] of overrides.links) {
+      const a = positions.get(idA);
+      const b = positions.get(idB);
+      if (a === undefined || b === undefined || a === b || forced.has(a) || forced.has(b)) continue;
+      forced.set(a, b);
+      forced.set(b, a);
+    }
+  }
+
+  const used = new Set<number>();
+  const pairs: [T, T | undefined][] = [];
+
+  for (let i = 0; i < records.length; i++) {
+    if (used.has(i)) continue;
+
+    const recordA = records[i];
+    const linkedTo = forced.get(i);
+    if (linkedTo !== undefined) {
+      used.add(linkedTo);
+      pairs.push([recordA, records[linkedTo]]);
+      continue;
+    }
+
+    const bucket = buckets[i];
+    const candidates = new Set<number>();
+
+    if (bucket !== undefined) {
+      const probe = index.window ? [bucket - 1, bucket, bucket + 1] : [bucket];
+      for (const key of recordKeys[i]) {
+        for (const b of probe) {
+          for (const j of byKey.get(`${key}#${b}`) ?? []) {
+            if (j > i && !used.has(j) && !forced.has(j)) candidates.add(j);
+          }
+        }
+      }
+    }
+
+    let partner: T | undefined;
+    for (const j of [...candidates].sort((x, y) => x - y)) {
+      const recordB = records[j];
+      // Same source? Don't merge records from the same system
+      if (recordA.source.systemId === recordB.source.systemId) continue;
+      if (overrides.apart.has(pairKey(recordA.id, recordB.id))) continue;
+      if (!isMatch(recordA, recordB)) continue;
+
+      used.add(j);
+      partner = recordB;
+      break; // one match per record
+    }
+
+    pairs.push([recordA, partner]);
+  }
+
+  return pairs;
+}
+
 // -----------------------------------------------------------
 // Helpers — MergeMetadata construction
 // -----------------------------------------------------------
@@ -218,56 +545,268 @@ function conflictMeta(
 }
 
 // -----------------------------------------------------------
-// Domain: Medications
+// Helpers — Preferred record
 // -----------------------------------------------------------
-// Match by: RxNorm code → fallback to normalized name
-// On match: same dose → "confirmed"; different dose → "conflict"
+// Which of two merged records supplies the displayed fields is
+// decided by the domain's MergePolicy (config/mergePolicy). The
+// other record is kept whole as an alternate, so nothing another
+// system said is lost. When every rule ties, the first record of
+// the pair is kept — the order pairRecords produced.
+
+interface PreferenceTraits<T> {
+  /** When the record was written ("most-recent") */
+  date?: (record: T) => string | undefined;
+  /** A detail worth more than any field count ("most-complete") */
+  essential?: (record: T) => boolean;
+}
 
-function mergeMedications(allMeds: Medication[]): MergedMedication[] {
-  if (allMeds.length === 0) return [];
+/** Number of fields carrying a value */
+function filledFields(record: object): number {
+  return Object.values(record).filter(
+    (value) => value !== undefined && value !== null && value !== "" && !(Array.isArray(value) && value.length === 0)
+  ).length;
+}
 
-  const merged: MergedMedication[] = [];
-  const used = new Set<number>(); // indices already matched
+/** Authority rank of a system (lower is more trusted, unlisted last) */
+function authorityRank(policy: DomainMergePolicy, source: SourceTag): number {
+  const rank = policy.authoritative.indexOf(source.systemId);
+  return rank === -1 ? policy.authoritative.length : rank;
+}
 
-  for (let i = 0; i < allMeds.length; i++) {
-    if (used.has(i)) continue;
+/** Negative → prefer A, positive → prefer B, 0 → the rule can't tell */
+function compareByRule<T extends { source: SourceTag }>(
+  rule: PreferenceRule,
+  recordA: T,
+  recordB: T,
+  policy: DomainMergePolicy,
+  traits: PreferenceTraits<T>
+): number {
+  switch (rule) {
+    case "most-authoritative":
+      return authorityRank(policy, recordA.source) - authorityRank(policy, recordB.source);
+    case "most-recent": {
+      if (!traits.date) return 0;
+      const dateA = parseDate(traits.date(recordA));
+      const dateB = parseDate(traits.date(recordB));
+      if (isNaN(dateA) || isNaN(dateB)) return isNaN(dateA) === isNaN(dateB) ? 0 : isNaN(dateA) ? 1 : -1;
+      return dateB - dateA;
+    }
+    case "most-complete": {
+      if (traits.essential) {
+        const essential = Number(traits.essential(recordB)) - Number(traits.essential(recordA));
+        if (essential !== 0) return essential;
+      }
+      return filledFields(recordB) - filledFields(recordA);
+    }
+  }
+}
 
-    const medA = allMeds[i];
-    let matchFound = false;
+const PREFERENCE_SUMMARY: Record<PreferenceRule, (systemName: string) => string> = {
+  "most-authoritative": (name) => `${name} is the most trusted system for these records`,
+  "most-recent": (name) => `${name} has the most recent record`,
+  "most-complete": (name) => `${name} has the most complete record`,
+};
+
+/** Pick the record whose fields the merged record shows, and the rule that decided (if any) */
+function choosePrimary<T extends { source: SourceTag }>(
+  recordA: T,
+  recordB: T,
+  policy: DomainMergePolicy,
+  traits: PreferenceTraits<T> = {}
+): { primary: T; other: T; preferredBy?: PreferredRecord } {
+  for (const rule of policy.prefer) {
+    const order = compareByRule(rule, recordA, recordB, policy, traits);
+    if (order === 0) continue;
+    const [primary, other] = order < 0 ? [recordA, recordB] : [recordB, recordA];
+    return {
+      primary,
+      other,
+      preferredBy: { rule, summary: PREFERENCE_SUMMARY[rule](primary.source.systemName) },
+    };
+  }
+  return { primary: recordA, other: recordB };
+}
 
-    for (let j = i + 1; j < allMeds.length; j++) {
-      if (used.has(j)) continue;
+// -----------------------------------------------------------
+// Helpers — Match explanations
+// -----------------------------------------------------------
+// Built only for pairs (one per merged record), so explaining
+// costs nothing on the single-source majority.
 
-      const medB = allMeds[j];
+/** Date comparison against a match window ("3.5h apart (limit 24h)") */
+function dateComparison(dateA: string | undefined, dateB: string | undefined, windowMs: number): MatchComparison {
+  const apart = Math.abs(parseDate(dateA) - parseDate(dateB));
+  const limit = windowMs >= MS_PER_DAY * 2 ? `${windowMs / MS_PER_DAY} days` : `${windowMs / MS_PER_HOUR}h`;
+  return {
+    label: "Date",
+    values: [dateA ?? "no date", dateB ?? "no date"],
+    agree: datesWithinWindow(dateA, dateB, windowMs),
+    note: isNaN(apart) ? `must be within ${limit}` : `${Math.round((apart / MS_PER_HOUR) * 10) / 10}h apart (limit ${limit})`,
+  };
+}
 
-      // Same source? Don't merge records from the same system
-      if (medA.source.systemId === medB.source.systemId) continue;
+function explainMedicationMatch(medA: Medication, medB: Medication, linked: boolean, agree: boolean): MatchExplanation {
+  const rule = linked ? "patient-link" : drugMatchRule(medA, medB) ?? "name";
+  const code = sharedCode(medA.codes, medB.codes);
+  const summary =
+    rule === "patient-link" ? "You said these are the same medication"
+    : rule === "code" && code ? `Same ${describeCode(code)} in both records`
+    : rule === "ingredients" ? `Same ingredients: ${resolveDrug(medA).ingredients.join(" + ")}`
+    : "Drug names match (no codes or known ingredients to compare)";
+
+  const comparisons: MatchComparison[] = [{ label: "Name", values: [medA.name, medB.name] }];
+  const regimens = regimensEquivalent(medA.regimen, medB.regimen);
+  if (regimens !== undefined) {
+    comparisons.push({
+      label: "Daily dose",
+      values: [describeRegimen(medA.regimen!), describeRegimen(medB.regimen!)],
+      agree: regimens,
+      note: "total daily dose",
+    });
+  } else if (medA.dosage && medB.dosage) {
+    comparisons.push({
+      label: "Dose",
+      values: [`${medA.dosage.value} ${medA.dosage.unit}`, `${medB.dosage.value} ${medB.dosage.unit}`],
+      agree,
+      note: "per dose — schedule couldn't be compared",
+    });
+  } else {
+    comparisons.push({
+      label: "Instructions",
+      values: [medA.dosageInstruction ?? "none", medB.dosageInstruction ?? "none"],
+      agree,
+      note: "exact text",
+    });
+  }
 
-      // Check if same medication
-      const codeMatch = codesMatch(medA.codes, medB.codes);
-      const nameMatch = medNamesMatch(medA.name, medB.name);
+  return {
+    rule,
+    summary,
+    sources: [medA.source.systemName, medB.source.systemName],
+    comparisons,
+    outcome: agree ? "Same dose — merged as confirmed" : "Different doses — merged and flagged as a conflict",
+  };
+}
 
-      if (codeMatch || nameMatch) {
-        used.add(j);
-        matchFound = true;
+/** Outcome text shared by labs and vitals (value decides merge vs keep both) */
+function resultOutcome(agree: boolean, linked: boolean): string {
+  if (agree) return "Same value — merged as confirmed";
+  return linked
+    ? "Values differ, but you linked them — merged and flagged as a conflict"
+    : "Values differ — kept as two separate results";
+}
 
-        // Compare doses
-        const sameDose = medA.dosage && medB.dosage
-          ? medA.dosage.value === medB.dosage.value && medA.dosage.unit === medB.dosage.unit
-          : medA.dosageInstruction === medB.dosageInstruction;
+function explainLabMatch(labA: LabResult, labB: LabResult, linked: boolean, agree: boolean): MatchExplanation {
+  const code = sharedCode(labA.codes, labB.codes);
+  const rule = linked ? "patient-link" : code ? "code" : "lab-group";
+  const summary =
+    rule === "patient-link" ? "You said these are the same result"
+    : code ? `Same ${describeCode(code)} in both records`
+    : `Equivalent ${labDisplayName(labA)} tests (LOINC ${getCodeBySystem(labA.codes, "loinc") ?? "—"} / ${getCodeBySystem(labB.codes, "loinc") ?? "—"})`;
+
+  const valueText = (lab: LabResult) => {
+    const reported = `${lab.value ?? "—"} ${lab.unit ?? ""}`.trim();
+    return lab.canonical && lab.canonical.unit !== lab.unit
+      ? `${reported} (= ${lab.canonical.value} ${lab.canonical.unit})`
+      : reported;
+  };
 
-        const meta = sameDose
-          ? confirmedMeta(medA, medB)
-          : conflictMeta(medA, medB);
+  return {
+    rule,
+    summary,
+    sources: [labA.source.systemName, labB.source.systemName],
+    comparisons: [
+      { label: "Test", values: [labA.name, labB.name] },
+      dateComparison(labA.effectiveDate, labB.effectiveDate, MS_PER_DAY),
+      {
+        label: "Value",
+        values: [valueText(labA), valueText(labB)],
+        agree,
+        note: labA.canonical && labB.canonical ? `compared in ${labA.canonical.unit}, 1% tolerance` : "exact value and unit",
+      },
+    ],
+    outcome: resultOutcome(agree, linked),
+  };
+}
 
-        merged.push({ ...medA, ...meta });
-        break; // one match per record
-      }
-    }
+function explainVitalMatch(vitalA: Vital, vitalB: Vital, linked: boolean, agree: boolean): MatchExplanation {
+  const valueText = (vital: Vital) => {
+    const value = vital.components?.length
+      ? vital.components.map((c) => c.value ?? "—").join("/")
+      : `${vital.value ?? "—"}`;
+    const unit = vital.components?.[0]?.unit ?? vital.unit;
+    return unit ? `${value} ${unit}` : value;
+  };
+
+  return {
+    rule: linked ? "patient-link" : "vital-type",
+    summary: linked ? "You said these are the same reading" : `Same measurement (${vitalA.vitalType})`,
+    sources: [vitalA.source.systemName, vitalB.source.systemName],
+    comparisons: [
+      dateComparison(vitalA.effectiveDate, vitalB.effectiveDate, MS_PER_DAY),
+      { label: "Value", values: [valueText(vitalA), valueText(vitalB)], agree, note: "exact value" },
+    ],
+    outcome: resultOutcome(agree, linked),
+  };
+}
+
+// -----------------------------------------------------------
+// Domain: Medications
+// -----------------------------------------------------------
+// Match by: RxNorm code → ingredient set → fallback to normalized name
+// On match: same dose → "confirmed"; different dose → "conflict"
+// "Same dose" means the same total daily dose when both regimens
+// parse (500 mg BID = 1000 mg daily; PRN never equals scheduled).
+// Every medication is resolved to ingredients + classes first, so
+// "Coumadin" and "Warfarin Sodium 5 MG" dedup and the safety rules
+// downstream read ingredients instead of guessing from names.
+
+/**
+ * Do two prescriptions of the same drug agree on the dose? Falls
+ * back to per-dose value, then sig text, when either regimen can't
+ * be compared (no strength, unparseable sig).
+ */
+function dosesAgree(medA: Medication, medB: Medication): boolean {
+  const equivalent = regimensEquivalent(medA.regimen, medB.regimen);
+  if (equivalent !== undefined) return equivalent;
+  return medA.dosage && medB.dosage
+    ? medA.dosage.value === medB.dosage.value && medA.dosage.unit === medB.dosage.unit
+    : medA.dosageInstruction === medB.dosageInstruction;
+}
+
+function sourceRegimen(med: Medication): MedicationSourceRegimen {
+  return { source: med.source, recordId: med.id, dosageInstruction: med.dosageInstruction, regimen: med.regimen };
+}
+
+function mergeMedications(
+  rawMeds: Medication[],
+  overrides = NO_OVERRIDES,
+  policy = mergePolicy.medications
+): MergedMedication[] {
+  if (rawMeds.length === 0) return [];
+
+  const allMeds = rawMeds.map(withRxNorm);
+  const merged: MergedMedication[] = [];
 
-    if (!matchFound) {
+  for (const [medA, medB] of pairRecords(allMeds, { keys: drugKeys }, sameDrug, overrides)) {
+    if (!medB) {
       merged.push({ ...medA, ...singleSourceMeta(medA) });
+      continue;
     }
+
+    const agree = dosesAgree(medA, medB);
+    const meta = agree ? confirmedMeta(medA, medB) : conflictMeta(medA, medB);
+    const linked = isLinked(overrides, medA.id, medB.id);
+    const { primary, other, preferredBy } = choosePrimary(medA, medB, policy, { date: (m) => m.dateWritten });
+
+    merged.push({
+      ...primary,
+      ...meta,
+      preferredBy,
+      alternates: [other],
+      sourceRegimens: [sourceRegimen(medA), sourceRegimen(medB)],
+      matchExplanation: explainMedicationMatch(medA, medB, linked, agree),
+    });
   }
 
   // Sort: active meds first, then by name
@@ -281,58 +820,61 @@ function mergeMedications(allMeds: Medication[]): MergedMedication[] {
 // -----------------------------------------------------------
 // Domain: Lab Results
 // -----------------------------------------------------------
-// Match by: LOINC code + effectiveDate within 24h
+// Match by: LOINC code (or LOINC equivalence group — 4548-4 and
+//   17856-6 are both A1c) + effectiveDate within 24h
 // On match + same value → "confirmed" (merge to one)
 // On match + different value → keep both as "single-source"
 //   (clinically, two labs on the same day CAN have different
-//    results — that's legitimate, not an error)
-
-function mergeLabResults(allLabs: LabResult[]): MergedLabResult[] {
-  if (allLabs.length === 0) return [];
-
+//    results — that's legitimate, not an error), unless the
+//   patient linked them: then one record, marked "conflict"
+// Values are converted to the analyte's canonical unit first, so
+// 7.2 mmol/L and 130 mg/dL glucose count as the same value.
+
+function mergeLabResults(
+  rawLabs: LabResult[],
+  overrides = NO_OVERRIDES,
+  policy = mergePolicy.labResults
+): MergedLabResult[] {
+  if (rawLabs.length === 0) return [];
+
+  const allLabs = rawLabs.map(withCanonicalValue);
   const merged: MergedLabResult[] = [];
-  const used = new Set<number>();
-
-  for (let i = 0; i < allLabs.length; i++) {
-    if (used.has(i)) continue;
-
-    const labA = allLabs[i];
-    let matchFound = false;
-
-    for (let j = i + 1; j < allLabs.length; j++) {
-      if (used.has(j)) continue;
 
-      const labB = allLabs[j];
-
-      // Same source? Skip
-      if (labA.source.systemId === labB.source.systemId) continue;
-
-      // Same test?
-      const codeMatch = codesMatch(labA.codes, labB.codes);
-      if (!codeMatch) continue;
-
-      // Within 24h window?
-      if (!datesWithinWindow(labA.effectiveDate, labB.effectiveDate, MS_PER_DAY)) continue;
+  const pairs = pairRecords(
+    allLabs,
+    {
+      keys: (lab) => [...codeKeys(lab.codes), `lab:${labGroupKey(lab)}`],
+      window: { date: (lab) => lab.effectiveDate, ms: MS_PER_DAY },
+    },
+    // Same test (code or equivalence group), within 24h
+    (labA, labB) =>
+      (codesMatch(labA.codes, labB.codes) || sameLabTest(labA, labB)) &&
+      datesWithinWindow(labA.effectiveDate, labB.effectiveDate, MS_PER_DAY),
+    overrides
+  );
 
-      // Same test, same timeframe
-      used.add(j);
-      matchFound = true;
-
-      // Same value? → confirmed merge
-      const sameValue = labA.value === labB.value;
-      if (sameValue) {
-        merged.push({ ...labA, ...confirmedMeta(labA, labB) });
-      } else {
-        // Different values from different systems — keep both
-        // This is clinically significant (different labs, different results)
-        merged.push({ ...labA, ...singleSourceMeta(labA) });
-        merged.push({ ...labB, ...singleSourceMeta(labB) });
-      }
-      break;
+  for (const [labA, labB] of pairs) {
+    if (!labB) {
+      merged.push({ ...labA, ...singleSourceMeta(labA) });
+      continue;
     }
 
-    if (!matchFound) {
-      merged.push({ ...labA, ...singleSourceMeta(labA) });
+    const agree = labValuesMatch(labA, labB);
+    const linked = isLinked(overrides, labA.id, labB.id);
+    const matchExplanation = explainLabMatch(labA, labB, linked, agree);
+    const { primary, other, preferredBy } = choosePrimary(labA, labB, policy, { date: (lab) => lab.effectiveDate });
+
+    if (agree) {
+      // Same value (after unit conversion)? → confirmed merge
+      merged.push({ ...primary, ...confirmedMeta(labA, labB), preferredBy, alternates: [other], matchExplanation });
+    } else if (linked) {
+      // The patient says these are one result — keep one, flagged
+      merged.push({ ...primary, ...conflictMeta(labA, labB), preferredBy, alternates: [other], matchExplanation });
+    } else {
+      // Different values from different systems — keep both
+      // This is clinically significant (different labs, different results)
+      merged.push({ ...labA, ...singleSourceMeta(labA), matchExplanation });
+      merged.push({ ...labB, ...singleSourceMeta(labB), matchExplanation });
     }
   }
 
@@ -345,59 +887,54 @@ function mergeLabResults(allLabs: LabResult[]): MergedLabResult[] {
 // -----------------------------------------------------------
 // Match by: vitalType + effectiveDate within 24h
 // Same logic as labs: same value → merge, different → keep both
+// (or one "conflict" record when the patient linked them)
 
-function mergeVitals(allVitals: Vital[]): MergedVital[] {
+function mergeVitals(allVitals: Vital[], overrides = NO_OVERRIDES, policy = mergePolicy.vitals): MergedVital[] {
   if (allVitals.length === 0) return [];
 
   const merged: MergedVital[] = [];
-  const used = new Set<number>();
 
-  for (let i = 0; i < allVitals.length; i++) {
-    if (used.has(i)) continue;
-
-    const vitalA = allVitals[i];
-    let matchFound = false;
-
-    for (let j = i + 1; j < allVitals.length; j++) {
-      if (used.has(j)) continue;
-
-      const vitalB = allVitals[j];
-
-      // Same source? Skip
-      if (vitalA.source.systemId === vitalB.source.systemId) continue;
-
-      // Same vital type?
-      if (vitalA.vitalType !== vitalB.vitalType) continue;
-
-      // Within 24h?
-      if (!datesWithinWindow(vitalA.effectiveDate, vitalB.effectiveDate, MS_PER_DAY)) continue;
+  const pairs = pairRecords(
+    allVitals,
+    {
+      keys: (vital) => [`vital:${vital.vitalType}`],
+      window: { date: (vital) => vital.effectiveDate, ms: MS_PER_DAY },
+    },
+    (vitalA, vitalB) =>
+      vitalA.vitalType === vitalB.vitalType &&
+      datesWithinWindow(vitalA.effectiveDate, vitalB.effectiveDate, MS_PER_DAY),
+    overrides
+  );
 
-      used.add(j);
-      matchFound = true;
-
-      // Compare values (for compound vitals like BP, compare components)
-      let sameValue: boolean;
-      if (vitalA.components && vitalB.components) {
-        // Compound vital (e.g., BP) — compare each component
-        sameValue = vitalA.components.every((compA) => {
-          const compB = vitalB.components?.find((c) => c.name === compA.name);
-          return compB && compA.value === compB.value;
-        });
-      } else {
-        sameValue = vitalA.value === vitalB.value;
-      }
+  for (const [vitalA, vitalB] of pairs) {
+    if (!vitalB) {
+      merged.push({ ...vitalA, ...singleSourceMeta(vitalA) });
+      continue;
+    }
 
-      if (sameValue) {
-        merged.push({ ...vitalA, ...confirmedMeta(vitalA, vitalB) });
-      } else {
-        merged.push({ ...vitalA, ...singleSourceMeta(vitalA) });
-        merged.push({ ...vitalB, ...singleSourceMeta(vitalB) });
-      }
-      break;
+    // Compare values (for compound vitals like BP, compare components)
+    let sameValue: boolean;
+    if (vitalA.components && vitalB.components) {
+      // Compound vital (e.g., BP) — compare each component
+      sameValue = vitalA.components.every((compA) => {
+        const compB = vitalB.components?.find((c) => c.name === compA.name);
+        return compB && compA.value === compB.value;
+      });
+    } else {
+      sameValue = vitalA.value === vitalB.value;
     }
 
-    if (!matchFound) {
-      merged.push({ ...vitalA, ...singleSourceMeta(vitalA) });
+    const linked = isLinked(overrides, vitalA.id, vitalB.id);
+    const matchExplanation = explainVitalMatch(vitalA, vitalB, linked, sameValue);
+    const { primary, other, preferredBy } = choosePrimary(vitalA, vitalB, policy, { date: (v) => v.effectiveDate });
+
+    if (sameValue) {
+      merged.push({ ...primary, ...confirmedMeta(vitalA, vitalB), preferredBy, alternates: [other], matchExplanation });
+    } else if (linked) {
+      merged.push({ ...primary, ...conflictMeta(vitalA, vitalB), preferredBy, alternates: [other], matchExplanation });
+    } else {
+      merged.push({ ...vitalA, ...singleSourceMeta(vitalA), matchExplanation });
+      merged.push({ ...vitalB, ...singleSourceMeta(vitalB), matchExplanation });
     }
   }
 
@@ -410,7 +947,11 @@ function mergeVitals(allVitals: Vital[]): MergedVital[] {
 // Match by: SNOMED code (exact match on code system + code value)
 // On match: merge, mark "confirmed" or "conflict" if status differs
 
-function mergeConditions(allConditions: Condition[]): MergedCondition[] {
+function mergeConditions(
+  allConditions: Condition[],
+  overrides = NO_OVERRIDES,
+  policy = mergePolicy.conditions
+): MergedCondition[] {
   if (allConditions.length === 0) return [];
 
   // ---- Within-source dedup first ----
@@ -434,48 +975,32 @@ function mergeConditions(allConditions: Condition[]): MergedCondition[] {
     deduped.push(cond);
   }
 
-  // ---- Cross-source merge ----
+  // ---- Cross-source merge (same condition by code) ----
   const merged: MergedCondition[] = [];
-  const used = new Set<number>();
-
-  for (let i = 0; i < deduped.length; i++) {
-    if (used.has(i)) continue;
-
-    const condA = deduped[i];
-    let matchFound = false;
-
-    for (let j = i + 1; j < deduped.length; j++) {
-      if (used.has(j)) continue;
-
-      const condB = deduped[j];
-
-      // Same source? Skip — within-source dedup already done above
-      if (condA.source.systemId === condB.source.systemId) continue;
-
-      // Same condition by code?
-      if (!codesMatch(condA.codes, condB.codes)) continue;
-
-      used.add(j);
-      matchFound = true;
-
-      // Check clinical status agreement
-      const sameStatus = condA.clinicalStatus === condB.clinicalStatus;
-      const meta = sameStatus
-        ? confirmedMeta(condA, condB)
-        : conflictMeta(condA, condB);
-
-      // Use the record with the more recent date as primary
-      const dateA = parseDate(condA.recordedDate ?? condA.onsetDate);
-      const dateB = parseDate(condB.recordedDate ?? condB.onsetDate);
-      const primary = !isNaN(dateA) && !isNaN(dateB) && dateB > dateA ? condB : condA;
 
-      merged.push({ ...primary, ...meta });
-      break;
-    }
+  const pairs = pairRecords(
+    deduped,
+    { keys: (cond) => codeKeys(cond.codes) },
+    (condA, condB) => codesMatch(condA.codes, condB.codes),
+    overrides
+  );
 
-    if (!matchFound) {
+  for (const [condA, condB] of pairs) {
+    if (!condB) {
       merged.push({ ...condA, ...singleSourceMeta(condA) });
+      continue;
     }
+
+    // Check clinical status agreement
+    const sameStatus = condA.clinicalStatus === condB.clinicalStatus;
+    const meta = sameStatus
+      ? confirmedMeta(condA, condB)
+      : conflictMeta(condA, condB);
+
+    const { primary, other, preferredBy } = choosePrimary(condA, condB, policy, {
+      date: (cond) => cond.recordedDate ?? cond.onsetDate,
+    });
+    merged.push({ ...primary, ...meta, preferredBy, alternates: [other] });
   }
 
   // Sort: active conditions first, then by name
@@ -522,7 +1047,9 @@ function normalizeSubstance(substance: string): string {
 }
 
 function mergeAllergies(
-  allAllergies: Allergy[]
+  allAllergies: Allergy[],
+  overrides = NO_OVERRIDES,
+  policy = mergePolicy.allergies
 ): { allergies: MergedAllergy[]; absenceSources: SourceTag[] } {
   // Separate real allergies from absence markers
   const real: Allergy[] = [];
@@ -541,37 +1068,27 @@ function mergeAllergies(
   }
 
   const merged: MergedAllergy[] = [];
-  const used = new Set<number>();
-
-  for (let i = 0; i < real.length; i++) {
-    if (used.has(i)) continue;
-
-    const allergyA = real[i];
-    let matchFound = false;
-
-    for (let j = i + 1; j < real.length; j++) {
-      if (used.has(j)) continue;
-
-      const allergyB = real[j];
 
-      // Same source? Skip
-      if (allergyA.source.systemId === allergyB.source.systemId) continue;
-
-      // Check match by code or normalized substance name
-      const codeMatch = codesMatch(allergyA.codes, allergyB.codes);
-      const nameMatch = normalizeSubstance(allergyA.substance) === normalizeSubstance(allergyB.substance);
-
-      if (codeMatch || nameMatch) {
-        used.add(j);
-        matchFound = true;
-        merged.push({ ...allergyA, ...confirmedMeta(allergyA, allergyB) });
-        break;
-      }
-    }
+  // Match by code or normalized substance name
+  const pairs = pairRecords(
+    real,
+    { keys: (allergy) => [...codeKeys(allergy.codes), `substance:${normalizeSubstance(allergy.substance)}`] },
+    (allergyA, allergyB) =>
+      codesMatch(allergyA.codes, allergyB.codes) ||
+      normalizeSubstance(allergyA.substance) === normalizeSubstance(allergyB.substance),
+    overrides
+  );
 
-    if (!matchFound) {
+  for (const [allergyA, allergyB] of pairs) {
+    if (!allergyB) {
       merged.push({ ...allergyA, ...singleSourceMeta(allergyA) });
+      continue;
     }
+
+    const { primary, other, preferredBy } = choosePrimary(allergyA, allergyB, policy, {
+      date: (allergy) => allergy.recordedDate,
+    });
+    merged.push({ ...primary, ...confirmedMeta(allergyA, allergyB), preferredBy, alternates: [other] });
   }
 
   // Sort: critical allergies first, then by substance name
@@ -594,66 +1111,616 @@ function mergeAllergies(
 // Same vaccine within 30 days = likely same administration → merge
 // Same vaccine > 30 days apart = separate doses → keep both
 
-function mergeImmunizations(allImms: Immunization[]): MergedImmunization[] {
+function mergeImmunizations(
+  allImms: Immunization[],
+  overrides = NO_OVERRIDES,
+  policy = mergePolicy.immunizations
+): MergedImmunization[] {
   if (allImms.length === 0) return [];
 
   const THIRTY_DAYS_MS = 30 * MS_PER_DAY;
-  const merged: MergedImmunization[] = [];
-  const used = new Set<number>();
 
-  for (let i = 0; i < allImms.length; i++) {
-    if (used.has(i)) continue;
+  // Same vaccine (code or name), within 30 days
+  const pairs = pairRecords(
+    allImms,
+    {
+      keys: (imm) => [...codeKeys(imm.codes), `name:${normalizeText(imm.vaccineName)}`],
+      window: { date: (imm) => imm.occurrenceDate, ms: THIRTY_DAYS_MS },
+    },
+    (immA, immB) =>
+      (codesMatch(immA.codes, immB.codes) || normalizeText(immA.vaccineName) === normalizeText(immB.vaccineName)) &&
+      datesWithinWindow(immA.occurrenceDate, immB.occurrenceDate, THIRTY_DAYS_MS),
+    overrides
+  );
 
-    const immA = allImms[i];
-    let matchFound = false;
+  const merged: MergedImmunization[] = pairs.map(([immA, immB]) => {
+    if (!immB) return { ...immA, ...singleSourceMeta(immA) };
+    const { primary, other, preferredBy } = choosePrimary(immA, immB, policy, { date: (imm) => imm.occurrenceDate });
+    return { ...primary, ...confirmedMeta(immA, immB), preferredBy, alternates: [other] };
+  });
+
+  // Sort by date (newest first)
+  return merged.sort((a, b) => dateDescending(a.occurrenceDate, b.occurrenceDate));
+}
 
-    for (let j = i + 1; j < allImms.length; j++) {
-      if (used.has(j)) continue;
+// -----------------------------------------------------------
+// Domain: Procedures
+// -----------------------------------------------------------
+// Match by: SNOMED/CPT code (or normalized name) + date within 2 days
+// Claims-derived records are often dated the day after the
+// procedure, so the window is wider than labs but far narrower
+// than immunizations — a repeat colonoscopy is years apart.
+// On match: same status → "confirmed"; different → "conflict"
+
+function mergeProcedures(
+  allProcs: Procedure[],
+  overrides = NO_OVERRIDES,
+  policy = mergePolicy.procedures
+): MergedProcedure[] {
+  if (allProcs.length === 0) return [];
+
+  const TWO_DAYS_MS = 2 * MS_PER_DAY;
+  const merged: MergedProcedure[] = [];
+
+  // Same procedure (code or name), same occasion
+  const pairs = pairRecords(
+    allProcs,
+    {
+      keys: (proc) => [...codeKeys(proc.codes), `name:${normalizeText(proc.name)}`],
+      window: { date: (proc) => proc.performedDate, ms: TWO_DAYS_MS },
+    },
+    (procA, procB) =>
+      (codesMatch(procA.codes, procB.codes) || normalizeText(procA.name) === normalizeText(procB.name)) &&
+      datesWithinWindow(procA.performedDate, procB.performedDate, TWO_DAYS_MS),
+    overrides
+  );
 
-      const immB = allImms[j];
+  for (const [procA, procB] of pairs) {
+    if (!procB) {
+      merged.push({ ...procA, ...singleSourceMeta(procA) });
+      continue;
+    }
 
-      // Same source? Skip
-      if (immA.source.systemId === immB.source.systemId) continue;
+    const meta = procA.status === procB.status
+      ? confirmedMeta(procA, procB)
+      : conflictMeta(procA, procB);
+    // An outcome (usually the performing system's record) makes a record complete
+    const { primary, other, preferredBy } = choosePrimary(procA, procB, policy, {
+      date: (proc) => proc.performedDate,
+      essential: (proc) => !!proc.outcome,
+    });
+    merged.push({ ...primary, ...meta, preferredBy, alternates: [other] });
+  }
 
-      // Same vaccine?
-      const codeMatch = codesMatch(immA.codes, immB.codes);
-      const nameMatch = normalizeText(immA.vaccineName) === normalizeText(immB.vaccineName);
-      if (!codeMatch && !nameMatch) continue;
+  // Sort by date (newest first)
+  return merged.sort((a, b) => dateDescending(a.performedDate, b.performedDate));
+}
 
-      // Within 30 days?
-      if (!datesWithinWindow(immA.occurrenceDate, immB.occurrenceDate, THIRTY_DAYS_MS)) continue;
+// -----------------------------------------------------------
+// Domain: Diagnostic Reports
+// -----------------------------------------------------------
+// Match by: LOINC code + effectiveDate within 24h
+// On match: same status → "confirmed"; different → "conflict"
+// (a "preliminary" read in one system vs "final" in another).
+// Result links from both records are kept so the panel resolves
+// whichever source's Observation survived the lab merge.
+
+function mergeDiagnosticReports(
+  allReports: DiagnosticReport[],
+  overrides = NO_OVERRIDES,
+  policy = mergePolicy.diagnosticReports
+): MergedDiagnosticReport[] {
+  if (allReports.length === 0) return [];
+
+  const merged: MergedDiagnosticReport[] = [];
+
+  // Same report, same day
+  const pairs = pairRecords(
+    allReports,
+    {
+      keys: (report) => codeKeys(report.codes),
+      window: { date: (report) => report.effectiveDate, ms: MS_PER_DAY },
+    },
+    (reportA, reportB) =>
+      codesMatch(reportA.codes, reportB.codes) &&
+      datesWithinWindow(reportA.effectiveDate, reportB.effectiveDate, MS_PER_DAY),
+    overrides
+  );
 
-      used.add(j);
-      matchFound = true;
-      merged.push({ ...immA, ...confirmedMeta(immA, immB) });
-      break;
+  for (const [reportA, reportB] of pairs) {
+    if (!reportB) {
+      merged.push({ ...reportA, ...singleSourceMeta(reportA) });
+      continue;
     }
 
-    if (!matchFound) {
-      merged.push({ ...immA, ...singleSourceMeta(immA) });
+    const meta = reportA.status === reportB.status
+      ? confirmedMeta(reportA, reportB)
+      : conflictMeta(reportA, reportB);
+    // The reader's conclusion makes a record complete
+    const { primary, other, preferredBy } = choosePrimary(reportA, reportB, policy, {
+      date: (report) => report.issued ?? report.effectiveDate,
+      essential: (report) => !!report.conclusion,
+    });
+    merged.push({
+      ...primary,
+      resultIds: [...new Set([...primary.resultIds, ...other.resultIds])],
+      attachments: primary.attachments.length > 0 ? primary.attachments : other.attachments,
+      ...meta,
+      preferredBy,
+      alternates: [other],
+    });
+  }
+
+  // Sort by date (newest first)
+  return merged.sort((a, b) => dateDescending(a.effectiveDate ?? a.issued, b.effectiveDate ?? b.issued));
+}
+
+/**
+ * Resolve a report's result references against the merged lab list.
+ * Matches on mergedFromIds, so a panel still finds its values when
+ * its own Observation was folded into another source's record.
+ */
+export function findPanelResults(
+  report: { resultIds: string[] },
+  labResults: MergedLabResult[]
+): MergedLabResult[] {
+  if (report.resultIds.length === 0) return [];
+  const wanted = new Set(report.resultIds);
+  return labResults.filter((lab) => lab.mergedFromIds.some((id) => wanted.has(id)));
+}
+
+// -----------------------------------------------------------
+// Domain: Documents
+// -----------------------------------------------------------
+// Match by: normalized title + LOINC document type (when both are
+// coded) + date within 24h
+// The same note is often shared to another system through an HIE;
+// anything less certain stays as two documents.
+// On match: same status → "confirmed"; different → "conflict"
+
+function mergeDocuments(
+  allDocs: ClinicalDocument[],
+  overrides = NO_OVERRIDES,
+  policy = mergePolicy.documents
+): MergedDocument[] {
+  if (allDocs.length === 0) return [];
+
+  const merged: MergedDocument[] = [];
+
+  const pairs = pairRecords(
+    allDocs,
+    {
+      keys: (doc) => [`title:${normalizeText(doc.title)}`],
+      window: { date: (doc) => doc.date, ms: MS_PER_DAY },
+    },
+    (docA, docB) => {
+      // Same kind of note with the same title?
+      if (normalizeText(docA.title) !== normalizeText(docB.title)) return false;
+      const bothCoded = docA.codes.length > 0 && docB.codes.length > 0;
+      if (bothCoded && !codesMatch(docA.codes, docB.codes)) return false;
+      return datesWithinWindow(docA.date, docB.date, MS_PER_DAY);
+    },
+    overrides
+  );
+
+  // Content inline in the record (readable offline) makes it complete
+  const hasInline = (d: ClinicalDocument) => d.attachments.some((a) => a.text || a.dataUrl);
+
+  for (const [docA, docB] of pairs) {
+    if (!docB) {
+      merged.push({ ...docA, ...singleSourceMeta(docA) });
+      continue;
     }
+
+    const meta = docA.status === docB.status
+      ? confirmedMeta(docA, docB)
+      : conflictMeta(docA, docB);
+    const { primary, other, preferredBy } = choosePrimary(docA, docB, policy, {
+      date: (doc) => doc.date,
+      essential: hasInline,
+    });
+    merged.push({ ...primary, ...meta, preferredBy, alternates: [other] });
   }
 
   // Sort by date (newest first)
-  return merged.sort((a, b) => dateDescending(a.occurrenceDate, b.occurrenceDate));
+  return merged.sort((a, b) => dateDescending(a.date, b.date));
+}
+
+// -----------------------------------------------------------
+// Domain: Medication Dispenses
+// -----------------------------------------------------------
+// Match by: RxNorm code (or ingredients / drug name) + handed-over date within
+// 24h + same quantity. A claims feed and the pharmacy's own system
+// often report the same fill; two fills on one day with different
+// quantities are kept as two fills.
+
+function mergeMedicationDispenses(
+  allDispenses: MedicationDispense[],
+  overrides = NO_OVERRIDES,
+  policy = mergePolicy.medicationDispenses
+): MergedMedicationDispense[] {
+  if (allDispenses.length === 0) return [];
+
+  const merged: MergedMedicationDispense[] = [];
+
+  // Same drug, same fill (pickup within 24h, same quantity)
+  const pairs = pairRecords(
+    allDispenses,
+    {
+      keys: drugKeys,
+      window: { date: (fill) => fill.whenHandedOver, ms: MS_PER_DAY },
+    },
+    (fillA, fillB) =>
+      sameDrug(fillA, fillB) &&
+      datesWithinWindow(fillA.whenHandedOver, fillB.whenHandedOver, MS_PER_DAY) &&
+      fillA.quantity?.value === fillB.quantity?.value,
+    overrides
+  );
+
+  for (const [fillA, fillB] of pairs) {
+    if (!fillB) {
+      merged.push({ ...fillA, ...singleSourceMeta(fillA) });
+      continue;
+    }
+
+    // A record that knows its days supply is complete — adherence depends on it
+    const { primary, other, preferredBy } = choosePrimary(fillA, fillB, policy, {
+      date: (fill) => fill.whenHandedOver,
+      essential: (fill) => fill.daysSupply !== undefined,
+    });
+    merged.push({ ...primary, ...confirmedMeta(fillA, fillB), preferredBy, alternates: [other] });
+  }
+
+  // Sort by date (newest first)
+  return merged.sort((a, b) => dateDescending(a.whenHandedOver ?? a.whenPrepared, b.whenHandedOver ?? b.whenPrepared));
+}
+
+// -----------------------------------------------------------
+// Domain: Medication Statements
+// -----------------------------------------------------------
+// Match by: RxNorm code (or ingredients / drug name) + start date within 30 days
+// On match: same status → "confirmed"; different → "conflict"
+// ("active" in one system, "stopped" in the other is exactly the
+// kind of disagreement a med reconciliation needs to see).
+
+function mergeMedicationStatements(
+  allStatements: MedicationStatement[],
+  overrides = NO_OVERRIDES,
+  policy = mergePolicy.medicationStatements
+): MergedMedicationStatement[] {
+  if (allStatements.length === 0) return [];
+
+  const THIRTY_DAYS_MS = 30 * MS_PER_DAY;
+  const merged: MergedMedicationStatement[] = [];
+
+  const pairs = pairRecords(
+    allStatements,
+    {
+      keys: drugKeys,
+      window: { date: (stmt) => stmt.effectiveStart, ms: THIRTY_DAYS_MS },
+    },
+    (stmtA, stmtB) =>
+      sameDrug(stmtA, stmtB) &&
+      datesWithinWindow(stmtA.effectiveStart, stmtB.effectiveStart, THIRTY_DAYS_MS),
+    overrides
+  );
+
+  for (const [stmtA, stmtB] of pairs) {
+    if (!stmtB) {
+      merged.push({ ...stmtA, ...singleSourceMeta(stmtA) });
+      continue;
+    }
+
+    const meta = stmtA.status === stmtB.status
+      ? confirmedMeta(stmtA, stmtB)
+      : conflictMeta(stmtA, stmtB);
+    const { primary, other, preferredBy } = choosePrimary(stmtA, stmtB, policy, { date: (stmt) => stmt.dateAsserted });
+    merged.push({ ...primary, ...meta, preferredBy, alternates: [other] });
+  }
+
+  // Sort by date (newest first)
+  return merged.sort((a, b) => dateDescending(a.dateAsserted ?? a.effectiveStart, b.dateAsserted ?? b.effectiveStart));
+}
+
+/**
+ * Attach each fill / statement to the merged medication it belongs to.
+ * Explicit prescription references win; otherwise the drug must
+ * match by code, ingredients or name, preferring a prescription
+ * from the same system. Unmatched records keep no link (OTC drugs, outside fills).
+ */
+function linkToMedications<T extends { codes: ClinicalCode[]; name: string; source: SourceTag; medicationId?: string }>(
+  records: T[],
+  medications: MergedMedication[],
+  prescriptionIds: (record: T) => string[]
+): void {
+  // Original prescription ID → position in `medications`; drug key → positions
+  const byOriginalId = new Map<string, number>();
+  const byDrugKey = new Map<string, number[]>();
+  medications.forEach((med, i) => {
+    for (const id of med.mergedFromIds) if (!byOriginalId.has(id)) byOriginalId.set(id, i);
+    for (const key of new Set(drugKeys(med))) {
+      const list = byDrugKey.get(key);
+      if (list) list.push(i);
+      else byDrugKey.set(key, [i]);
+    }
+  });
+
+  for (const record of records) {
+    const refIndices = prescriptionIds(record)
+      .map((id) => byOriginalId.get(id))
+      .filter((i): i is number => i !== undefined);
+    if (refIndices.length > 0) {
+      record.medicationId = medications[Math.min(...refIndices)].id;
+      continue;
+    }
+
+    const candidateIndices = new Set(drugKeys(record).flatMap((key) => byDrugKey.get(key) ?? []));
+    const candidates = [...candidateIndices]
+      .sort((a, b) => a - b)
+      .map((i) => medications[i])
+      .filter((m) => sameDrug(m, record));
+    const match =
+      candidates.find((m) => m.allSources.some((s) => s.systemId === record.source.systemId)) ??
+      candidates[0];
+    if (match) record.medicationId = match.id;
+  }
+}
+
+// -----------------------------------------------------------
+// Domain: Appointments
+// -----------------------------------------------------------
+// Match by: start within 15 minutes + same clinician or location.
+// Referral visits are often booked in both the referring and the
+// receiving system; two visits at the same time with different
+// clinicians stay separate.
+// On match: same status → "confirmed"; different → "conflict"
+// ("booked" in one system, "cancelled" in the other).
+
+function mergeAppointments(
+  allAppointments: Appointment[],
+  overrides = NO_OVERRIDES,
+  policy = mergePolicy.appointments
+): MergedAppointment[] {
+  if (allAppointments.length === 0) return [];
+
+  const FIFTEEN_MIN_MS = 15 * 60_000;
+  const merged: MergedAppointment[] = [];
+  const sameText = (a?: string, b?: string) => !!a && !!b && normalizeText(a) === normalizeText(b);
+
+  const pairs = pairRecords(
+    allAppointments,
+    {
+      keys: (appt) => [
+        ...(appt.practitioner ? [`practitioner:${normalizeText(appt.practitioner)}`] : []),
+        ...(appt.location ? [`location:${normalizeText(appt.location)}`] : []),
+      ],
+      window: { date: (appt) => appt.start, ms: FIFTEEN_MIN_MS },
+    },
+    (apptA, apptB) =>
+      datesWithinWindow(apptA.start, apptB.start, FIFTEEN_MIN_MS) &&
+      (sameText(apptA.practitioner, apptB.practitioner) || sameText(apptA.location, apptB.location)),
+    overrides
+  );
+
+  for (const [apptA, apptB] of pairs) {
+    if (!apptB) {
+      merged.push({ ...apptA, ...singleSourceMeta(apptA) });
+      continue;
+    }
+
+    const meta = apptA.status === apptB.status
+      ? confirmedMeta(apptA, apptB)
+      : conflictMeta(apptA, apptB);
+    const { primary, other, preferredBy } = choosePrimary(apptA, apptB, policy);
+    merged.push({ ...primary, ...meta, preferredBy, alternates: [other] });
+  }
+
+  // Sort by start (newest first)
+  return merged.sort((a, b) => dateDescending(a.start, b.start));
 }
 
 // -----------------------------------------------------------
 // Domain: Encounters
 // -----------------------------------------------------------
-// No dedup — every encounter is unique.
-// Just tag with metadata and sort chronologically.
+// Match by: periods overlap + starts within 7 days + same setting
+// (class) + same location, where both records report them.
+// A hospital stay is often reported by the hospital and again by
+// the PCP's HIE feed, with the facility named more or less fully
+// ("Community Medical Center" vs "Community Medical Center — ED"),
+// so one location containing the other counts as the same.
+// On match: "confirmed" (status often lags in HIE feeds, so it
+// isn't compared).
+//
+// After merging, labs, vitals and medications dated within a visit
+// are linked to it (encounterId) — see linkToEncounters.
+
+const ENCOUNTER_CLASS_CODES: Record<string, string> = {
+  amb: "ambulatory",
+  emer: "emergency",
+  imp: "inpatient",
+  acute: "inpatient",
+  nonac: "inpatient",
+  obsenc: "observation",
+  hh: "home health",
+  vr: "virtual",
+};
+
+/** Care setting of an encounter class, code or display ("AMB", "inpatient encounter") */
+function encounterSetting(encounterClass?: string): string | undefined {
+  if (!encounterClass) return undefined;
+  const cls = normalizeText(encounterClass);
+  if (ENCOUNTER_CLASS_CODES[cls]) return ENCOUNTER_CLASS_CODES[cls];
+  if (cls.includes("inpatient")) return "inpatient";
+  if (cls.includes("emergency")) return "emergency";
+  if (cls.includes("ambulatory") || cls.includes("outpatient")) return "ambulatory";
+  if (cls.includes("observation")) return "observation";
+  if (cls.includes("virtual")) return "virtual";
+  return cls;
+}
+
+/** Calendar day of a FHIR date / dateTime, as written (YYYY-MM-DD) */
+function calendarDay(date: string): string {
+  return date.slice(0, 10);
+}
+
+/**
+ * The period an encounter covers. Without an end (or with only
+ * dates) it covers whole calendar days, so a date-only lab or
+ * prescription on the visit day still falls inside it.
+ */
+function encounterSpan(enc: Encounter): { start: number; end: number; firstDay: string; lastDay: string } | undefined {
+  if (!enc.periodStart) return undefined;
+  const start = parseDate(enc.periodStart);
+  if (isNaN(start)) return undefined;
+  const firstDay = calendarDay(enc.periodStart);
+  const lastDay = calendarDay(enc.periodEnd ?? enc.periodStart);
+  const end = enc.periodEnd ? parseDate(enc.periodEnd) : NaN;
+  return { start, end: isNaN(end) ? start : end, firstDay, lastDay };
+}
+
+/** Does a date fall within an encounter? Date-only values compare by day */
+function withinEncounter(date: string, enc: Encounter): boolean {
+  const span = encounterSpan(enc);
+  if (!span) return false;
+  const hasTime = date.length > 10;
+  if (!hasTime || !enc.periodEnd) {
+    const day = calendarDay(date);
+    return day >= span.firstDay && day <= span.lastDay;
+  }
+  const time = parseDate(date);
+  return !isNaN(time) && time >= span.start && time <= span.end;
+}
 
-function mergeEncounters(allEncounters: Encounter[]): MergedEncounter[] {
-  const merged = allEncounters.map((enc) => ({
-    ...enc,
-    ...singleSourceMeta(enc),
-  }));
+function encountersOverlap(encA: Encounter, encB: Encounter): boolean {
+  const spanA = encounterSpan(encA);
+  const spanB = encounterSpan(encB);
+  if (!spanA || !spanB) return false;
+  // Either one open-ended or date-only → overlap by calendar day
+  if (!encA.periodEnd || !encB.periodEnd) {
+    return spanA.firstDay <= spanB.lastDay && spanB.firstDay <= spanA.lastDay;
+  }
+  return spanA.start <= spanB.end && spanB.start <= spanA.end;
+}
+
+function sameEncounterLocation(locationA?: string, locationB?: string): boolean {
+  if (!locationA || !locationB) return true;
+  const a = normalizeText(locationA);
+  const b = normalizeText(locationB);
+  return a.includes(b) || b.includes(a);
+}
+
+function mergeEncounters(
+  allEncounters: Encounter[],
+  overrides = NO_OVERRIDES,
+  policy = mergePolicy.encounters
+): MergedEncounter[] {
+  if (allEncounters.length === 0) return [];
+
+  const SEVEN_DAYS_MS = 7 * MS_PER_DAY;
+  const merged: MergedEncounter[] = [];
+
+  // Same visit: overlapping periods, same setting and place
+  const pairs = pairRecords(
+    allEncounters,
+    {
+      keys: () => ["encounter"],
+      window: { date: (enc) => enc.periodStart, ms: SEVEN_DAYS_MS },
+    },
+    (encA, encB) => {
+      const settingA = encounterSetting(encA.encounterClass);
+      const settingB = encounterSetting(encB.encounterClass);
+      if (settingA && settingB && settingA !== settingB) return false;
+      if (!sameEncounterLocation(encA.location, encB.location)) return false;
+      return (
+        datesWithinWindow(encA.periodStart, encB.periodStart, SEVEN_DAYS_MS) && encountersOverlap(encA, encB)
+      );
+    },
+    overrides
+  );
+
+  for (const [encA, encB] of pairs) {
+    if (!encB) {
+      merged.push({ ...encA, ...singleSourceMeta(encA) });
+      continue;
+    }
+
+    // A discharge / end time makes a record complete
+    const { primary, other, preferredBy } = choosePrimary(encA, encB, policy, {
+      date: (enc) => enc.periodEnd ?? enc.periodStart,
+      essential: (enc) => !!enc.periodEnd,
+    });
+    merged.push({ ...primary, ...confirmedMeta(encA, encB), preferredBy, alternates: [other] });
+  }
 
   // Sort by start date (newest first)
   return merged.sort((a, b) => dateDescending(a.periodStart, b.periodStart));
 }
 
+/**
+ * Link each record to the encounter it was dated within. When
+ * visits overlap (an ED visit inside a hospital stay) the shortest
+ * one wins — it says more about where the record came from.
+ * Undated records and records outside every visit keep no link.
+ */
+function linkToEncounters<T extends EncounterLink>(
+  records: T[],
+  encounters: MergedEncounter[],
+  dateOf: (record: T) => string | undefined
+): void {
+  if (encounters.length === 0) return;
+
+  // Calendar day → encounters covering it (stays longer than a
+  // year are capped; nothing is dated that long inside one visit)
+  const byDay = new Map<string, MergedEncounter[]>();
+  for (const enc of encounters) {
+    const span = encounterSpan(enc);
+    if (!span) continue;
+    const first = Date.parse(span.firstDay);
+    const last = Math.min(Date.parse(span.lastDay), first + 366 * MS_PER_DAY);
+    if (isNaN(first) || isNaN(last)) continue;
+    for (let day = first; day <= last; day += MS_PER_DAY) {
+      const key = new Date(day).toISOString().slice(0, 10);
+      const list = byDay.get(key);
+      if (list) list.push(enc);
+      else byDay.set(key, [enc]);
+    }
+  }
+
+  // Open-ended visits cover their whole day, so a timed visit that day is more specific
+  const length = (enc: MergedEncounter) => {
+    const span = encounterSpan(enc)!;
+    return enc.periodEnd ? span.end - span.start : Date.parse(span.lastDay) - Date.parse(span.firstDay) + MS_PER_DAY;
+  };
+
+  for (const record of records) {
+    const date = dateOf(record);
+    if (!date) continue;
+    // Timed records may be written in another UTC offset than the visit — look a day either side
+    const day = Date.parse(calendarDay(date));
+    if (isNaN(day)) continue;
+    const days = date.length > 10 ? [day - MS_PER_DAY, day, day + MS_PER_DAY] : [day];
+    const candidates = new Set(days.flatMap((d) => byDay.get(new Date(d).toISOString().slice(0, 10)) ?? []));
+    const containing = [...candidates].filter((enc) => withinEncounter(date, enc));
+    if (containing.length === 0) continue;
+    record.encounterId = containing.reduce((best, enc) => (length(enc) < length(best) ? enc : best)).id;
+  }
+}
+
+/**
+ * Everything dated within a merged encounter: "what happened at
+ * this visit". Reads the encounterId links set by mergeAllDomains.
+ */
+export function findEncounterRecords(
+  encounter: { id: string },
+  result: Pick<MergeResult, "labResults" | "vitals" | "medications">
+): { labResults: MergedLabResult[]; vitals: MergedVital[]; medications: MergedMedication[] } {
+  return {
+    labResults: result.labResults.filter((lab) => lab.encounterId === encounter.id),
+    vitals: result.vitals.filter((vital) => vital.encounterId === encounter.id),
+    medications: result.medications.filter((med) => med.encounterId === encounter.id),
+  };
+}
+
 // -----------------------------------------------------------
 // Main Merge Function
 // -----------------------------------------------------------
@@ -666,6 +1733,12 @@ export interface MergeInput {
   conditions: Condition[];
   immunizations: Immunization[];
   encounters: Encounter[];
+  procedures: Procedure[];
+  diagnosticReports: DiagnosticReport[];
+  documents: ClinicalDocument[];
+  medicationDispenses: MedicationDispense[];
+  medicationStatements: MedicationStatement[];
+  appointments: Appointment[];
 }
 
 /**
@@ -678,9 +1751,15 @@ export interface MergeInput {
  *   - Allergy absence markers ("Not on File") are filtered but tracked
  *
  * @param sources - Array of data from each source (e.g., [epicData, cmcData])
+ * @param overrides - Patient corrections (see sources/mergeOverrides)
+ * @param policy - Which system's record each domain shows (see config/mergePolicy)
  * @returns Unified merged data with provenance and absence tracking
  */
-export function mergeAllDomains(sources: MergeInput[]): MergeResult {
+export function mergeAllDomains(
+  sources: MergeInput[],
+  overrides: MergeOverride[] = [],
+  policy: MergePolicy = mergePolicy
+): MergeResult {
   // Flatten all sources into domain-specific arrays
   const allMedications = sources.flatMap((s) => s.medications);
   const allLabResults = sources.flatMap((s) => s.labResults);
@@ -689,18 +1768,79 @@ export function mergeAllDomains(sources: MergeInput[]): MergeResult {
   const allConditions = sources.flatMap((s) => s.conditions);
   const allImmunizations = sources.flatMap((s) => s.immunizations);
   const allEncounters = sources.flatMap((s) => s.encounters);
+  const allProcedures = sources.flatMap((s) => s.procedures);
+  const allReports = sources.flatMap((s) => s.diagnosticReports);
+  const allDocuments = sources.flatMap((s) => s.documents);
+  const allDispenses = sources.flatMap((s) => s.medicationDispenses);
+  const allStatements = sources.flatMap((s) => s.medicationStatements);
+  const allAppointments = sources.flatMap((s) => s.appointments);
+
+  // Merge each domain, applying the patient's overrides and the domain's policy
+  const forDomain = (domain: MergeOverrideDomain) => domainOverrides(overrides, domain);
+  const { allergies, absenceSources: allergyAbsenceSources } = mergeAllergies(
+    allAllergies,
+    forDomain("allergies"),
+    policy.allergies
+  );
+  const medications = mergeMedications(allMedications, forDomain("medications"), policy.medications);
+  const medicationDispenses = mergeMedicationDispenses(
+    allDispenses,
+    forDomain("medicationDispenses"),
+    policy.medicationDispenses
+  );
+  const medicationStatements = mergeMedicationStatements(
+    allStatements,
+    forDomain("medicationStatements"),
+    policy.medicationStatements
+  );
+  linkToMedications(medicationDispenses, medications, (d) => d.prescriptionIds);
+  linkToMedications(medicationStatements, medications, () => []);
 
-  // Merge each domain
-  const { allergies, absenceSources: allergyAbsenceSources } = mergeAllergies(allAllergies);
+  const encounters = mergeEncounters(allEncounters, forDomain("encounters"), policy.encounters);
+  const labResults = mergeLabResults(allLabResults, forDomain("labResults"), policy.labResults);
+  const vitals = mergeVitals(allVitals, forDomain("vitals"), policy.vitals);
+  linkToEncounters(labResults, encounters, (lab) => lab.effectiveDate);
+  linkToEncounters(vitals, encounters, (vital) => vital.effectiveDate);
+  linkToEncounters(medications, encounters, (med) => med.dateWritten);
 
   const result: MergeResult = {
-    medications: mergeMedications(allMedications),
-    labResults: mergeLabResults(allLabResults),
-    vitals: mergeVitals(allVitals),
-    allergies,
-    conditions: mergeConditions(allConditions),
-    immunizations: mergeImmunizations(allImmunizations),
-    encounters: mergeEncounters(allEncounters),
+    medications: tagOverrides(medications, overrides, "medications"),
+    labResults: tagOverrides(labResults, overrides, "labResults"),
+    vitals: tagOverrides(vitals, overrides, "vitals"),
+    allergies: tagOverrides(allergies, overrides, "allergies"),
+    conditions: tagOverrides(
+      mergeConditions(allConditions, forDomain("conditions"), policy.conditions),
+      overrides,
+      "conditions"
+    ),
+    immunizations: tagOverrides(
+      mergeImmunizations(allImmunizations, forDomain("immunizations"), policy.immunizations),
+      overrides,
+      "immunizations"
+    ),
+    encounters: tagOverrides(encounters, overrides, "encounters"),
+    procedures: tagOverrides(
+      mergeProcedures(allProcedures, forDomain("procedures"), policy.procedures),
+      overrides,
+      "procedures"
+    ),
+    diagnosticReports: tagOverrides(
+      mergeDiagnosticReports(allReports, forDomain("diagnosticReports"), policy.diagnosticReports),
+      overrides,
+      "diagnosticReports"
+    ),
+    documents: tagOverrides(
+      mergeDocuments(allDocuments, forDomain("documents"), policy.documents),
+      overrides,
+      "documents"
+    ),
+    medicationDispenses: tagOverrides(medicationDispenses, overrides, "medicationDispenses"),
+    medicationStatements: tagOverrides(medicationStatements, overrides, "medicationStatements"),
+    appointments: tagOverrides(
+      mergeAppointments(allAppointments, forDomain("appointments"), policy.appointments),
+      overrides,
+      "appointments"
+    ),
     allergyAbsenceSources,
   };
 
@@ -714,7 +1854,13 @@ export function mergeAllDomains(sources: MergeInput[]): MergeResult {
         s.allergies.length +
         s.conditions.length +
         s.immunizations.length +
-        s.encounters.length,
+        s.encounters.length +
+        s.procedures.length +
+        s.diagnosticReports.length +
+        s.documents.length +
+        s.medicationDispenses.length +
+        s.medicationStatements.length +
+        s.appointments.length,
       0
     );
     const totalOutput =
@@ -724,7 +1870,13 @@ export function mergeAllDomains(sources: MergeInput[]): MergeResult {
       result.allergies.length +
       result.conditions.length +
       result.immunizations.length +
-      result.encounters.length;
+      result.encounters.length +
+      result.procedures.length +
+      result.diagnosticReports.length +
+      result.documents.length +
+      result.medicationDispenses.length +
+      result.medicationStatements.length +
+      result.appointments.length;
 
     const confirmed = [
       ...result.medications,
@@ -734,6 +1886,12 @@ export function mergeAllDomains(sources: MergeInput[]): MergeResult {
       ...result.conditions,
       ...result.immunizations,
       ...result.encounters,
+      ...result.procedures,
+      ...result.diagnosticReports,
+      ...result.documents,
+      ...result.medicationDispenses,
+      ...result.medicationStatements,
+      ...result.appointments,
     ].filter((r) => r.mergeStatus === "confirmed").length;
 
     const conflicts = [
@@ -744,6 +1902,12 @@ export function mergeAllDomains(sources: MergeInput[]): MergeResult {
       ...result.conditions,
       ...result.immunizations,
       ...result.encounters,
+      ...result.procedures,
+      ...result.diagnosticReports,
+      ...result.documents,
+      ...result.medicationDispenses,
+      ...result.medicationStatements,
+      ...result.appointments,
     ].filter((r) => r.mergeStatus === "conflict").length;
 
     console.log("[MergeEngine] Merge complete:");
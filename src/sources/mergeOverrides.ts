@@ -0,0 +1,110 @@
+// -----------------------------------------------------------
+// Merge Overrides — Patient corrections, persisted on device
+// -----------------------------------------------------------
+// Module-level store of MergeOverrides ("these are the same",
+// "these are different", "this record is wrong"). Saved in
+// localStorage and handed to mergeAllDomains on every run.
+//
+// Overrides are keyed by the original record ids (mergedFromIds),
+// not the merged record's id, so they keep applying however the
+// rest of the record set changes. An override whose records no
+// longer arrive from any source simply has no effect.
+//
+// Subscribers (useMergeOverrides) are notified on every change so
+// useUnifiedData re-merges with the new set.
+// -----------------------------------------------------------
+
+import type { MergeOverride, MergeOverrideKind, MergeOverrideDomain } from "../types/merged";
+
+type OverrideListener = () => void;
+
+const STORAGE_KEY = "smarthealth_merge_overrides";
+
+function loadMergeOverrides(): MergeOverride[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveMergeOverrides(next: MergeOverride[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (err) {
+    console.error("[MergeOverrides] Failed to persist overrides:", err);
+  }
+}
+
+const listeners = new Set<OverrideListener>();
+
+// Snapshot array — replaced (never mutated) on change so React
+// can compare by reference in useSyncExternalStore
+let snapshot: MergeOverride[] = loadMergeOverrides();
+
+function update(next: MergeOverride[]): void {
+  snapshot = next;
+  saveMergeOverrides(next);
+  listeners.forEach((listener) => listener());
+}
+
+/** Same ids, same groups — regardless of order */
+function sameRecords(a: string[][], b: string[][]): boolean {
+  const key = (groups: string[][]) => groups.map((g) => [...g].sort().join("|")).sort().join("||");
+  return key(a) === key(b);
+}
+
+/**
+ * Record a correction. Replaces an existing override for the same
+ * records, so "same" and "different" on one pair can't both apply.
+ */
+export function addMergeOverride(
+  kind: MergeOverrideKind,
+  domain: MergeOverrideDomain,
+  records: string[][]
+): MergeOverride {
+  const override: MergeOverride = {
+    id: `override-${Date.now().toString(36)}-${snapshot.length}`,
+    kind,
+    domain,
+    records,
+    createdAt: new Date().toISOString(),
+  };
+
+  const replacesPair = (o: MergeOverride) =>
+    o.domain === domain && o.kind !== "wrong" && kind !== "wrong" && sameRecords(o.records, records);
+  update([...snapshot.filter((o) => !replacesPair(o)), override]);
+
+  if (import.meta.env.DEV) {
+    console.log(`[MergeOverrides] ${kind} (${domain}):`, records);
+  }
+  return override;
+}
+
+/** Undo a correction. No-op if it doesn't exist. */
+export function removeMergeOverride(id: string): void {
+  if (!snapshot.some((o) => o.id === id)) return;
+  update(snapshot.filter((o) => o.id !== id));
+}
+
+/** Overrides involving any of a record's original ids */
+export function findMergeOverrides(domain: MergeOverrideDomain, mergedFromIds: string[]): MergeOverride[] {
+  const ids = new Set(mergedFromIds);
+  return snapshot.filter((o) => o.domain === domain && o.records.some((group) => group.some((id) => ids.has(id))));
+}
+
+/** All overrides (stable reference between changes) */
+export function getMergeOverrides(): MergeOverride[] {
+  return snapshot;
+}
+
+/** Subscribe to override changes. Returns an unsubscribe function. */
+export function subscribeToMergeOverrides(listener: OverrideListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
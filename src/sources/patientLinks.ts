@@ -0,0 +1,108 @@
+// -----------------------------------------------------------
+// Patient Links — The patient's own identity decisions
+// -----------------------------------------------------------
+// Module-level store of PatientLinkDecisions: "yes, that record
+// at Community MC is me" / "no, it isn't". Saved in localStorage,
+// one decision per source and primary patient — on a shared
+// browser, one person's answer never applies to someone else who
+// signs in. Applied by useUnifiedData on top of the probabilistic
+// matcher (sources/patientMatcher): a possible match the patient
+// confirmed is merged, and a source they rejected stays out
+// however well its details match.
+//
+// Subscribers (usePatientLinks) are notified on every change so
+// useUnifiedData re-runs the pipeline with the new decisions.
+// -----------------------------------------------------------
+
+import type { PatientLinkDecision } from "../types/patient";
+
+type LinkListener = () => void;
+
+const STORAGE_KEY = "smarthealth_patient_links";
+
+function loadPatientLinks(): PatientLinkDecision[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    // Decisions saved without the deciding patient can't be attributed — drop them
+    return Array.isArray(parsed) ? parsed.filter((l) => typeof l?.primaryPatientId === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+function savePatientLinks(next: PatientLinkDecision[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (err) {
+    console.error("[PatientLinks] Failed to persist decisions:", err);
+  }
+}
+
+const listeners = new Set<LinkListener>();
+
+// Snapshot array — replaced (never mutated) on change so React
+// can compare by reference in useSyncExternalStore
+let snapshot: PatientLinkDecision[] = loadPatientLinks();
+
+function update(next: PatientLinkDecision[]): void {
+  snapshot = next;
+  savePatientLinks(next);
+  listeners.forEach((listener) => listener());
+}
+
+function isDecisionBy(link: PatientLinkDecision, sourceId: string, primaryPatientId: string): boolean {
+  return link.sourceId === sourceId && link.primaryPatientId === primaryPatientId;
+}
+
+/** Record the patient's decision for a source, replacing their earlier one */
+export function setPatientLink(
+  sourceId: string,
+  primaryPatientId: string,
+  patientId: string,
+  decision: PatientLinkDecision["decision"]
+): PatientLinkDecision {
+  const link: PatientLinkDecision = {
+    sourceId,
+    primaryPatientId,
+    patientId,
+    decision,
+    decidedAt: new Date().toISOString(),
+  };
+  update([...snapshot.filter((l) => !isDecisionBy(l, sourceId, primaryPatientId)), link]);
+
+  if (import.meta.env.DEV) {
+    console.log(`[PatientLinks] ${sourceId} (${patientId}) → ${decision} by ${primaryPatientId}`);
+  }
+  return link;
+}
+
+/** Forget the patient's decision for a source — the matcher decides again. No-op if none. */
+export function clearPatientLink(sourceId: string, primaryPatientId: string): void {
+  if (!snapshot.some((l) => isDecisionBy(l, sourceId, primaryPatientId))) return;
+  update(snapshot.filter((l) => !isDecisionBy(l, sourceId, primaryPatientId)));
+}
+
+/** The primary patient's decision about this source's Patient record, if they made one */
+export function findPatientLink(
+  sourceId: string,
+  primaryPatientId: string,
+  patientId: string,
+  links: PatientLinkDecision[] = snapshot
+): PatientLinkDecision | undefined {
+  return links.find((l) => isDecisionBy(l, sourceId, primaryPatientId) && l.patientId === patientId);
+}
+
+/** All decisions (stable reference between changes) */
+export function getPatientLinks(): PatientLinkDecision[] {
+  return snapshot;
+}
+
+/** Subscribe to decision changes. Returns an unsubscribe function. */
+export function subscribeToPatientLinks(listener: LinkListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,63 @@
+// -----------------------------------------------------------
+// patientMatcher — calibration cases
+// -----------------------------------------------------------
+// The cases from the thresholds comment in patientMatcher.ts,
+// plus the household cases it must never merge: a twin or
+// sibling shares surname, address and phone (a twin the DOB too).
+// -----------------------------------------------------------
+
+import { describe, expect, it } from "vitest";
+import { matchPatients } from "./patientMatcher";
+import type { PatientDemographics } from "../types/patient";
+
+const camila: PatientDemographics = {
+  id: "epic-patient-1",
+  fullName: "Camila Lopez",
+  firstName: "Camila",
+  lastName: "Lopez",
+  gender: "female",
+  birthDate: "1987-09-12",
+  age: 39,
+  mrn: "E-1001",
+  phone: "469-555-0142",
+  address: "456 Oak Avenue, Dallas, TX 75201",
+};
+
+function candidate(overrides: Partial<PatientDemographics>): PatientDemographics {
+  const patient = { ...camila, id: "cmc-patient-1", mrn: "CMC-2024-88421", ...overrides };
+  return { ...patient, fullName: `${patient.firstName} ${patient.lastName}` };
+}
+
+describe("matchPatients", () => {
+  it("merges the same person across registration desks", () => {
+    const result = matchPatients(camila, candidate({ firstName: "Camilla", address: "456 Oak Ave., Dallas, TX 75201" }));
+    expect(result.outcome).toBe("match");
+  });
+
+  it("asks about a transposed DOB, and merges once the phone agrees", () => {
+    const noContact = candidate({ birthDate: "1987-12-09", phone: undefined, address: undefined });
+    expect(matchPatients(camila, noContact).outcome).toBe("possible-match");
+    expect(matchPatients(camila, candidate({ birthDate: "1987-12-09", address: undefined })).outcome).toBe("match");
+  });
+
+  it("never merges a twin who shares the household", () => {
+    const twin = candidate({ firstName: "Sofia" });
+    const result = matchPatients(camila, twin);
+    expect(result.outcome).toBe("possible-match");
+    expect(result.isMatch).toBe(false);
+    expect(result.score).toBeCloseTo(18.3, 1);
+    expect(result.fields.filter((f) => f.field === "address" || f.field === "phone").map((f) => f.weight)).toEqual([0, 0]);
+  });
+
+  it("does not let household fields lift a sibling to a match", () => {
+    const sibling = candidate({ firstName: "Sofia", birthDate: "1990-03-04" });
+    expect(matchPatients(camila, sibling).outcome).not.toBe("match");
+  });
+
+  it("caps a different first name at possible match, whatever the score", () => {
+    // Transposed DOB: address and phone still count, lifting the score past the match threshold
+    const result = matchPatients(camila, candidate({ firstName: "Sofia", birthDate: "1987-12-09" }));
+    expect(result.score).toBeGreaterThanOrEqual(22);
+    expect(result.outcome).toBe("possible-match");
+  });
+});
@@ -1,12 +1,26 @@
 // -----------------------------------------------------------
 // Patient Matcher — Links patients across health systems
 // -----------------------------------------------------------
-// For the demo, we control both sides so matching is exact.
-// But the interface is designed for future probabilistic matching
-// (e.g., Levenshtein distance on names, fuzzy DOB matching).
+// Fellegi-Sunter record linkage: every field is compared at an
+// agreement level (exact, nickname, similar, transposed…), and
+// each level carries two probabilities:
+//   m = P(this level | same person)      — how often real matches agree
+//   u = P(this level | different people) — how often strangers agree by chance
+// The level's weight is log2(m / u). Weights add up to a score;
+// the score is converted to a posterior probability and
+// classified as match / possible match / non-match.
 //
-// The matcher confirms that the synthetic Community MC patient
-// is the SAME person as the Epic patient before merging data.
+// This tolerates the ordinary noise between registration desks:
+// "Camila" vs "Camilla", "Bill" vs "William", a DOB with day and
+// month swapped, "456 Oak Avenue" vs "456 Oak Ave.".
+//
+// What it must NOT do is merge a twin or sibling: same surname,
+// same address and phone, often the same DOB. Those fields are
+// not independent within a household, so once surname and DOB
+// agree the address and phone add nothing, and a different first
+// name always leaves the decision to the patient.
+//
+// MRNs are never compared — they ALWAYS differ across systems.
 // -----------------------------------------------------------
 
 import type { PatientDemographics } from "../types/patient";
@@ -15,15 +29,37 @@ import type { PatientDemographics } from "../types/patient";
 // Types
 // -----------------------------------------------------------
 
+/** Linkage decision: merge, ask the patient, or keep apart */
+export type MatchOutcome = "match" | "possible-match" | "non-match";
+
+/** How closely one field agreed */
+export type AgreementLevel = "exact" | "nickname" | "similar" | "transposed" | "partial" | "disagree" | "missing";
+
+/** One field's comparison — the explanation behind the score */
+export interface FieldComparison {
+  field: "firstName" | "lastName" | "birthDate" | "gender" | "address" | "phone";
+  level: AgreementLevel;
+  /** log2(m/u) for the level (0 when either side is missing, or for shared household fields) */
+  weight: number;
+  /** Values compared, as recorded */
+  valueA?: string;
+  valueB?: string;
+}
+
 export interface MatchResult {
-  /** Whether the patients are the same person */
+  /** Whether the patients are the same person (outcome === "match") */
   isMatch: boolean;
-  /** Confidence score: 0 (no match) to 1 (certain match) */
+  outcome: MatchOutcome;
+  /** Posterior probability of a match: 0 (no match) to 1 (certain match) */
   confidence: number;
-  /** Which fields matched */
+  /** Sum of field weights (log2 likelihood ratio) */
+  score: number;
+  /** Which fields matched (exactly or closely) */
   matchedOn: string[];
   /** Which fields did NOT match (for conflict resolution) */
   conflicts: string[];
+  /** Every field compared, with its level and weight */
+  fields: FieldComparison[];
 }
 
 export interface PatientMatcher {
@@ -34,7 +70,85 @@ export interface PatientMatcher {
 }
 
 // -----------------------------------------------------------
-// Helpers
+// Weights
+// -----------------------------------------------------------
+// m / u per agreement level. "disagree" takes what is left of
+// both, so each field's levels sum to 1 on either side.
+//
+// u for an exact DOB is 1 / (365 × 80): two strangers share a
+// birthday by chance. m for address / phone is low — people move
+// and change numbers, so disagreeing costs little.
+
+type Probabilities = { m: number; u: number };
+
+const FIELD_LEVELS: Record<FieldComparison["field"], Partial<Record<AgreementLevel, Probabilities>>> = {
+  firstName: {
+    exact: { m: 0.9, u: 0.01 },
+    nickname: { m: 0.04, u: 0.002 },
+    similar: { m: 0.03, u: 0.005 },
+  },
+  lastName: {
+    exact: { m: 0.93, u: 0.005 },
+    similar: { m: 0.04, u: 0.005 },
+  },
+  birthDate: {
+    exact: { m: 0.96, u: 1 / (365 * 80) },
+    transposed: { m: 0.03, u: 0.0005 },
+  },
+  gender: {
+    exact: { m: 0.98, u: 0.5 },
+  },
+  address: {
+    exact: { m: 0.6, u: 0.0005 },
+    partial: { m: 0.15, u: 0.02 },
+  },
+  phone: {
+    exact: { m: 0.6, u: 0.0001 },
+  },
+};
+
+/** log2(m/u) for a level; "disagree" uses the complement of the listed levels */
+function levelWeight(field: FieldComparison["field"], level: AgreementLevel): number {
+  if (level === "missing") return 0;
+  const levels = FIELD_LEVELS[field];
+  const probabilities = level === "disagree"
+    ? Object.values(levels).reduce(
+        (rest, p) => ({ m: rest.m - p.m, u: rest.u - p.u }),
+        { m: 1, u: 1 }
+      )
+    : levels[level];
+  if (!probabilities) return 0;
+  return Math.log2(probabilities.m / probabilities.u);
+}
+
+// -----------------------------------------------------------
+// Thresholds (calibrated)
+// -----------------------------------------------------------
+// Prior odds that a candidate record is this patient, before any
+// field is compared: ~1 in 65,000 (a regional system's patient
+// population). Posterior = 1 / (1 + 2^-(score + PRIOR_LOG2_ODDS)).
+//
+//   score ≥ 22 → posterior ≥ 0.98 → match (merged)
+//   score ≥ 12 → posterior ≥ 0.06 → possible match (patient asked)
+//   below      → non-match
+//
+// Exact name + DOB + sex scores ~29.8; "Camilla" for "Camila"
+// ~25.9; a transposed DOB with exact names ~20.9 (possible, a
+// match once address or phone agrees); same name with a different
+// DOB ~8.4. A twin ("Sofia" for "Camila", same surname, DOB, sex,
+// address and phone) scores ~18.3 — address and phone don't
+// count — and is never more than a possible match.
+
+const PRIOR_LOG2_ODDS = -16;
+export const MATCH_THRESHOLD = 22;
+export const POSSIBLE_MATCH_THRESHOLD = 12;
+
+function posterior(score: number): number {
+  return 1 / (1 + Math.pow(2, -(score + PRIOR_LOG2_ODDS)));
+}
+
+// -----------------------------------------------------------
+// Helpers — Names
 // -----------------------------------------------------------
 
 /** Normalize a name for comparison: lowercase, trim, remove accents */
@@ -44,101 +158,345 @@ function normalizeName(name: string): string {
     .trim()
     .normalize("NFD")
     .replace(/[\u0300-\u036f]/g, "") // strip accents
-    .replace(/[^a-z\s]/g, ""); // strip non-alpha except spaces
+    .replace(/[^a-z\s]/g, "") // strip non-alpha except spaces
+    .replace(/\s+/g, " ");
+}
+
+/**
+ * Jaro-Winkler similarity (0–1). Rewards a shared prefix, which
+ * suits names: typos cluster at the end ("Camila" / "Camilla").
+ */
+function jaroWinkler(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const matchedA = new Array<boolean>(a.length).fill(false);
+  const matchedB = new Array<boolean>(b.length).fill(false);
+
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - window);
+    const end = Math.min(b.length - 1, i + window);
+    for (let j = start; j <= end; j++) {
+      if (matchedB[j] || a[i] !== b[j]) continue;
+      matchedA[i] = matchedB[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!matchedA[i]) continue;
+    while (!matchedB[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+
+  let prefix = 0;
+  while (prefix < 4 && prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+/** Names at or above this Jaro-Winkler score count as "similar" */
+const NAME_SIMILARITY_THRESHOLD = 0.9;
+
+// Common given-name variants (English and Spanish). Each group is
+// one name; any two members are a nickname match.
+const NICKNAME_GROUPS: string[][] = [
+  ["william", "bill", "billy", "will", "willy", "liam"],
+  ["robert", "bob", "bobby", "rob", "robbie", "bert"],
+  ["richard", "rick", "ricky", "rich", "dick"],
+  ["james", "jim", "jimmy", "jamie"],
+  ["john", "jack", "johnny", "jon"],
+  ["joseph", "joe", "joey"],
+  ["michael", "mike", "mikey", "mick"],
+  ["thomas", "tom", "tommy"],
+  ["charles", "charlie", "chuck", "chas"],
+  ["christopher", "chris", "kit"],
+  ["daniel", "dan", "danny"],
+  ["david", "dave", "davey"],
+  ["edward", "ed", "eddie", "ted", "ned"],
+  ["anthony", "tony"],
+  ["andrew", "andy", "drew"],
+  ["benjamin", "ben", "benny"],
+  ["nicholas", "nick", "nicky"],
+  ["samuel", "sam", "sammy"],
+  ["stephen", "steven", "steve"],
+  ["timothy", "tim", "timmy"],
+  ["alexander", "alex", "xander", "sasha"],
+  ["patrick", "pat", "paddy"],
+  ["elizabeth", "liz", "lizzie", "beth", "betty", "eliza", "libby"],
+  ["margaret", "maggie", "meg", "peggy", "greta"],
+  ["katherine", "catherine", "kathryn", "kate", "katie", "kathy", "cathy", "kat"],
+  ["jennifer", "jen", "jenny"],
+  ["jessica", "jess", "jessie"],
+  ["alexandra", "alex", "alexa", "sandra", "sasha"],
+  ["christine", "christina", "chris", "tina"],
+  ["patricia", "pat", "patty", "trish", "tricia"],
+  ["rebecca", "becky", "becca"],
+  ["susan", "sue", "susie", "suzanne"],
+  ["deborah", "debra", "debbie", "deb"],
+  ["samantha", "sam", "sammie"],
+  ["victoria", "vicky", "tori"],
+  ["abigail", "abby", "gail"],
+  ["jose", "pepe", "chepe"],
+  ["francisco", "paco", "pancho", "frank"],
+  ["guillermo", "memo", "willy"],
+  ["alejandro", "alex", "alejo"],
+  ["guadalupe", "lupe", "lupita"],
+  ["dolores", "lola", "lolita"],
+  ["maria", "mari", "mary"],
+  ["camila", "cami", "mila"],
+];
+
+const NICKNAMES = new Map<string, Set<string>>();
+for (const group of NICKNAME_GROUPS) {
+  for (const name of group) {
+    const variants = NICKNAMES.get(name) ?? new Set<string>();
+    group.forEach((other) => variants.add(other));
+    NICKNAMES.set(name, variants);
+  }
+}
+
+function isNickname(a: string, b: string): boolean {
+  return NICKNAMES.get(a)?.has(b) ?? false;
+}
+
+/** A compound name containing the other whole ("Lopez" / "Lopez Garcia") */
+function containsName(a: string, b: string): boolean {
+  const tokensA = a.split(" ");
+  const tokensB = b.split(" ");
+  const [shorter, longer] = tokensA.length <= tokensB.length ? [tokensA, tokensB] : [tokensB, tokensA];
+  return shorter.every((token) => longer.includes(token));
+}
+
+function compareFirstName(a: string, b: string): AgreementLevel {
+  const first = (name: string) => normalizeName(name).split(" ")[0] ?? "";
+  const [x, y] = [first(a), first(b)];
+  if (!x || !y) return "missing";
+  if (x === y) return "exact";
+  if (isNickname(x, y)) return "nickname";
+  return jaroWinkler(x, y) >= NAME_SIMILARITY_THRESHOLD ? "similar" : "disagree";
+}
+
+function compareLastName(a: string, b: string): AgreementLevel {
+  const [x, y] = [normalizeName(a), normalizeName(b)];
+  if (!x || !y) return "missing";
+  if (x === y) return "exact";
+  return containsName(x, y) || jaroWinkler(x, y) >= NAME_SIMILARITY_THRESHOLD ? "similar" : "disagree";
+}
+
+// -----------------------------------------------------------
+// Helpers — Date of birth
+// -----------------------------------------------------------
+
+/**
+ * Typing errors a registration desk makes with a date: day and
+ * month swapped (09-12 ↔ 12-09), two adjacent digits swapped
+ * (1987 ↔ 1978), or a single digit mistyped.
+ */
+function isTransposedDate(a: string, b: string): boolean {
+  const [yearA, monthA, dayA] = a.split("-");
+  const [yearB, monthB, dayB] = b.split("-");
+  if (yearA === yearB && monthA === dayB && dayA === monthB) return true;
+
+  const digitsA = a.replace(/\D/g, "");
+  const digitsB = b.replace(/\D/g, "");
+  if (digitsA.length !== digitsB.length) return false;
+
+  const diffs: number[] = [];
+  for (let i = 0; i < digitsA.length; i++) {
+    if (digitsA[i] !== digitsB[i]) diffs.push(i);
+  }
+  if (diffs.length === 1) return true;
+  return (
+    diffs.length === 2 &&
+    diffs[1] === diffs[0] + 1 &&
+    digitsA[diffs[0]] === digitsB[diffs[1]] &&
+    digitsA[diffs[1]] === digitsB[diffs[0]]
+  );
 }
 
-/** Compare two date strings (YYYY-MM-DD format) */
-function datesMatch(a?: string, b?: string): boolean {
-  if (!a || !b) return false;
-  return a === b;
+function compareBirthDate(a?: string, b?: string): AgreementLevel {
+  const [x, y] = [a?.slice(0, 10), b?.slice(0, 10)];
+  if (!x || !y) return "missing";
+  if (x === y) return "exact";
+  return isTransposedDate(x, y) ? "transposed" : "disagree";
 }
 
-/** Compare genders */
-function gendersMatch(a?: string, b?: string): boolean {
-  if (!a || !b) return false;
-  return a.toLowerCase() === b.toLowerCase();
+function compareGender(a?: string, b?: string): AgreementLevel {
+  const [x, y] = [a?.trim().toLowerCase(), b?.trim().toLowerCase()];
+  if (!x || !y || x === "unknown" || y === "unknown") return "missing";
+  return x === y ? "exact" : "disagree";
+}
+
+// -----------------------------------------------------------
+// Helpers — Address + phone
+// -----------------------------------------------------------
+
+const STREET_ABBREVIATIONS: Record<string, string> = {
+  street: "st", avenue: "ave", road: "rd", drive: "dr", boulevard: "blvd", lane: "ln",
+  court: "ct", place: "pl", parkway: "pkwy", highway: "hwy", apartment: "apt", suite: "ste",
+  north: "n", south: "s", east: "e", west: "w",
+};
+
+/** Lowercase, punctuation-free, USPS street abbreviations */
+function normalizeStreet(line: string): string {
+  return line
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .split(" ")
+    .map((word) => STREET_ABBREVIATIONS[word] ?? word)
+    .join(" ");
+}
+
+/**
+ * Full agreement when street line and ZIP both match (after
+ * normalization); partial when only one of them does — a new
+ * apartment in the same building, or a ZIP the other desk left off.
+ */
+function compareAddress(a?: string, b?: string): AgreementLevel {
+  if (!a || !b) return "missing";
+  const street = (address: string) => normalizeStreet(address.split(",")[0] ?? "");
+  const zip = (address: string) => address.match(/\b(\d{5})(?:-\d{4})?\b\s*$/)?.[1];
+
+  const sameStreet = street(a) !== "" && street(a) === street(b);
+  const zipA = zip(a);
+  const zipB = zip(b);
+  const sameZip = zipA !== undefined && zipA === zipB;
+
+  if (sameStreet && (sameZip || !zipA || !zipB)) return "exact";
+  return sameStreet || sameZip ? "partial" : "disagree";
+}
+
+/** Last 10 digits — drops formatting and a leading +1 */
+function normalizePhone(phone: string): string {
+  return phone.replace(/\D/g, "").slice(-10);
+}
+
+function comparePhone(a?: string, b?: string): AgreementLevel {
+  const [x, y] = [a && normalizePhone(a), b && normalizePhone(b)];
+  if (!x || !y || x.length < 7 || y.length < 7) return "missing";
+  return x === y ? "exact" : "disagree";
 }
 
 // -----------------------------------------------------------
 // Default Matcher Implementation
 // -----------------------------------------------------------
 
+/** Levels that count toward matchedOn (the rest go to conflicts) */
+const AGREEING_LEVELS: AgreementLevel[] = ["exact", "nickname", "similar", "transposed", "partial"];
+
+/** Address and phone are shared by a household */
+const HOUSEHOLD_FIELDS: FieldComparison["field"][] = ["address", "phone"];
+
 /**
- * Deterministic patient matcher.
- * Matching rules:
- *   - Last name match = +0.3
- *   - First name match = +0.3
- *   - DOB match = +0.3
- *   - Gender match = +0.1
- *
- * Threshold: confidence >= 0.8 = match
- *
- * Future: Could be replaced with probabilistic matching
- * (cosine similarity, edit distance, ML model)
+ * Surname and exact DOB already agree: address and phone would
+ * only re-count the household (twins share all four).
+ */
+function isSameHousehold(compared: Array<Pick<FieldComparison, "field" | "level">>): boolean {
+  const levelOf = (field: FieldComparison["field"]) => compared.find((c) => c.field === field)?.level;
+  const lastName = levelOf("lastName");
+  return lastName !== undefined && AGREEING_LEVELS.includes(lastName) && levelOf("birthDate") === "exact";
+}
+
+/** A different first name is at most a possible match — a sibling, not the patient */
+function classifyMatchScore(score: number, firstName: AgreementLevel): MatchOutcome {
+  if (score >= MATCH_THRESHOLD) return firstName === "disagree" ? "possible-match" : "match";
+  if (score >= POSSIBLE_MATCH_THRESHOLD) return "possible-match";
+  return "non-match";
+}
+
+/**
+ * Probabilistic (Fellegi-Sunter) patient matcher. Compares first
+ * and last name, DOB, sex, address and phone; a missing field on
+ * either side contributes nothing.
  */
 export const defaultMatcher: PatientMatcher = {
   match(
     epicPatient: PatientDemographics,
     candidatePatient: PatientDemographics
   ): MatchResult {
-    let confidence = 0;
-    const matchedOn: string[] = [];
-    const conflicts: string[] = [];
-
-    // Last name comparison
-    const epicLast = normalizeName(epicPatient.lastName);
-    const candidateLast = normalizeName(candidatePatient.lastName);
-    if (epicLast && candidateLast && epicLast === candidateLast) {
-      confidence += 0.3;
-      matchedOn.push("lastName");
-    } else if (epicLast && candidateLast) {
-      conflicts.push(`lastName: "${epicPatient.lastName}" vs "${candidatePatient.lastName}"`);
-    }
+    const compared: Array<Omit<FieldComparison, "weight">> = [
+      {
+        field: "firstName",
+        level: compareFirstName(epicPatient.firstName, candidatePatient.firstName),
+        valueA: epicPatient.firstName,
+        valueB: candidatePatient.firstName,
+      },
+      {
+        field: "lastName",
+        level: compareLastName(epicPatient.lastName, candidatePatient.lastName),
+        valueA: epicPatient.lastName,
+        valueB: candidatePatient.lastName,
+      },
+      {
+        field: "birthDate",
+        level: compareBirthDate(epicPatient.birthDate, candidatePatient.birthDate),
+        valueA: epicPatient.birthDate,
+        valueB: candidatePatient.birthDate,
+      },
+      {
+        field: "gender",
+        level: compareGender(epicPatient.gender, candidatePatient.gender),
+        valueA: epicPatient.gender,
+        valueB: candidatePatient.gender,
+      },
+      {
+        field: "address",
+        level: compareAddress(epicPatient.address, candidatePatient.address),
+        valueA: epicPatient.address,
+        valueB: candidatePatient.address,
+      },
+      {
+        field: "phone",
+        level: comparePhone(epicPatient.phone, candidatePatient.phone),
+        valueA: epicPatient.phone,
+        valueB: candidatePatient.phone,
+      },
+    ];
 
-    // First name comparison
-    const epicFirst = normalizeName(epicPatient.firstName);
-    const candidateFirst = normalizeName(candidatePatient.firstName);
-    if (epicFirst && candidateFirst && epicFirst === candidateFirst) {
-      confidence += 0.3;
-      matchedOn.push("firstName");
-    } else if (epicFirst && candidateFirst) {
-      conflicts.push(`firstName: "${epicPatient.firstName}" vs "${candidatePatient.firstName}"`);
-    }
-
-    // DOB comparison
-    if (datesMatch(epicPatient.birthDate, candidatePatient.birthDate)) {
-      confidence += 0.3;
-      matchedOn.push("birthDate");
-    } else if (epicPatient.birthDate && candidatePatient.birthDate) {
-      conflicts.push(`birthDate: "${epicPatient.birthDate}" vs "${candidatePatient.birthDate}"`);
-    }
-
-    // Gender comparison
-    if (gendersMatch(epicPatient.gender, candidatePatient.gender)) {
-      confidence += 0.1;
-      matchedOn.push("gender");
-    } else if (epicPatient.gender && candidatePatient.gender) {
-      conflicts.push(`gender: "${epicPatient.gender}" vs "${candidatePatient.gender}"`);
-    }
+    const household = isSameHousehold(compared);
+    const fields: FieldComparison[] = compared.map((c) => ({
+      ...c,
+      weight: household && HOUSEHOLD_FIELDS.includes(c.field) ? 0 : levelWeight(c.field, c.level),
+    }));
+    const score = fields.reduce((sum, f) => sum + f.weight, 0);
+    const firstName = fields.find((f) => f.field === "firstName")?.level ?? "missing";
+    const outcome = classifyMatchScore(score, firstName);
 
-    // Note: MRNs will ALWAYS differ across systems — that's expected
-    // We don't penalize for different MRNs
+    const matchedOn = fields
+      .filter((f) => AGREEING_LEVELS.includes(f.level))
+      .map((f) => (f.level === "exact" ? f.field : `${f.field} (${f.level})`));
+    const conflicts = fields
+      .filter((f) => f.level === "disagree")
+      .map((f) => `${f.field}: "${f.valueA}" vs "${f.valueB}"`);
 
-    const isMatch = confidence >= 0.8;
+    const confidence = posterior(score);
 
     if (import.meta.env.DEV) {
       console.log(
         `[PatientMatcher] ${epicPatient.fullName} ↔ ${candidatePatient.fullName}: ` +
-          `confidence=${confidence.toFixed(2)}, match=${isMatch}, ` +
+          `score=${score.toFixed(1)}, confidence=${confidence.toFixed(3)}, outcome=${outcome}, ` +
           `on=[${matchedOn.join(", ")}], conflicts=[${conflicts.join(", ")}]`
       );
     }
 
     return {
-      isMatch,
-      confidence: Math.min(confidence, 1), // cap at 1.0
+      isMatch: outcome === "match",
+      outcome,
+      confidence,
+      score,
       matchedOn,
       conflicts,
+      fields,
     };
   },
 };
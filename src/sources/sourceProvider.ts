@@ -0,0 +1,213 @@
+// -----------------------------------------------------------
+// SourceProvider — Contract for every health data source
+// -----------------------------------------------------------
+// A provider knows how to authenticate against one health system,
+// fetch each clinical domain, and report its own health. The unified
+// pipeline (useUnifiedData) only talks to this interface, so adding
+// Cerner, Athena, or an uploaded file is a new provider + one
+// registerSourceProvider() call — no changes to merge or UI code.
+//
+// Providers are plain objects (not hooks) so they can be created
+// from React context, module scope, or a future Web Worker.
+// -----------------------------------------------------------
+
+import type { SourceTag } from "../types/source";
+import type { PatientDemographics } from "../types/patient";
+import type { MergeInput } from "./mergeEngine";
+
+// -----------------------------------------------------------
+// Domains
+// -----------------------------------------------------------
+
+/** Clinical domain keys — mirrors the arrays accepted by mergeAllDomains */
+export type ClinicalDomain = keyof MergeInput;
+
+/** All domains, in the order they are fetched and logged */
+export const CLINICAL_DOMAINS: ClinicalDomain[] = [
+  "medications",
+  "labResults",
+  "vitals",
+  "allergies",
+  "conditions",
+  "immunizations",
+  "encounters",
+  "procedures",
+  "diagnosticReports",
+  "documents",
+  "medicationDispenses",
+  "medicationStatements",
+  "appointments",
+];
+
+// -----------------------------------------------------------
+// Auth + health
+// -----------------------------------------------------------
+
+export interface SourceAuth {
+  /** How the provider obtains access to its data */
+  kind: "smart-on-fhir" | "file-upload" | "none";
+  /** Whether the provider currently holds usable credentials */
+  isAuthenticated: () => boolean;
+}
+
+export type SourceHealthState =
+  | "idle"
+  | "loading"
+  | "healthy"
+  | "degraded"
+  | "error"
+  | "unauthenticated";
+
+export interface SourceHealthStatus {
+  /** Overall state: "degraded" = some domains failed, "error" = all failed */
+  state: SourceHealthState;
+  /** ISO timestamp of the last completed fetch */
+  lastFetchedAt: string | null;
+  /** Human-readable reason for error/degraded states */
+  message: string | null;
+  /** Per-domain error messages from the last fetch */
+  domainErrors: Partial<Record<ClinicalDomain, string>>;
+}
+
+/** Paging progress for one domain of an in-flight fetch */
+export interface DomainFetchProgress {
+  /** Search result pages received so far */
+  pagesFetched: number;
+  /** Raw resources received so far */
+  resourcesFetched: number;
+  /**
+   * "loading" while pages remain; "partial" = stopped early (page cap
+   * or a failed page) but the pages already received were kept
+   */
+  state: "loading" | "complete" | "partial" | "failed";
+}
+
+/** Called each time a domain's progress changes during fetchAll */
+export type SourceProgressListener = (domain: ClinicalDomain, progress: DomainFetchProgress) => void;
+
+export const IDLE_HEALTH: SourceHealthStatus = {
+  state: "idle",
+  lastFetchedAt: null,
+  message: null,
+  domainErrors: {},
+};
+
+// -----------------------------------------------------------
+// Provider contract
+// -----------------------------------------------------------
+
+export interface SourceFetchResult {
+  /** Provenance tag applied to every record in `data` */
+  tag: SourceTag;
+  /** Parsed records, one array per domain (empty when a domain failed) */
+  data: MergeInput;
+  /**
+   * Per-domain error messages — empty when everything loaded. A domain
+   * with records in `data` AND an entry here is incomplete, not failed.
+   */
+  domainErrors: Partial<Record<ClinicalDomain, string>>;
+}
+
+export interface SourceProvider {
+  /** Stable machine ID — becomes SourceTag.systemId */
+  id: string;
+  /** Display name — becomes SourceTag.systemName */
+  displayName: string;
+  /** Authentication details for this source */
+  auth: SourceAuth;
+  /**
+   * Primary sources define the patient identity (the launch context).
+   * Non-primary sources must pass patient matching before merging.
+   */
+  isPrimary: boolean;
+  /** Patient demographics as registered at this source (for matching) */
+  fetchPatient: () => Promise<PatientDemographics | null>;
+  /** Fetch and parse a single clinical domain */
+  fetchDomain: <D extends ClinicalDomain>(domain: D, source: SourceTag) => Promise<MergeInput[D]>;
+  /**
+   * Fetch every domain — each domain can fail without breaking others.
+   * Paging providers report per-domain progress through `onProgress`.
+   */
+  fetchAll: (onProgress?: SourceProgressListener) => Promise<SourceFetchResult>;
+  /** Current health, updated by fetchAll */
+  getHealth: () => SourceHealthStatus;
+  /** Drop any cached data so the next fetchAll goes to the source */
+  clearCache: () => void;
+}
+
+// -----------------------------------------------------------
+// Shared helpers for provider implementations
+// -----------------------------------------------------------
+
+/** Build a fresh SourceTag for a provider, stamped with the current time */
+export function makeSourceTag(provider: Pick<SourceProvider, "id" | "displayName">): SourceTag {
+  return {
+    systemName: provider.displayName,
+    systemId: provider.id,
+    fetchedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Fetch every domain through `fetchDomain` in parallel.
+ * Failed domains become empty arrays and are reported in domainErrors.
+ */
+export async function fetchDomainsSettled(
+  fetchDomain: SourceProvider["fetchDomain"],
+  tag: SourceTag
+): Promise<SourceFetchResult> {
+  const results = await Promise.allSettled(
+    CLINICAL_DOMAINS.map((domain) => fetchDomain(domain, tag))
+  );
+
+  const domainErrors: Partial<Record<ClinicalDomain, string>> = {};
+  const data: MergeInput = {
+    medications: [],
+    labResults: [],
+    vitals: [],
+    allergies: [],
+    conditions: [],
+    immunizations: [],
+    encounters: [],
+    procedures: [],
+    diagnosticReports: [],
+    documents: [],
+    medicationDispenses: [],
+    medicationStatements: [],
+    appointments: [],
+  };
+
+  results.forEach((result, index) => {
+    const domain = CLINICAL_DOMAINS[index];
+    if (result.status === "fulfilled") {
+      // Each fetchDomain call resolved to the array for its own domain
+      (data as Record<ClinicalDomain, unknown[]>)[domain] = result.value;
+    } else {
+      domainErrors[domain] =
+        result.reason instanceof Error ? result.reason.message : String(result.reason);
+    }
+  });
+
+  return { tag, data, domainErrors };
+}
+
+/** Derive a health status from the per-domain errors of a fetch */
+export function healthFromFetch(result: SourceFetchResult): SourceHealthStatus {
+  const withErrors = Object.keys(result.domainErrors) as ClinicalDomain[];
+  // Incomplete domains still returned records — only empty ones count as failed
+  const failed = withErrors.filter((domain) => result.data[domain].length === 0).length;
+  const state: SourceHealthState =
+    withErrors.length === 0 ? "healthy" : failed === CLINICAL_DOMAINS.length ? "error" : "degraded";
+
+  return {
+    state,
+    lastFetchedAt: result.tag.fetchedAt,
+    message:
+      state === "error"
+        ? `Failed to fetch any clinical data from ${result.tag.systemName}.`
+        : state === "degraded"
+          ? `Some records could not be loaded: ${Object.keys(result.domainErrors).join(", ")}`
+          : null,
+    domainErrors: result.domainErrors,
+  };
+}
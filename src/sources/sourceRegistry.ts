@@ -0,0 +1,80 @@
+// -----------------------------------------------------------
+// Source Registry — The set of health systems feeding the merge
+// -----------------------------------------------------------
+// Module-level registry of SourceProviders. The unified pipeline
+// merges whatever is registered here, so new integrations only
+// need to register themselves:
+//
+//   registerSourceProvider(createFhirSourceProvider({ ... }));
+//
+// Subscribers (useSourceProviders) are notified on every change so
+// the UI and merge pipeline pick up sources added at runtime
+// (e.g., a second SMART login or an uploaded file).
+// -----------------------------------------------------------
+
+import type { SourceProvider } from "./sourceProvider";
+import { communityMCProvider } from "./syntheticSource";
+import { loadUploadedSources, createUploadedSourceProvider } from "./uploadedSource";
+
+type RegistryListener = () => void;
+
+const providers = new Map<string, SourceProvider>();
+const listeners = new Set<RegistryListener>();
+
+// Snapshot array — replaced (never mutated) on change so React
+// can compare by reference in useSyncExternalStore
+let snapshot: SourceProvider[] = [];
+
+function notify(): void {
+  snapshot = Array.from(providers.values());
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Register a provider. A provider with the same id replaces the
+ * existing one (e.g., a fresh SMART client after re-login).
+ */
+export function registerSourceProvider(provider: SourceProvider): void {
+  providers.set(provider.id, provider);
+  notify();
+
+  if (import.meta.env.DEV) {
+    console.log(`[SourceRegistry] Registered ${provider.displayName} (${provider.id})`);
+  }
+}
+
+/** Remove a provider by id. No-op if it isn't registered. */
+export function unregisterSourceProvider(id: string): void {
+  if (!providers.delete(id)) return;
+  notify();
+
+  if (import.meta.env.DEV) {
+    console.log(`[SourceRegistry] Unregistered ${id}`);
+  }
+}
+
+/** All registered providers, in registration order (stable reference) */
+export function getSourceProviders(): SourceProvider[] {
+  return snapshot;
+}
+
+/** Look up a single provider */
+export function getSourceProvider(id: string): SourceProvider | undefined {
+  return providers.get(id);
+}
+
+/** Subscribe to registry changes. Returns an unsubscribe function. */
+export function subscribeToSourceRegistry(listener: RegistryListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// -----------------------------------------------------------
+// Built-in sources — bundled data + previously imported files
+// -----------------------------------------------------------
+registerSourceProvider(communityMCProvider);
+loadUploadedSources().forEach((record) =>
+  registerSourceProvider(createUploadedSourceProvider(record))
+);
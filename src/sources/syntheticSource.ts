@@ -9,7 +9,8 @@
 //   - Uses Phase 1 parsers (same as Epic)
 //   - Applies "Community Medical Center" source tag
 //   - Simulates 500ms network delay for realistic UX
-//   - Returns same typed arrays as useEpicData
+//   - Returns same typed arrays as the FHIR source providers
+//   - Exposed to the unified pipeline as `communityMCProvider`
 // -----------------------------------------------------------
 
 import type { Medication } from "../types/medication";
@@ -19,7 +20,17 @@ import type { Allergy } from "../types/allergy";
 import type { Condition } from "../types/condition";
 import type { Immunization } from "../types/immunization";
 import type { Encounter } from "../types/encounter";
+import type { Procedure } from "../types/procedure";
+import type { DiagnosticReport } from "../types/diagnosticReport";
+import type { ClinicalDocument } from "../types/document";
+import type { MedicationDispense } from "../types/medicationDispense";
+import type { MedicationStatement } from "../types/medicationStatement";
+import type { Appointment } from "../types/appointment";
 import type { SourceTag } from "../types/source";
+import type { PatientDemographics } from "../types/patient";
+import type { SourceProvider, SourceHealthStatus, ClinicalDomain } from "./sourceProvider";
+import type { MergeInput } from "./mergeEngine";
+import { IDLE_HEALTH, makeSourceTag, fetchDomainsSettled, healthFromFetch } from "./sourceProvider";
 
 import { parseMedicationBundle } from "../utils/medicationParser";
 import { parseLabResultBundle } from "../utils/labResultParser";
@@ -28,6 +39,13 @@ import { parseAllergyBundle } from "../utils/allergyParser";
 import { parseConditionBundle } from "../utils/conditionParser";
 import { parseImmunizationBundle } from "../utils/immunizationParser";
 import { parseEncounterBundle } from "../utils/encounterParser";
+import { parseProcedureBundle } from "../utils/procedureParser";
+import { parseDiagnosticReportBundle } from "../utils/diagnosticReportParser";
+import { parseDocumentReferenceBundle } from "../utils/documentReferenceParser";
+import { parseMedicationDispenseBundle } from "../utils/medicationDispenseParser";
+import { parseMedicationStatementBundle } from "../utils/medicationStatementParser";
+import { parseAppointmentBundle } from "../utils/appointmentParser";
+import { parsePatient } from "../utils/patientParser";
 
 import { medicationBundle } from "../data/synthetic/communityMC/medications";
 import { labResultBundle } from "../data/synthetic/communityMC/labResults";
@@ -36,6 +54,13 @@ import { allergyBundle } from "../data/synthetic/communityMC/allergies";
 import { conditionBundle } from "../data/synthetic/communityMC/conditions";
 import { immunizationBundle } from "../data/synthetic/communityMC/immunizations";
 import { encounterBundle } from "../data/synthetic/communityMC/encounters";
+import { procedureBundle } from "../data/synthetic/communityMC/procedures";
+import { diagnosticReportBundle } from "../data/synthetic/communityMC/diagnosticReports";
+import { documentReferenceBundle } from "../data/synthetic/communityMC/documents";
+import { medicationDispenseBundle } from "../data/synthetic/communityMC/medicationDispenses";
+import { medicationStatementBundle } from "../data/synthetic/communityMC/medicationStatements";
+import { appointmentBundle } from "../data/synthetic/communityMC/appointments";
+import { communityMCPatient } from "../data/synthetic/communityMC/patient";
 
 // -----------------------------------------------------------
 // Source Tag
@@ -59,10 +84,16 @@ export interface SyntheticDataResult {
   conditions: Condition[];
   immunizations: Immunization[];
   encounters: Encounter[];
+  procedures: Procedure[];
+  diagnosticReports: DiagnosticReport[];
+  documents: ClinicalDocument[];
+  medicationDispenses: MedicationDispense[];
+  medicationStatements: MedicationStatement[];
+  appointments: Appointment[];
 }
 
 // -----------------------------------------------------------
-// Module-level cache (same pattern as useEpicData)
+// Module-level cache (same pattern as the FHIR providers)
 // -----------------------------------------------------------
 
 let cachedResult: SyntheticDataResult | null = null;
@@ -102,12 +133,18 @@ export async function fetchSyntheticData(): Promise<SyntheticDataResult> {
     conditions: parseConditionBundle(conditionBundle, source),
     immunizations: parseImmunizationBundle(immunizationBundle, source),
     encounters: parseEncounterBundle(encounterBundle, source),
+    procedures: parseProcedureBundle(procedureBundle, source),
+    diagnosticReports: parseDiagnosticReportBundle(diagnosticReportBundle, source),
+    documents: parseDocumentReferenceBundle(documentReferenceBundle, source),
+    medicationDispenses: parseMedicationDispenseBundle(medicationDispenseBundle, source),
+    medicationStatements: parseMedicationStatementBundle(medicationStatementBundle, source),
+    appointments: parseAppointmentBundle(appointmentBundle, source),
   };
 
   // Cache the result
   cachedResult = result;
 
-  // DEV logging — same pattern as useEpicData
+  // DEV logging — same pattern as the FHIR providers
   if (import.meta.env.DEV) {
     console.log("[SyntheticSource] Community Medical Center data loaded:");
     console.log(`  Medications:    ${result.medications.length}`);
@@ -117,6 +154,12 @@ export async function fetchSyntheticData(): Promise<SyntheticDataResult> {
     console.log(`  Conditions:     ${result.conditions.length}`);
     console.log(`  Immunizations:  ${result.immunizations.length}`);
     console.log(`  Encounters:     ${result.encounters.length}`);
+    console.log(`  Procedures:     ${result.procedures.length}`);
+    console.log(`  Reports:        ${result.diagnosticReports.length}`);
+    console.log(`  Documents:      ${result.documents.length}`);
+    console.log(`  Dispenses:      ${result.medicationDispenses.length}`);
+    console.log(`  Med statements: ${result.medicationStatements.length}`);
+    console.log(`  Appointments:   ${result.appointments.length}`);
     console.log(
       `  TOTAL records:  ${
         result.medications.length +
@@ -125,7 +168,13 @@ export async function fetchSyntheticData(): Promise<SyntheticDataResult> {
         result.allergies.length +
         result.conditions.length +
         result.immunizations.length +
-        result.encounters.length
+        result.encounters.length +
+        result.procedures.length +
+        result.diagnosticReports.length +
+        result.documents.length +
+        result.medicationDispenses.length +
+        result.medicationStatements.length +
+        result.appointments.length
       }`
     );
   }
@@ -148,6 +197,79 @@ export function clearSyntheticCache(): void {
   cachedResult = null;
 }
 
+// -----------------------------------------------------------
+// SourceProvider — registered in sourceRegistry as a built-in
+// -----------------------------------------------------------
+
+let health: SourceHealthStatus = IDLE_HEALTH;
+
+/** Parse one synthetic domain bundle under the given source tag */
+async function fetchSyntheticDomain<D extends ClinicalDomain>(
+  domain: D,
+  source: SourceTag
+): Promise<MergeInput[D]> {
+  const parsers: { [K in ClinicalDomain]: () => MergeInput[K] } = {
+    medications: () => parseMedicationBundle(medicationBundle, source),
+    labResults: () => parseLabResultBundle(labResultBundle, source),
+    vitals: () => parseVitalBundle(vitalBundle, source),
+    allergies: () => parseAllergyBundle(allergyBundle, source),
+    conditions: () => parseConditionBundle(conditionBundle, source),
+    immunizations: () => parseImmunizationBundle(immunizationBundle, source),
+    encounters: () => parseEncounterBundle(encounterBundle, source),
+    procedures: () => parseProcedureBundle(procedureBundle, source),
+    diagnosticReports: () => parseDiagnosticReportBundle(diagnosticReportBundle, source),
+    documents: () => parseDocumentReferenceBundle(documentReferenceBundle, source),
+    medicationDispenses: () => parseMedicationDispenseBundle(medicationDispenseBundle, source),
+    medicationStatements: () => parseMedicationStatementBundle(medicationStatementBundle, source),
+    appointments: () => parseAppointmentBundle(appointmentBundle, source),
+  };
+  return parsers[domain]();
+}
+
+/**
+ * Community Medical Center as a SourceProvider.
+ * No auth — data is bundled. Patient identity still has to match
+ * the primary (launch) source before its records are merged.
+ */
+export const communityMCProvider: SourceProvider = {
+  id: COMMUNITY_MC_SOURCE.systemId,
+  displayName: COMMUNITY_MC_SOURCE.systemName,
+  auth: {
+    kind: "none",
+    isAuthenticated: () => true,
+  },
+  isPrimary: false,
+
+  fetchPatient: async (): Promise<PatientDemographics | null> => parsePatient(communityMCPatient),
+
+  fetchDomain: fetchSyntheticDomain,
+
+  fetchAll: async () => {
+    health = { ...health, state: "loading" };
+    const tag = makeSourceTag(communityMCProvider);
+
+    // Bundled data parses in one pass — reuse the cached full result
+    // and fall back to per-domain parsing only if that throws
+    try {
+      const data = await fetchSyntheticData();
+      const result = { tag, data, domainErrors: {} };
+      health = healthFromFetch(result);
+      return result;
+    } catch {
+      const result = await fetchDomainsSettled(fetchSyntheticDomain, tag);
+      health = healthFromFetch(result);
+      return result;
+    }
+  },
+
+  getHealth: () => health,
+
+  clearCache: () => {
+    clearSyntheticCache();
+    health = IDLE_HEALTH;
+  },
+};
+
 /**
  * Get a summary of what AI stories the synthetic data enables.
  * Useful for dev console and verification.
@@ -177,6 +299,7 @@ export function getSyntheticDataStories(): string[] {
 
     // === CARE GAPS & DEDUP ===
     "🏥 SECRET ER VISIT: Oct 3 — migraine + BP 172/102, Epic PCP doesn't know",
+    "🩺 PROCEDURES: Echo + ER ECG behind the A-fib story; 2024 colonoscopy + mammogram close screening gaps with real records",
     "💉 TDAP REDUNDANT: CMC Oct 2024 vs Epic May 2023 — only 17 months apart (10-year schedule)",
     "💉 CARE GAP: Shingrix dose 2 overdue, Vitamin D deficiency untreated",
     "🔬 CMC-ONLY FINDINGS: TSH 4.8 (hypothyroid), Creatinine 1.2 (kidney watch)",
@@ -0,0 +1,330 @@
+// -----------------------------------------------------------
+// Uploaded Source Provider — Patient-supplied FHIR exports
+// -----------------------------------------------------------
+// Turns a downloaded FHIR Bundle (JSON), Bulk Data export
+// (NDJSON, one resource per line) or C-CDA document (XML) into a
+// SourceProvider. FHIR resources go through the SAME parse*Bundle
+// parsers as Epic and Community MC; C-CDA sections go through
+// ccdaParser. Both are tagged with the name the patient chose.
+//
+// Imports are persisted in localStorage as raw FHIR resources /
+// raw XML and re-parsed on load, so parser improvements apply to
+// old uploads.
+// -----------------------------------------------------------
+
+import type { SourceTag } from "../types/source";
+import type { PatientDemographics } from "../types/patient";
+import type { MergeInput } from "./mergeEngine";
+import type { SourceProvider, SourceHealthStatus, ClinicalDomain } from "./sourceProvider";
+import { CLINICAL_DOMAINS, IDLE_HEALTH, makeSourceTag, fetchDomainsSettled, healthFromFetch } from "./sourceProvider";
+import { parseMedicationBundle } from "../utils/medicationParser";
+import { parseLabResultBundle } from "../utils/labResultParser";
+import { parseVitalBundle } from "../utils/vitalParser";
+import { parseAllergyBundle } from "../utils/allergyParser";
+import { parseConditionBundle } from "../utils/conditionParser";
+import { parseImmunizationBundle } from "../utils/immunizationParser";
+import { parseEncounterBundle } from "../utils/encounterParser";
+import { parseProcedureBundle } from "../utils/procedureParser";
+import { parseDiagnosticReportBundle } from "../utils/diagnosticReportParser";
+import { parseDocumentReferenceBundle } from "../utils/documentReferenceParser";
+import { parseMedicationDispenseBundle } from "../utils/medicationDispenseParser";
+import { parseMedicationStatementBundle } from "../utils/medicationStatementParser";
+import { parseAppointmentBundle } from "../utils/appointmentParser";
+import { parsePatient } from "../utils/patientParser";
+import { CCDA_DOMAINS, parseCcdaDocument, parseCcdaDomain } from "../utils/ccdaParser";
+import type { CcdaDomain } from "../utils/ccdaParser";
+
+// -----------------------------------------------------------
+// Types
+// -----------------------------------------------------------
+
+export interface UploadedSourceRecord {
+  /** Registry / SourceTag id — always prefixed "upload-" */
+  id: string;
+  /** Patient-chosen name, e.g. "Lakeside Clinic portal export" */
+  displayName: string;
+  /** Original file names, for display */
+  fileNames: string[];
+  /** ISO timestamp of the import */
+  importedAt: string;
+  /** Raw FHIR resources from every imported file */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  resources: any[];
+  /** Raw C-CDA XML documents (absent on FHIR-only imports) */
+  ccdaDocuments?: string[];
+}
+
+// -----------------------------------------------------------
+// File parsing — Bundle JSON, single resource, or NDJSON
+// -----------------------------------------------------------
+
+/**
+ * Extract FHIR resources from the text of one uploaded file.
+ * Throws an Error with a patient-friendly message if the file
+ * isn't FHIR JSON or NDJSON.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function extractResourcesFromFile(text: string, fileName: string): any[] {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    throw new Error(`${fileName} is empty.`);
+  }
+
+  // Whole-file JSON: a Bundle, a single resource, or an array of resources
+  try {
+    const json = JSON.parse(trimmed);
+    if (json?.resourceType === "Bundle") {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      return (json.entry ?? []).map((e: any) => e?.resource).filter(Boolean);
+    }
+    if (Array.isArray(json)) {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      return json.filter((r: any) => typeof r?.resourceType === "string");
+    }
+    if (typeof json?.resourceType === "string") {
+      return [json];
+    }
+    throw new Error(`${fileName} doesn't look like a FHIR export (no resourceType found).`);
+  } catch (err) {
+    // Multi-line input that isn't a single JSON document → try NDJSON
+    if (!(err instanceof SyntaxError) || !trimmed.includes("\n")) {
+      throw err instanceof SyntaxError
+        ? new Error(`${fileName} is not valid JSON or NDJSON.`)
+        : err;
+    }
+  }
+
+  // NDJSON (FHIR Bulk Data): one resource per line
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const resources: any[] = [];
+  let badLines = 0;
+
+  for (const line of trimmed.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    try {
+      const resource = JSON.parse(line);
+      if (typeof resource?.resourceType === "string") resources.push(resource);
+      else badLines++;
+    } catch {
+      badLines++;
+    }
+  }
+
+  if (resources.length === 0) {
+    throw new Error(`${fileName} is not valid JSON or NDJSON.`);
+  }
+  if (badLines > 0 && import.meta.env.DEV) {
+    console.warn(`[UploadedSource] Skipped ${badLines} unreadable line(s) in ${fileName}`);
+  }
+
+  return resources;
+}
+
+/** Wrap loose resources as a collection Bundle for the parse*Bundle parsers */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function toBundle(resources: any[]) {
+  return {
+    resourceType: "Bundle",
+    type: "collection",
+    entry: resources.map((resource) => ({ resource })),
+  };
+}
+
+/**
+ * Record ids are prefixed with the upload's source id. Exports
+ * reuse short ids like "1" or "med-1", and merge overrides,
+ * conflict ids and reviews are keyed by record id — two imports,
+ * or an import and a live source, must not share one.
+ */
+function scopedId(sourceId: string, id: string): string {
+  return `${sourceId}:${id}`;
+}
+
+/** The ids other records of the same source point at, per domain */
+const REFERENCE_SCOPERS: {
+  [D in ClinicalDomain]?: (record: MergeInput[D][number], scope: (id: string) => string) => MergeInput[D][number];
+} = {
+  diagnosticReports: (report, scope) => ({ ...report, resultIds: report.resultIds.map(scope) }),
+  documents: (doc, scope) => ({ ...doc, encounterId: doc.encounterId && scope(doc.encounterId) }),
+  medicationDispenses: (dispense, scope) => ({ ...dispense, prescriptionIds: dispense.prescriptionIds.map(scope) }),
+};
+
+/** Scope one domain's record ids, and the ids those records point at */
+function scopeRecordIds<D extends ClinicalDomain>(domain: D, records: MergeInput[D], sourceId: string): MergeInput[D] {
+  const scope = (id: string) => scopedId(sourceId, id);
+  const scopeReferences = REFERENCE_SCOPERS[domain] as
+    | ((record: MergeInput[D][number], scope: (id: string) => string) => MergeInput[D][number])
+    | undefined;
+
+  return (records as MergeInput[D][number][]).map((record) => {
+    const scoped = { ...record, id: scope(record.id) };
+    return scopeReferences ? scopeReferences(scoped, scope) : scoped;
+  }) as MergeInput[D];
+}
+
+const DOMAIN_PARSERS: {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  [K in ClinicalDomain]: (bundle: any, source: SourceTag) => MergeInput[K];
+} = {
+  medications: parseMedicationBundle,
+  labResults: parseLabResultBundle,
+  vitals: parseVitalBundle,
+  allergies: parseAllergyBundle,
+  conditions: parseConditionBundle,
+  immunizations: parseImmunizationBundle,
+  encounters: parseEncounterBundle,
+  procedures: parseProcedureBundle,
+  diagnosticReports: parseDiagnosticReportBundle,
+  documents: parseDocumentReferenceBundle,
+  medicationDispenses: parseMedicationDispenseBundle,
+  medicationStatements: parseMedicationStatementBundle,
+  appointments: parseAppointmentBundle,
+};
+
+function isCcdaDomain(domain: ClinicalDomain): domain is CcdaDomain {
+  return (CCDA_DOMAINS as ClinicalDomain[]).includes(domain);
+}
+
+/**
+ * Parse one domain of an import: that domain's bundle parser plus
+ * the matching C-CDA sections, ids scoped to the source. A parser
+ * that throws takes down only its own domain.
+ */
+export function parseUploadedDomain<D extends ClinicalDomain>(
+  record: UploadedSourceRecord,
+  domain: D,
+  source: SourceTag
+): MergeInput[D] {
+  const records: MergeInput[D][number][] = [...DOMAIN_PARSERS[domain](toBundle(record.resources), source)];
+
+  if (isCcdaDomain(domain)) {
+    for (const xml of record.ccdaDocuments ?? []) {
+      records.push(...(parseCcdaDomain(xml, domain, source) as MergeInput[D]));
+    }
+  }
+
+  return scopeRecordIds(domain, records as MergeInput[D], source.systemId);
+}
+
+/** Parse a whole import — FHIR resources plus any C-CDA documents */
+export function parseUploadedRecord(record: UploadedSourceRecord, source: SourceTag): MergeInput {
+  const bundle = toBundle(record.resources);
+  const data = Object.fromEntries(
+    CLINICAL_DOMAINS.map((domain) => [domain, DOMAIN_PARSERS[domain](bundle, source)])
+  ) as unknown as MergeInput;
+
+  for (const xml of record.ccdaDocuments ?? []) {
+    const doc = parseCcdaDocument(xml, source);
+    for (const domain of CCDA_DOMAINS) {
+      (data[domain] as unknown[]).push(...doc[domain]);
+    }
+  }
+
+  return Object.fromEntries(
+    CLINICAL_DOMAINS.map((domain) => [domain, scopeRecordIds(domain, data[domain], source.systemId)])
+  ) as unknown as MergeInput;
+}
+
+// -----------------------------------------------------------
+// Local persistence
+// -----------------------------------------------------------
+
+const STORAGE_KEY = "smarthealth_uploaded_sources";
+
+export function loadUploadedSources(): UploadedSourceRecord[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Save all uploads. Throws if the browser's storage quota is exceeded. */
+export function saveUploadedSources(records: UploadedSourceRecord[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(records));
+  } catch (err) {
+    console.error("[UploadedSource] Failed to persist uploads:", err);
+    throw new Error("This file is too large to keep on this device. Try a smaller export.");
+  }
+}
+
+/** Build a new record id from the patient-chosen name */
+export function makeUploadedSourceId(displayName: string): string {
+  const slug = displayName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, 32);
+  return `upload-${slug || "records"}-${Date.now().toString(36)}`;
+}
+
+// -----------------------------------------------------------
+// SourceProvider
+// -----------------------------------------------------------
+
+/**
+ * Create a SourceProvider for an imported file set.
+ * If the export includes a Patient resource it must match the
+ * primary patient; otherwise the records are taken on the
+ * patient's word (they uploaded them to their own account).
+ */
+export function createUploadedSourceProvider(record: UploadedSourceRecord): SourceProvider {
+  let health: SourceHealthStatus = IDLE_HEALTH;
+  let parsed: MergeInput | null = null;
+
+  const fetchDomain = async <D extends ClinicalDomain>(
+    domain: D,
+    source: SourceTag
+  ): Promise<MergeInput[D]> => parseUploadedDomain(record, domain, source);
+
+  const provider: SourceProvider = {
+    id: record.id,
+    displayName: record.displayName,
+    auth: {
+      kind: "file-upload",
+      isAuthenticated: () => true,
+    },
+    isPrimary: false,
+
+    fetchPatient: async (): Promise<PatientDemographics | null> => {
+      const patient = record.resources.find((r) => r.resourceType === "Patient");
+      if (patient) return parsePatient(patient);
+
+      // C-CDA: recordTarget carries the patient's demographics
+      for (const xml of record.ccdaDocuments ?? []) {
+        const fromDocument = parseCcdaDocument(xml, makeSourceTag(provider)).patient;
+        if (fromDocument) return fromDocument;
+      }
+      return null;
+    },
+
+    fetchDomain,
+
+    fetchAll: async () => {
+      const tag = makeSourceTag(provider);
+      try {
+        parsed = parsed ?? parseUploadedRecord(record, tag);
+        const result = { tag, data: parsed, domainErrors: {} };
+        health = healthFromFetch(result);
+        return result;
+      } catch {
+        const result = await fetchDomainsSettled(fetchDomain, tag);
+        health = healthFromFetch(result);
+        return result;
+      }
+    },
+
+    getHealth: () => health,
+
+    clearCache: () => {
+      parsed = null;
+      health = IDLE_HEALTH;
+    },
+  };
+
+  return provider;
+}
@@ -0,0 +1,89 @@
+// -----------------------------------------------------------
+// browserFixture — The browser globals fhirclient's SMART flow reads
+// -----------------------------------------------------------
+// fhirclient's browser entry reads window/self/top, location,
+// history and sessionStorage. This installs minimal stand-ins on
+// globalThis so the real authorize → callback → ready() flow runs
+// under Node: setting location.href is recorded instead of
+// navigating, and sessionStorage survives "page loads" the way it
+// does in a real tab.
+// -----------------------------------------------------------
+
+class MemoryStorage implements Storage {
+  private items = new Map<string, string>();
+
+  get length(): number {
+    return this.items.size;
+  }
+  key(index: number): string | null {
+    return [...this.items.keys()][index] ?? null;
+  }
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+  setItem(key: string, value: string): void {
+    this.items.set(key, String(value));
+  }
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+  clear(): void {
+    this.items.clear();
+  }
+}
+
+class FakeLocation {
+  href: string;
+
+  constructor(href: string) {
+    this.href = href;
+  }
+  get pathname(): string {
+    return new URL(this.href).pathname;
+  }
+  get search(): string {
+    return new URL(this.href).search;
+  }
+  get hash(): string {
+    return new URL(this.href).hash;
+  }
+  toString(): string {
+    return this.href;
+  }
+}
+
+export interface BrowserFixture {
+  sessionStorage: Storage;
+  /** Current URL — where the app last redirected to */
+  readonly href: string;
+  /** Load a URL in the tab (a redirect landing, a typed address) */
+  navigate(url: string): void;
+}
+
+export function installBrowserGlobals(initialUrl: string): BrowserFixture {
+  const sessionStorage = new MemoryStorage();
+  const location = new FakeLocation(initialUrl);
+  const g = globalThis as Record<string, unknown>;
+
+  Object.assign(g, {
+    window: globalThis,
+    self: globalThis,
+    top: globalThis,
+    parent: globalThis,
+    opener: null,
+    name: "",
+    location,
+    sessionStorage,
+    history: { replaceState: (_: unknown, __: string, url: string) => (location.href = url) },
+  });
+
+  return {
+    sessionStorage,
+    get href() {
+      return location.href;
+    },
+    navigate(url) {
+      location.href = url;
+    },
+  };
+}
@@ -0,0 +1,158 @@
+// -----------------------------------------------------------
+// mockSmartServer — Local SMART authorization + FHIR server
+// -----------------------------------------------------------
+// Just enough of a SMART on FHIR server to run the standalone
+// launch end to end without a vendor sandbox. Each endpoint
+// lives under its own path prefix with its own token lifetime:
+//
+//   /<name>/fhir/.well-known/smart-configuration  discovery
+//   /<name>/auth/authorize   auto-approves → 302 redirect_uri?code&state
+//   /<name>/auth/token       authorization_code + refresh_token grants
+//   /<name>/fhir/Patient/<id> requires a live bearer token
+//
+// Access tokens are opaque; the server remembers their expiry so
+// a stale token gets 401 like a real server.
+// -----------------------------------------------------------
+
+import { createServer } from "node:http";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+
+export interface MockEndpointOptions {
+  /** Path prefix, e.g. "epic" → http://127.0.0.1:<port>/epic/fhir */
+  name: string;
+  /** expires_in for every access token this endpoint issues */
+  tokenLifetimeSeconds: number;
+  /** Patient id in the token response */
+  patientId: string;
+}
+
+export interface MockSmartServer {
+  /** FHIR base URL (the `iss`) of an endpoint */
+  issFor(name: string): string;
+  /** Refuse every refresh token the endpoint issued so far */
+  revokeRefreshTokens(name: string): void;
+  /** Token requests received, by endpoint and grant type */
+  tokenRequests: Array<{ endpoint: string; grantType: string }>;
+  close(): Promise<void>;
+}
+
+interface EndpointState {
+  options: MockEndpointOptions;
+  /** code → redirect_uri it was issued for */
+  codes: Map<string, string>;
+  /** access token → expiry (epoch ms) */
+  accessTokens: Map<string, number>;
+  refreshTokens: Set<string>;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+async function readForm(req: IncomingMessage): Promise<URLSearchParams> {
+  let body = "";
+  for await (const chunk of req) body += chunk;
+  return new URLSearchParams(body);
+}
+
+export async function startMockSmartServer(endpoints: MockEndpointOptions[]): Promise<MockSmartServer> {
+  const states = new Map<string, EndpointState>(
+    endpoints.map((options) => [
+      options.name,
+      { options, codes: new Map(), accessTokens: new Map(), refreshTokens: new Set() },
+    ])
+  );
+  const tokenRequests: MockSmartServer["tokenRequests"] = [];
+  let counter = 0;
+  let origin = "";
+
+  const issueTokens = (endpoint: EndpointState) => {
+    counter++;
+    const accessToken = `${endpoint.options.name}-access-${counter}`;
+    const refreshToken = `${endpoint.options.name}-refresh-${counter}`;
+    endpoint.accessTokens.set(accessToken, Date.now() + endpoint.options.tokenLifetimeSeconds * 1000);
+    endpoint.refreshTokens.add(refreshToken);
+    return {
+      access_token: accessToken,
+      token_type: "Bearer",
+      expires_in: endpoint.options.tokenLifetimeSeconds,
+      scope: "openid fhirUser launch/patient online_access patient/*.read",
+      refresh_token: refreshToken,
+      patient: endpoint.options.patientId,
+    };
+  };
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", origin);
+    const [, name, area, ...rest] = url.pathname.split("/");
+    const endpoint = states.get(name);
+    if (!endpoint) return sendJson(res, 404, { error: "unknown endpoint" });
+
+    const path = `${area}/${rest.join("/")}`;
+    const base = `${origin}/${name}`;
+
+    if (path === "fhir/.well-known/smart-configuration") {
+      return sendJson(res, 200, {
+        authorization_endpoint: `${base}/auth/authorize`,
+        token_endpoint: `${base}/auth/token`,
+        code_challenge_methods_supported: ["S256"],
+        capabilities: ["launch-standalone", "client-public", "context-standalone-patient", "permission-offline"],
+      });
+    }
+
+    if (path === "auth/authorize") {
+      const redirectUri = url.searchParams.get("redirect_uri") ?? "";
+      const code = `${name}-code-${++counter}`;
+      endpoint.codes.set(code, redirectUri);
+      const location = `${redirectUri}?code=${code}&state=${encodeURIComponent(url.searchParams.get("state") ?? "")}`;
+      res.writeHead(302, { Location: location });
+      return res.end();
+    }
+
+    if (path === "auth/token" && req.method === "POST") {
+      const form = await readForm(req);
+      const grantType = form.get("grant_type") ?? "";
+      tokenRequests.push({ endpoint: name, grantType });
+
+      if (grantType === "authorization_code") {
+        const code = form.get("code") ?? "";
+        if (endpoint.codes.get(code) !== form.get("redirect_uri")) {
+          return sendJson(res, 400, { error: "invalid_grant" });
+        }
+        endpoint.codes.delete(code);
+        return sendJson(res, 200, issueTokens(endpoint));
+      }
+      if (grantType === "refresh_token") {
+        const refreshToken = form.get("refresh_token") ?? "";
+        if (!endpoint.refreshTokens.delete(refreshToken)) {
+          return sendJson(res, 400, { error: "invalid_grant" });
+        }
+        return sendJson(res, 200, issueTokens(endpoint));
+      }
+      return sendJson(res, 400, { error: "unsupported_grant_type" });
+    }
+
+    if (path.startsWith("fhir/Patient/")) {
+      const token = req.headers.authorization?.replace(/^Bearer /, "") ?? "";
+      const expiresAt = endpoint.accessTokens.get(token);
+      if (expiresAt === undefined || expiresAt <= Date.now()) {
+        return sendJson(res, 401, { resourceType: "OperationOutcome", issue: [{ severity: "error", code: "login" }] });
+      }
+      return sendJson(res, 200, { resourceType: "Patient", id: rest[1] });
+    }
+
+    sendJson(res, 404, { error: "not found" });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    issFor: (name) => `${origin}/${name}/fhir`,
+    revokeRefreshTokens: (name) => states.get(name)?.refreshTokens.clear(),
+    tokenRequests,
+    close: () => new Promise<void>((resolve, reject) => server.close((err) => (err ? reject(err) : resolve()))),
+  };
+}
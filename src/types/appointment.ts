@@ -0,0 +1,39 @@
+// -----------------------------------------------------------
+// Appointment — Parsed from FHIR Appointment
+// -----------------------------------------------------------
+// Upcoming visits are what the Pre-Visit report is FOR. Knowing
+// who the next visit is with (and in which system) lets the report
+// lead with what that provider can't see in their own chart:
+//   "Cardiology follow-up Oct 31 — CMC doesn't have your Epic
+//    birth-control prescription"
+
+import type { SourceTag, ClinicalCode } from "./source";
+
+export interface Appointment {
+  /** FHIR resource ID */
+  id: string;
+  /** Status: proposed | pending | booked | arrived | fulfilled | cancelled | noshow | entered-in-error | checked-in | waitlist */
+  status: string;
+  /** Scheduled start */
+  start?: string;
+  /** Scheduled end */
+  end?: string;
+  /** What kind of visit (e.g., "Cardiology Follow-up") */
+  serviceType?: string;
+  /** Specialty / service coding */
+  codes: ClinicalCode[];
+  /** Appointment type display (e.g., "Follow-up", "Routine") */
+  appointmentType?: string;
+  /** Free-text description shown to the patient */
+  description?: string;
+  /** Reason for the visit */
+  reason?: string;
+  /** Clinician the visit is with */
+  practitioner?: string;
+  /** Where the visit takes place */
+  location?: string;
+  /** Instructions for the patient (fasting, arrive early, …) */
+  patientInstruction?: string;
+  /** Source system provenance */
+  source: SourceTag;
+}
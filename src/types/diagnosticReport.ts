@@ -0,0 +1,38 @@
+// -----------------------------------------------------------
+// DiagnosticReport — Parsed from FHIR DiagnosticReport
+// -----------------------------------------------------------
+// Groups individual lab Observations into the panel they were
+// ordered as, and carries the reading clinician's conclusion for
+// imaging and cardiology studies:
+//   "Lipid Panel (Dec 2025): Total 210, LDL 130, HDL 38"
+//   "Mammogram: BI-RADS 2 — benign"
+
+import type { SourceTag, ClinicalCode } from "./source";
+import type { DocumentAttachment } from "./document";
+
+export interface DiagnosticReport {
+  /** FHIR resource ID */
+  id: string;
+  /** Status: registered | partial | preliminary | final | amended | corrected | cancelled */
+  status: string;
+  /** Report name (e.g., "Lipid Panel", "CT Head w/o contrast") */
+  name: string;
+  /** LOINC or other coding for dedup */
+  codes: ClinicalCode[];
+  /** Category display: Laboratory | Radiology | Cardiology | Pathology … */
+  category?: string;
+  /** Clinically relevant time (effectiveDateTime / effectivePeriod.start) */
+  effectiveDate?: string;
+  /** When the report was released */
+  issued?: string;
+  /** Performing organization or clinician */
+  performer?: string;
+  /** Clinical interpretation / impression */
+  conclusion?: string;
+  /** Observation IDs referenced by DiagnosticReport.result */
+  resultIds: string[];
+  /** Rendered report (presentedForm) */
+  attachments: DocumentAttachment[];
+  /** Source system provenance */
+  source: SourceTag;
+}
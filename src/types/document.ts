@@ -0,0 +1,52 @@
+// -----------------------------------------------------------
+// ClinicalDocument — Parsed from FHIR DocumentReference
+// -----------------------------------------------------------
+// The narrative half of the record: discharge summaries, consult
+// and visit notes. Coded Observations say WHAT was measured;
+// notes say what the clinician thought about it.
+//   "ER note: BP 172/102, migraine, discharged on sumatriptan"
+
+import type { SourceTag, ClinicalCode } from "./source";
+
+/** A decoded FHIR Attachment (inline base64 data or an external URL) */
+export interface DocumentAttachment {
+  /** MIME type, e.g. "text/plain", "text/html", "application/pdf" */
+  contentType?: string;
+  /** Attachment title / file name */
+  title?: string;
+  /** Decoded text for text/* attachments (HTML is kept as markup) */
+  text?: string;
+  /** data: URL for inline binary attachments (PDF, images) */
+  dataUrl?: string;
+  /** Where to fetch the content when it isn't inline (often Binary/…) */
+  url?: string;
+  /** Size in bytes, when reported */
+  size?: number;
+}
+
+export interface ClinicalDocument {
+  /** FHIR resource ID */
+  id: string;
+  /** Status: current | superseded | entered-in-error */
+  status: string;
+  /** Document title (description, attachment title, or type) */
+  title: string;
+  /** Type display (e.g., "Discharge summary", "Progress note") */
+  type?: string;
+  /** LOINC document type coding */
+  codes: ClinicalCode[];
+  /** Category display (e.g., "Clinical Note") */
+  category?: string;
+  /** When the document was created */
+  date?: string;
+  /** Author name(s) */
+  author?: string;
+  /** Organization responsible for the document */
+  custodian?: string;
+  /** Encounter the document belongs to (context.encounter) */
+  encounterId?: string;
+  /** Document content — usually one attachment, sometimes several formats */
+  attachments: DocumentAttachment[];
+  /** Source system provenance */
+  source: SourceTag;
+}
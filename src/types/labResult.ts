@@ -17,6 +17,19 @@ export interface LabResult {
   value?: number | string;
   /** Unit of measurement (e.g., "%", "mg/dL") */
   unit?: string;
+  /**
+   * Value converted to the analyte's canonical unit (set by the merge
+   * engine — see utils/labUnits). Used for merging, flags and trends;
+   * value/unit stay as reported for display.
+   */
+  canonical?: {
+    value: number;
+    unit: string;
+    referenceRange?: {
+      low?: number;
+      high?: number;
+    };
+  };
   /** Reference range for interpretation */
   referenceRange?: {
     low?: number;
@@ -4,6 +4,30 @@
 
 import type { SourceTag, ClinicalCode } from "./source";
 
+/**
+ * Normalized dosing regimen, parsed from FHIR Dosage (timing.repeat,
+ * doseAndRate) or a free-text sig — see utils/dosageRegimen.
+ */
+export interface MedicationRegimen {
+  /** Amount per administration (1 tablet, 500 mg) */
+  dose?: number;
+  /** Unit of `dose` — mg, mcg, g, mEq, unit, mL or a dose form (tablet, capsule, puff) */
+  doseUnit?: string;
+  /** Administrations per day (BID → 2, q8h → 3, weekly → 1/7) */
+  timesPerDay?: number;
+  /** Taken as needed (PRN) — no fixed daily total */
+  asNeeded: boolean;
+  /**
+   * Scheduled amount per day. Dose forms are converted with the
+   * product strength ("1 tablet" of 1000 mg → mg); unset when the
+   * strength is unknown or the regimen is PRN.
+   */
+  totalDailyDose?: {
+    value: number;
+    unit: string;
+  };
+}
+
 export interface Medication {
   /** FHIR resource ID */
   id: string;
@@ -15,6 +39,15 @@ export interface Medication {
   name: string;
   /** RxNorm or other coding for dedup and interaction lookup */
   codes: ClinicalCode[];
+  /**
+   * Active ingredients and drug classes from the bundled RxNorm table
+   * (set by the merge engine — see utils/rxnorm). No ingredients
+   * means the drug isn't in the table.
+   */
+  rxnorm?: {
+    ingredients: string[];
+    classes: string[];
+  };
   /** Dosage instruction text (e.g., "Take 1 tablet daily") */
   dosageInstruction?: string;
   /** Dosage details */
@@ -23,6 +56,8 @@ export interface Medication {
     unit?: string;
     frequency?: string;
   };
+  /** Parsed regimen with total daily dose (dose comparison across sources) */
+  regimen?: MedicationRegimen;
   /** Prescriber name */
   prescriber?: string;
   /** Date the medication was prescribed (authoredOn) */
@@ -0,0 +1,39 @@
+// -----------------------------------------------------------
+// MedicationDispense — Parsed from FHIR MedicationDispense
+// -----------------------------------------------------------
+// A prescription only says what was ordered. Dispenses say what
+// the pharmacy actually handed over, and when — the raw material
+// for adherence (proportion of days covered, refill gaps):
+//   "Amlodipine: 30-day fill Aug 16, next fill Oct 4 — 19 days without"
+
+import type { SourceTag, ClinicalCode } from "./source";
+
+export interface MedicationDispense {
+  /** FHIR resource ID */
+  id: string;
+  /** Status: preparation | in-progress | cancelled | on-hold | completed | entered-in-error | stopped | declined | unknown */
+  status: string;
+  /** Display name of the dispensed medication */
+  name: string;
+  /** RxNorm or NDC coding for linking to prescriptions */
+  codes: ClinicalCode[];
+  /** Amount dispensed (e.g., 30 tablets) */
+  quantity?: {
+    value?: number;
+    unit?: string;
+  };
+  /** Days the dispensed amount should last */
+  daysSupply?: number;
+  /** When the fill was prepared */
+  whenPrepared?: string;
+  /** When the patient picked it up — the date adherence counts from */
+  whenHandedOver?: string;
+  /** MedicationRequest IDs this dispense fills (authorizingPrescription) */
+  prescriptionIds: string[];
+  /** Dispensing pharmacy */
+  pharmacy?: string;
+  /** Label instructions */
+  dosageInstruction?: string;
+  /** Source system provenance */
+  source: SourceTag;
+}
@@ -0,0 +1,34 @@
+// -----------------------------------------------------------
+// MedicationStatement — Parsed from FHIR MedicationStatement
+// -----------------------------------------------------------
+// What the patient (or a clinician, from a med reconciliation)
+// says is actually being taken — including "stopped" and
+// "not-taken", which no prescription record will ever show:
+//   "Atorvastatin — stopped Aug 2025 (muscle aches)"
+
+import type { SourceTag, ClinicalCode } from "./source";
+
+export interface MedicationStatement {
+  /** FHIR resource ID */
+  id: string;
+  /** Status: active | completed | entered-in-error | intended | stopped | on-hold | unknown | not-taken */
+  status: string;
+  /** Display name of the medication */
+  name: string;
+  /** RxNorm or other coding for linking to prescriptions */
+  codes: ClinicalCode[];
+  /** When the patient started (or was reported) taking it */
+  effectiveStart?: string;
+  /** When the patient stopped taking it */
+  effectiveEnd?: string;
+  /** When the statement was recorded */
+  dateAsserted?: string;
+  /** Why it was stopped / not taken */
+  statusReason?: string;
+  /** How the patient says they take it */
+  dosageInstruction?: string;
+  /** Who provided the information (patient, caregiver, clinician) */
+  informationSource?: string;
+  /** Source system provenance */
+  source: SourceTag;
+}
@@ -14,13 +14,19 @@
 // -----------------------------------------------------------
 
 import type { SourceTag } from "./source";
-import type { Medication } from "./medication";
+import type { Medication, MedicationRegimen } from "./medication";
 import type { LabResult } from "./labResult";
 import type { Vital } from "./vital";
 import type { Allergy } from "./allergy";
 import type { Condition } from "./condition";
 import type { Immunization } from "./immunization";
 import type { Encounter } from "./encounter";
+import type { Procedure } from "./procedure";
+import type { DiagnosticReport } from "./diagnosticReport";
+import type { ClinicalDocument } from "./document";
+import type { MedicationDispense } from "./medicationDispense";
+import type { MedicationStatement } from "./medicationStatement";
+import type { Appointment } from "./appointment";
 
 // -----------------------------------------------------------
 // Merge Metadata — attached to every merged record
@@ -37,6 +43,123 @@ export interface MergeMetadata {
    * exactly which records contributed to a merged view.
    */
   mergedFromIds: string[];
+  /** Patient overrides applied to this record on the last merge (see MergeOverride) */
+  userOverrides?: MergeOverrideKind[];
+  /**
+   * Why the engine paired this record with another: the rule that
+   * fired and the values it compared. Set on merged medications,
+   * lab results and vitals — and on lab / vital results the rules
+   * paired but kept apart because their values differ.
+   */
+  matchExplanation?: MatchExplanation;
+  /**
+   * Why this system's record supplies the displayed fields when two
+   * records merged (see MergePolicy). Unset when no rule could tell
+   * them apart and the first record was kept.
+   */
+  preferredBy?: PreferredRecord;
+}
+
+// -----------------------------------------------------------
+// Match Explanation — audit trail for a merge decision
+// -----------------------------------------------------------
+
+export interface MatchComparison {
+  /** What was compared ("Name", "Date", "Daily dose", "Value") */
+  label: string;
+  /** Each record's value, in MatchExplanation.sources order */
+  values: string[];
+  /** Whether the values counted as the same (unset = shown for context only) */
+  agree?: boolean;
+  /** How the values were judged ("within 24h", "1% tolerance") */
+  note?: string;
+}
+
+export interface MatchExplanation {
+  /** The rule that paired the records */
+  rule: "code" | "ingredients" | "name" | "lab-group" | "vital-type" | "patient-link";
+  /** The rule in plain words ("Same RxNorm code 860975") */
+  summary: string;
+  /** System names of the compared records, in comparison order */
+  sources: string[];
+  comparisons: MatchComparison[];
+  /** The decision ("Same dose — merged as confirmed") */
+  outcome: string;
+}
+
+// -----------------------------------------------------------
+// Merge Policy — which system's record supplies the merged fields
+// -----------------------------------------------------------
+// When two records merge, one is shown and the other is kept as an
+// alternate ("other systems say…"). Each domain ranks the records
+// with an ordered list of rules; the first rule that tells them
+// apart decides:
+//   "most-authoritative" → the system ranked highest for the domain
+//                          (e.g. the PCP's system for medications)
+//   "most-recent"        → the newer record
+//   "most-complete"      → the record with more filled-in details
+
+export type PreferenceRule = "most-authoritative" | "most-recent" | "most-complete";
+
+export interface DomainMergePolicy {
+  /** Rules tried in order */
+  prefer: PreferenceRule[];
+  /** SourceTag systemIds, most trusted first (unlisted systems rank last) */
+  authoritative: string[];
+}
+
+export type MergePolicy = Record<MergeOverrideDomain, DomainMergePolicy>;
+
+export interface PreferredRecord {
+  rule: PreferenceRule;
+  /** The decision in plain words ("Epic MyHealth has the most recent record") */
+  summary: string;
+}
+
+/** The merged-away records of a merged record, in their original form */
+export interface AlternateRecords<T> {
+  alternates?: T[];
+}
+
+// -----------------------------------------------------------
+// Merge Overrides — patient corrections to the merge engine
+// -----------------------------------------------------------
+// Stored on the device and re-applied by mergeAllDomains on every
+// run, so a correction survives refetches:
+//   "same"      → two single-source records are one (the engine
+//                 missed it, e.g. "Glucophage" vs "metformin")
+//   "different" → a merged record is really two records
+//   "wrong"     → the record itself is incorrect (kept and shown,
+//                 flagged as disputed — never hidden)
+
+export type MergeOverrideKind = "same" | "different" | "wrong";
+
+/** Domains whose records can be overridden (matches the MergeInput keys) */
+export type MergeOverrideDomain =
+  | "medications"
+  | "labResults"
+  | "vitals"
+  | "allergies"
+  | "conditions"
+  | "immunizations"
+  | "encounters"
+  | "procedures"
+  | "diagnosticReports"
+  | "documents"
+  | "medicationDispenses"
+  | "medicationStatements"
+  | "appointments";
+
+export interface MergeOverride {
+  id: string;
+  kind: MergeOverrideKind;
+  domain: MergeOverrideDomain;
+  /**
+   * mergedFromIds of each record the patient acted on — two
+   * entries for "same" / "different", one for "wrong"
+   */
+  records: string[][];
+  createdAt: string;
 }
 
 // -----------------------------------------------------------
@@ -45,13 +168,56 @@ export interface MergeMetadata {
 // Using intersection types so ALL existing properties remain
 // accessible (backward compatible with Phase 0-2 code).
 
-export type MergedMedication = Medication & MergeMetadata;
-export type MergedLabResult = LabResult & MergeMetadata;
-export type MergedVital = Vital & MergeMetadata;
-export type MergedAllergy = Allergy & MergeMetadata;
-export type MergedCondition = Condition & MergeMetadata;
-export type MergedImmunization = Immunization & MergeMetadata;
-export type MergedEncounter = Encounter & MergeMetadata;
+export type MergedMedication = Medication &
+  MergeMetadata &
+  MedicationRegimens &
+  EncounterLink &
+  AlternateRecords<Medication>;
+export type MergedLabResult = LabResult & MergeMetadata & EncounterLink & AlternateRecords<LabResult>;
+export type MergedVital = Vital & MergeMetadata & EncounterLink & AlternateRecords<Vital>;
+export type MergedAllergy = Allergy & MergeMetadata & AlternateRecords<Allergy>;
+export type MergedCondition = Condition & MergeMetadata & AlternateRecords<Condition>;
+export type MergedImmunization = Immunization & MergeMetadata & AlternateRecords<Immunization>;
+export type MergedEncounter = Encounter & MergeMetadata & AlternateRecords<Encounter>;
+export type MergedProcedure = Procedure & MergeMetadata & AlternateRecords<Procedure>;
+export type MergedDiagnosticReport = DiagnosticReport & MergeMetadata & AlternateRecords<DiagnosticReport>;
+export type MergedDocument = ClinicalDocument & MergeMetadata & AlternateRecords<ClinicalDocument>;
+export type MergedAppointment = Appointment & MergeMetadata & AlternateRecords<Appointment>;
+
+/** One system's dosing for a prescription that merged with another */
+export interface MedicationSourceRegimen {
+  source: SourceTag;
+  /** Original MedicationRequest ID */
+  recordId: string;
+  dosageInstruction?: string;
+  regimen?: MedicationRegimen;
+}
+
+export interface MedicationRegimens {
+  /** Each system's regimen, side by side (set when two prescriptions merged) */
+  sourceRegimens?: MedicationSourceRegimen[];
+}
+
+/** Link from a lab, vital or prescription to the visit it was dated within */
+export interface EncounterLink {
+  /** ID of the merged encounter this record belongs to (unset if dated outside every visit) */
+  encounterId?: string;
+}
+
+/** Link from a pharmacy fill or patient report to its prescription */
+export interface MedicationLink {
+  /** ID of the merged medication this record belongs to (unset if no prescription matched) */
+  medicationId?: string;
+}
+
+export type MergedMedicationDispense = MedicationDispense &
+  MergeMetadata &
+  MedicationLink &
+  AlternateRecords<MedicationDispense>;
+export type MergedMedicationStatement = MedicationStatement &
+  MergeMetadata &
+  MedicationLink &
+  AlternateRecords<MedicationStatement>;
 
 // -----------------------------------------------------------
 // Conflict Model — clinically meaningful disagreements
@@ -60,7 +226,7 @@ export type MergedEncounter = Encounter & MergeMetadata;
 /** A specific resource involved in a conflict */
 export interface ConflictResource {
   /** Domain type of the resource */
-  resourceType: "Medication" | "LabResult" | "Vital" | "Allergy" | "Condition" | "Immunization" | "Encounter";
+  resourceType: "Medication" | "LabResult" | "Vital" | "Allergy" | "Condition" | "Immunization" | "Encounter" | "Procedure" | "Patient";
   /** FHIR resource ID */
   resourceId: string;
   /** Human-readable label (drug name, test name, etc.) */
@@ -70,15 +236,29 @@ export interface ConflictResource {
 }
 
 export interface Conflict {
-  /** Unique conflict ID for UI keying and dedup */
+  /**
+   * Deterministic ID — derived from the conflict type and the
+   * original record IDs involved, so the same disagreement keeps
+   * its ID across loads (ConflictReview is keyed by it)
+   */
   id: string;
+  /**
+   * Hash of the data behind the conflict (doses, statuses, the
+   * allergy list…). A review only applies while it matches, so a
+   * conflict resurfaces when its underlying data changes.
+   */
+  fingerprint: string;
   /** Category of conflict */
   type:
     | "dose-mismatch"
     | "allergy-prescription"
     | "missing-crossref"
     | "contradictory-condition"
-    | "allergy-gap";
+    | "allergy-gap"
+    | "lab-discrepancy"
+    | "duplicate-therapy"
+    | "immunization-date-mismatch"
+    | "demographic-mismatch";
   /**
    * Clinical severity — determines UI urgency:
    *   critical = red banner, blocks prescribing in production
@@ -96,6 +276,37 @@ export interface Conflict {
   sourceB: SourceTag;
 }
 
+// -----------------------------------------------------------
+// Conflict Review — the patient's progress on each conflict
+// -----------------------------------------------------------
+// Stored on the device (sources/conflictReviews), keyed by
+// Conflict.id. A conflict without a matching review is "new":
+//   "acknowledged" → seen; no longer raised in the alert banner
+//   "discussed"    → talked through with a provider
+//   "resolved"     → the records were corrected
+//   "false-positive" → not a real problem
+// Resolved and false-positive conflicts are closed — hidden from
+// the safety lists until their data changes.
+
+export type ConflictStatus = "new" | "acknowledged" | "discussed" | "resolved" | "false-positive";
+
+export interface ConflictStatusChange {
+  status: ConflictStatus;
+  /** The patient's note ("Dr. Chen confirmed 5 mg") */
+  note?: string;
+  /** ISO timestamp */
+  changedAt: string;
+}
+
+export interface ConflictReview {
+  conflictId: string;
+  /** Conflict.fingerprint when the status was last set */
+  fingerprint: string;
+  status: ConflictStatus;
+  /** Every status change, oldest first */
+  history: ConflictStatusChange[];
+}
+
 // -----------------------------------------------------------
 // Source Summary — per-system record counts for UI display
 // -----------------------------------------------------------
@@ -112,6 +323,12 @@ export interface SourceSummary {
     conditions: number;
     immunizations: number;
     encounters: number;
+    procedures: number;
+    diagnosticReports: number;
+    documents: number;
+    medicationDispenses: number;
+    medicationStatements: number;
+    appointments: number;
     total: number;
   };
 }
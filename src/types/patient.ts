@@ -2,6 +2,8 @@
 // Patient Type Definitions
 // -----------------------------------------------------------
 
+import type { SourceTag } from "./source";
+
 export interface PatientDemographics {
   id: string;
   fullName: string;
@@ -14,3 +16,27 @@ export interface PatientDemographics {
   phone?: string;
   address?: string;
 }
+
+/** One system's Patient record, as matched to the primary patient */
+export interface SourcePatient {
+  demographics: PatientDemographics;
+  source: SourceTag;
+}
+
+/**
+ * The patient's answer to "is this you?" for one source's Patient
+ * record. Overrides the matcher in both directions. Tied to the
+ * record's id, so a different Patient record at the same source
+ * is matched (and, if unsure, asked about) afresh.
+ */
+export interface PatientLinkDecision {
+  /** SourceProvider.id */
+  sourceId: string;
+  /** Primary (anchor) Patient.id of the person who decided — a decision only applies to them */
+  primaryPatientId: string;
+  /** The source's Patient.id the decision was made about */
+  patientId: string;
+  decision: "confirmed" | "rejected";
+  /** ISO timestamp */
+  decidedAt: string;
+}
@@ -0,0 +1,38 @@
+// -----------------------------------------------------------
+// Procedure — Parsed from FHIR Procedure
+// -----------------------------------------------------------
+// Procedures are AI fuel — closes screening care gaps with real
+// records instead of guessing from visit text:
+//   "Colonoscopy done Mar 2021 — next due 2031"
+//   "No mammogram on file in the last 2 years"
+
+import type { SourceTag, ClinicalCode } from "./source";
+
+export interface Procedure {
+  /** FHIR resource ID */
+  id: string;
+  /** Status: preparation | in-progress | not-done | on-hold | stopped | completed | entered-in-error | unknown */
+  status: string;
+  /** Procedure name (e.g., "Screening colonoscopy") */
+  name: string;
+  /** SNOMED / CPT / HCPCS coding for dedup and screening rules */
+  codes: ClinicalCode[];
+  /** Category display (e.g., "Diagnostic procedure", "Surgical procedure") */
+  category?: string;
+  /** When the procedure was performed (performedDateTime or performedPeriod.start) */
+  performedDate?: string;
+  /** End of the procedure (performedPeriod.end), if reported */
+  performedEnd?: string;
+  /** Reason for the procedure */
+  reason?: string;
+  /** Body site (e.g., "Left breast") */
+  bodySite?: string;
+  /** Outcome display (e.g., "Successful", "No polyps found") */
+  outcome?: string;
+  /** Performing clinician */
+  performer?: string;
+  /** Location/facility name */
+  location?: string;
+  /** Source system provenance */
+  source: SourceTag;
+}
@@ -0,0 +1,81 @@
+// -----------------------------------------------------------
+// appointmentParser — Converts raw FHIR Appointment → Appointment
+// -----------------------------------------------------------
+
+import type { Appointment } from "../types/appointment";
+import type { SourceTag, ClinicalCode } from "../types/source";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function extractCodes(codeableConcept: any): ClinicalCode[] {
+  if (!codeableConcept?.coding) return [];
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return codeableConcept.coding.map((c: any) => ({
+    system: c.system,
+    code: c.code,
+    display: c.display,
+  }));
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function conceptText(codeableConcept: any): string | undefined {
+  return codeableConcept?.text || codeableConcept?.coding?.[0]?.display;
+}
+
+/** Display name of the first participant whose actor is of the given resource type */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function participantDisplay(resource: any, resourceType: string): string | undefined {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const participant = (resource.participant ?? []).find((p: any) =>
+    p.actor?.reference?.startsWith(`${resourceType}/`) || p.actor?.type === resourceType
+  );
+  return participant?.actor?.display;
+}
+
+/**
+ * Parse a raw FHIR Appointment resource into an Appointment type.
+ * Returns null if the resource is unparseable.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function parseAppointment(resource: any, source: SourceTag): Appointment | null {
+  if (!resource || resource.resourceType !== "Appointment") {
+    return null;
+  }
+
+  try {
+    // serviceType is the visit kind; older servers only fill specialty
+    const service = resource.serviceType?.[0] ?? resource.specialty?.[0];
+
+    return {
+      id: resource.id ?? `appt-${Date.now()}`,
+      status: resource.status ?? "unknown",
+      start: resource.start,
+      end: resource.end,
+      serviceType: conceptText(service),
+      codes: extractCodes(service),
+      appointmentType: conceptText(resource.appointmentType),
+      description: resource.description,
+      reason: conceptText(resource.reasonCode?.[0]) || resource.reasonReference?.[0]?.display,
+      practitioner: participantDisplay(resource, "Practitioner") ?? participantDisplay(resource, "PractitionerRole"),
+      location: participantDisplay(resource, "Location"),
+      patientInstruction: resource.patientInstruction,
+      source,
+    };
+  } catch (err) {
+    if (import.meta.env.DEV) {
+      console.warn("Failed to parse Appointment:", resource.id, err);
+    }
+    return null;
+  }
+}
+
+/**
+ * Parse a FHIR Bundle of Appointment resources.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function parseAppointmentBundle(bundle: any, source: SourceTag): Appointment[] {
+  if (!bundle?.entry) return [];
+  return bundle.entry
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .map((entry: any) => parseAppointment(entry.resource, source))
+    .filter((a: Appointment | null): a is Appointment => a !== null);
+}
@@ -0,0 +1,80 @@
+// -----------------------------------------------------------
+// attachmentDecoder — FHIR Attachment → DocumentAttachment
+// -----------------------------------------------------------
+// Shared by the DiagnosticReport (presentedForm) and
+// DocumentReference (content.attachment) parsers. Inline base64
+// text is decoded as UTF-8; binary content (PDF, images) becomes
+// a data: URL the browser can render directly.
+// -----------------------------------------------------------
+
+import type { DocumentAttachment } from "../types/document";
+
+/** Decode base64 → UTF-8 text (atob alone mangles multi-byte characters) */
+function decodeBase64Text(data: string): string {
+  const binary = atob(data.replace(/\s+/g, ""));
+  const bytes = Uint8Array.from(binary, (c) => c.charCodeAt(0));
+  return new TextDecoder("utf-8").decode(bytes);
+}
+
+function isTextContent(contentType: string | undefined): boolean {
+  if (!contentType) return false;
+  const type = contentType.toLowerCase();
+  return (
+    type.startsWith("text/") ||
+    type.includes("xml") ||
+    type.includes("json") ||
+    type.includes("rtf")
+  );
+}
+
+/**
+ * Decode one FHIR Attachment. Never throws — corrupt base64 keeps
+ * the metadata (title, url) and drops the content.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function decodeAttachment(attachment: any): DocumentAttachment | null {
+  if (!attachment) return null;
+
+  const contentType: string | undefined = attachment.contentType;
+  const decoded: DocumentAttachment = {
+    contentType,
+    title: attachment.title,
+    url: attachment.url,
+    size: typeof attachment.size === "number" ? attachment.size : undefined,
+  };
+
+  if (typeof attachment.data === "string" && attachment.data) {
+    try {
+      if (isTextContent(contentType)) {
+        decoded.text = decodeBase64Text(attachment.data);
+      } else {
+        decoded.dataUrl = `data:${contentType ?? "application/octet-stream"};base64,${attachment.data.replace(/\s+/g, "")}`;
+      }
+    } catch (err) {
+      if (import.meta.env.DEV) {
+        console.warn("[AttachmentDecoder] Could not decode inline attachment:", attachment.title, err);
+      }
+    }
+  }
+
+  return decoded;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function decodeAttachments(attachments: any[] | undefined): DocumentAttachment[] {
+  return (attachments ?? [])
+    .map(decodeAttachment)
+    .filter((a): a is DocumentAttachment => a !== null);
+}
+
+/**
+ * data: URL → Blob. Browsers refuse to render large data: URLs in
+ * frames (and some refuse data: PDFs outright), so viewers render
+ * inline binaries through an object URL instead.
+ */
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const [header, data = ""] = dataUrl.split(",", 2);
+  const contentType = header.replace(/^data:/, "").replace(/;base64$/, "") || "application/octet-stream";
+  const bytes = Uint8Array.from(atob(data), (c) => c.charCodeAt(0));
+  return new Blob([bytes], { type: contentType });
+}
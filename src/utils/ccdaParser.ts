@@ -0,0 +1,879 @@
+// -----------------------------------------------------------
+// ccdaParser — Converts a C-CDA (CCD) XML document → domain types
+// -----------------------------------------------------------
+// Smaller hospitals often hand patients a Continuity of Care
+// Document instead of FHIR. This maps its coded sections onto the
+// SAME types the FHIR parsers produce, so the records merge like
+// any other source:
+//
+//   Medications   (LOINC 10160-0) → Medication
+//   Results       (LOINC 30954-2) → LabResult
+//   Vital Signs   (LOINC 8716-3)  → Vital
+//   Allergies     (LOINC 48765-2) → Allergy
+//   Problems      (LOINC 11450-4) → Condition
+//   Immunizations (LOINC 11369-6) → Immunization
+//   Encounters    (LOINC 46240-8) → Encounter
+//   Procedures    (LOINC 47519-4) → Procedure
+//
+// Code system OIDs are translated to the FHIR URIs used
+// everywhere else so ClinicalCode matching works across formats.
+// -----------------------------------------------------------
+
+import type { Medication } from "../types/medication";
+import type { LabResult } from "../types/labResult";
+import type { Vital, VitalComponent } from "../types/vital";
+import type { Allergy, AllergyReaction } from "../types/allergy";
+import type { Condition } from "../types/condition";
+import type { Immunization } from "../types/immunization";
+import type { Encounter } from "../types/encounter";
+import type { Procedure } from "../types/procedure";
+import type { PatientDemographics } from "../types/patient";
+import type { SourceTag, ClinicalCode } from "../types/source";
+import { VITAL_TYPE_MAP } from "./vitalParser";
+import { parsePatient } from "./patientParser";
+import { regimenFromParts, timesPerDayFromPeriod } from "./dosageRegimen";
+
+// -----------------------------------------------------------
+// Types
+// -----------------------------------------------------------
+
+export interface CcdaDocument {
+  /** Document title (e.g., "Continuity of Care Document") */
+  title?: string;
+  /** Patient from recordTarget — used for cross-system matching */
+  patient: PatientDemographics | null;
+  medications: Medication[];
+  labResults: LabResult[];
+  vitals: Vital[];
+  allergies: Allergy[];
+  conditions: Condition[];
+  immunizations: Immunization[];
+  encounters: Encounter[];
+  procedures: Procedure[];
+}
+
+/** Clinical domains carried in coded sections */
+export type CcdaDomain = Exclude<keyof CcdaDocument, "title" | "patient">;
+
+// -----------------------------------------------------------
+// Code systems — C-CDA OIDs → FHIR system URIs
+// -----------------------------------------------------------
+
+const CODE_SYSTEM_MAP: Record<string, string> = {
+  "2.16.840.1.113883.6.88": "http://www.nlm.nih.gov/research/umls/rxnorm",
+  "2.16.840.1.113883.6.1": "http://loinc.org",
+  "2.16.840.1.113883.6.96": "http://snomed.info/sct",
+  "2.16.840.1.113883.12.292": "http://hl7.org/fhir/sid/cvx",
+  "2.16.840.1.113883.6.90": "http://hl7.org/fhir/sid/icd-10-cm",
+  "2.16.840.1.113883.6.103": "http://hl7.org/fhir/sid/icd-9-cm",
+  "2.16.840.1.113883.6.12": "http://www.ama-assn.org/go/cpt",
+  "2.16.840.1.113883.6.285": "urn:oid:2.16.840.1.113883.6.285", // HCPCS
+  "2.16.840.1.113883.6.69": "http://hl7.org/fhir/sid/ndc",
+  "2.16.840.1.113883.4.9": "http://fdasis.nlm.nih.gov", // UNII
+  "2.16.840.1.113883.5.4": "http://terminology.hl7.org/CodeSystem/v3-ActCode",
+  "2.16.840.1.113883.5.83": "http://terminology.hl7.org/CodeSystem/v3-ObservationInterpretation",
+  "2.16.840.1.113883.6.8": "http://unitsofmeasure.org",
+};
+
+/** Section LOINC codes */
+const SECTION_CODES = {
+  medications: "10160-0",
+  results: "30954-2",
+  vitals: "8716-3",
+  allergies: "48765-2",
+  problems: "11450-4",
+  immunizations: "11369-6",
+  encounters: "46240-8",
+  procedures: "47519-4",
+} as const;
+
+const INTERPRETATION_MAP: Record<string, LabResult["interpretation"]> = {
+  N: "normal",
+  H: "high",
+  L: "low",
+  HH: "critical-high",
+  LL: "critical-low",
+  A: "abnormal",
+  AA: "abnormal",
+};
+
+const MED_STATUS_MAP: Record<string, string> = {
+  active: "active",
+  completed: "completed",
+  aborted: "stopped",
+  suspended: "on-hold",
+  cancelled: "cancelled",
+  new: "active",
+};
+
+/** SNOMED problem status values (Problem Status observation) */
+const PROBLEM_STATUS_MAP: Record<string, string> = {
+  "55561003": "active",
+  "73425007": "inactive",
+  "413322009": "resolved",
+};
+
+/** SNOMED allergy/intolerance type values → FHIR type + category */
+const ALLERGY_TYPE_MAP: Record<string, { type: string; category?: string }> = {
+  "419199007": { type: "allergy" },
+  "416098002": { type: "allergy", category: "medication" },
+  "59037007": { type: "intolerance", category: "medication" },
+  "414285001": { type: "allergy", category: "food" },
+  "235719002": { type: "intolerance", category: "food" },
+  "418471000": { type: "allergy", category: "food" },
+  "426232007": { type: "allergy", category: "environment" },
+  "420134006": { type: "allergy" },
+  "418038007": { type: "allergy" },
+};
+
+const CRITICALITY_MAP: Record<string, string> = {
+  CRITH: "high",
+  CRITL: "low",
+  CRITU: "unable-to-assess",
+};
+
+const ENCOUNTER_CLASS_MAP: Record<string, string> = {
+  AMB: "ambulatory",
+  EMER: "emergency",
+  IMP: "inpatient",
+  ACUTE: "inpatient",
+  NONAC: "inpatient",
+  OBSENC: "observation",
+  HH: "home health",
+  VR: "virtual",
+};
+
+// -----------------------------------------------------------
+// DOM helpers (namespace-agnostic — CDA uses urn:hl7-org:v3)
+// -----------------------------------------------------------
+
+/** Direct child elements with the given local name */
+function children(el: Element | null | undefined, name: string): Element[] {
+  if (!el) return [];
+  return Array.from(el.children).filter((c) => c.localName === name);
+}
+
+/** First direct child with the given local name */
+function child(el: Element | null | undefined, name: string): Element | null {
+  return children(el, name)[0] ?? null;
+}
+
+/** Follow a path of direct children, e.g. path(el, "consumable", "manufacturedProduct") */
+function path(el: Element | null | undefined, ...names: string[]): Element | null {
+  let current: Element | null = el ?? null;
+  for (const name of names) {
+    current = child(current, name);
+    if (!current) return null;
+  }
+  return current;
+}
+
+function attr(el: Element | null | undefined, name: string): string | undefined {
+  const value = el?.getAttribute(name);
+  return value ? value : undefined;
+}
+
+function text(el: Element | null | undefined): string | undefined {
+  const value = el?.textContent?.replace(/\s+/g, " ").trim();
+  return value ? value : undefined;
+}
+
+/** xsi:type without the namespace prefix (e.g., "PQ", "CD", "IVL_TS") */
+function xsiType(el: Element | null | undefined): string | undefined {
+  const raw =
+    el?.getAttributeNS("http://www.w3.org/2001/XMLSchema-instance", "type") ??
+    el?.getAttribute("xsi:type");
+  return raw ? raw.split(":").pop() : undefined;
+}
+
+/** Clinical statements of a section: entry/<act|observation|…> */
+function entries(section: Element, statementName: string): Element[] {
+  return children(section, "entry").flatMap((e) => children(e, statementName));
+}
+
+/** Nested statements: entryRelationship/<name>, optionally by typeCode */
+function related(el: Element, statementName: string, typeCode?: string): Element[] {
+  return children(el, "entryRelationship")
+    .filter((r) => !typeCode || attr(r, "typeCode") === typeCode)
+    .flatMap((r) => children(r, statementName));
+}
+
+// -----------------------------------------------------------
+// Value helpers
+// -----------------------------------------------------------
+
+/** HL7 TS ("20240315", "202403151430-0500") → ISO 8601 */
+export function parseHl7Date(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const match = value.match(/^(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?(?:\.\d+)?([+-]\d{4})?$/);
+  if (!match) return undefined;
+
+  const [, y, mo, d, h, mi, s, tz] = match;
+  if (!mo) return y;
+  if (!d) return `${y}-${mo}`;
+  if (!h) return `${y}-${mo}-${d}`;
+
+  const offset = tz ? `${tz.slice(0, 3)}:${tz.slice(3)}` : "";
+  return `${y}-${mo}-${d}T${h}:${mi ?? "00"}:${s ?? "00"}${offset}`;
+}
+
+/** effectiveTime → { start, end } (point in time fills start only) */
+function effectiveRange(el: Element | null | undefined): { start?: string; end?: string } {
+  const time = child(el, "effectiveTime");
+  if (!time) return {};
+  const point = attr(time, "value");
+  if (point) return { start: parseHl7Date(point) };
+  return {
+    start: parseHl7Date(attr(child(time, "low"), "value")),
+    end: parseHl7Date(attr(child(time, "high"), "value")),
+  };
+}
+
+/** Resolve narrative text: <originalText><reference value="#id"/></originalText> */
+function resolveText(el: Element | null | undefined, narrative: Map<string, string>): string | undefined {
+  if (!el) return undefined;
+  const ref = attr(child(el, "reference"), "value");
+  if (ref?.startsWith("#")) {
+    const resolved = narrative.get(ref.slice(1));
+    if (resolved) return resolved;
+  }
+  return text(el);
+}
+
+/** A CD/CE code element (plus translations) → ClinicalCode[] */
+function extractCodes(codeEl: Element | null | undefined): ClinicalCode[] {
+  if (!codeEl) return [];
+  const codes: ClinicalCode[] = [];
+
+  for (const el of [codeEl, ...children(codeEl, "translation")]) {
+    const code = attr(el, "code");
+    if (!code) continue;
+    const oid = attr(el, "codeSystem");
+    codes.push({
+      system: oid ? CODE_SYSTEM_MAP[oid] ?? `urn:oid:${oid}` : undefined,
+      code,
+      display: attr(el, "displayName"),
+    });
+  }
+  return codes;
+}
+
+/** Human-readable name for a coded element */
+function codeDisplay(codeEl: Element | null | undefined, narrative: Map<string, string>): string | undefined {
+  return (
+    resolveText(child(codeEl, "originalText"), narrative) ||
+    attr(codeEl, "displayName") ||
+    children(codeEl, "translation").map((t) => attr(t, "displayName")).find(Boolean)
+  );
+}
+
+/** Stable record id from <id root extension> */
+function recordId(el: Element, prefix: string, index: number): string {
+  const idEl = child(el, "id");
+  const ext = attr(idEl, "extension");
+  const root = attr(idEl, "root");
+  return `ccda-${prefix}-${ext ?? root ?? index}`;
+}
+
+/** <name><given/><family/></name> → "Given Family" */
+function personName(nameEl: Element | null | undefined): string | undefined {
+  if (!nameEl) return undefined;
+  const parts = [
+    ...children(nameEl, "prefix"),
+    ...children(nameEl, "given"),
+    ...children(nameEl, "family"),
+    ...children(nameEl, "suffix"),
+  ]
+    .map(text)
+    .filter(Boolean);
+  return parts.length > 0 ? parts.join(" ") : text(nameEl);
+}
+
+// -----------------------------------------------------------
+// Section parsers
+// -----------------------------------------------------------
+
+function parseMedications(section: Element, source: SourceTag, narrative: Map<string, string>): Medication[] {
+  return entries(section, "substanceAdministration")
+    .map((sa, index): Medication | null => {
+      try {
+        const material = path(sa, "consumable", "manufacturedProduct", "manufacturedMaterial");
+        const codeEl = child(material, "code");
+        const name = codeDisplay(codeEl, narrative) || text(child(material, "name")) || "Unknown Medication";
+
+        // effectiveTime: IVL_TS for the course, PIVL_TS for frequency
+        const times = children(sa, "effectiveTime");
+        const course = times.find((t) => xsiType(t) !== "PIVL_TS" && xsiType(t) !== "EIVL_TS");
+        const periodic = times.find((t) => xsiType(t) === "PIVL_TS");
+        const period = child(periodic, "period");
+        const frequency = period
+          ? `1x per ${attr(period, "value") ?? "1"} ${attr(period, "unit") ?? "d"}`
+          : undefined;
+
+        const dose = child(sa, "doseQuantity");
+        const doseValue = attr(dose, "value");
+        const sig =
+          resolveText(child(sa, "text"), narrative) ||
+          related(sa, "substanceAdministration").map((s) => resolveText(child(s, "text"), narrative)).find(Boolean);
+
+        const statusCode = attr(child(sa, "statusCode"), "code");
+        const doseUnit = attr(dose, "unit") === "1" ? undefined : attr(dose, "unit");
+
+        return {
+          id: recordId(sa, "med", index),
+          status: (statusCode && MED_STATUS_MAP[statusCode]) || "unknown",
+          intent: "order",
+          name,
+          codes: extractCodes(codeEl),
+          dosageInstruction: sig,
+          dosage:
+            doseValue || frequency
+              ? {
+                  value: doseValue ? Number(doseValue) : undefined,
+                  unit: doseUnit,
+                  frequency,
+                }
+              : undefined,
+          regimen: regimenFromParts(
+            {
+              dose: doseValue ? Number(doseValue) : undefined,
+              doseUnit,
+              timesPerDay: period
+                ? timesPerDayFromPeriod(1, Number(attr(period, "value") ?? "1"), attr(period, "unit") ?? "d")
+                : undefined,
+              text: sig,
+            },
+            name
+          ),
+          prescriber: personName(path(sa, "author", "assignedAuthor", "assignedPerson", "name")),
+          dateWritten: parseHl7Date(attr(child(course, "low"), "value") ?? attr(course, "value")),
+          source,
+        };
+      } catch (err) {
+        if (import.meta.env.DEV) {
+          console.warn("[CcdaParser] Failed to parse medication entry:", index, err);
+        }
+        return null;
+      }
+    })
+    .filter((m): m is Medication => m !== null);
+}
+
+/** observation/value → { value, unit } for PQ, ST, CD and friends */
+function observationValue(
+  obs: Element,
+  narrative: Map<string, string>
+): { value?: number | string; unit?: string } {
+  const valueEl = child(obs, "value");
+  if (!valueEl) return {};
+
+  switch (xsiType(valueEl)) {
+    case "PQ":
+    case "INT":
+    case "REAL": {
+      const raw = attr(valueEl, "value");
+      const num = raw !== undefined ? Number(raw) : NaN;
+      const unit = attr(valueEl, "unit");
+      return { value: Number.isNaN(num) ? raw : num, unit: unit === "1" ? undefined : unit };
+    }
+    case "CD":
+    case "CE":
+    case "CO":
+      return { value: codeDisplay(valueEl, narrative) ?? attr(valueEl, "code") };
+    default:
+      return { value: resolveText(valueEl, narrative) };
+  }
+}
+
+function parseResults(section: Element, source: SourceTag, narrative: Map<string, string>): LabResult[] {
+  // Result organizers (panels) → component observations; loose observations also allowed
+  const observations = [
+    ...entries(section, "organizer").flatMap((org) =>
+      children(org, "component").flatMap((c) => children(c, "observation"))
+    ),
+    ...entries(section, "observation"),
+  ];
+
+  return observations
+    .map((obs, index): LabResult | null => {
+      try {
+        const codeEl = child(obs, "code");
+        const { value, unit } = observationValue(obs, narrative);
+        const rangeValue = path(obs, "referenceRange", "observationRange", "value");
+        const rangeText = resolveText(path(obs, "referenceRange", "observationRange", "text"), narrative);
+        const low = attr(child(rangeValue, "low"), "value");
+        const high = attr(child(rangeValue, "high"), "value");
+        const interpretationCode = attr(child(obs, "interpretationCode"), "code");
+
+        return {
+          id: recordId(obs, "lab", index),
+          status: attr(child(obs, "statusCode"), "code") === "completed" ? "final" : "preliminary",
+          name: codeDisplay(codeEl, narrative) || "Unknown Lab",
+          codes: extractCodes(codeEl),
+          value,
+          unit,
+          referenceRange:
+            low || high || rangeText
+              ? {
+                  low: low !== undefined ? Number(low) : undefined,
+                  high: high !== undefined ? Number(high) : undefined,
+                  text: rangeText,
+                }
+              : undefined,
+          interpretation: interpretationCode ? INTERPRETATION_MAP[interpretationCode] : undefined,
+          category: "laboratory",
+          effectiveDate: effectiveRange(obs).start,
+          source,
+        };
+      } catch (err) {
+        if (import.meta.env.DEV) {
+          console.warn("[CcdaParser] Failed to parse result observation:", index, err);
+        }
+        return null;
+      }
+    })
+    .filter((l): l is LabResult => l !== null);
+}
+
+function parseVitals(section: Element, source: SourceTag, narrative: Map<string, string>): Vital[] {
+  const vitals: Vital[] = [];
+
+  entries(section, "organizer").forEach((org, orgIndex) => {
+    const organizerDate = effectiveRange(org).start;
+    const observations = children(org, "component").flatMap((c) => children(c, "observation"));
+
+    // C-CDA records systolic + diastolic as separate observations;
+    // FHIR (and the rest of the app) expects one BP with components
+    const bpComponents: VitalComponent[] = [];
+    let bpDate: string | undefined;
+
+    observations.forEach((obs, index) => {
+      const codeEl = child(obs, "code");
+      const code = attr(codeEl, "code") ?? "";
+      const { value, unit } = observationValue(obs, narrative);
+      const numeric = typeof value === "number" ? value : undefined;
+      const name = codeDisplay(codeEl, narrative) || "Unknown Vital";
+
+      if (code === "8480-6" || code === "8462-4") {
+        bpComponents.push({ name, codes: extractCodes(codeEl), value: numeric, unit });
+        bpDate = bpDate ?? effectiveRange(obs).start;
+        return;
+      }
+
+      vitals.push({
+        id: recordId(obs, "vital", orgIndex * 100 + index),
+        status: "final",
+        name,
+        vitalType: VITAL_TYPE_MAP[code] ?? "other",
+        codes: extractCodes(codeEl),
+        value: numeric,
+        unit,
+        effectiveDate: effectiveRange(obs).start ?? organizerDate,
+        source,
+      });
+    });
+
+    if (bpComponents.length > 0) {
+      vitals.push({
+        id: recordId(org, "bp", orgIndex),
+        status: "final",
+        name: "Blood Pressure",
+        vitalType: "blood-pressure",
+        codes: [{ system: "http://loinc.org", code: "85354-9", display: "Blood pressure panel" }],
+        components: bpComponents,
+        effectiveDate: bpDate ?? organizerDate,
+        source,
+      });
+    }
+  });
+
+  return vitals;
+}
+
+function parseAllergies(section: Element, source: SourceTag, narrative: Map<string, string>): Allergy[] {
+  return entries(section, "act")
+    .flatMap((act) => related(act, "observation", "SUBJ").map((obs) => ({ act, obs })))
+    .map(({ act, obs }, index): Allergy | null => {
+      try {
+        const substanceEl = path(obs, "participant", "participantRole", "playingEntity");
+        const substanceCode = child(substanceEl, "code");
+
+        // negationInd on the allergy observation = "No known allergies"
+        const substance =
+          attr(obs, "negationInd") === "true"
+            ? "No Known Allergies"
+            : codeDisplay(substanceCode, narrative) || text(child(substanceEl, "name")) || "";
+
+        const typeCode = attr(child(obs, "value"), "code") ?? "";
+        const typeInfo = ALLERGY_TYPE_MAP[typeCode];
+
+        // Reactions (MFST) with nested severity (SUBJ)
+        const reactions: AllergyReaction[] = related(obs, "observation", "MFST").map((rx) => {
+          const severity = related(rx, "observation", "SUBJ")
+            .map((s) => codeDisplay(child(s, "value"), narrative))
+            .find(Boolean);
+          const manifestation = codeDisplay(child(rx, "value"), narrative);
+          return {
+            description: resolveText(child(rx, "text"), narrative),
+            manifestations: manifestation ? [manifestation] : [],
+            severity: severity?.toLowerCase(),
+          };
+        });
+
+        // Criticality observation (LOINC 82606-5)
+        const criticalityCode = related(obs, "observation")
+          .filter((o) => attr(child(o, "code"), "code") === "82606-5")
+          .map((o) => attr(child(o, "value"), "code"))
+          .find(Boolean);
+
+        const concernStatus = attr(child(act, "statusCode"), "code");
+
+        return {
+          id: recordId(obs, "allergy", index),
+          clinicalStatus:
+            concernStatus === "completed" ? "resolved" : concernStatus === "active" ? "active" : "inactive",
+          verificationStatus: "confirmed",
+          type: typeInfo?.type,
+          category: typeInfo?.category ? [typeInfo.category] : undefined,
+          criticality: criticalityCode ? CRITICALITY_MAP[criticalityCode] : undefined,
+          substance,
+          codes: extractCodes(substanceCode),
+          reactions: reactions.length > 0 ? reactions : undefined,
+          recordedDate:
+            parseHl7Date(attr(path(obs, "author", "time"), "value")) ?? effectiveRange(obs).start,
+          source,
+        };
+      } catch (err) {
+        if (import.meta.env.DEV) {
+          console.warn("[CcdaParser] Failed to parse allergy entry:", index, err);
+        }
+        return null;
+      }
+    })
+    .filter((a): a is Allergy => a !== null);
+}
+
+function parseProblems(section: Element, source: SourceTag, narrative: Map<string, string>): Condition[] {
+  return entries(section, "act")
+    .flatMap((act) => related(act, "observation", "SUBJ").map((obs) => ({ act, obs })))
+    .map(({ act, obs }, index): Condition | null => {
+      try {
+        const valueEl = child(obs, "value");
+        const { start, end } = effectiveRange(obs);
+
+        // Problem Status observation (LOINC 33999-4) wins over the concern act status
+        const statusCode = related(obs, "observation")
+          .filter((o) => attr(child(o, "code"), "code") === "33999-4")
+          .map((o) => attr(child(o, "value"), "code"))
+          .find(Boolean);
+        const concernStatus = attr(child(act, "statusCode"), "code");
+        const clinicalStatus =
+          (statusCode && PROBLEM_STATUS_MAP[statusCode]) ||
+          (end ? "resolved" : concernStatus === "completed" ? "inactive" : "active");
+
+        return {
+          id: recordId(obs, "problem", index),
+          clinicalStatus,
+          verificationStatus: attr(obs, "negationInd") === "true" ? "refuted" : "confirmed",
+          category: "problem-list-item",
+          name: codeDisplay(valueEl, narrative) || "Unknown Condition",
+          codes: extractCodes(valueEl),
+          onsetDate: start,
+          abatementDate: end,
+          recordedDate: parseHl7Date(attr(path(obs, "author", "time"), "value")),
+          source,
+        };
+      } catch (err) {
+        if (import.meta.env.DEV) {
+          console.warn("[CcdaParser] Failed to parse problem entry:", index, err);
+        }
+        return null;
+      }
+    })
+    .filter((c): c is Condition => c !== null);
+}
+
+function parseImmunizations(section: Element, source: SourceTag, narrative: Map<string, string>): Immunization[] {
+  return entries(section, "substanceAdministration")
+    .map((sa, index): Immunization | null => {
+      try {
+        const material = path(sa, "consumable", "manufacturedProduct", "manufacturedMaterial");
+        const codeEl = child(material, "code");
+
+        return {
+          id: recordId(sa, "imm", index),
+          status: attr(sa, "negationInd") === "true" ? "not-done" : "completed",
+          vaccineName: codeDisplay(codeEl, narrative) || text(child(material, "name")) || "Unknown Vaccine",
+          codes: extractCodes(codeEl),
+          occurrenceDate: effectiveRange(sa).start,
+          primarySource: true,
+          lotNumber: text(child(material, "lotNumberText")),
+          site: codeDisplay(child(sa, "approachSiteCode"), narrative),
+          source,
+        };
+      } catch (err) {
+        if (import.meta.env.DEV) {
+          console.warn("[CcdaParser] Failed to parse immunization entry:", index, err);
+        }
+        return null;
+      }
+    })
+    .filter((i): i is Immunization => i !== null);
+}
+
+function parseEncounters(section: Element, source: SourceTag, narrative: Map<string, string>): Encounter[] {
+  return entries(section, "encounter")
+    .map((enc, index): Encounter | null => {
+      try {
+        const codeEl = child(enc, "code");
+        const codes = extractCodes(codeEl);
+        const actCode = codes.find((c) => c.system?.endsWith("v3-ActCode"))?.code;
+        const { start, end } = effectiveRange(enc);
+
+        const location = children(enc, "participant")
+          .filter((p) => attr(p, "typeCode") === "LOC")
+          .map((p) => text(path(p, "participantRole", "playingEntity", "name")) ?? codeDisplay(path(p, "participantRole", "code"), narrative))
+          .find(Boolean);
+
+        const reason = related(enc, "observation", "RSON")
+          .concat(related(enc, "act").flatMap((a) => related(a, "observation")))
+          .map((o) => codeDisplay(child(o, "value"), narrative))
+          .find(Boolean);
+
+        return {
+          id: recordId(enc, "enc", index),
+          status: end || attr(child(enc, "statusCode"), "code") === "completed" ? "finished" : "unknown",
+          encounterClass: actCode ? ENCOUNTER_CLASS_MAP[actCode] ?? actCode : undefined,
+          type: codeDisplay(codeEl, narrative),
+          codes,
+          reason,
+          periodStart: start,
+          periodEnd: end,
+          location,
+          provider: personName(path(enc, "performer", "assignedEntity", "assignedPerson", "name")),
+          source,
+        };
+      } catch (err) {
+        if (import.meta.env.DEV) {
+          console.warn("[CcdaParser] Failed to parse encounter entry:", index, err);
+        }
+        return null;
+      }
+    })
+    .filter((e): e is Encounter => e !== null);
+}
+
+function parseProcedures(section: Element, source: SourceTag, narrative: Map<string, string>): Procedure[] {
+  // Procedure Activity can be <procedure>, <act> or <observation>
+  const statements = [
+    ...entries(section, "procedure"),
+    ...entries(section, "act"),
+    ...entries(section, "observation"),
+  ];
+
+  return statements
+    .map((proc, index): Procedure | null => {
+      try {
+        const codeEl = child(proc, "code");
+        const { start, end } = effectiveRange(proc);
+        const statusCode = attr(child(proc, "statusCode"), "code");
+
+        const location = children(proc, "participant")
+          .filter((p) => attr(p, "typeCode") === "LOC")
+          .map((p) => text(path(p, "participantRole", "playingEntity", "name")))
+          .find(Boolean);
+
+        return {
+          id: recordId(proc, "proc", index),
+          status:
+            attr(proc, "negationInd") === "true"
+              ? "not-done"
+              : statusCode === "active"
+                ? "in-progress"
+                : statusCode === "aborted"
+                  ? "stopped"
+                  : statusCode ?? "unknown",
+          name: codeDisplay(codeEl, narrative) || "Unknown Procedure",
+          codes: extractCodes(codeEl),
+          performedDate: start,
+          performedEnd: end,
+          reason: related(proc, "observation", "RSON")
+            .map((o) => codeDisplay(child(o, "value"), narrative))
+            .find(Boolean),
+          bodySite: codeDisplay(child(proc, "targetSiteCode"), narrative),
+          performer: personName(path(proc, "performer", "assignedEntity", "assignedPerson", "name")),
+          location,
+          source,
+        };
+      } catch (err) {
+        if (import.meta.env.DEV) {
+          console.warn("[CcdaParser] Failed to parse procedure entry:", index, err);
+        }
+        return null;
+      }
+    })
+    .filter((p): p is Procedure => p !== null);
+}
+
+// -----------------------------------------------------------
+// Patient — recordTarget/patientRole → FHIR-shaped Patient
+// -----------------------------------------------------------
+
+function parseRecordTarget(root: Element): PatientDemographics | null {
+  const role = path(root, "recordTarget", "patientRole");
+  const patient = child(role, "patient");
+  if (!patient) return null;
+
+  const nameEl = child(patient, "name");
+  const gender = attr(child(patient, "administrativeGenderCode"), "code");
+  const birth = parseHl7Date(attr(child(patient, "birthTime"), "value"));
+  const mrn = attr(child(role, "id"), "extension");
+  const phone = children(role, "telecom")
+    .map((t) => attr(t, "value"))
+    .find((v) => v?.startsWith("tel:"))
+    ?.replace(/^tel:/, "");
+  const addr = child(role, "addr");
+
+  // Reuse parsePatient so demographics are formatted identically to FHIR sources
+  return parsePatient({
+    resourceType: "Patient",
+    id: mrn ?? "ccda-patient",
+    name: nameEl
+      ? [{
+          use: "official",
+          given: children(nameEl, "given").map(text).filter(Boolean),
+          family: text(child(nameEl, "family")),
+        }]
+      : [],
+    gender: gender === "M" ? "male" : gender === "F" ? "female" : gender ? "unknown" : undefined,
+    birthDate: birth?.slice(0, 10),
+    identifier: mrn
+      ? [{ type: { coding: [{ code: "MR" }] }, value: mrn }]
+      : [],
+    telecom: phone ? [{ system: "phone", value: phone }] : [],
+    address: addr
+      ? [{
+          line: children(addr, "streetAddressLine").map(text).filter(Boolean),
+          city: text(child(addr, "city")),
+          state: text(child(addr, "state")),
+          postalCode: text(child(addr, "postalCode")),
+        }]
+      : [],
+  });
+}
+
+// -----------------------------------------------------------
+// Sections → domains
+// -----------------------------------------------------------
+
+type SectionParser<T> = (section: Element, source: SourceTag, narrative: Map<string, string>) => T[];
+
+const SECTION_PARSERS: { [D in CcdaDomain]: { loinc: string; parse: SectionParser<CcdaDocument[D][number]> } } = {
+  medications: { loinc: SECTION_CODES.medications, parse: parseMedications },
+  labResults: { loinc: SECTION_CODES.results, parse: parseResults },
+  vitals: { loinc: SECTION_CODES.vitals, parse: parseVitals },
+  allergies: { loinc: SECTION_CODES.allergies, parse: parseAllergies },
+  conditions: { loinc: SECTION_CODES.problems, parse: parseProblems },
+  immunizations: { loinc: SECTION_CODES.immunizations, parse: parseImmunizations },
+  encounters: { loinc: SECTION_CODES.encounters, parse: parseEncounters },
+  procedures: { loinc: SECTION_CODES.procedures, parse: parseProcedures },
+};
+
+/** Every domain a C-CDA document can carry */
+export const CCDA_DOMAINS = Object.keys(SECTION_PARSERS) as CcdaDomain[];
+
+interface LoadedCcda {
+  root: Element;
+  /** Narrative IDs referenced by originalText/reference */
+  narrative: Map<string, string>;
+  /** component/structuredBody/component/section */
+  sections: Element[];
+}
+
+/** Parse the XML; throws if it is malformed or not a ClinicalDocument */
+function loadCcda(xml: string): LoadedCcda {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("This file is not valid XML.");
+  }
+
+  const root = doc.documentElement;
+  if (root.localName !== "ClinicalDocument") {
+    throw new Error("This XML file is not a C-CDA document.");
+  }
+
+  const narrative = new Map<string, string>();
+  for (const el of Array.from(doc.querySelectorAll("[ID]"))) {
+    const content = text(el);
+    const id = el.getAttribute("ID");
+    if (id && content) narrative.set(id, content);
+  }
+
+  const sections = children(path(root, "component", "structuredBody"), "component")
+    .flatMap((c) => children(c, "section"));
+
+  return { root, narrative, sections };
+}
+
+function collectDomain<D extends CcdaDomain>(ccda: LoadedCcda, domain: D, source: SourceTag): CcdaDocument[D] {
+  const { loinc, parse } = SECTION_PARSERS[domain];
+  return ccda.sections
+    .filter((s) => attr(child(s, "code"), "code") === loinc)
+    .flatMap((s) => parse(s, source, ccda.narrative)) as CcdaDocument[D];
+}
+
+// -----------------------------------------------------------
+// Entry points
+// -----------------------------------------------------------
+
+/** Quick check: is this text a CDA ClinicalDocument? */
+export function isCcdaDocument(textContent: string): boolean {
+  const head = textContent.trimStart().slice(0, 2000);
+  return head.startsWith("<") && head.includes("ClinicalDocument");
+}
+
+/**
+ * Parse a C-CDA XML document into the app's domain types.
+ * Throws if the XML is malformed or not a ClinicalDocument;
+ * individual unparseable entries are skipped.
+ */
+export function parseCcdaDocument(xml: string, source: SourceTag): CcdaDocument {
+  const ccda = loadCcda(xml);
+
+  const result: CcdaDocument = {
+    title: text(child(ccda.root, "title")),
+    patient: parseRecordTarget(ccda.root),
+    medications: collectDomain(ccda, "medications", source),
+    labResults: collectDomain(ccda, "labResults", source),
+    vitals: collectDomain(ccda, "vitals", source),
+    allergies: collectDomain(ccda, "allergies", source),
+    conditions: collectDomain(ccda, "conditions", source),
+    immunizations: collectDomain(ccda, "immunizations", source),
+    encounters: collectDomain(ccda, "encounters", source),
+    procedures: collectDomain(ccda, "procedures", source),
+  };
+
+  if (import.meta.env.DEV) {
+    console.log(`[CcdaParser] Parsed "${result.title ?? "C-CDA"}" for ${source.systemName}:`, {
+      medications: result.medications.length,
+      labResults: result.labResults.length,
+      vitals: result.vitals.length,
+      allergies: result.allergies.length,
+      conditions: result.conditions.length,
+      immunizations: result.immunizations.length,
+      encounters: result.encounters.length,
+      procedures: result.procedures.length,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Parse one domain's sections only, so an unparseable section
+ * elsewhere in the document doesn't take this domain down with it.
+ * Throws like parseCcdaDocument on malformed XML.
+ */
+export function parseCcdaDomain<D extends CcdaDomain>(xml: string, domain: D, source: SourceTag): CcdaDocument[D] {
+  return collectDomain(loadCcda(xml), domain, source);
+}
@@ -0,0 +1,79 @@
+// -----------------------------------------------------------
+// diagnosticReportParser — Converts raw FHIR DiagnosticReport → DiagnosticReport
+// -----------------------------------------------------------
+
+import type { DiagnosticReport } from "../types/diagnosticReport";
+import type { SourceTag, ClinicalCode } from "../types/source";
+import { decodeAttachments } from "./attachmentDecoder";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function extractCodes(codeableConcept: any): ClinicalCode[] {
+  if (!codeableConcept?.coding) return [];
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return codeableConcept.coding.map((c: any) => ({
+    system: c.system,
+    code: c.code,
+    display: c.display,
+  }));
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function conceptText(codeableConcept: any): string | undefined {
+  return codeableConcept?.text || codeableConcept?.coding?.[0]?.display;
+}
+
+/** "Observation/abc" → "abc"; contained ("#abc") and absolute URLs keep the last segment */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function referenceId(reference: any): string | undefined {
+  const ref: string | undefined = reference?.reference;
+  if (!ref) return undefined;
+  return ref.replace(/^#/, "").split("/").pop() || undefined;
+}
+
+/**
+ * Parse a raw FHIR DiagnosticReport resource into a DiagnosticReport type.
+ * Returns null if the resource is unparseable.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function parseDiagnosticReport(resource: any, source: SourceTag): DiagnosticReport | null {
+  if (!resource || resource.resourceType !== "DiagnosticReport") {
+    return null;
+  }
+
+  try {
+    return {
+      id: resource.id ?? `report-${Date.now()}`,
+      status: resource.status ?? "unknown",
+      name: conceptText(resource.code) || "Unknown Report",
+      codes: extractCodes(resource.code),
+      // category is 0..* in R4 — the first one is the meaningful one in practice
+      category: conceptText(resource.category?.[0]),
+      effectiveDate: resource.effectiveDateTime ?? resource.effectivePeriod?.start,
+      issued: resource.issued,
+      performer: resource.performer?.[0]?.display ?? resource.resultsInterpreter?.[0]?.display,
+      conclusion: resource.conclusion || conceptText(resource.conclusionCode?.[0]),
+      resultIds: (resource.result ?? [])
+        .map(referenceId)
+        .filter((id: string | undefined): id is string => !!id),
+      attachments: decodeAttachments(resource.presentedForm),
+      source,
+    };
+  } catch (err) {
+    if (import.meta.env.DEV) {
+      console.warn("Failed to parse DiagnosticReport:", resource.id, err);
+    }
+    return null;
+  }
+}
+
+/**
+ * Parse a FHIR Bundle of DiagnosticReport resources.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function parseDiagnosticReportBundle(bundle: any, source: SourceTag): DiagnosticReport[] {
+  if (!bundle?.entry) return [];
+  return bundle.entry
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .map((entry: any) => parseDiagnosticReport(entry.resource, source))
+    .filter((r: DiagnosticReport | null): r is DiagnosticReport => r !== null);
+}
@@ -0,0 +1,75 @@
+// -----------------------------------------------------------
+// documentReferenceParser — Converts raw FHIR DocumentReference → ClinicalDocument
+// -----------------------------------------------------------
+
+import type { ClinicalDocument } from "../types/document";
+import type { SourceTag, ClinicalCode } from "../types/source";
+import { decodeAttachments } from "./attachmentDecoder";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function extractCodes(codeableConcept: any): ClinicalCode[] {
+  if (!codeableConcept?.coding) return [];
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return codeableConcept.coding.map((c: any) => ({
+    system: c.system,
+    code: c.code,
+    display: c.display,
+  }));
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function conceptText(codeableConcept: any): string | undefined {
+  return codeableConcept?.text || codeableConcept?.coding?.[0]?.display;
+}
+
+/**
+ * Parse a raw FHIR DocumentReference resource into a ClinicalDocument type.
+ * Returns null if the resource is unparseable.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function parseDocumentReference(resource: any, source: SourceTag): ClinicalDocument | null {
+  if (!resource || resource.resourceType !== "DocumentReference") {
+    return null;
+  }
+
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const attachments = decodeAttachments((resource.content ?? []).map((c: any) => c.attachment));
+    const type = conceptText(resource.type);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const authors = (resource.author ?? []).map((a: any) => a.display).filter(Boolean);
+
+    return {
+      id: resource.id ?? `doc-${Date.now()}`,
+      status: resource.status ?? "current",
+      title: resource.description || attachments.find((a) => a.title)?.title || type || "Clinical Document",
+      type,
+      codes: extractCodes(resource.type),
+      category: conceptText(resource.category?.[0]),
+      // R4 has no clinical date on DocumentReference — context.period is the closest
+      date: resource.date ?? resource.context?.period?.start,
+      author: authors.length > 0 ? authors.join(", ") : undefined,
+      custodian: resource.custodian?.display,
+      encounterId: resource.context?.encounter?.[0]?.reference?.split("/").pop(),
+      attachments,
+      source,
+    };
+  } catch (err) {
+    if (import.meta.env.DEV) {
+      console.warn("Failed to parse DocumentReference:", resource.id, err);
+    }
+    return null;
+  }
+}
+
+/**
+ * Parse a FHIR Bundle of DocumentReference resources.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function parseDocumentReferenceBundle(bundle: any, source: SourceTag): ClinicalDocument[] {
+  if (!bundle?.entry) return [];
+  return bundle.entry
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .map((entry: any) => parseDocumentReference(entry.resource, source))
+    .filter((d: ClinicalDocument | null): d is ClinicalDocument => d !== null);
+}
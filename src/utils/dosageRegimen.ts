@@ -0,0 +1,327 @@
+// -----------------------------------------------------------
+// dosageRegimen — Structured dose + frequency → total daily dose
+// -----------------------------------------------------------
+// Two systems rarely word the same prescription the same way:
+// "Take 1 tablet by mouth twice daily" and "1 tab PO BID" are one
+// regimen, and "500 mg BID" delivers the same 1000 mg/day as
+// "1000 mg daily". Comparing raw strings or per-dose values flags
+// all of these as dose conflicts.
+//
+// Each prescription is reduced to a MedicationRegimen: dose per
+// administration, administrations per day, PRN flag, and the
+// total daily dose. Sources, in order of trust:
+//   1. FHIR Dosage — doseAndRate, timing.repeat, timing.code,
+//      asNeeded[x]
+//   2. Free-text sig — fills whatever the structure left out
+// Dose forms ("1 tablet") become mass using the strength in the
+// product name ("Metformin 1000mg tablet").
+// -----------------------------------------------------------
+
+import type { MedicationRegimen } from "../types/medication";
+
+// -----------------------------------------------------------
+// Units
+// -----------------------------------------------------------
+
+/** Unit spellings (lowercase) → normalized dose unit */
+const DOSE_UNITS: Record<string, string> = {
+  mg: "mg", milligram: "mg", milligrams: "mg",
+  mcg: "mcg", ug: "mcg", "µg": "mcg", microgram: "mcg", micrograms: "mcg",
+  g: "g", gram: "g", grams: "g",
+  meq: "mEq",
+  unit: "unit", units: "unit", u: "unit", iu: "unit",
+  ml: "mL", milliliter: "mL", milliliters: "mL",
+  tablet: "tablet", tablets: "tablet", tab: "tablet", tabs: "tablet", tbl: "tablet",
+  capsule: "capsule", capsules: "capsule", cap: "capsule", caps: "capsule",
+  puff: "puff", puffs: "puff", spray: "spray", sprays: "spray",
+  drop: "drop", drops: "drop", patch: "patch", patches: "patch",
+};
+
+/** Mass units in milligrams — mass doses compare across mg/mcg/g */
+const MG_PER_UNIT: Record<string, number> = { mg: 1, mcg: 0.001, g: 1000 };
+
+/** Units that are an amount of drug (not a dose form) */
+const AMOUNT_UNITS = new Set(["mg", "mcg", "g", "mEq", "unit"]);
+
+/** Dose forms a product strength converts from */
+const FORM_UNITS = new Set(["tablet", "capsule", "patch"]);
+
+function normalizeDoseUnit(unit?: string): string | undefined {
+  if (!unit) return undefined;
+  const key = unit.trim().toLowerCase().replace(/[{}]/g, "").replace(/\.$/, "");
+  return DOSE_UNITS[key];
+}
+
+// -----------------------------------------------------------
+// Product strength ("Warfarin Sodium 5 MG Oral Tablet")
+// -----------------------------------------------------------
+
+interface Strength {
+  value: number;
+  unit: string;
+  /** Strength is per mL (oral solutions: "250 MG/5ML") */
+  perMl?: boolean;
+}
+
+/**
+ * Single strength in a product name. Combination products
+ * ("5-10 MG", "Amlodipine / Benazepril") return undefined — one
+ * tablet isn't one amount of one drug.
+ */
+function productStrength(productName: string): Strength | undefined {
+  const name = productName.toLowerCase();
+  if (/\d\s*-\s*\d|\s\/\s/.test(name)) return undefined;
+
+  const liquid = name.match(/(\d+(?:\.\d+)?)\s*(mg|mcg)\s*\/\s*(\d+(?:\.\d+)?)?\s*ml\b/);
+  if (liquid) {
+    return { value: Number(liquid[1]) / Number(liquid[3] ?? 1), unit: liquid[2], perMl: true };
+  }
+
+  const matches = [...name.matchAll(/(\d+(?:\.\d+)?)\s*(mg|mcg|meq|units?)\b/g)];
+  if (matches.length !== 1) return undefined;
+  return { value: Number(matches[0][1]), unit: normalizeDoseUnit(matches[0][2])! };
+}
+
+// -----------------------------------------------------------
+// Free-text sig
+// -----------------------------------------------------------
+
+const NUMBER_WORDS: Record<string, number> = {
+  half: 0.5, "one-half": 0.5, one: 1, two: 2, three: 3, four: 4,
+};
+
+/** Frequency phrases → administrations per day (first match wins) */
+const SIG_FREQUENCIES: [RegExp, number][] = [
+  [/\bq\.?i\.?d\b|\bfour times\b|\b4 times\b|\b4x\b/, 4],
+  [/\bt\.?i\.?d\b|\bthree times\b|\b3 times\b|\b3x\b/, 3],
+  [/\bb\.?i\.?d\b|\btwice\b|\btwo times\b|\b2 times\b|\b2x\b/, 2],
+  [/\bevery other day\b|\bq\.?o\.?d\b/, 1 / 2],
+  [/\bweekly\b|\bonce a week\b|\bevery week\b|\bq\s?wk\b/, 1 / 7],
+  [/\bmonthly\b|\bonce a month\b|\bevery month\b/, 1 / 30],
+  [
+    /\bonce (a |per )?day\b|\bdaily\b|\bq\.?d\b|\bqday\b|\bevery (day|morning|evening|night)\b|\bnightly\b|\bat bedtime\b|\bq\.?hs\b|\bq\.?am\b|\bq\.?pm\b/,
+    1,
+  ],
+];
+
+interface SigParts {
+  dose?: number;
+  doseUnit?: string;
+  timesPerDay?: number;
+  asNeeded: boolean;
+}
+
+/** Pull dose, frequency and PRN out of a sig like "1 tab PO q12h prn pain" */
+function parseSig(text: string): SigParts {
+  const sig = text.toLowerCase();
+  const parts: SigParts = {
+    asNeeded: /\bprn\b|\bas needed\b|\bif needed\b/.test(sig),
+  };
+
+  const dose = sig.match(
+    /(\d+(?:\.\d+)?|\d+\/\d+|half|one-half|one|two|three|four)\s*(mg|mcg|µg|ug|g|meq|units?|iu|ml|tablets?|tabs?|capsules?|caps?|puffs?|sprays?|drops?|patch(?:es)?)\b/
+  );
+  if (dose) {
+    const [num, denom] = dose[1].split("/");
+    const value = denom ? Number(num) / Number(denom) : (NUMBER_WORDS[dose[1]] ?? Number(dose[1]));
+    if (Number.isFinite(value)) {
+      parts.dose = value;
+      parts.doseUnit = normalizeDoseUnit(dose[2]);
+    }
+  }
+
+  // "every 8 hours", "q6h", "q4-6h" (the shorter interval is the most drug per day)
+  const interval = sig.match(/\b(?:q|every)\s*(\d+)(?:\s*(?:-|to)\s*\d+)?\s*(?:h|hr|hrs|hours?)\b/);
+  if (interval && Number(interval[1]) > 0) {
+    parts.timesPerDay = 24 / Number(interval[1]);
+  } else {
+    const perDay = SIG_FREQUENCIES.find(([pattern]) => pattern.test(sig))?.[1];
+    // "twice weekly", "3 times a week" — the count is per week, not per day
+    const perWeek =
+      perDay !== undefined && perDay >= 1 &&
+      /\b(a|per|each)\s+week\b|\bweekly\b/.test(sig) && !/\bdaily\b|\bday\b/.test(sig);
+    parts.timesPerDay = perWeek ? perDay / 7 : perDay;
+  }
+
+  return parts;
+}
+
+// -----------------------------------------------------------
+// FHIR Dosage
+// -----------------------------------------------------------
+
+/** Period units (UCUM) in days */
+const DAYS_PER_PERIOD_UNIT: Record<string, number> = {
+  s: 1 / 86_400, min: 1 / 1440, h: 1 / 24, d: 1, wk: 7, mo: 30, a: 365,
+};
+
+/** HL7 timing abbreviations (GTSAbbreviation) → administrations per day */
+const TIMING_CODES: Record<string, number> = {
+  QD: 1, AM: 1, PM: 1, QHS: 1, BID: 2, TID: 3, QID: 4,
+  Q4H: 6, Q6H: 4, Q8H: 3, Q12H: 2, QOD: 1 / 2, WK: 1 / 7, MO: 1 / 30,
+};
+
+/**
+ * Administrations per day for "frequency times per period unit"
+ * (FHIR timing.repeat, C-CDA PIVL_TS period). Undefined for
+ * unknown units or a zero period.
+ */
+export function timesPerDayFromPeriod(frequency: number, period: number, periodUnit: string): number | undefined {
+  const days = DAYS_PER_PERIOD_UNIT[periodUnit];
+  if (!days || !(period > 0)) return undefined;
+  return frequency / (period * days);
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function timesPerDayFromTiming(timing: any): number | undefined {
+  const repeat = timing?.repeat;
+  if (repeat?.period && repeat.periodUnit) {
+    const perDay = timesPerDayFromPeriod(repeat.frequencyMax ?? repeat.frequency ?? 1, repeat.period, repeat.periodUnit);
+    if (perDay !== undefined) return perDay;
+  }
+  // "MORN" + "NIGHT" with no explicit frequency → twice a day
+  const slots = (repeat?.when?.length ?? 0) + (repeat?.timeOfDay?.length ?? 0);
+  if (slots > 0) return slots;
+
+  const code = timing?.code?.coding?.[0]?.code;
+  return code ? TIMING_CODES[String(code).toUpperCase()] : undefined;
+}
+
+// -----------------------------------------------------------
+// Regimen assembly
+// -----------------------------------------------------------
+
+export interface RegimenParts {
+  dose?: number;
+  doseUnit?: string;
+  timesPerDay?: number;
+  asNeeded?: boolean;
+  /** Free-text sig — fills any part left unset */
+  text?: string;
+}
+
+/**
+ * Build a regimen from whatever structured parts a source gave,
+ * filling gaps from the sig text. Returns undefined when neither
+ * a dose nor a frequency can be found.
+ */
+export function regimenFromParts(parts: RegimenParts, productName: string): MedicationRegimen | undefined {
+  const sig = parts.text ? parseSig(parts.text) : undefined;
+  const structuredUnit = normalizeDoseUnit(parts.doseUnit);
+
+  const useStructuredDose = parts.dose !== undefined && (structuredUnit !== undefined || !sig?.doseUnit);
+  const dose = useStructuredDose ? parts.dose : sig?.dose;
+  const doseUnit = useStructuredDose ? structuredUnit : sig?.doseUnit;
+  const timesPerDay = parts.timesPerDay ?? sig?.timesPerDay;
+  const asNeeded = (parts.asNeeded ?? false) || (sig?.asNeeded ?? false);
+
+  if (dose === undefined && timesPerDay === undefined) return undefined;
+
+  const regimen: MedicationRegimen = { dose, doseUnit, timesPerDay, asNeeded };
+
+  if (!asNeeded && dose !== undefined && doseUnit && timesPerDay !== undefined) {
+    const strength = productStrength(productName);
+    if (AMOUNT_UNITS.has(doseUnit)) {
+      regimen.totalDailyDose = { value: dose * timesPerDay, unit: doseUnit };
+    } else if (strength && !strength.perMl && FORM_UNITS.has(doseUnit)) {
+      regimen.totalDailyDose = { value: dose * strength.value * timesPerDay, unit: strength.unit };
+    } else if (strength?.perMl && doseUnit === "mL") {
+      regimen.totalDailyDose = { value: dose * strength.value * timesPerDay, unit: strength.unit };
+    }
+  }
+
+  return regimen;
+}
+
+/**
+ * Parse a FHIR Dosage element (MedicationRequest.dosageInstruction[n]).
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function parseFhirDosage(dosage: any, productName: string): MedicationRegimen | undefined {
+  if (!dosage) return undefined;
+
+  const doseAndRate = dosage.doseAndRate?.[0];
+  // A range ("1-2 tablets") counts at its upper bound
+  const quantity = doseAndRate?.doseQuantity ?? doseAndRate?.doseRange?.high;
+
+  return regimenFromParts(
+    {
+      dose: typeof quantity?.value === "number" ? quantity.value : undefined,
+      doseUnit: quantity?.unit ?? quantity?.code,
+      timesPerDay: timesPerDayFromTiming(dosage.timing),
+      asNeeded: dosage.asNeededBoolean === true || dosage.asNeededCodeableConcept !== undefined || undefined,
+      text: [dosage.text, dosage.timing?.code?.text].filter(Boolean).join(" ") || undefined,
+    },
+    productName
+  );
+}
+
+// -----------------------------------------------------------
+// Comparison + display
+// -----------------------------------------------------------
+
+/** Amount in a comparable unit (mass → mg; others as-is) */
+function comparableAmount(value: number, unit: string): { value: number; unit: string } {
+  const mgFactor = MG_PER_UNIT[unit];
+  return mgFactor ? { value: value * mgFactor, unit: "mg" } : { value, unit };
+}
+
+function amountsEqual(a: { value: number; unit: string }, b: { value: number; unit: string }): boolean {
+  const x = comparableAmount(a.value, a.unit);
+  const y = comparableAmount(b.value, b.unit);
+  return x.unit === y.unit && Math.abs(x.value - y.value) <= 0.01 * Math.max(Math.abs(x.value), Math.abs(y.value));
+}
+
+/**
+ * Do two regimens deliver the same drug exposure?
+ *   - scheduled vs PRN → no
+ *   - scheduled → same total daily dose
+ *   - both PRN → same amount per dose
+ * Returns undefined when the regimens can't be compared (missing
+ * dose, unknown strength) — callers fall back to their own check.
+ */
+export function regimensEquivalent(a?: MedicationRegimen, b?: MedicationRegimen): boolean | undefined {
+  if (!a || !b) return undefined;
+  if (a.asNeeded !== b.asNeeded) return false;
+
+  if (!a.asNeeded) {
+    if (!a.totalDailyDose || !b.totalDailyDose) return undefined;
+    return amountsEqual(a.totalDailyDose, b.totalDailyDose);
+  }
+
+  if (a.dose === undefined || b.dose === undefined || !a.doseUnit || !b.doseUnit) return undefined;
+  return amountsEqual({ value: a.dose, unit: a.doseUnit }, { value: b.dose, unit: b.doseUnit });
+}
+
+function formatAmount(value: number, unit: string): string {
+  const rounded = Math.round(value * 100) / 100;
+  const plural = FORM_UNITS.has(unit) || unit === "puff" || unit === "spray" || unit === "drop" || unit === "unit";
+  return `${rounded.toLocaleString()} ${plural && rounded !== 1 ? `${unit}s` : unit}`;
+}
+
+function describeFrequency(timesPerDay: number): string {
+  const rounded = Math.round(timesPerDay * 100) / 100;
+  if (rounded === 1) return "once daily";
+  if (rounded === 2) return "twice daily";
+  if (rounded >= 3 && Number.isInteger(rounded)) return `${rounded} times daily`;
+  const perWeek = Math.round(timesPerDay * 7 * 100) / 100;
+  if (perWeek === 1) return "once weekly";
+  if (perWeek === 2) return "twice weekly";
+  if (timesPerDay < 1 && Number.isInteger(perWeek)) return `${perWeek} times weekly`;
+  if (timesPerDay < 1) return `every ${Math.round(1 / timesPerDay)} days`;
+  return `every ${Math.round((24 / timesPerDay) * 10) / 10} hours`;
+}
+
+/** Plain-language regimen: "1 tablet twice daily (2,000 mg/day)" */
+export function describeRegimen(regimen: MedicationRegimen): string {
+  const parts: string[] = [];
+  if (regimen.dose !== undefined) {
+    parts.push(regimen.doseUnit ? formatAmount(regimen.dose, regimen.doseUnit) : String(regimen.dose));
+  }
+  if (regimen.timesPerDay !== undefined) parts.push(describeFrequency(regimen.timesPerDay));
+  if (regimen.asNeeded) parts.push("as needed");
+
+  const total = regimen.totalDailyDose;
+  const totalText = total ? ` (${formatAmount(total.value, total.unit)}/day)` : "";
+  return `${parts.join(" ") || "Dose unspecified"}${totalText}`;
+}
@@ -0,0 +1,170 @@
+// -----------------------------------------------------------
+// labUnits — UCUM unit normalization for common analytes
+// -----------------------------------------------------------
+// Labs report the same analyte in different units: glucose in
+// mg/dL (US) or mmol/L (most of the world), A1c in % (NGSP) or
+// mmol/mol (IFCC). Comparing raw values across sources gives
+// nonsense trends and false "different value" merge splits.
+//
+// Every analyte here has one canonical unit (the US convention,
+// which the fallback reference ranges also use). The merge engine
+// attaches `canonical` to each lab; merging, flagging, trends and
+// sparklines compare canonical values. `value`/`unit` are never
+// touched — the UI still shows what the lab actually reported.
+// -----------------------------------------------------------
+
+import type { LabResult } from "../types/labResult";
+import { findLabGroup } from "./loincGroups";
+
+// -----------------------------------------------------------
+// Units
+// -----------------------------------------------------------
+
+/** Lowercased, space-free unit spellings → UCUM code */
+const UNIT_ALIASES: Record<string, string> = {
+  "mg/dl": "mg/dL",
+  "mmol/l": "mmol/L",
+  "umol/l": "umol/L",
+  "µmol/l": "umol/L",
+  "μmol/l": "umol/L",
+  "g/dl": "g/dL",
+  "g/l": "g/L",
+  "%": "%",
+  "mmol/mol": "mmol/mol",
+};
+
+/**
+ * Normalize a unit string to its UCUM code ("mg/dl" → "mg/dL",
+ * "µmol/L" → "umol/L"). Unknown units are returned trimmed, as-is.
+ */
+export function normalizeUnit(unit?: string): string | undefined {
+  if (!unit) return undefined;
+  const key = unit.replace(/\s+/g, "").toLowerCase();
+  return UNIT_ALIASES[key] ?? unit.trim();
+}
+
+// -----------------------------------------------------------
+// Analytes (keyed by LOINC equivalence group — utils/loincGroups)
+// -----------------------------------------------------------
+
+interface AnalyteUnits {
+  /** Unit every reading is converted to */
+  canonicalUnit: string;
+  /** Per-unit converters into the canonical unit (canonical unit included) */
+  toCanonical: Record<string, (value: number) => number>;
+}
+
+const identity = (v: number) => v;
+
+const GLUCOSE: AnalyteUnits = { canonicalUnit: "mg/dL", toCanonical: { "mg/dL": identity, "mmol/L": (v) => v * 18.016 } };
+// Total, LDL and HDL cholesterol share the molar mass
+const CHOLESTEROL: AnalyteUnits = { canonicalUnit: "mg/dL", toCanonical: { "mg/dL": identity, "mmol/L": (v) => v * 38.67 } };
+
+const ANALYTE_UNITS: Record<string, AnalyteUnits> = {
+  "glucose": GLUCOSE,
+  "fasting-glucose": GLUCOSE,
+  "total-cholesterol": CHOLESTEROL,
+  "ldl-cholesterol": CHOLESTEROL,
+  "hdl-cholesterol": CHOLESTEROL,
+  "triglycerides": {
+    canonicalUnit: "mg/dL",
+    toCanonical: { "mg/dL": identity, "mmol/L": (v) => v * 88.57 },
+  },
+  "creatinine": {
+    canonicalUnit: "mg/dL",
+    toCanonical: { "mg/dL": identity, "umol/L": (v) => v / 88.42 },
+  },
+  // NGSP % = 0.09148 × IFCC mmol/mol + 2.152 (affine, not a ratio)
+  "a1c": {
+    canonicalUnit: "%",
+    toCanonical: { "%": identity, "mmol/mol": (v) => v * 0.09148 + 2.152 },
+  },
+  // Hemoglobin as the monomer (16.11 g/mol ×1000) for mmol/L
+  "hemoglobin": {
+    canonicalUnit: "g/dL",
+    toCanonical: { "g/dL": identity, "g/L": (v) => v / 10, "mmol/L": (v) => v * 1.611 },
+  },
+};
+
+// -----------------------------------------------------------
+// Conversion
+// -----------------------------------------------------------
+
+/** A lab value expressed in its analyte's canonical unit */
+export type CanonicalQuantity = NonNullable<LabResult["canonical"]>;
+
+/** Round away float noise from conversion factors (4 significant decimals) */
+function round(value: number): number {
+  return Math.round(value * 10_000) / 10_000;
+}
+
+/**
+ * Convert a lab's value (and reference range) to the analyte's
+ * canonical unit. Returns undefined for non-numeric values,
+ * unrecognized analytes, or units we don't know how to convert.
+ */
+export function toCanonical(lab: LabResult): CanonicalQuantity | undefined {
+  if (typeof lab.value !== "number") return undefined;
+
+  const group = findLabGroup(lab);
+  const analyte = group ? ANALYTE_UNITS[group.id] : undefined;
+  if (!analyte) return undefined;
+
+  const unit = normalizeUnit(lab.unit);
+  const convert = unit ? analyte.toCanonical[unit] : undefined;
+  if (!convert) return undefined;
+
+  const range = lab.referenceRange;
+  const hasRange = range && (range.low != null || range.high != null);
+
+  return {
+    value: round(convert(lab.value)),
+    unit: analyte.canonicalUnit,
+    ...(hasRange && {
+      referenceRange: {
+        low: range.low != null ? round(convert(range.low)) : undefined,
+        high: range.high != null ? round(convert(range.high)) : undefined,
+      },
+    }),
+  };
+}
+
+/** Attach the canonical quantity to a lab (no-op when it can't be converted) */
+export function withCanonicalValue<T extends LabResult>(lab: T): T {
+  const canonical = toCanonical(lab);
+  return canonical ? { ...lab, canonical } : lab;
+}
+
+/**
+ * The numeric value to compute with: canonical when the lab was
+ * converted, otherwise the raw value in its reported unit.
+ * Returns null for non-numeric results.
+ */
+export function comparableValue(lab: LabResult): { value: number; unit: string } | null {
+  if (lab.canonical) return { value: lab.canonical.value, unit: lab.canonical.unit };
+  if (typeof lab.value !== "number") return null;
+  return { value: lab.value, unit: normalizeUnit(lab.unit) ?? "" };
+}
+
+/** Reference range in the same unit as comparableValue() */
+export function comparableRange(lab: LabResult): { low?: number; high?: number } | undefined {
+  return lab.canonical?.referenceRange ?? lab.referenceRange;
+}
+
+/** Relative difference tolerated between converted values (rounding in the source unit) */
+const CONVERSION_TOLERANCE = 0.01;
+
+/**
+ * Do two labs report the same result? Converted values match within
+ * 1% (7.2 mmol/L glucose = 130 mg/dL); anything else must be equal
+ * in value and unit.
+ */
+export function labValuesMatch(a: LabResult, b: LabResult): boolean {
+  if (a.canonical && b.canonical) {
+    if (a.canonical.unit !== b.canonical.unit) return false;
+    const scale = Math.max(Math.abs(a.canonical.value), Math.abs(b.canonical.value));
+    return Math.abs(a.canonical.value - b.canonical.value) <= scale * CONVERSION_TOLERANCE;
+  }
+  if (a.value !== b.value) return false;
+  return !a.unit || !b.unit || normalizeUnit(a.unit) === normalizeUnit(b.unit);
+}
@@ -0,0 +1,190 @@
+// -----------------------------------------------------------
+// loincGroups — Local LOINC equivalence table for lab tests
+// -----------------------------------------------------------
+// One clinical test often has several LOINC codes: A1c is 4548-4
+// at one lab and 17856-6 (HPLC method) at another; glucose in
+// mmol/L is 14749-6, not 2345-7. Matching on exact codes splits
+// one series into several trends and misses cross-system dupes.
+//
+// Each group lists codes that are safe to trend and dedup together
+// (same analyte and clinical meaning; unit differences are handled
+// by utils/labUnits). Fasting and random glucose stay separate,
+// as do total/LDL/HDL cholesterol — those are different tests.
+//
+// Uncoded labs fall back to the group's name pattern. Coded labs
+// outside the table keep their own code (no name guessing).
+// -----------------------------------------------------------
+
+import type { ClinicalCode } from "../types/source";
+
+export interface LabTestGroup {
+  /** Stable id used in series keys ("group:a1c") */
+  id: string;
+  /** Patient-facing test name for the whole series */
+  label: string;
+  /** Equivalent LOINC codes */
+  loinc: string[];
+  /** Name fallback for labs without a LOINC code */
+  namePattern: RegExp;
+}
+
+export const LAB_TEST_GROUPS: LabTestGroup[] = [
+  {
+    id: "a1c",
+    label: "Hemoglobin A1c",
+    // % NGSP (4548-4, 17856-6 HPLC, 4549-2 electrophoresis), mmol/mol IFCC.
+    // Not 62388-4: JDS/JSCC % is also "%" but reads lower than NGSP
+    // (NGSP ≈ 1.02 × JDS + 0.25), so it keeps its own series.
+    loinc: ["4548-4", "17856-6", "4549-2", "59261-8"],
+    namePattern: /\ba1c\b|glycated h(a)?emoglobin|glycoh(a)?emoglobin/i,
+  },
+  {
+    id: "fasting-glucose",
+    label: "Fasting Glucose",
+    loinc: ["1558-6", "14771-0", "76629-5"],
+    namePattern: /fasting.*glucose|glucose.*fasting/i,
+  },
+  {
+    id: "glucose",
+    label: "Glucose",
+    // Serum/plasma, whole blood, capillary (glucometer); mass and moles
+    loinc: ["2345-7", "2339-0", "41653-7", "14749-6", "15074-8", "14743-9"],
+    namePattern: /^(serum |plasma |blood )?glucose$/i,
+  },
+  {
+    id: "total-cholesterol",
+    label: "Total Cholesterol",
+    loinc: ["2093-3", "14647-2"],
+    namePattern: /^(total )?cholesterol( total)?$/i,
+  },
+  {
+    id: "ldl-cholesterol",
+    label: "LDL Cholesterol",
+    // Calculated, direct, mass and moles
+    loinc: ["2089-1", "13457-7", "18262-6", "22748-8", "39469-2", "69419-0"],
+    namePattern: /\bldl\b/i,
+  },
+  {
+    id: "hdl-cholesterol",
+    label: "HDL Cholesterol",
+    loinc: ["2085-9", "14646-4"],
+    namePattern: /\bhdl\b/i,
+  },
+  {
+    id: "triglycerides",
+    label: "Triglycerides",
+    loinc: ["2571-8", "14927-8", "3043-7"],
+    namePattern: /triglyceride/i,
+  },
+  {
+    id: "creatinine",
+    label: "Creatinine",
+    loinc: ["2160-0", "14682-9", "38483-4"],
+    namePattern: /^(serum )?creatinine$/i,
+  },
+  {
+    id: "egfr",
+    label: "eGFR",
+    // MDRD, CKD-EPI 2009 and the race-free CKD-EPI 2021
+    loinc: ["33914-3", "48642-3", "48643-1", "62238-1", "88293-6", "88294-4", "98979-8"],
+    namePattern: /\begfr\b|glomerular filtration/i,
+  },
+  {
+    id: "hemoglobin",
+    label: "Hemoglobin",
+    loinc: ["718-7", "20509-6", "59260-0"],
+    namePattern: /^h(a)?emoglobin$|^hgb$/i,
+  },
+  {
+    id: "potassium",
+    label: "Potassium",
+    loinc: ["2823-3", "6298-4"],
+    namePattern: /^potassium$/i,
+  },
+  {
+    id: "sodium",
+    label: "Sodium",
+    loinc: ["2951-2", "2947-0"],
+    namePattern: /^sodium$/i,
+  },
+  {
+    id: "bun",
+    label: "BUN",
+    loinc: ["3094-0", "6299-2"],
+    namePattern: /^bun$|urea nitrogen/i,
+  },
+  {
+    id: "tsh",
+    label: "TSH",
+    loinc: ["3016-3", "11580-8"],
+    namePattern: /^tsh$|thyrotropin|thyroid stimulating/i,
+  },
+  {
+    id: "inr",
+    label: "INR",
+    // Lab and point-of-care (home monitor) INR
+    loinc: ["6301-6", "34714-6", "46418-0"],
+    namePattern: /\binr\b/i,
+  },
+  {
+    id: "stool-screening",
+    label: "Stool Test (Colorectal Screening)",
+    // gFOBT, FIT, multi-target stool DNA (Cologuard)
+    loinc: ["2335-8", "14563-1", "14564-9", "14565-6", "27396-1", "27401-9", "29771-3", "56490-6", "56491-4", "57905-2", "77353-1", "77354-9"],
+    namePattern: /\bfit\b|fobt|cologuard|occult blood/i,
+  },
+];
+
+const GROUP_BY_LOINC = new Map(
+  LAB_TEST_GROUPS.flatMap((group) => group.loinc.map((code) => [code, group] as const))
+);
+
+/** LOINC codes on a lab, in listed order */
+function loincCodes(codes: ClinicalCode[]): string[] {
+  return codes
+    .filter((c) => c.code && c.system?.toLowerCase().includes("loinc"))
+    .map((c) => c.code!);
+}
+
+/**
+ * Find the equivalence group for a lab by LOINC code, falling back
+ * to the name only when the lab carries no LOINC code at all.
+ */
+export function findLabGroup(lab: { codes: ClinicalCode[]; name: string }): LabTestGroup | null {
+  const codes = loincCodes(lab.codes);
+  for (const code of codes) {
+    const group = GROUP_BY_LOINC.get(code);
+    if (group) return group;
+  }
+  if (codes.length > 0) return null;
+
+  const name = lab.name.trim();
+  return LAB_TEST_GROUPS.find((group) => group.namePattern.test(name)) ?? null;
+}
+
+/**
+ * Series key for a lab: equivalence group, else LOINC code, else
+ * normalized name. Labs with the same key are one clinical test.
+ */
+export function labGroupKey(lab: { codes: ClinicalCode[]; name: string }): string {
+  const group = findLabGroup(lab);
+  if (group) return `group:${group.id}`;
+
+  const loinc = loincCodes(lab.codes)[0];
+  if (loinc) return `loinc:${loinc}`;
+
+  return `name:${lab.name.toLowerCase().trim()}`;
+}
+
+/** Patient-facing name for a lab's series (group label, else the lab's own name) */
+export function labDisplayName(lab: { codes: ClinicalCode[]; name: string }): string {
+  return findLabGroup(lab)?.label ?? lab.name;
+}
+
+/** Are two labs the same clinical test (same code, or same equivalence group)? */
+export function sameLabTest(
+  a: { codes: ClinicalCode[]; name: string },
+  b: { codes: ClinicalCode[]; name: string }
+): boolean {
+  return labGroupKey(a) === labGroupKey(b);
+}
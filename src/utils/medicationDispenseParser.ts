@@ -0,0 +1,94 @@
+// -----------------------------------------------------------
+// medicationDispenseParser — Converts raw FHIR MedicationDispense → MedicationDispense
+// -----------------------------------------------------------
+
+import type { MedicationDispense } from "../types/medicationDispense";
+import type { SourceTag, ClinicalCode } from "../types/source";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function extractCodes(codeableConcept: any): ClinicalCode[] {
+  if (!codeableConcept?.coding) return [];
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return codeableConcept.coding.map((c: any) => ({
+    system: c.system,
+    code: c.code,
+    display: c.display,
+  }));
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function extractMedicationName(resource: any): string {
+  if (resource.medicationCodeableConcept) {
+    const concept = resource.medicationCodeableConcept;
+    return concept.text || concept.coding?.[0]?.display || "Unknown Medication";
+  }
+  if (resource.medicationReference?.display) {
+    return resource.medicationReference.display;
+  }
+  return "Unknown Medication";
+}
+
+/**
+ * Days supply is usually given in days, but some pharmacy systems
+ * send weeks or months — normalize to days.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function extractDaysSupply(quantity: any): number | undefined {
+  if (typeof quantity?.value !== "number") return undefined;
+  const unit = String(quantity.code ?? quantity.unit ?? "d").toLowerCase();
+  if (unit.startsWith("wk") || unit.startsWith("week")) return quantity.value * 7;
+  if (unit === "mo" || unit.startsWith("month")) return quantity.value * 30;
+  return quantity.value;
+}
+
+/**
+ * Parse a raw FHIR MedicationDispense resource into a MedicationDispense type.
+ * Returns null if the resource is unparseable.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function parseMedicationDispense(resource: any, source: SourceTag): MedicationDispense | null {
+  if (!resource || resource.resourceType !== "MedicationDispense") {
+    return null;
+  }
+
+  try {
+    return {
+      id: resource.id ?? `dispense-${Date.now()}`,
+      status: resource.status ?? "unknown",
+      name: extractMedicationName(resource),
+      codes: resource.medicationCodeableConcept
+        ? extractCodes(resource.medicationCodeableConcept)
+        : [],
+      quantity: resource.quantity
+        ? { value: resource.quantity.value, unit: resource.quantity.unit ?? resource.quantity.code }
+        : undefined,
+      daysSupply: extractDaysSupply(resource.daysSupply),
+      whenPrepared: resource.whenPrepared,
+      whenHandedOver: resource.whenHandedOver,
+      prescriptionIds: (resource.authorizingPrescription ?? [])
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .map((ref: any) => ref.reference?.split("/").pop())
+        .filter((id: string | undefined): id is string => !!id),
+      pharmacy: resource.performer?.[0]?.actor?.display ?? resource.location?.display,
+      dosageInstruction: resource.dosageInstruction?.[0]?.text,
+      source,
+    };
+  } catch (err) {
+    if (import.meta.env.DEV) {
+      console.warn("Failed to parse MedicationDispense:", resource.id, err);
+    }
+    return null;
+  }
+}
+
+/**
+ * Parse a FHIR Bundle of MedicationDispense resources.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function parseMedicationDispenseBundle(bundle: any, source: SourceTag): MedicationDispense[] {
+  if (!bundle?.entry) return [];
+  return bundle.entry
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .map((entry: any) => parseMedicationDispense(entry.resource, source))
+    .filter((d: MedicationDispense | null): d is MedicationDispense => d !== null);
+}
@@ -4,6 +4,7 @@
 
 import type { Medication } from "../types/medication";
 import type { SourceTag, ClinicalCode } from "../types/source";
+import { parseFhirDosage } from "./dosageRegimen";
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 function extractCodes(codeableConcept: any): ClinicalCode[] {
@@ -65,12 +66,13 @@ export function parseMedication(resource: any, source: SourceTag): Medication |
       : [];
 
     const dosageInfo = extractDosageInfo(resource);
+    const name = extractMedicationName(resource);
 
     return {
       id: resource.id ?? `med-${Date.now()}`,
       status: resource.status ?? "unknown",
       intent: resource.intent ?? "order",
-      name: extractMedicationName(resource),
+      name,
       codes,
       dosageInstruction: dosageInfo.instruction,
       dosage: dosageInfo.value ? {
@@ -78,6 +80,7 @@ export function parseMedication(resource: any, source: SourceTag): Medication |
         unit: dosageInfo.unit,
         frequency: dosageInfo.frequency,
       } : undefined,
+      regimen: parseFhirDosage(resource.dosageInstruction?.[0], name),
       prescriber: resource.requester?.display,
       dateWritten: resource.authoredOn,
       source,
@@ -0,0 +1,80 @@
+// -----------------------------------------------------------
+// medicationStatementParser — Converts raw FHIR MedicationStatement → MedicationStatement
+// -----------------------------------------------------------
+
+import type { MedicationStatement } from "../types/medicationStatement";
+import type { SourceTag, ClinicalCode } from "../types/source";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function extractCodes(codeableConcept: any): ClinicalCode[] {
+  if (!codeableConcept?.coding) return [];
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return codeableConcept.coding.map((c: any) => ({
+    system: c.system,
+    code: c.code,
+    display: c.display,
+  }));
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function conceptText(codeableConcept: any): string | undefined {
+  return codeableConcept?.text || codeableConcept?.coding?.[0]?.display;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function extractMedicationName(resource: any): string {
+  if (resource.medicationCodeableConcept) {
+    const concept = resource.medicationCodeableConcept;
+    return concept.text || concept.coding?.[0]?.display || "Unknown Medication";
+  }
+  if (resource.medicationReference?.display) {
+    return resource.medicationReference.display;
+  }
+  return "Unknown Medication";
+}
+
+/**
+ * Parse a raw FHIR MedicationStatement resource into a MedicationStatement type.
+ * Returns null if the resource is unparseable.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function parseMedicationStatement(resource: any, source: SourceTag): MedicationStatement | null {
+  if (!resource || resource.resourceType !== "MedicationStatement") {
+    return null;
+  }
+
+  try {
+    return {
+      id: resource.id ?? `statement-${Date.now()}`,
+      status: resource.status ?? "unknown",
+      name: extractMedicationName(resource),
+      codes: resource.medicationCodeableConcept
+        ? extractCodes(resource.medicationCodeableConcept)
+        : [],
+      effectiveStart: resource.effectiveDateTime ?? resource.effectivePeriod?.start,
+      effectiveEnd: resource.effectivePeriod?.end,
+      dateAsserted: resource.dateAsserted,
+      statusReason: conceptText(resource.statusReason?.[0]) ?? resource.note?.[0]?.text,
+      dosageInstruction: resource.dosage?.[0]?.text,
+      informationSource: resource.informationSource?.display,
+      source,
+    };
+  } catch (err) {
+    if (import.meta.env.DEV) {
+      console.warn("Failed to parse MedicationStatement:", resource.id, err);
+    }
+    return null;
+  }
+}
+
+/**
+ * Parse a FHIR Bundle of MedicationStatement resources.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function parseMedicationStatementBundle(bundle: any, source: SourceTag): MedicationStatement[] {
+  if (!bundle?.entry) return [];
+  return bundle.entry
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .map((entry: any) => parseMedicationStatement(entry.resource, source))
+    .filter((s: MedicationStatement | null): s is MedicationStatement => s !== null);
+}
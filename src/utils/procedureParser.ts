@@ -0,0 +1,80 @@
+// -----------------------------------------------------------
+// procedureParser — Converts raw FHIR Procedure → Procedure
+// -----------------------------------------------------------
+
+import type { Procedure } from "../types/procedure";
+import type { SourceTag, ClinicalCode } from "../types/source";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function extractCodes(codeableConcept: any): ClinicalCode[] {
+  if (!codeableConcept?.coding) return [];
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return codeableConcept.coding.map((c: any) => ({
+    system: c.system,
+    code: c.code,
+    display: c.display,
+  }));
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function conceptText(codeableConcept: any): string | undefined {
+  return codeableConcept?.text || codeableConcept?.coding?.[0]?.display;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function extractPerformed(resource: any): { start?: string; end?: string } {
+  // R4: performed[x] — dateTime, Period, or (rarely) string/Age/Range
+  if (resource.performedDateTime) return { start: resource.performedDateTime };
+  if (resource.performedPeriod) {
+    return { start: resource.performedPeriod.start, end: resource.performedPeriod.end };
+  }
+  return {};
+}
+
+/**
+ * Parse a raw FHIR Procedure resource into a Procedure type.
+ * Returns null if the resource is unparseable.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function parseProcedure(resource: any, source: SourceTag): Procedure | null {
+  if (!resource || resource.resourceType !== "Procedure") {
+    return null;
+  }
+
+  try {
+    const performed = extractPerformed(resource);
+
+    return {
+      id: resource.id ?? `proc-${Date.now()}`,
+      status: resource.status ?? "unknown",
+      name: conceptText(resource.code) || "Unknown Procedure",
+      codes: extractCodes(resource.code),
+      category: conceptText(resource.category),
+      performedDate: performed.start,
+      performedEnd: performed.end,
+      reason: conceptText(resource.reasonCode?.[0]) || resource.reasonReference?.[0]?.display,
+      bodySite: conceptText(resource.bodySite?.[0]),
+      outcome: conceptText(resource.outcome),
+      performer: resource.performer?.[0]?.actor?.display,
+      location: resource.location?.display,
+      source,
+    };
+  } catch (err) {
+    if (import.meta.env.DEV) {
+      console.warn("Failed to parse Procedure:", resource.id, err);
+    }
+    return null;
+  }
+}
+
+/**
+ * Parse a FHIR Bundle of Procedure resources.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function parseProcedureBundle(bundle: any, source: SourceTag): Procedure[] {
+  if (!bundle?.entry) return [];
+  return bundle.entry
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .map((entry: any) => parseProcedure(entry.resource, source))
+    .filter((p: Procedure | null): p is Procedure => p !== null);
+}
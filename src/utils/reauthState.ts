@@ -0,0 +1,55 @@
+// -----------------------------------------------------------
+// reauthState — Carry in-memory UI state across a re-login
+// -----------------------------------------------------------
+// Signing in again is a full-page trip to the vendor's login
+// screen, which wipes React state and module caches. Unsaved UI
+// state (an AI pre-visit summary) registers a getter here;
+// snapshotUiState() writes them all to sessionStorage right before
+// the redirect, and each owner takes its value back — and the copy
+// is deleted — once the app reloads on the callback.
+//
+// Only UI state belongs here: clinical data (the merged record) is
+// refetched after re-login rather than copied into storage.
+// -----------------------------------------------------------
+
+const SNAPSHOT_PREFIX = "reauth_snapshot:";
+
+const contributors = new Map<string, () => unknown>();
+
+/**
+ * Register a value to snapshot before re-authorization.
+ * Returns an unregister function (for effect cleanups).
+ */
+export function registerSnapshot(key: string, getValue: () => unknown): () => void {
+  contributors.set(key, getValue);
+  return () => {
+    if (contributors.get(key) === getValue) contributors.delete(key);
+  };
+}
+
+/** Write every registered value to sessionStorage (call right before leaving the app) */
+export function snapshotUiState(): void {
+  for (const [key, getValue] of contributors) {
+    try {
+      const value = getValue();
+      if (value === null || value === undefined) continue;
+      sessionStorage.setItem(SNAPSHOT_PREFIX + key, JSON.stringify(value));
+    } catch (err) {
+      // Quota exceeded or unserializable — that value is simply rebuilt later
+      console.warn(`[ReauthState] Could not snapshot "${key}":`, err);
+    }
+  }
+}
+
+/** Read and remove a snapshotted value (one-shot) */
+export function takeSnapshot<T>(key: string): T | null {
+  const raw = sessionStorage.getItem(SNAPSHOT_PREFIX + key);
+  if (raw === null) return null;
+  sessionStorage.removeItem(SNAPSHOT_PREFIX + key);
+
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return null;
+  }
+}
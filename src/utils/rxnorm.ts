@@ -0,0 +1,401 @@
+// -----------------------------------------------------------
+// rxnorm — Local RxNorm ingredient / brand / class table
+// -----------------------------------------------------------
+// Medication names are free text: "Coumadin 5mg", "Warfarin
+// Sodium 5 MG Oral Tablet" and "warfarin" are the same drug, while
+// "Amlodipine / Benazepril" is not plain amlodipine. Everything
+// that asks "same drug?" or "is this an NSAID?" resolves the
+// record to its active ingredient(s) and drug classes here.
+//
+// Resolution order:
+//   1. RxNorm codes — ingredient (IN), multi-ingredient (MIN) and
+//      clinical / branded drug (SCD / SBD) RxCUIs in the table
+//   2. Name — ingredient and brand names as whole words, plus
+//      class terms that allergy lists use ("Sulfa", "NSAIDs")
+//
+// Derived from the RxNorm release (IN/BN/SCD/SBD relationships)
+// for the drugs our rules care about. Drugs outside the table
+// resolve to no ingredients; callers decide what that means.
+// NOTE: Production would load the full RxNorm or call RxNav.
+// -----------------------------------------------------------
+
+import type { ClinicalCode } from "../types/source";
+
+export type DrugClass =
+  | "ace-inhibitor"
+  | "aminosalicylate"
+  | "analgesic"
+  | "antacid"
+  | "antiarrhythmic"
+  | "antimetabolite"
+  | "antiplatelet"
+  | "azole-antifungal"
+  | "beta-blocker"
+  | "beta-lactamase-inhibitor"
+  | "biguanide"
+  | "cardiac-glycoside"
+  | "cephalosporin"
+  | "corticosteroid"
+  | "dhp-ccb"
+  | "doac"
+  | "estrogen"
+  | "fluoroquinolone"
+  | "folate-antagonist"
+  | "heparin"
+  | "insulin"
+  | "iodinated-contrast"
+  | "macrolide"
+  | "maoi"
+  | "mood-stabilizer"
+  | "mucosal-protectant"
+  | "nitroimidazole"
+  | "non-dhp-ccb"
+  | "nsaid"
+  | "opioid"
+  | "oxazolidinone"
+  | "penicillin"
+  | "polyvalent-cation"
+  | "potassium-sparing-diuretic"
+  | "potassium-supplement"
+  | "ppi"
+  | "progestin"
+  | "salicylate"
+  | "ssri"
+  | "statin"
+  | "sulfonamide-antibiotic"
+  | "sulfone"
+  | "thiazide"
+  | "thiopurine"
+  | "thyroid-hormone"
+  | "triptan"
+  | "vitamin-k-antagonist"
+  | "xanthine-oxidase-inhibitor";
+
+interface RxIngredient {
+  /** Normalized ingredient name — the key rules refer to */
+  name: string;
+  /** Ingredient (IN) RxCUI — omitted where we only match by name */
+  rxcui?: string;
+  classes: DrugClass[];
+  /** Single-ingredient brand names (BN) */
+  brands?: string[];
+  /** SCD / SBD RxCUIs seen in connected systems */
+  products?: string[];
+}
+
+interface RxCombination {
+  /** Ingredient names (must exist in RX_INGREDIENTS) */
+  ingredients: string[];
+  /** MIN / SCD / SBD RxCUIs */
+  rxcuis?: string[];
+  /** Combination brand names */
+  brands: string[];
+}
+
+const RX_INGREDIENTS: RxIngredient[] = [
+  // ---- Anticoagulants / antiplatelets ----
+  { name: "warfarin", rxcui: "11289", classes: ["vitamin-k-antagonist"], brands: ["coumadin", "jantoven"], products: ["855332"] },
+  { name: "heparin", rxcui: "5224", classes: ["heparin"] },
+  { name: "enoxaparin", rxcui: "67108", classes: ["heparin"], brands: ["lovenox"] },
+  { name: "apixaban", rxcui: "1364430", classes: ["doac"], brands: ["eliquis"] },
+  { name: "rivaroxaban", rxcui: "1114195", classes: ["doac"], brands: ["xarelto"] },
+  { name: "dabigatran", rxcui: "1037042", classes: ["doac"], brands: ["pradaxa"] },
+  { name: "clopidogrel", rxcui: "32968", classes: ["antiplatelet"], brands: ["plavix"] },
+  { name: "aspirin", rxcui: "1191", classes: ["salicylate", "antiplatelet"], brands: ["ecotrin", "acetylsalicylic acid"], products: ["243670"] },
+
+  // ---- Analgesics ----
+  { name: "ibuprofen", rxcui: "5640", classes: ["nsaid"], brands: ["advil", "motrin"], products: ["310965"] },
+  { name: "naproxen", rxcui: "7258", classes: ["nsaid"], brands: ["aleve", "naprosyn"] },
+  { name: "diclofenac", rxcui: "3355", classes: ["nsaid"], brands: ["voltaren"] },
+  { name: "meloxicam", rxcui: "41493", classes: ["nsaid"], brands: ["mobic"] },
+  { name: "ketorolac", rxcui: "35827", classes: ["nsaid"], brands: ["toradol"] },
+  { name: "indomethacin", rxcui: "5781", classes: ["nsaid"], brands: ["indocin"] },
+  { name: "piroxicam", rxcui: "8356", classes: ["nsaid"], brands: ["feldene"] },
+  { name: "celecoxib", rxcui: "140587", classes: ["nsaid"], brands: ["celebrex"] },
+  { name: "acetaminophen", rxcui: "161", classes: ["analgesic"], brands: ["tylenol", "paracetamol"] },
+  { name: "tramadol", rxcui: "10689", classes: ["opioid"], brands: ["ultram"] },
+  { name: "fentanyl", rxcui: "4337", classes: ["opioid"], brands: ["duragesic"] },
+  { name: "meperidine", rxcui: "6754", classes: ["opioid"], brands: ["demerol"] },
+  { name: "sumatriptan", rxcui: "37418", classes: ["triptan"], brands: ["imitrex"], products: ["313131"] },
+
+  // ---- Cardiovascular ----
+  { name: "lisinopril", rxcui: "29046", classes: ["ace-inhibitor"], brands: ["prinivil", "zestril"], products: ["314076"] },
+  { name: "enalapril", rxcui: "3827", classes: ["ace-inhibitor"], brands: ["vasotec"] },
+  { name: "ramipril", rxcui: "35296", classes: ["ace-inhibitor"], brands: ["altace"] },
+  { name: "benazepril", rxcui: "18867", classes: ["ace-inhibitor"], brands: ["lotensin"] },
+  { name: "metoprolol", rxcui: "6918", classes: ["beta-blocker"], brands: ["lopressor", "toprol"] },
+  { name: "atenolol", rxcui: "1202", classes: ["beta-blocker"], brands: ["tenormin"] },
+  { name: "propranolol", rxcui: "8787", classes: ["beta-blocker"], brands: ["inderal"] },
+  { name: "carvedilol", rxcui: "20352", classes: ["beta-blocker"], brands: ["coreg"] },
+  { name: "amlodipine", rxcui: "17767", classes: ["dhp-ccb"], brands: ["norvasc"], products: ["329528", "197361"] },
+  { name: "nifedipine", rxcui: "7417", classes: ["dhp-ccb"], brands: ["procardia", "adalat"] },
+  { name: "verapamil", rxcui: "11170", classes: ["non-dhp-ccb"], brands: ["calan", "verelan"] },
+  { name: "diltiazem", rxcui: "3443", classes: ["non-dhp-ccb"], brands: ["cardizem"] },
+  { name: "digoxin", rxcui: "3407", classes: ["cardiac-glycoside"], brands: ["lanoxin"] },
+  { name: "amiodarone", rxcui: "703", classes: ["antiarrhythmic"], brands: ["pacerone", "cordarone"] },
+  { name: "quinidine", rxcui: "9068", classes: ["antiarrhythmic"] },
+  { name: "hydrochlorothiazide", rxcui: "5487", classes: ["thiazide"], brands: ["microzide", "hctz"], products: ["310798"] },
+  { name: "chlorthalidone", rxcui: "2409", classes: ["thiazide"], brands: ["thalitone"] },
+  { name: "spironolactone", rxcui: "9997", classes: ["potassium-sparing-diuretic"], brands: ["aldactone"] },
+  { name: "eplerenone", rxcui: "298869", classes: ["potassium-sparing-diuretic"], brands: ["inspra"] },
+  { name: "triamterene", rxcui: "10763", classes: ["potassium-sparing-diuretic"] },
+  { name: "amiloride", rxcui: "644", classes: ["potassium-sparing-diuretic"] },
+  { name: "potassium chloride", rxcui: "8591", classes: ["potassium-supplement"], brands: ["k dur", "klor con", "micro k"] },
+
+  // ---- Statins ----
+  { name: "atorvastatin", rxcui: "83367", classes: ["statin"], brands: ["lipitor"], products: ["259255"] },
+  { name: "simvastatin", rxcui: "36567", classes: ["statin"], brands: ["zocor"] },
+  { name: "rosuvastatin", rxcui: "301542", classes: ["statin"], brands: ["crestor"] },
+  { name: "lovastatin", rxcui: "6472", classes: ["statin"], brands: ["mevacor"] },
+  { name: "pravastatin", rxcui: "42463", classes: ["statin"], brands: ["pravachol"] },
+
+  // ---- Endocrine ----
+  { name: "metformin", rxcui: "6809", classes: ["biguanide"], brands: ["glucophage", "fortamet", "glumetza"], products: ["861007", "860975"] },
+  { name: "insulin glargine", rxcui: "274783", classes: ["insulin"], brands: ["lantus", "basaglar", "toujeo"] },
+  { name: "insulin detemir", rxcui: "139825", classes: ["insulin"], brands: ["levemir"] },
+  { name: "insulin lispro", rxcui: "86009", classes: ["insulin"], brands: ["humalog"] },
+  { name: "insulin aspart", rxcui: "51428", classes: ["insulin"], brands: ["novolog"] },
+  { name: "insulin regular", rxcui: "253182", classes: ["insulin"], brands: ["humulin r", "novolin r"] },
+  { name: "levothyroxine", rxcui: "10582", classes: ["thyroid-hormone"], brands: ["synthroid", "levoxyl", "unithroid"] },
+  { name: "prednisone", rxcui: "8640", classes: ["corticosteroid"], brands: ["rayos"], products: ["312617"] },
+  { name: "prednisolone", rxcui: "8638", classes: ["corticosteroid"], brands: ["orapred"] },
+  { name: "methylprednisolone", rxcui: "6902", classes: ["corticosteroid"], brands: ["medrol"] },
+  { name: "dexamethasone", rxcui: "3264", classes: ["corticosteroid"], brands: ["decadron"] },
+
+  // ---- Hormonal contraceptives ----
+  { name: "ethinyl estradiol", rxcui: "4124", classes: ["estrogen"] },
+  { name: "drospirenone", classes: ["progestin"], brands: ["slynd"] },
+  { name: "levonorgestrel", classes: ["progestin"], brands: ["plan b", "mirena"] },
+  { name: "norethindrone", classes: ["progestin"], brands: ["errin"] },
+  { name: "norgestimate", classes: ["progestin"] },
+
+  // ---- Psychiatric / neurologic ----
+  { name: "sertraline", rxcui: "36437", classes: ["ssri"], brands: ["zoloft"] },
+  { name: "fluoxetine", rxcui: "4493", classes: ["ssri"], brands: ["prozac"] },
+  { name: "paroxetine", rxcui: "32937", classes: ["ssri"], brands: ["paxil"] },
+  { name: "citalopram", rxcui: "2556", classes: ["ssri"], brands: ["celexa"] },
+  { name: "escitalopram", rxcui: "321988", classes: ["ssri"], brands: ["lexapro"] },
+  { name: "selegiline", rxcui: "9639", classes: ["maoi"], brands: ["eldepryl", "emsam"] },
+  { name: "phenelzine", rxcui: "8123", classes: ["maoi"], brands: ["nardil"] },
+  { name: "lithium", rxcui: "6448", classes: ["mood-stabilizer"], brands: ["lithobid"] },
+
+  // ---- GI / minerals ----
+  { name: "omeprazole", rxcui: "7646", classes: ["ppi"], brands: ["prilosec"] },
+  { name: "esomeprazole", rxcui: "283742", classes: ["ppi"], brands: ["nexium"] },
+  { name: "pantoprazole", rxcui: "40790", classes: ["ppi"], brands: ["protonix"] },
+  { name: "sucralfate", rxcui: "10156", classes: ["mucosal-protectant"], brands: ["carafate"] },
+  { name: "calcium carbonate", rxcui: "1897", classes: ["antacid", "polyvalent-cation"], brands: ["tums", "os cal"] },
+  { name: "magnesium hydroxide", rxcui: "6581", classes: ["antacid", "polyvalent-cation"], brands: ["milk of magnesia"] },
+  { name: "aluminum hydroxide", rxcui: "612", classes: ["antacid", "polyvalent-cation"] },
+  { name: "ferrous sulfate", rxcui: "24947", classes: ["polyvalent-cation"], brands: ["feosol"] },
+  { name: "zinc sulfate", classes: ["polyvalent-cation"] },
+
+  // ---- Anti-infectives ----
+  { name: "penicillin g", rxcui: "7980", classes: ["penicillin"] },
+  { name: "penicillin v", rxcui: "7984", classes: ["penicillin"] },
+  { name: "amoxicillin", rxcui: "723", classes: ["penicillin"], brands: ["amoxil"], products: ["308191"] },
+  { name: "ampicillin", rxcui: "733", classes: ["penicillin"] },
+  { name: "piperacillin", rxcui: "8339", classes: ["penicillin"] },
+  { name: "nafcillin", rxcui: "7233", classes: ["penicillin"] },
+  { name: "oxacillin", rxcui: "7773", classes: ["penicillin"] },
+  { name: "dicloxacillin", rxcui: "3356", classes: ["penicillin"] },
+  { name: "ticarcillin", rxcui: "10591", classes: ["penicillin"] },
+  { name: "clavulanate", rxcui: "48203", classes: ["beta-lactamase-inhibitor"] },
+  { name: "sulbactam", classes: ["beta-lactamase-inhibitor"] },
+  { name: "tazobactam", rxcui: "37617", classes: ["beta-lactamase-inhibitor"] },
+  { name: "cephalexin", rxcui: "2231", classes: ["cephalosporin"], brands: ["keflex"] },
+  { name: "cefazolin", rxcui: "2180", classes: ["cephalosporin"], brands: ["ancef"] },
+  { name: "ceftriaxone", rxcui: "2193", classes: ["cephalosporin"], brands: ["rocephin"] },
+  { name: "cefdinir", rxcui: "25037", classes: ["cephalosporin"], brands: ["omnicef"] },
+  { name: "cefuroxime", rxcui: "2194", classes: ["cephalosporin"], brands: ["ceftin"] },
+  { name: "ceftazidime", rxcui: "2191", classes: ["cephalosporin"], brands: ["fortaz"] },
+  { name: "cefepime", rxcui: "20481", classes: ["cephalosporin"], brands: ["maxipime"] },
+  { name: "cefotaxime", rxcui: "2186", classes: ["cephalosporin"], brands: ["claforan"] },
+  { name: "sulfamethoxazole", rxcui: "10180", classes: ["sulfonamide-antibiotic"] },
+  { name: "sulfadiazine", rxcui: "10171", classes: ["sulfonamide-antibiotic"] },
+  { name: "trimethoprim", rxcui: "10829", classes: ["folate-antagonist"] },
+  { name: "sulfasalazine", rxcui: "9524", classes: ["aminosalicylate"], brands: ["azulfidine"] },
+  { name: "dapsone", rxcui: "3108", classes: ["sulfone"] },
+  { name: "clarithromycin", rxcui: "21212", classes: ["macrolide"], brands: ["biaxin"] },
+  { name: "erythromycin", rxcui: "4053", classes: ["macrolide"] },
+  { name: "azithromycin", rxcui: "18631", classes: ["macrolide"], brands: ["zithromax", "z pak"] },
+  { name: "ciprofloxacin", rxcui: "2551", classes: ["fluoroquinolone"], brands: ["cipro"] },
+  { name: "levofloxacin", rxcui: "82122", classes: ["fluoroquinolone"], brands: ["levaquin"] },
+  { name: "fluconazole", rxcui: "4450", classes: ["azole-antifungal"], brands: ["diflucan"] },
+  { name: "itraconazole", rxcui: "28031", classes: ["azole-antifungal"], brands: ["sporanox"] },
+  { name: "ketoconazole", rxcui: "6135", classes: ["azole-antifungal"] },
+  { name: "metronidazole", rxcui: "6922", classes: ["nitroimidazole"], brands: ["flagyl"] },
+  { name: "linezolid", rxcui: "190376", classes: ["oxazolidinone"], brands: ["zyvox"] },
+
+  // ---- Immunology / oncology ----
+  { name: "methotrexate", rxcui: "6851", classes: ["antimetabolite"], brands: ["trexall", "otrexup"] },
+  { name: "azathioprine", rxcui: "1256", classes: ["thiopurine"], brands: ["imuran"] },
+  { name: "mercaptopurine", rxcui: "103", classes: ["thiopurine"], brands: ["purinethol", "purixan"] },
+  { name: "allopurinol", rxcui: "519", classes: ["xanthine-oxidase-inhibitor"], brands: ["zyloprim"] },
+
+  // ---- Imaging ----
+  { name: "iohexol", classes: ["iodinated-contrast"], brands: ["omnipaque"] },
+  { name: "iopamidol", classes: ["iodinated-contrast"], brands: ["isovue"] },
+  { name: "iodixanol", classes: ["iodinated-contrast"], brands: ["visipaque"] },
+];
+
+const RX_COMBINATIONS: RxCombination[] = [
+  { ingredients: ["amoxicillin", "clavulanate"], brands: ["augmentin"] },
+  { ingredients: ["ampicillin", "sulbactam"], brands: ["unasyn"] },
+  { ingredients: ["piperacillin", "tazobactam"], brands: ["zosyn"] },
+  { ingredients: ["sulfamethoxazole", "trimethoprim"], rxcuis: ["10831"], brands: ["bactrim", "septra", "smz tmp"] },
+  { ingredients: ["lisinopril", "hydrochlorothiazide"], brands: ["zestoretic", "prinzide"] },
+  { ingredients: ["amlodipine", "benazepril"], brands: ["lotrel"] },
+  { ingredients: ["amlodipine", "atorvastatin"], brands: ["caduet"] },
+  { ingredients: ["triamterene", "hydrochlorothiazide"], brands: ["maxzide", "dyazide"] },
+  { ingredients: ["drospirenone", "ethinyl estradiol"], brands: ["yaz", "yasmin", "ocella", "gianvi", "syeda"] },
+  { ingredients: ["levonorgestrel", "ethinyl estradiol"], brands: ["seasonique", "aviane", "levora"] },
+  { ingredients: ["norethindrone", "ethinyl estradiol"], brands: ["loestrin", "junel"] },
+  { ingredients: ["norgestimate", "ethinyl estradiol"], brands: ["sprintec", "tri sprintec", "ortho tri cyclen"] },
+];
+
+/**
+ * Class terms allergy lists and free-text entries use in place of
+ * a drug ("Sulfa drugs", "NSAIDs"). Resolve to the class only.
+ */
+const CLASS_TERMS: [RegExp, DrugClass][] = [
+  [/\bpenicillins?\b/, "penicillin"],
+  [/\bcephalosporins?\b/, "cephalosporin"],
+  [/\bsulfa\b|\bsulfonamides?\b/, "sulfonamide-antibiotic"],
+  [/\bnsaids?\b/, "nsaid"],
+  [/\bsalicylates?\b/, "salicylate"],
+  [/\bstatins?\b/, "statin"],
+  [/\bmacrolides?\b/, "macrolide"],
+  [/\bfluoroquinolones?\b|\bquinolones?\b/, "fluoroquinolone"],
+  [/\bace inhibitors?\b/, "ace-inhibitor"],
+  [/\bbeta blockers?\b/, "beta-blocker"],
+  [/\bssris?\b/, "ssri"],
+  [/\bopioids?\b|\bopiates?\b/, "opioid"],
+  [/\binsulin\b/, "insulin"],
+  [/\b(iodinated )?contrast\b|\biodine\b/, "iodinated-contrast"],
+];
+
+// -----------------------------------------------------------
+// Lookup indexes
+// -----------------------------------------------------------
+
+const INGREDIENT_BY_NAME = new Map(RX_INGREDIENTS.map((ing) => [ing.name, ing]));
+
+/** RxCUI → ingredient names (IN, MIN, SCD, SBD) */
+const INGREDIENTS_BY_RXCUI = new Map<string, string[]>();
+/** Whole-word name phrase → ingredient names (ingredients + brands) */
+const INGREDIENTS_BY_PHRASE = new Map<string, string[]>();
+
+for (const ing of RX_INGREDIENTS) {
+  for (const rxcui of [ing.rxcui, ...(ing.products ?? [])]) {
+    if (rxcui) INGREDIENTS_BY_RXCUI.set(rxcui, [ing.name]);
+  }
+  for (const phrase of [ing.name, ...(ing.brands ?? [])]) {
+    INGREDIENTS_BY_PHRASE.set(phrase, [ing.name]);
+  }
+}
+for (const combo of RX_COMBINATIONS) {
+  for (const rxcui of combo.rxcuis ?? []) INGREDIENTS_BY_RXCUI.set(rxcui, combo.ingredients);
+  for (const brand of combo.brands) INGREDIENTS_BY_PHRASE.set(brand, combo.ingredients);
+}
+
+// -----------------------------------------------------------
+// Resolution
+// -----------------------------------------------------------
+
+/** A medication reduced to what it contains */
+export interface ResolvedDrug {
+  /** Ingredient names, sorted (empty when not in the table) */
+  ingredients: string[];
+  /** Classes of those ingredients plus any class terms in the name */
+  classes: string[];
+}
+
+interface DrugLike {
+  name: string;
+  codes: ClinicalCode[];
+}
+
+/** Lowercase, punctuation to spaces — "Klor-Con M20" → "klor con m20" */
+function normalizeDrugText(text: string): string {
+  return ` ${text.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim()} `;
+}
+
+function fromCodes(codes: ClinicalCode[]): string[] {
+  const found = new Set<string>();
+  for (const code of codes) {
+    if (!code.code || !code.system?.toLowerCase().includes("rxnorm")) continue;
+    for (const name of INGREDIENTS_BY_RXCUI.get(code.code) ?? []) found.add(name);
+  }
+  return [...found];
+}
+
+function fromName(text: string): string[] {
+  const found = new Set<string>();
+  for (const [phrase, ingredients] of INGREDIENTS_BY_PHRASE) {
+    if (text.includes(` ${phrase} `)) ingredients.forEach((name) => found.add(name));
+  }
+  return [...found];
+}
+
+const resolveCache = new Map<string, ResolvedDrug>();
+
+/**
+ * Resolve a medication (or allergy substance) to its ingredients
+ * and classes. RxNorm codes win; the name is only read when no
+ * code is in the table.
+ */
+export function resolveDrug(drug: DrugLike): ResolvedDrug {
+  const rxcuis = drug.codes
+    .filter((c) => c.system?.toLowerCase().includes("rxnorm"))
+    .map((c) => c.code)
+    .sort();
+  const cacheKey = `${rxcuis.join(",")}|${drug.name}`;
+  const cached = resolveCache.get(cacheKey);
+  if (cached) return cached;
+
+  const text = normalizeDrugText(drug.name);
+  const byCode = fromCodes(drug.codes);
+  const ingredients = (byCode.length > 0 ? byCode : fromName(text)).sort();
+
+  const classes = new Set<string>();
+  for (const name of ingredients) {
+    INGREDIENT_BY_NAME.get(name)?.classes.forEach((c) => classes.add(c));
+  }
+  for (const [pattern, drugClass] of CLASS_TERMS) {
+    if (pattern.test(text)) classes.add(drugClass);
+  }
+
+  const resolved: ResolvedDrug = { ingredients, classes: [...classes].sort() };
+  resolveCache.set(cacheKey, resolved);
+  return resolved;
+}
+
+/** Attach the resolved ingredients/classes to a medication record */
+export function withRxNorm<T extends DrugLike>(drug: T): T & { rxnorm: ResolvedDrug } {
+  return { ...drug, rxnorm: resolveDrug(drug) };
+}
+
+/**
+ * Same product by ingredient set — "Coumadin" and "Warfarin
+ * Sodium 5 MG" match; "Amlodipine" and "Amlodipine / Benazepril"
+ * do not. False when either side is unresolved.
+ */
+export function sameIngredients(a: ResolvedDrug, b: ResolvedDrug): boolean {
+  if (a.ingredients.length === 0 || a.ingredients.length !== b.ingredients.length) return false;
+  return a.ingredients.every((name, i) => name === b.ingredients[i]);
+}
+
+/** Ingredients and/or classes a rule applies to */
+export interface DrugMatcher {
+  ingredients?: string[];
+  classes?: DrugClass[];
+}
+
+/** Does the drug contain any listed ingredient or belong to any listed class? */
+export function matchesDrug(drug: ResolvedDrug, matcher: DrugMatcher): boolean {
+  return (
+    (matcher.ingredients ?? []).some((name) => drug.ingredients.includes(name)) ||
+    (matcher.classes ?? []).some((c) => drug.classes.includes(c))
+  );
+}
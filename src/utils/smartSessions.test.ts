@@ -0,0 +1,150 @@
+// -----------------------------------------------------------
+// smartSessions — two SMART endpoints against the mock server
+// -----------------------------------------------------------
+// Runs the real fhirclient authorize → callback → ready() flow for
+// two endpoints one after another, then checks that each keeps its
+// own smart_session:<id> entry and that expiry and refresh of the
+// non-primary source leave the primary untouched. Every "page
+// load" re-imports the app modules, like a full-page redirect.
+// -----------------------------------------------------------
+
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { startMockSmartServer } from "../test/mockSmartServer";
+import type { MockSmartServer } from "../test/mockSmartServer";
+import { installBrowserGlobals } from "../test/browserFixture";
+import type { BrowserFixture } from "../test/browserFixture";
+
+const APP_URL = "http://localhost:3000";
+const PRIMARY = "epic-sandbox";
+const SECONDARY = "cerner";
+
+let server: MockSmartServer;
+let browser: BrowserFixture;
+
+/** Fresh module graph — what the browser has after a redirect */
+async function loadApp() {
+  vi.resetModules();
+  const sessions = await import("./smartSessions");
+  const tokens = await import("./tokenManager");
+  const config = await import("../config/smart");
+  return { ...sessions, ...tokens, ...config };
+}
+
+/** Connect one endpoint: leave for its login, follow the approval, land on the callback */
+async function connect(sourceId: string) {
+  const app = await loadApp();
+  const endpoint = app.getSmartEndpoint(sourceId);
+  if (!endpoint) throw new Error(`No endpoint ${sourceId}`);
+  await app.authorizeSource(endpoint);
+
+  const approval = await fetch(browser.href, { redirect: "manual" });
+  const callback = approval.headers.get("location");
+  if (!callback) throw new Error(`Authorize did not redirect (${approval.status})`);
+  browser.navigate(callback);
+
+  const landed = await loadApp();
+  return landed.completeSourceAuthorization();
+}
+
+function storedSession(sourceId: string) {
+  const raw = browser.sessionStorage.getItem(`smart_session:${sourceId}`);
+  return raw ? JSON.parse(raw) : null;
+}
+
+beforeAll(async () => {
+  server = await startMockSmartServer([
+    { name: "epic", tokenLifetimeSeconds: 3600, patientId: "epic-patient-1" },
+    { name: "cerner", tokenLifetimeSeconds: 600, patientId: "cerner-patient-1" },
+  ]);
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  browser = installBrowserGlobals(`${APP_URL}/dashboard`);
+  vi.stubEnv("VITE_FHIR_ISS", server.issFor("epic"));
+  vi.stubEnv("VITE_FHIR_CLIENT_ID", "epic-client");
+  vi.stubEnv("VITE_FHIR_REDIRECT_URI", `${APP_URL}/callback`);
+  vi.stubEnv(
+    "VITE_FHIR_ENDPOINTS",
+    JSON.stringify([{ id: SECONDARY, displayName: "Cerner Health", iss: server.issFor("cerner"), clientId: "cerner-client" }])
+  );
+  vi.useFakeTimers({ toFake: ["Date"] });
+  server.tokenRequests.length = 0;
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+describe("smartSessions", () => {
+  it("keeps a separate session per endpoint and restores both after a reload", async () => {
+    const primary = await connect(PRIMARY);
+    const secondary = await connect(SECONDARY);
+
+    expect(primary.sourceId).toBe(PRIMARY);
+    expect(secondary.sourceId).toBe(SECONDARY);
+
+    const epicState = storedSession(PRIMARY);
+    const cernerState = storedSession(SECONDARY);
+    expect(epicState.serverUrl).toBe(server.issFor("epic"));
+    expect(cernerState.serverUrl).toBe(server.issFor("cerner"));
+    expect(epicState.tokenResponse.access_token).not.toBe(cernerState.tokenResponse.access_token);
+    expect(cernerState.tokenResponse.patient).toBe("cerner-patient-1");
+
+    const app = await loadApp();
+    const clients = app.restoreAllSessions();
+    expect(Object.keys(clients).sort()).toEqual([SECONDARY, PRIMARY].sort());
+    await expect(clients[SECONDARY].request("Patient/cerner-patient-1")).resolves.toMatchObject({ id: "cerner-patient-1" });
+  });
+
+  it("tracks expiry per source and refreshes only the non-primary one", async () => {
+    await connect(PRIMARY);
+    await connect(SECONDARY);
+    const primaryBefore = storedSession(PRIMARY);
+    const staleToken = storedSession(SECONDARY).tokenResponse.access_token;
+
+    vi.setSystemTime(Date.now() + 601 * 1000);
+
+    const app = await loadApp();
+    const clients = app.restoreAllSessions();
+    const primaryInfo = app.getTokenInfo(clients[PRIMARY]);
+    const secondaryInfo = app.getTokenInfo(clients[SECONDARY]);
+    expect(primaryInfo.status).toBe("valid");
+    expect(app.shouldRefresh(primaryInfo)).toBe(false);
+    expect(secondaryInfo.status).toBe("expired");
+    expect(app.shouldRefresh(secondaryInfo)).toBe(true);
+    const stale = await fetch(`${server.issFor("cerner")}/Patient/cerner-patient-1`, {
+      headers: { Authorization: `Bearer ${staleToken}` },
+    });
+    expect(stale.status).toBe(401);
+
+    await expect(app.refreshSourceSession(SECONDARY, clients[SECONDARY])).resolves.toBe(true);
+
+    const refreshed = storedSession(SECONDARY);
+    expect(refreshed.tokenResponse.access_token).not.toBe(staleToken);
+    expect(app.getTokenInfo(clients[SECONDARY]).status).toBe("valid");
+    expect(storedSession(PRIMARY)).toEqual(primaryBefore);
+    expect(server.tokenRequests.filter((r) => r.grantType === "refresh_token")).toEqual([
+      { endpoint: "cerner", grantType: "refresh_token" },
+    ]);
+
+    const reloaded = (await loadApp()).restoreAllSessions();
+    await expect(reloaded[SECONDARY].request("Patient/cerner-patient-1")).resolves.toMatchObject({ id: "cerner-patient-1" });
+  });
+
+  it("keeps the stored session when the server refuses the refresh", async () => {
+    await connect(PRIMARY);
+    await connect(SECONDARY);
+    const before = storedSession(SECONDARY);
+    server.revokeRefreshTokens("cerner");
+
+    const app = await loadApp();
+    const clients = app.restoreAllSessions();
+    await expect(app.refreshSourceSession(SECONDARY, clients[SECONDARY])).resolves.toBe(false);
+    expect(storedSession(SECONDARY)).toEqual(before);
+  });
+});
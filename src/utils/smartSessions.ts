@@ -0,0 +1,128 @@
+// -----------------------------------------------------------
+// smartSessions — Per-source SMART OAuth state + tokens
+// -----------------------------------------------------------
+// fhirclient keeps ONE "current" session (sessionStorage SMART_KEY)
+// and discards it when authorize() runs again. To let the patient
+// connect several FHIR servers one after another, each server's
+// ClientState is copied to its own sessionStorage slot after the
+// callback and restored from there on every page load.
+//
+//   smart_session:<sourceId>  → ClientState JSON (tokens, serverUrl…)
+//   smart_pending_source      → source being authorized right now
+//
+// Leaving for a login page snapshots in-memory UI state first
+// (reauthState), so re-connecting an expired source lands the
+// patient back on the same page and UI state; records are refetched.
+// -----------------------------------------------------------
+
+import FHIR from "fhirclient";
+import type Client from "fhirclient/lib/Client";
+import type { SmartEndpointConfig } from "../config/smart";
+import { smartEndpoints, primaryEndpoint } from "../config/smart";
+import { saveReturnPath } from "./tokenManager";
+import { snapshotUiState } from "./reauthState";
+
+const SESSION_PREFIX = "smart_session:";
+const PENDING_SOURCE_KEY = "smart_pending_source";
+
+// -----------------------------------------------------------
+// Per-source storage
+// -----------------------------------------------------------
+
+/** Persist a connected client's OAuth state under its source id */
+export function saveSourceSession(sourceId: string, client: Client): void {
+  try {
+    sessionStorage.setItem(SESSION_PREFIX + sourceId, JSON.stringify(client.state));
+  } catch (err) {
+    console.warn(`[SmartSessions] Could not persist session for ${sourceId}:`, err);
+  }
+}
+
+/** Rebuild a client from its stored state, or null if none/invalid */
+export function restoreSourceSession(sourceId: string): Client | null {
+  const raw = sessionStorage.getItem(SESSION_PREFIX + sourceId);
+  if (!raw) return null;
+
+  try {
+    const state = JSON.parse(raw);
+    if (!state?.serverUrl || !state?.tokenResponse?.access_token) return null;
+    return FHIR.client(state);
+  } catch {
+    sessionStorage.removeItem(SESSION_PREFIX + sourceId);
+    return null;
+  }
+}
+
+export function clearSourceSession(sourceId: string): void {
+  sessionStorage.removeItem(SESSION_PREFIX + sourceId);
+}
+
+/** Restore every configured endpoint that has a stored session */
+export function restoreAllSessions(): Record<string, Client> {
+  const clients: Record<string, Client> = {};
+  for (const endpoint of smartEndpoints) {
+    const client = restoreSourceSession(endpoint.id);
+    if (client) clients[endpoint.id] = client;
+  }
+  return clients;
+}
+
+// -----------------------------------------------------------
+// Authorization flow
+// -----------------------------------------------------------
+
+/**
+ * Start (or restart) the OAuth flow for one endpoint.
+ * Remembers which source is connecting and where to return to;
+ * the browser then leaves the app for the vendor's login page.
+ */
+export async function authorizeSource(endpoint: SmartEndpointConfig): Promise<void> {
+  sessionStorage.setItem(PENDING_SOURCE_KEY, endpoint.id);
+  saveReturnPath();
+  snapshotUiState();
+
+  await FHIR.oauth2.authorize({
+    clientId: endpoint.clientId,
+    scope: endpoint.scope,
+    redirectUri: endpoint.redirectUri,
+    iss: endpoint.iss,
+  });
+}
+
+/**
+ * Renew a source's access token with its refresh token, without
+ * leaving the page. Returns false if the server refused (the
+ * caller then falls back to re-authorization).
+ */
+export async function refreshSourceSession(sourceId: string, client: Client): Promise<boolean> {
+  try {
+    await client.refresh();
+    saveSourceSession(sourceId, client);
+    if (import.meta.env.DEV) {
+      console.log(`[SmartSessions] Refreshed access token for ${sourceId}`);
+    }
+    return true;
+  } catch (err) {
+    console.warn(`[SmartSessions] Token refresh failed for ${sourceId}:`, err);
+    return false;
+  }
+}
+
+/**
+ * Finish the OAuth callback. Returns the connected client together
+ * with the source id it belongs to (the primary endpoint when the
+ * flow wasn't started through authorizeSource, e.g. an EHR launch).
+ */
+export async function completeSourceAuthorization(): Promise<{ sourceId: string; client: Client }> {
+  const sourceId = sessionStorage.getItem(PENDING_SOURCE_KEY) ?? primaryEndpoint.id;
+  sessionStorage.removeItem(PENDING_SOURCE_KEY);
+
+  const client = await FHIR.oauth2.ready();
+  saveSourceSession(sourceId, client);
+
+  if (import.meta.env.DEV) {
+    console.log(`[SmartSessions] Connected ${sourceId} (${client.state.serverUrl})`);
+  }
+
+  return { sourceId, client };
+}
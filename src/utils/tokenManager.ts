@@ -1,6 +1,14 @@
 // -----------------------------------------------------------
 // tokenManager — Monitors FHIR access token expiry
 // -----------------------------------------------------------
+// Every connected source has its own Client, so getTokenInfo()
+// reports expiry per source — call it once per client.
+//
+// When the server granted a refresh token (online_access /
+// offline_access), useTokenMonitor renews the access token in the
+// background REFRESH_AHEAD_SECONDS before expiry; the warning and
+// re-login paths only apply to sources without one.
+// -----------------------------------------------------------
 
 import type Client from "fhirclient/lib/Client";
 
@@ -10,13 +18,29 @@ export interface TokenInfo {
   status: TokenStatus;
   secondsRemaining: number | null;
   expiresAt: string | null;
+  /** The server issued a refresh token — expiry can be renewed silently */
+  canRefresh: boolean;
 }
 
 const WARNING_THRESHOLD_SECONDS = 120;
 
+/** Renew this long before expiry, so requests never see a stale token */
+export const REFRESH_AHEAD_SECONDS = 300;
+
+function hasRefreshToken(client: Client): boolean {
+  return Boolean(client.state?.tokenResponse?.refresh_token);
+}
+
 function getTokenExpiresAt(client: Client): Date | null {
   try {
     const state = client.state;
+
+    // fhirclient records the absolute expiry (epoch seconds) at callback
+    // time — reliable across page reloads and restored sessions
+    if (typeof state?.expiresAt === "number") {
+      return new Date(state.expiresAt * 1000);
+    }
+
     const tokenResponse = state?.tokenResponse;
     if (!tokenResponse?.expires_in) {
       return null;
@@ -36,34 +60,45 @@ function getTokenExpiresAt(client: Client): Date | null {
 
 export function getTokenInfo(client: Client | null): TokenInfo {
   if (!client) {
-    return { status: "unknown", secondsRemaining: null, expiresAt: null };
+    return { status: "unknown", secondsRemaining: null, expiresAt: null, canRefresh: false };
   }
 
+  const canRefresh = hasRefreshToken(client);
   const expiresAt = getTokenExpiresAt(client);
   if (!expiresAt) {
-    return { status: "unknown", secondsRemaining: null, expiresAt: null };
+    return { status: "unknown", secondsRemaining: null, expiresAt: null, canRefresh };
   }
 
   const now = Date.now();
   const remaining = Math.floor((expiresAt.getTime() - now) / 1000);
 
   if (remaining <= 0) {
-    return { status: "expired", secondsRemaining: 0, expiresAt: expiresAt.toISOString() };
+    return { status: "expired", secondsRemaining: 0, expiresAt: expiresAt.toISOString(), canRefresh };
   }
 
   if (remaining <= WARNING_THRESHOLD_SECONDS) {
-    return { status: "expiring-soon", secondsRemaining: remaining, expiresAt: expiresAt.toISOString() };
+    return { status: "expiring-soon", secondsRemaining: remaining, expiresAt: expiresAt.toISOString(), canRefresh };
   }
 
-  return { status: "valid", secondsRemaining: remaining, expiresAt: expiresAt.toISOString() };
+  return { status: "valid", secondsRemaining: remaining, expiresAt: expiresAt.toISOString(), canRefresh };
+}
+
+/** True when a silent refresh should be attempted now */
+export function shouldRefresh(info: TokenInfo): boolean {
+  return (
+    info.canRefresh &&
+    info.secondsRemaining !== null &&
+    info.secondsRemaining <= REFRESH_AHEAD_SECONDS
+  );
 }
 
 const RETURN_PATH_KEY = "epic_return_path";
 
+/** Remember the current page — including query and hash — for after the OAuth callback */
 export function saveReturnPath(): void {
-  const path = window.location.pathname;
-  if (path !== "/") {
-    sessionStorage.setItem(RETURN_PATH_KEY, path);
+  const { pathname, search, hash } = window.location;
+  if (pathname !== "/" && pathname !== "/callback") {
+    sessionStorage.setItem(RETURN_PATH_KEY, pathname + search + hash);
   }
 }
 
@@ -75,12 +110,6 @@ export function getReturnPath(): string | null {
   return path;
 }
 
-export function handleSessionExpired(): void {
-  saveReturnPath();
-  sessionStorage.clear();
-  window.location.assign("/");
-}
-
 export function formatTimeRemaining(seconds: number): string {
   const mins = Math.floor(seconds / 60);
   const secs = seconds % 60;
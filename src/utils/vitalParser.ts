@@ -7,8 +7,8 @@
 import type { Vital, VitalComponent } from "../types/vital";
 import type { SourceTag, ClinicalCode } from "../types/source";
 
-// LOINC codes for vital sign types
-const VITAL_TYPE_MAP: Record<string, Vital["vitalType"]> = {
+/** LOINC codes for vital sign types (shared with the C-CDA parser) */
+export const VITAL_TYPE_MAP: Record<string, Vital["vitalType"]> = {
   "85354-9": "blood-pressure",
   "8480-6": "blood-pressure",   // systolic (component)
   "8462-4": "blood-pressure",   // diastolic (component)
@@ -0,0 +1,32 @@
+// -----------------------------------------------------------
+// Pipeline Worker — Merge, conflicts and Tier 1 off the UI thread
+// -----------------------------------------------------------
+// Loaded by pipelineClient via `new Worker(new URL(...))`.
+// Tasks run one at a time in arrival order; a "cancel" for a
+// queued or running task is honoured at the next stage boundary.
+// -----------------------------------------------------------
+
+import type { PipelineRequest, PipelineTaskRequest, PipelineResponse } from "./pipelineProtocol";
+import { executePipelineTask } from "./pipelineTasks";
+
+const cancelled = new Set<number>();
+let queue: Promise<void> = Promise.resolve();
+
+function post(response: PipelineResponse): void {
+  self.postMessage(response);
+}
+
+self.onmessage = (event: MessageEvent<PipelineRequest>) => {
+  const request = event.data;
+
+  if (request.type === "cancel") {
+    cancelled.add(request.taskId);
+    return;
+  }
+
+  const task: PipelineTaskRequest = request;
+  queue = queue.then(async () => {
+    await executePipelineTask(task, post, () => cancelled.has(task.taskId));
+    cancelled.delete(task.taskId);
+  });
+};
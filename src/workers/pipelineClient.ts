@@ -0,0 +1,161 @@
+// -----------------------------------------------------------
+// Pipeline Client — Main-thread API for the analysis worker
+// -----------------------------------------------------------
+// useUnifiedData and useAIAnalysis go through here instead of
+// calling mergeAllDomains / detectAllConflicts / runTier1Analysis
+// directly, so large records never freeze rendering.
+//
+//   const task = runMergeInWorker(sources, overrides, patients, (stage) => ...);
+//   const result = await task.promise;   // null if cancelled
+//   task.cancel();                        // superseded by a refetch
+//
+// One worker is shared by the whole app and created lazily.
+// Where Workers are unavailable the same task code runs inline.
+// -----------------------------------------------------------
+
+import type { MergeInput } from "../sources/mergeEngine";
+import type { PatientDemographics, SourcePatient } from "../types/patient";
+import type { MergeOverride } from "../types/merged";
+import type { Tier1Results } from "../ai/types";
+import type { UnifiedDataForAI } from "../ai";
+import type {
+  PipelineStage,
+  PipelineTaskRequest,
+  PipelineResponse,
+  PipelineResult,
+  PipelineResults,
+  MergePipelineResult,
+} from "./pipelineProtocol";
+import { executePipelineTask } from "./pipelineTasks";
+
+export type { PipelineStage, MergePipelineResult } from "./pipelineProtocol";
+
+export interface PipelineTask<T> {
+  /** Resolves with the result, or null once the task is cancelled */
+  promise: Promise<T | null>;
+  /** Stop the task at its next stage boundary and resolve with null */
+  cancel: () => void;
+}
+
+interface PendingTask {
+  /** Settle with the worker's result — startTask narrows it to the task's kind */
+  resolve: (result: PipelineResult | null) => void;
+  reject: (error: Error) => void;
+  onProgress?: (stage: PipelineStage) => void;
+}
+
+type PipelineTaskType = PipelineTaskRequest["type"];
+
+const pending = new Map<number, PendingTask>();
+let nextTaskId = 1;
+let worker: Worker | null = null;
+
+function handleResponse(response: PipelineResponse): void {
+  const task = pending.get(response.taskId);
+  if (!task) return;
+
+  switch (response.type) {
+    case "progress":
+      task.onProgress?.(response.stage);
+      return;
+    case "result":
+      pending.delete(response.taskId);
+      task.resolve(response.result);
+      return;
+    case "cancelled":
+      pending.delete(response.taskId);
+      task.resolve(null);
+      return;
+    case "error":
+      pending.delete(response.taskId);
+      task.reject(new Error(response.message));
+      return;
+  }
+}
+
+function getWorker(): Worker | null {
+  if (worker || typeof Worker === "undefined") return worker;
+
+  try {
+    worker = new Worker(new URL("./pipeline.worker.ts", import.meta.url), { type: "module" });
+  } catch (err) {
+    if (import.meta.env.DEV) {
+      console.warn("[Pipeline] Worker unavailable — running on the main thread:", err);
+    }
+    return null;
+  }
+
+  worker.onmessage = (event: MessageEvent<PipelineResponse>) => handleResponse(event.data);
+  worker.onerror = (event) => {
+    // The worker itself died — fail everything in flight and start fresh next time
+    console.error("[Pipeline] Worker error:", event.message);
+    for (const [taskId, task] of pending) {
+      pending.delete(taskId);
+      task.reject(new Error(event.message || "Analysis worker failed"));
+    }
+    worker?.terminate();
+    worker = null;
+  };
+  return worker;
+}
+
+/** Does a worker result have the shape the given task kind produces? */
+function isResultFor<K extends PipelineTaskType>(type: K, result: PipelineResult): result is PipelineResults[K] {
+  return type === "merge" ? "mergeResult" in result : "analyzedAt" in result;
+}
+
+function startTask<K extends PipelineTaskType>(
+  request: Extract<PipelineTaskRequest, { type: K }>,
+  onProgress?: (stage: PipelineStage) => void
+): PipelineTask<PipelineResults[K]> {
+  const { taskId, type } = request;
+  let cancelled = false;
+
+  const promise = new Promise<PipelineResults[K] | null>((resolve, reject) => {
+    pending.set(taskId, {
+      resolve: (result) => {
+        if (result === null || isResultFor(type, result)) resolve(result);
+        else reject(new Error(`Analysis worker sent the wrong result for a ${type} task`));
+      },
+      reject,
+      onProgress,
+    });
+  });
+
+  const target = getWorker();
+  if (target) {
+    target.postMessage(request);
+  } else {
+    void executePipelineTask(request, handleResponse, () => cancelled);
+  }
+
+  return {
+    promise,
+    cancel: () => {
+      if (cancelled || !pending.has(taskId)) return;
+      cancelled = true;
+      // Resolve now — the worker's own "cancelled" reply is then ignored
+      pending.get(taskId)!.resolve(null);
+      pending.delete(taskId);
+      target?.postMessage({ type: "cancel", taskId });
+    },
+  };
+}
+
+/** Merge all sources (applying the patient's overrides) and detect conflicts in the worker */
+export function runMergeInWorker(
+  sources: MergeInput[],
+  overrides: MergeOverride[],
+  patients: SourcePatient[],
+  onProgress?: (stage: PipelineStage) => void
+): PipelineTask<MergePipelineResult> {
+  return startTask({ type: "merge", taskId: nextTaskId++, sources, overrides, patients }, onProgress);
+}
+
+/** Run Tier 1 (rule-based) analysis in the worker */
+export function runTier1InWorker(
+  patient: PatientDemographics,
+  data: UnifiedDataForAI
+): PipelineTask<Tier1Results> {
+  return startTask({ type: "tier1", taskId: nextTaskId++, patient, data });
+}
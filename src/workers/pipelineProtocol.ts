@@ -0,0 +1,56 @@
+// -----------------------------------------------------------
+// Pipeline Worker Protocol — Messages between UI and worker
+// -----------------------------------------------------------
+// Typed contract for the analysis worker (pipeline.worker.ts).
+// Every request carries a task id; the worker answers with any
+// number of "progress" messages followed by exactly one "result",
+// "cancelled" or "error" message for that id.
+//
+// Tasks:
+//   - "merge": mergeAllDomains → detectAllConflicts
+//   - "tier1": runTier1Analysis on already-merged data
+//
+// Cancellation is cooperative: a "cancel" message is picked up
+// between stages, so a superseded merge stops before its next
+// stage and never posts a result.
+// -----------------------------------------------------------
+
+import type { MergeInput, MergeResult } from "../sources/mergeEngine";
+import type { Conflict, MergeOverride } from "../types/merged";
+import type { PatientDemographics, SourcePatient } from "../types/patient";
+import type { Tier1Results } from "../ai/types";
+import type { UnifiedDataForAI } from "../ai";
+
+/** Pipeline stages reported through progress events */
+export type PipelineStage = "merge" | "conflicts" | "tier1";
+
+export interface MergePipelineResult {
+  mergeResult: MergeResult;
+  conflicts: Conflict[];
+}
+
+/** Result type of each task kind */
+export interface PipelineResults {
+  merge: MergePipelineResult;
+  tier1: Tier1Results;
+}
+
+export type PipelineResult = PipelineResults[keyof PipelineResults];
+
+// --- UI → worker ---
+
+export type PipelineRequest =
+  | { type: "merge"; taskId: number; sources: MergeInput[]; overrides: MergeOverride[]; patients: SourcePatient[] }
+  | { type: "tier1"; taskId: number; patient: PatientDemographics; data: UnifiedDataForAI }
+  | { type: "cancel"; taskId: number };
+
+/** Requests that start a task (everything except "cancel") */
+export type PipelineTaskRequest = Exclude<PipelineRequest, { type: "cancel" }>;
+
+// --- Worker → UI ---
+
+export type PipelineResponse =
+  | { type: "progress"; taskId: number; stage: PipelineStage }
+  | { type: "result"; taskId: number; result: PipelineResult }
+  | { type: "cancelled"; taskId: number }
+  | { type: "error"; taskId: number; message: string };
@@ -0,0 +1,53 @@
+// -----------------------------------------------------------
+// Pipeline Tasks — The work the analysis worker performs
+// -----------------------------------------------------------
+// Pure: no DOM, no storage, no React. Runs inside the worker,
+// or on the main thread when Workers are unavailable (the
+// pipeline client falls back to calling this directly).
+// -----------------------------------------------------------
+
+import { mergeAllDomains } from "../sources/mergeEngine";
+import { detectAllConflicts } from "../sources/conflictDetector";
+import { runTier1Analysis } from "../ai";
+import type { PipelineTaskRequest, PipelineResponse } from "./pipelineProtocol";
+
+/** Let queued messages (e.g. "cancel") run before the next stage */
+function yieldToMessages(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+/**
+ * Run one task, posting progress and the final outcome via `emit`.
+ * `isCancelled` is checked before every stage.
+ */
+export async function executePipelineTask(
+  request: PipelineTaskRequest,
+  emit: (response: PipelineResponse) => void,
+  isCancelled: () => boolean
+): Promise<void> {
+  const { taskId } = request;
+
+  try {
+    if (request.type === "merge") {
+      await yieldToMessages();
+      if (isCancelled()) return emit({ type: "cancelled", taskId });
+      emit({ type: "progress", taskId, stage: "merge" });
+      const mergeResult = mergeAllDomains(request.sources, request.overrides);
+
+      await yieldToMessages();
+      if (isCancelled()) return emit({ type: "cancelled", taskId });
+      emit({ type: "progress", taskId, stage: "conflicts" });
+      const conflicts = detectAllConflicts(mergeResult, request.patients);
+
+      emit({ type: "result", taskId, result: { mergeResult, conflicts } });
+      return;
+    }
+
+    await yieldToMessages();
+    if (isCancelled()) return emit({ type: "cancelled", taskId });
+    emit({ type: "progress", taskId, stage: "tier1" });
+    emit({ type: "result", taskId, result: runTier1Analysis(request.patient, request.data) });
+  } catch (err) {
+    emit({ type: "error", taskId, message: err instanceof Error ? err.message : String(err) });
+  }
+}
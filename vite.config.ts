@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
 import tailwindcss from "@tailwindcss/vite";
@@ -17,4 +18,11 @@ export default defineConfig({
       },
     },
   },
+  test: {
+    // SMART flow tests drive fhirclient's browser build against a local
+    // mock server (src/test); inline it so each simulated page load
+    // gets a fresh adapter
+    alias: [{ find: /^fhirclient$/, replacement: "fhirclient/lib/entry/browser.js" }],
+    server: { deps: { inline: ["fhirclient"] } },
+  },
 });